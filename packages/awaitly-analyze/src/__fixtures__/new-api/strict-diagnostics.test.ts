@@ -319,4 +319,34 @@ describe("Strict Mode Diagnostics", () => {
       expect(loopWarning).toBeUndefined();
     });
   });
+
+  describe("retirable-patch", () => {
+    const source = `
+      import { createWorkflow, ok } from "awaitly";
+      const workflow = createWorkflow("workflow", { checkFraud: async () => ok({}) });
+      export async function run() {
+        return await workflow.run(async ({ step, deps, ctx }) => {
+          if (ctx.patched("add-fraud-check")) {
+            await step('fraudCheck', () => deps.checkFraud(), { errors: [] });
+          }
+        });
+      }
+    `;
+    const retirable = (runPatches?: Array<Record<string, boolean>>) =>
+      validateStrict(analyzeWorkflowSource(source)[0], { runPatches }).diagnostics.filter(
+        (d) => d.rule === "retirable-patch"
+      );
+
+    it("warns when every in-flight run has applied the patch", () => {
+      const [warning] = retirable([{ "add-fraud-check": true }, { "add-fraud-check": true }]);
+      expect(warning?.message).toContain('"add-fraud-check"');
+      expect(warning?.code).toBe("workflow-retirable-patch");
+    });
+
+    it("stays quiet while a run has not applied it, or without run state", () => {
+      expect(retirable([{ "add-fraud-check": true }, { "add-fraud-check": false }])).toHaveLength(0);
+      expect(retirable([{ "add-fraud-check": true }, {}])).toHaveLength(0);
+      expect(retirable()).toHaveLength(0);
+    });
+  });
 });
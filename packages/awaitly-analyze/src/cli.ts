@@ -8,6 +8,7 @@
  *   npx awaitly-analyze ./src/workflows/checkout.ts --format=json
  *   npx awaitly-analyze ./src/workflows/checkout.ts --html -o
  *   npx awaitly-analyze ./src/workflows/checkout.ts --keys --direction=LR
+ *   npx awaitly-analyze states export --store=./stores/old.mjs > states.ndjson
  */
 
 import { resolve, dirname, basename, extname, join } from "path";
@@ -67,6 +68,7 @@ interface CliOptions {
   doctor: boolean;
   assertDiagrammable: boolean;
   trace: string;
+  states: string;
   dev: boolean;
   devPort: number;
 }
@@ -77,6 +79,7 @@ awaitly-analyze - Static workflow analysis tool
 
 Usage:
   awaitly-analyze <file> [options]
+  awaitly-analyze states <export|import> --store=<module> [options]
 
 Arguments:
   <file>                Path to TypeScript file containing workflow(s)
@@ -112,8 +115,14 @@ Options:
                         deterministic (CI gate); pairs with --format=json
   --trace=<events.json> Overlay a recorded run's executed path onto the static
                         diagram (JSON array of workflow events)
+  --states=<export>     With --doctor: report ctx.patched() checks every
+                        in-flight run in a 'states export' has applied
   --help, -h             Show this help message
 
+Commands:
+  states export|import  Move durable workflow state between stores as NDJSON
+                        (see: awaitly-analyze states --help)
+
 Auto-detection:
   When neither --railway nor --format is specified, the best diagram type is
   inferred from workflow structure (e.g. railway for linear flows, mermaid
@@ -135,6 +144,8 @@ Examples:
   awaitly-analyze --diff v1.ts v2.ts --format=json
   awaitly-analyze --diff v1.ts v2.ts --format=mermaid --regression
   awaitly-analyze ./src/workflows/checkout.ts --doctor
+  awaitly-analyze states export --store=./stores/old.mjs --prefix=order- > states.ndjson
+  awaitly-analyze states import --store=./stores/new.mjs --input=states.ndjson
 `);
 }
 
@@ -166,6 +177,7 @@ export function parseArgs(args: string[]): CliOptions {
     doctor: false,
     assertDiagrammable: false,
     trace: "",
+    states: "",
     dev: false,
     devPort: 4747,
   };
@@ -266,6 +278,13 @@ export function parseArgs(args: string[]): CliOptions {
         process.exit(1);
       }
       options.trace = value;
+    } else if (arg.startsWith("--states=")) {
+      const value = arg.slice("--states=".length).trim();
+      if (value.length === 0) {
+        console.error("Error: --states requires a path to an NDJSON state export.");
+        process.exit(1);
+      }
+      options.states = value;
     } else if (!arg.startsWith("-")) {
       if (options.diff) {
         options.diffSources.push(arg);
@@ -284,6 +303,23 @@ export function parseArgs(args: string[]): CliOptions {
   return options;
 }
 
+/**
+ * `ctx.patched()` answers of each in-flight run in an NDJSON state export
+ * (`awaitly-analyze states export`). Completed runs no longer replay.
+ */
+function readRunPatches(path: string): Array<Record<string, boolean>> {
+  const runPatches: Array<Record<string, boolean>> = [];
+  for (const line of readFileSync(resolve(path), "utf-8").split("\n")) {
+    if (line.trim() === "") continue;
+    const { snapshot } = JSON.parse(line) as {
+      snapshot?: { execution?: { status?: string }; metadata?: { patches?: Record<string, boolean> } };
+    };
+    if (snapshot?.execution?.status === "completed") continue;
+    runPatches.push(snapshot?.metadata?.patches ?? {});
+  }
+  return runPatches;
+}
+
 function getOutputFilePath(
   inputPath: string,
   suffix: string,
@@ -298,6 +334,14 @@ function getOutputFilePath(
 
 function main(): void {
   const args = process.argv.slice(2);
+
+  if (args[0] === "states") {
+    void import("./states")
+      .then(({ runStatesCommand }) => runStatesCommand(args.slice(1)))
+      .then((code) => process.exit(code));
+    return;
+  }
+
   const options = parseArgs(args);
 
   if (options.help) {
@@ -439,6 +483,11 @@ function main(): void {
     return;
   }
 
+  if (options.states && !options.doctor) {
+    console.error("Error: --states requires --doctor.");
+    process.exit(1);
+  }
+
   if (!options.filePath) {
     console.error("Error: No file path provided.\n");
     printHelp();
@@ -561,8 +610,9 @@ function runAnalysis(options: CliOptions, filePath: string): void {
         diagnostics: ReturnType<typeof validateStrict>;
         diagrammability: ReturnType<typeof computeDiagrammability>;
       }> = [];
+      const runPatches = options.states ? readRunPatches(options.states) : undefined;
       for (const ir of workflows) {
-        const strict = validateStrict(ir);
+        const strict = validateStrict(ir, { runPatches });
         const diagrammability = computeDiagrammability(ir);
         doctorResults.push({
           workflowName: ir.root.workflowName,
@@ -0,0 +1,77 @@
+/**
+ * Tests for `awaitly-analyze states` (export/import of durable workflow state).
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createMemorySnapshotStore, type SnapshotStore, type WorkflowSnapshot } from "awaitly/durable";
+import { parseStatesArgs, runStatesCommand } from "./states";
+
+const stores = globalThis as { __statesTestStores?: Record<string, SnapshotStore> };
+
+const snapshot = (status: "running" | "suspended"): WorkflowSnapshot => ({
+  formatVersion: 1,
+  steps: { first: { ok: true, value: "one" } },
+  execution: { status, lastUpdated: "2026-10-19T00:00:00.000Z" },
+});
+
+describe("parseStatesArgs", () => {
+  it("parses the command and its options", () => {
+    expect(
+      parseStatesArgs(["import", "--store=./stores/pg.mjs", "--input=states.ndjson", "--on-conflict=skip"])
+    ).toMatchObject({ command: "import", store: "./stores/pg.mjs", file: "states.ndjson", onConflict: "skip" });
+    expect(parseStatesArgs(["export", "--store=s.mjs", "--prefix=order-", "--limit=5"])).toMatchObject({
+      command: "export",
+      prefix: "order-",
+      limit: 5,
+      onConflict: "fail",
+    });
+  });
+});
+
+describe("runStatesCommand", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "awaitly-states-"));
+    for (const name of ["source", "target"]) {
+      writeFileSync(join(dir, `${name}.mjs`), `export default () => globalThis.__statesTestStores.${name};\n`);
+    }
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+    delete stores.__statesTestStores;
+  });
+
+  it("exports runs from one store and imports them into another", async () => {
+    const source = createMemorySnapshotStore();
+    const target = createMemorySnapshotStore();
+    stores.__statesTestStores = { source, target };
+    await source.save("order-1", snapshot("suspended"));
+    await source.save("order-2", snapshot("running"));
+    await source.save("invoice-1", snapshot("running"));
+    await target.save("order-2", snapshot("suspended"));
+    const file = join(dir, "states.ndjson");
+
+    expect(await runStatesCommand(["export", `--store=${join(dir, "source.mjs")}`, "--prefix=order-", `--output=${file}`])).toBe(0);
+    const ids = readFileSync(file, "utf-8")
+      .trimEnd()
+      .split("\n")
+      .map((line) => (JSON.parse(line) as { id: string }).id);
+    expect(ids.sort()).toEqual(["order-1", "order-2"]);
+
+    const importArgs = ["import", `--store=${join(dir, "target.mjs")}`, `--input=${file}`];
+    expect(await runStatesCommand(importArgs)).toBe(1);
+    expect(await runStatesCommand([...importArgs, "--on-conflict=skip"])).toBe(0);
+    expect(await target.load("order-1")).toEqual(snapshot("suspended"));
+    expect(await target.load("order-2")).toEqual(snapshot("suspended"));
+  });
+
+  it("fails when the store module does not export a store", async () => {
+    writeFileSync(join(dir, "empty.mjs"), "export default {};\n");
+    expect(await runStatesCommand(["export", `--store=${join(dir, "empty.mjs")}`])).toBe(1);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * `awaitly-analyze states` - move durable workflow state between stores.
+ *
+ * Operators point it at a module exporting the store to read or write, so
+ * any adapter works without this package depending on it:
+ *
+ *   // stores/old.mjs
+ *   import { postgres } from "awaitly-postgres";
+ *   export default postgres(process.env.OLD_DATABASE_URL);
+ *
+ * Usage:
+ *   npx awaitly-analyze states export --store=./stores/old.mjs --prefix=order- > states.ndjson
+ *   npx awaitly-analyze states import --store=./stores/new.mjs --on-conflict=skip < states.ndjson
+ */
+
+import { resolve } from "path";
+import { pathToFileURL } from "url";
+import { createReadStream, createWriteStream } from "fs";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { durable, isImportStatesFailed, type SnapshotStore } from "awaitly/durable";
+
+type StatesCommand = "export" | "import";
+type OnConflict = "fail" | "skip" | "overwrite";
+
+export interface StatesCliOptions {
+  command: StatesCommand | "";
+  store: string;
+  prefix: string | undefined;
+  limit: number | undefined;
+  onConflict: OnConflict;
+  /** File to write (export) or read (import); stdout/stdin when empty */
+  file: string;
+  help: boolean;
+}
+
+export function printStatesHelp(): void {
+  console.log(`
+awaitly-analyze states - Export and import durable workflow state
+
+Usage:
+  awaitly-analyze states export --store=<module> [options]
+  awaitly-analyze states import --store=<module> [options]
+
+Commands:
+  export                Write stored runs as NDJSON ({ id, snapshot } per line)
+  import                Save NDJSON exported by 'states export' into a store
+
+Options:
+  --store=<module>      Module whose default export is a SnapshotStore,
+                        or a (possibly async) function returning one
+  --prefix=<prefix>     Export only runs whose id starts with <prefix>
+  --limit=<n>           Export at most <n> runs (default: all)
+  --output=<path>       Export to <path> instead of stdout
+  --input=<path>        Import from <path> instead of stdin
+  --on-conflict=<mode>  Import: fail (default), skip, or overwrite ids that
+                        already have state
+  --help, -h            Show this help message
+
+Export takes no locks: runs still changing while exported, or with invalid
+state, are skipped and listed on stderr, and the command exits non-zero.
+Stop workers first for a complete export.
+
+Examples:
+  awaitly-analyze states export --store=./stores/memory.mjs --prefix=order- > states.ndjson
+  awaitly-analyze states import --store=./stores/postgres.mjs --input=states.ndjson --on-conflict=skip
+`);
+}
+
+export function parseStatesArgs(args: string[]): StatesCliOptions {
+  const options: StatesCliOptions = {
+    command: "",
+    store: "",
+    prefix: undefined,
+    limit: undefined,
+    onConflict: "fail",
+    file: "",
+    help: false,
+  };
+
+  for (const arg of args) {
+    if (arg === "--help" || arg === "-h") {
+      options.help = true;
+    } else if (arg.startsWith("--store=")) {
+      options.store = arg.slice("--store=".length).trim();
+    } else if (arg.startsWith("--prefix=")) {
+      options.prefix = arg.slice("--prefix=".length);
+    } else if (arg.startsWith("--limit=")) {
+      const limit = Number(arg.slice("--limit=".length));
+      if (!Number.isInteger(limit) || limit < 1) {
+        console.error("Error: --limit requires a positive integer.");
+        process.exit(1);
+      }
+      options.limit = limit;
+    } else if (arg.startsWith("--output=") || arg.startsWith("--input=")) {
+      options.file = arg.slice(arg.indexOf("=") + 1).trim();
+    } else if (arg.startsWith("--on-conflict=")) {
+      const mode = arg.slice("--on-conflict=".length).trim();
+      if (mode === "fail" || mode === "skip" || mode === "overwrite") {
+        options.onConflict = mode;
+      } else {
+        console.error(`Unknown conflict mode: ${mode}. Use fail, skip, or overwrite.`);
+        process.exit(1);
+      }
+    } else if ((arg === "export" || arg === "import") && !options.command) {
+      options.command = arg;
+    } else {
+      console.error(`Unknown argument: ${arg}`);
+      process.exit(1);
+    }
+  }
+
+  return options;
+}
+
+async function loadStore(modulePath: string): Promise<SnapshotStore> {
+  const mod = (await import(pathToFileURL(resolve(modulePath)).href)) as { default?: unknown };
+  const exported = typeof mod.default === "function" ? await (mod.default as () => unknown)() : mod.default;
+  const store = exported as Partial<SnapshotStore> | undefined;
+  if (!store || typeof store.load !== "function" || typeof store.save !== "function" || typeof store.list !== "function") {
+    throw new Error(`${modulePath} does not export a SnapshotStore (default export, or a function returning one).`);
+  }
+  return store as SnapshotStore;
+}
+
+/**
+ * Run `states export` / `states import` and resolve with the exit code.
+ */
+export async function runStatesCommand(args: string[]): Promise<number> {
+  const options = parseStatesArgs(args);
+  if (options.help) {
+    printStatesHelp();
+    return 0;
+  }
+  if (!options.command) {
+    console.error("Error: Expected 'export' or 'import'.\n");
+    printStatesHelp();
+    return 1;
+  }
+  if (!options.store) {
+    console.error("Error: --store=<module> is required.");
+    return 1;
+  }
+
+  let store: SnapshotStore;
+  try {
+    store = await loadStore(options.store);
+  } catch (err: unknown) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    return 1;
+  }
+
+  try {
+    if (options.command === "export") {
+      const skipped: string[] = [];
+      const lines = durable.exportStates(store, {
+        ...(options.prefix !== undefined ? { prefix: options.prefix } : {}),
+        ...(options.limit !== undefined ? { limit: options.limit } : {}),
+        onSkipped: (id, reason) => skipped.push(`${id} (${reason})`),
+      });
+      await pipeline(Readable.from(lines), options.file ? createWriteStream(options.file) : process.stdout);
+      if (skipped.length > 0) {
+        console.error(`Skipped ${skipped.length} run(s):\n  ${skipped.join("\n  ")}`);
+        return 1;
+      }
+      return 0;
+    }
+
+    const input = options.file ? createReadStream(options.file) : process.stdin;
+    const result = await durable.importStates(store, input as AsyncIterable<Uint8Array>, { onConflict: options.onConflict });
+    if (!result.ok) {
+      if (isImportStatesFailed(result.error)) {
+        console.error(`Error: ${result.error.message} (${result.error.imported} run(s) imported before it)`);
+      } else {
+        console.error(`Error: ${result.error.message}`);
+      }
+      return 1;
+    }
+    console.error(`Imported ${result.value.imported} run(s), skipped ${result.value.skipped}.`);
+    return 0;
+  } catch (err: unknown) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    return 1;
+  } finally {
+    await store.close();
+  }
+}
@@ -57,7 +57,8 @@ export type StrictRule =
   | "unlabelled-conditional"
   | "unlabelled-loop"
   | "parallel-missing-errors"
-  | "loop-missing-collect";
+  | "loop-missing-collect"
+  | "retirable-patch";
 
 /**
  * Result of strict mode validation.
@@ -85,15 +86,27 @@ export interface StrictValidationOptions {
   requireLabelledConditionals?: boolean;
   /** Treat warnings as errors */
   warningsAsErrors?: boolean;
+  /**
+   * `ctx.patched()` answers recorded by each in-flight durable run
+   * (`metadata.patches`, e.g. from `awaitly-analyze states export`). When
+   * given, a patch every run has applied is reported as retirable.
+   */
+  runPatches?: ReadonlyArray<Readonly<Record<string, boolean>>> | undefined;
 }
 
-const DEFAULT_OPTIONS: Required<StrictValidationOptions> = {
+type ResolvedOptions = Required<Omit<StrictValidationOptions, "runPatches">> &
+  Pick<StrictValidationOptions, "runPatches">;
+
+const DEFAULT_OPTIONS: ResolvedOptions = {
   requireStepId: true,
   requireErrors: true,
   requireLabelledConditionals: true,
   warningsAsErrors: false,
 };
 
+/** Patch names checked with `ctx.patched("name")` in a condition. */
+const PATCHED_CALL = /\bpatched\(\s*(["'`])([^"'`]+)\1\s*\)/g;
+
 /**
  * Map analyzer-internal strict-rule names to canonical awaitly slugs.
  *
@@ -120,6 +133,7 @@ export const STRICT_RULE_TO_SLUG: Record<StrictRule, AwaitlySlug> = {
   "parallel-missing-errors": "result-require-handling",
   // Missing `collect` is fundamentally a Result-handling gap inside a loop.
   "loop-missing-collect": "result-require-handling",
+  "retirable-patch": "workflow-retirable-patch",
 };
 
 function createDiagnostic(input: {
@@ -150,7 +164,7 @@ export function validateStrict(
   ir: StaticWorkflowIR,
   options: StrictValidationOptions = {}
 ): StrictValidationResult {
-  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const opts: ResolvedOptions = { ...DEFAULT_OPTIONS, ...options };
   const diagnostics: StrictDiagnostic[] = [];
 
   // Collect all steps and validate each
@@ -176,13 +190,27 @@ export function validateStrict(
  */
 function validateNodes(
   nodes: StaticFlowNode[],
-  opts: Required<StrictValidationOptions>,
+  opts: ResolvedOptions,
   diagnostics: StrictDiagnostic[]
 ): void {
   for (const node of nodes) {
     if (node.type === "step") {
       validateStep(node, opts, diagnostics);
     } else if (node.type === "conditional") {
+      if (opts.runPatches) {
+        for (const [, , patch] of node.condition.matchAll(PATCHED_CALL)) {
+          // A run that never answered may still replay history from before the patch.
+          if (!opts.runPatches.every((patches) => patches[patch!] === true)) continue;
+          diagnostics.push(createDiagnostic({
+            rule: "retirable-patch",
+            severity: "warning",
+            message: `Patch "${patch}" is applied in every in-flight run and can be retired`,
+            fix: `Replace the ctx.patched("${patch}") check with its patched branch`,
+            location: node.location,
+            nodeId: node.id,
+          }));
+        }
+      }
       // Check for unlabelled conditionals with steps
       if (opts.requireLabelledConditionals) {
         const hasStepsInBranches =
@@ -256,7 +284,7 @@ function validateNodes(
  */
 function validateStep(
   node: StaticStepNode,
-  opts: Required<StrictValidationOptions>,
+  opts: ResolvedOptions,
   diagnostics: StrictDiagnostic[]
 ): void {
   // Check for missing step ID (new API): no stepId, or analyzer set "<missing>" for legacy step(fn, opts)
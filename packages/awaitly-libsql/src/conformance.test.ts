@@ -0,0 +1,32 @@
+import { describe, it } from "vitest";
+import {
+  runSnapshotStoreConformance,
+  runSnapshotRevisionsConformance,
+  runSnapshotQueryConformance,
+  runWorkflowLockConformance,
+} from "awaitly/testing";
+import { libsql, type LibSqlStore, type WorkflowLock } from "./index";
+
+runSnapshotStoreConformance(() => libsql("file::memory:"), { describe, it, name: "libsql() SnapshotStore conformance" });
+
+runSnapshotRevisionsConformance(() => libsql("file::memory:"), { describe, it, name: "libsql() SnapshotRevisions conformance" });
+
+runSnapshotRevisionsConformance(() => libsql({ url: "file::memory:", journal: true }), {
+  describe,
+  it,
+  name: "libsql() SnapshotRevisions conformance with a journal",
+});
+
+runSnapshotQueryConformance(() => libsql("file::memory:"), { describe, it, name: "libsql() SnapshotQuery conformance" });
+
+runSnapshotQueryConformance(() => libsql({ url: "file::memory:", journal: true }), {
+  describe,
+  it,
+  name: "libsql() SnapshotQuery conformance with a journal",
+});
+
+runWorkflowLockConformance(() => libsql({ url: "file::memory:", lock: {} }) as LibSqlStore & WorkflowLock, {
+  describe,
+  it,
+  name: "libsql() WorkflowLock conformance",
+});
@@ -7,24 +7,53 @@
  */
 
 import { createClient, type Client } from "@libsql/client";
-import type { WorkflowSnapshot, SnapshotStore } from "awaitly/durable";
-import type { WorkflowLock } from "awaitly/durable";
+import type {
+  WorkflowSnapshot,
+  SnapshotStore,
+  QueueStore,
+  SnapshotJournal,
+  SnapshotSaveOptions,
+  SnapshotQuery,
+  SnapshotQueryOptions,
+  SnapshotQueryPage,
+} from "awaitly/durable";
+import type { WorkflowLock, AsyncStepCache } from "awaitly/durable";
 import {
   type ResumeState,
   type StoreSaveInput,
   type StoreLoadResult,
   isWorkflowSnapshot,
+  mergeSnapshots,
   isResumeState,
   isSerializedResumeState,
   serializeResumeState,
   deserializeResumeState,
+  encodeSnapshotCursor,
+  decodeSnapshotCursor,
+  SnapshotConflictError,
 } from "awaitly/durable";
-import { createLibSqlLock, type LibSqlLockOptions } from "./libsql-lock";
+import { createLibSqlLock, SQLITE_NOW_ISO, type LibSqlLockOptions } from "./libsql-lock";
+import { createLibSqlStepCache, type LibSqlStepCacheOptions } from "./libsql-step-cache";
 
 // Re-export types for convenience
-export type { SnapshotStore, WorkflowSnapshot } from "awaitly/durable";
+export type {
+  SnapshotStore,
+  WorkflowSnapshot,
+  QueueStore,
+  SnapshotJournal,
+  SnapshotRevisions,
+  SnapshotSaveOptions,
+  SnapshotQuery,
+  SnapshotQueryOptions,
+  SnapshotQueryPage,
+} from "awaitly/durable";
+export { SnapshotConflictError } from "awaitly/durable";
 export type { WorkflowLock } from "awaitly/durable";
 export type { LibSqlLockOptions } from "./libsql-lock";
+export { createLibSqlStepCache, type LibSqlStepCacheOptions } from "./libsql-step-cache";
+export type { AsyncStepCache } from "awaitly/durable";
+export { libsqlStreamStore, type LibSqlStreamStoreOptions, type LibSqlStreamStore } from "./libsql-stream-store";
+export type { StreamStore } from "awaitly/durable";
 export type { StoreSaveInput, StoreLoadResult } from "awaitly/durable";
 
 // =============================================================================
@@ -47,15 +76,34 @@ export interface LibSqlOptions {
   client?: Client;
   /** Cross-process lock options. When set, the store implements WorkflowLock. */
   lock?: LibSqlLockOptions;
+  /**
+   * Keep the step deltas durable.run appends in a `<table>_journal` table
+   * instead of rewriting the snapshot after every step. When set, the store
+   * implements SnapshotJournal. A snapshot's deltas are folded into it once
+   * `compactEvery` have accumulated. @default { compactEvery: 100 }
+   */
+  journal?: boolean | { compactEvery?: number };
 }
 
-/** LibSQL store with widened save/load for WorkflowSnapshot and ResumeState. Compatible with SnapshotStore for snapshot-only usage. */
-export interface LibSqlStore extends Partial<WorkflowLock> {
-  save(id: string, state: StoreSaveInput): Promise<void>;
+/**
+ * LibSQL store with widened save/load for WorkflowSnapshot and ResumeState. Compatible with SnapshotStore for snapshot-only usage.
+ * Implements QueueStore with a single `UPDATE … RETURNING`, which SQLite runs as one write, and
+ * SnapshotRevisions with a `revision` column checked in the same write, and SnapshotQuery with
+ * indexes on the workflow name and status.
+ */
+export interface LibSqlStore extends Partial<WorkflowLock>, Partial<SnapshotJournal>, QueueStore, SnapshotQuery {
+  /** Upsert, or with `options.expectedRevision` write only at that revision (else SnapshotConflictError). */
+  save(id: string, state: StoreSaveInput, options?: SnapshotSaveOptions): Promise<void>;
   load(id: string): Promise<StoreLoadResult>;
+  /** `load` with the row's revision, for a later conditional save. */
+  loadRevision(id: string): Promise<{ snapshot: NonNullable<StoreLoadResult>; revision: number } | null>;
   loadResumeState(id: string): Promise<ResumeState | null>;
   delete(id: string): Promise<void>;
   list(options?: { prefix?: string; limit?: number }): Promise<Array<{ id: string; updatedAt: string }>>;
+  /** Filter by workflow name, status, write time and metadata, a page at a time. */
+  query(options?: SnapshotQueryOptions): Promise<SnapshotQueryPage>;
+  /** An AsyncStepCache in this database, sharing the store's client. */
+  stepCache(options?: LibSqlStepCacheOptions): AsyncStepCache;
   close(): Promise<void>;
 }
 
@@ -63,6 +111,27 @@ export interface LibSqlStore extends Partial<WorkflowLock> {
 // libsql() - One-liner Snapshot Store Setup
 // =============================================================================
 
+// Queued runs are due at metadata.runAt (older rows only have enqueuedAt)
+// and claimed highest metadata.priority first.
+const QUEUE_RUN_AT = `COALESCE(json_extract(snapshot, '$.metadata.runAt'), json_extract(snapshot, '$.metadata.enqueuedAt'))`;
+const QUEUE_PRIORITY = `COALESCE(json_extract(snapshot, '$.metadata.priority'), 0)`;
+
+// Query filters, each backed by an expression index.
+const WORKFLOW_NAME = `json_extract(snapshot, '$.metadata.workflowName')`;
+const STATUS = `json_extract(snapshot, '$.execution.status')`;
+
+const queuedRunAt = (snapshot: WorkflowSnapshot) =>
+  String(snapshot.metadata?.runAt ?? snapshot.metadata?.enqueuedAt ?? "");
+const queuedPriority = (snapshot: WorkflowSnapshot) =>
+  typeof snapshot.metadata?.priority === "number" ? snapshot.metadata.priority : 0;
+
+function compareQueued(a: { snapshot: WorkflowSnapshot }, b: { snapshot: WorkflowSnapshot }): number {
+  return (
+    queuedPriority(b.snapshot) - queuedPriority(a.snapshot) ||
+    queuedRunAt(a.snapshot).localeCompare(queuedRunAt(b.snapshot))
+  );
+}
+
 /**
  * Create a snapshot store backed by libSQL / SQLite.
  * Save accepts WorkflowSnapshot or ResumeState; load returns whichever was stored.
@@ -116,6 +185,9 @@ export function libsql(urlOrOptions: string | LibSqlOptions): LibSqlStore {
 
   let tableCreated = false;
 
+  const journal = opts.journal ? { compactEvery: 100, ...(opts.journal === true ? {} : opts.journal) } : null;
+  const journalTable = `${tableName}_journal`;
+
   // Create lock if requested
   const lock = opts.lock ? createLibSqlLock(client, opts.lock) : null;
 
@@ -125,41 +197,177 @@ export function libsql(urlOrOptions: string | LibSqlOptions): LibSqlStore {
       CREATE TABLE IF NOT EXISTS ${tableName} (
         id TEXT PRIMARY KEY,
         snapshot TEXT NOT NULL,
-        updated_at TEXT DEFAULT (datetime('now'))
+        updated_at TEXT DEFAULT (${SQLITE_NOW_ISO}),
+        revision INTEGER NOT NULL DEFAULT 1
       )
     `);
+    // Tables created before revisions existed
+    const columns = await client.execute(`PRAGMA table_info(${tableName})`);
+    if (!columns.rows.some(column => column.name === "revision")) {
+      await client.execute(`ALTER TABLE ${tableName} ADD COLUMN revision INTEGER NOT NULL DEFAULT 1`);
+    }
     await client.execute(`
       CREATE INDEX IF NOT EXISTS ${tableName}_updated_at_idx ON ${tableName} (updated_at DESC)
     `);
+    await client.execute(`
+      CREATE INDEX IF NOT EXISTS ${tableName}_queue_due_idx ON ${tableName} (
+        json_extract(snapshot, '$.metadata.engineState'),
+        ${QUEUE_PRIORITY} DESC,
+        ${QUEUE_RUN_AT}
+      )
+    `);
+    await client.execute(`
+      CREATE INDEX IF NOT EXISTS ${tableName}_workflow_name_idx ON ${tableName} (${WORKFLOW_NAME}, updated_at DESC)
+    `);
+    await client.execute(`
+      CREATE INDEX IF NOT EXISTS ${tableName}_status_idx ON ${tableName} (${STATUS}, updated_at DESC)
+    `);
+    if (journal) {
+      await client.execute(`
+        CREATE TABLE IF NOT EXISTS ${journalTable} (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          id TEXT NOT NULL,
+          delta TEXT NOT NULL
+        )
+      `);
+      await client.execute(`
+        CREATE INDEX IF NOT EXISTS ${journalTable}_id_idx ON ${journalTable} (id, seq)
+      `);
+    }
     tableCreated = true;
   };
 
+  /** The stored row for `fullId` and its journaled deltas, oldest first. */
+  const readState = async (
+    fullId: string
+  ): Promise<{ raw: unknown; revision: number; deltas: Array<{ seq: number; delta: WorkflowSnapshot }> } | null> => {
+    const result = await client.execute({
+      sql: `SELECT snapshot, revision FROM ${tableName} WHERE id = ?`,
+      args: [fullId],
+    });
+    if (result.rows.length === 0) return null;
+    const raw = JSON.parse(result.rows[0].snapshot as string) as unknown;
+    const revision = Number(result.rows[0].revision);
+    if (!journal) return { raw, revision, deltas: [] };
+    const deltas = await client.execute({
+      sql: `SELECT seq, delta FROM ${journalTable} WHERE id = ? ORDER BY seq`,
+      args: [fullId],
+    });
+    return {
+      raw,
+      revision,
+      deltas: deltas.rows.map(row => ({
+        seq: Number(row.seq),
+        delta: JSON.parse(row.delta as string) as WorkflowSnapshot,
+      })),
+    };
+  };
+
+  const fold = (raw: unknown, deltas: Array<{ delta: WorkflowSnapshot }>): WorkflowSnapshot =>
+    deltas.reduce((snapshot, { delta }) => mergeSnapshots(snapshot, delta), raw as WorkflowSnapshot);
+
+  const toLoadResult = ({ raw, deltas }: { raw: unknown; deltas: Array<{ delta: WorkflowSnapshot }> }): NonNullable<StoreLoadResult> => {
+    if (isSerializedResumeState(raw)) return deserializeResumeState(raw);
+    if (deltas.length > 0) return fold(raw, deltas);
+    if (isWorkflowSnapshot(raw)) return raw;
+    return raw as WorkflowSnapshot;
+  };
+
+  /** The error for a write to `id` rejected at `expectedRevision`. */
+  const conflict = async (id: string, expectedRevision: number | null): Promise<SnapshotConflictError> => {
+    const result = await client.execute({
+      sql: `SELECT revision FROM ${tableName} WHERE id = ?`,
+      args: [prefix + id],
+    });
+    return new SnapshotConflictError(id, expectedRevision, result.rows.length === 0 ? null : Number(result.rows[0]!.revision));
+  };
+
+  // In a batch, the statements after a guarded write only apply when it
+  // changed a row: changes() counts the rows of the last completed statement.
+  const AFTER_WRITE = "changes() > 0";
+
+  /** Fold `fullId`'s journaled deltas into its snapshot row. */
+  const compact = async (fullId: string): Promise<void> => {
+    const state = await readState(fullId);
+    if (!state || state.deltas.length === 0) return;
+    const json = JSON.stringify(fold(state.raw, state.deltas));
+    // Folding leaves what load returns unchanged, so the revision stays; a
+    // write since the read moved it, and then the fold is skipped.
+    await client.batch(
+      [
+        {
+          sql: `UPDATE ${tableName} SET snapshot = ?, updated_at = ${SQLITE_NOW_ISO} WHERE id = ? AND revision = ?`,
+          args: [json, fullId, state.revision],
+        },
+        {
+          sql: `DELETE FROM ${journalTable} WHERE id = ? AND seq <= ? AND ${AFTER_WRITE}`,
+          args: [fullId, state.deltas[state.deltas.length - 1]!.seq],
+        },
+      ],
+      "write"
+    );
+  };
+
+  const setEngineState = async (id: string, engineState: string): Promise<void> => {
+    await ensureTable();
+    // Deltas carry metadata too, so fold them in before changing it.
+    if (journal) await compact(prefix + id);
+    await client.execute({
+      sql: `UPDATE ${tableName}
+            SET snapshot = json_set(snapshot, '$.metadata.engineState', ?), updated_at = ${SQLITE_NOW_ISO},
+                revision = revision + 1
+            WHERE id = ? AND json_type(snapshot, '$.metadata') = 'object'`,
+      args: [engineState, prefix + id],
+    });
+  };
+
   const store: LibSqlStore = {
-    async save(id: string, state: StoreSaveInput): Promise<void> {
+    async save(id: string, state: StoreSaveInput, options?: SnapshotSaveOptions): Promise<void> {
       await ensureTable();
       const fullId = prefix + id;
       const toStore = isResumeState(state) ? serializeResumeState(state) : state;
       const json = JSON.stringify(toStore);
-      await client.execute({
-        sql: `INSERT INTO ${tableName} (id, snapshot, updated_at)
-              VALUES (?, ?, datetime('now'))
-              ON CONFLICT(id) DO UPDATE SET snapshot = ?, updated_at = datetime('now')`,
-        args: [fullId, json, json],
-      });
+      const expectedRevision = options?.expectedRevision;
+      const write =
+        expectedRevision === undefined
+          ? {
+              sql: `INSERT INTO ${tableName} (id, snapshot, updated_at)
+                    VALUES (?, ?, ${SQLITE_NOW_ISO})
+                    ON CONFLICT(id) DO UPDATE SET snapshot = ?, updated_at = ${SQLITE_NOW_ISO}, revision = revision + 1`,
+              args: [fullId, json, json],
+            }
+          : expectedRevision === null
+            ? {
+                sql: `INSERT INTO ${tableName} (id, snapshot, updated_at)
+                      VALUES (?, ?, ${SQLITE_NOW_ISO})
+                      ON CONFLICT(id) DO NOTHING`,
+                args: [fullId, json],
+              }
+            : {
+                sql: `UPDATE ${tableName} SET snapshot = ?, updated_at = ${SQLITE_NOW_ISO}, revision = revision + 1
+                      WHERE id = ? AND revision = ?`,
+                args: [json, fullId, expectedRevision],
+              };
+      const [saved] = journal
+        ? // A full save supersedes the journal.
+          await client.batch(
+            [write, { sql: `DELETE FROM ${journalTable} WHERE id = ? AND ${AFTER_WRITE}`, args: [fullId] }],
+            "write"
+          )
+        : [await client.execute(write)];
+      if (expectedRevision !== undefined && saved!.rowsAffected === 0) throw await conflict(id, expectedRevision);
     },
 
     async load(id: string): Promise<StoreLoadResult> {
       await ensureTable();
-      const fullId = prefix + id;
-      const result = await client.execute({
-        sql: `SELECT snapshot FROM ${tableName} WHERE id = ?`,
-        args: [fullId],
-      });
-      if (result.rows.length === 0) return null;
-      const raw = JSON.parse(result.rows[0].snapshot as string) as unknown;
-      if (isSerializedResumeState(raw)) return deserializeResumeState(raw);
-      if (isWorkflowSnapshot(raw)) return raw;
-      return raw as WorkflowSnapshot;
+      const state = await readState(prefix + id);
+      return state && toLoadResult(state);
+    },
+
+    async loadRevision(id: string): Promise<{ snapshot: NonNullable<StoreLoadResult>; revision: number } | null> {
+      await ensureTable();
+      const state = await readState(prefix + id);
+      return state && { snapshot: toLoadResult(state), revision: state.revision };
     },
 
     async loadResumeState(id: string): Promise<ResumeState | null> {
@@ -172,10 +380,18 @@ export function libsql(urlOrOptions: string | LibSqlOptions): LibSqlStore {
     async delete(id: string): Promise<void> {
       await ensureTable();
       const fullId = prefix + id;
-      await client.execute({
+      const remove = {
         sql: `DELETE FROM ${tableName} WHERE id = ?`,
         args: [fullId],
-      });
+      };
+      if (!journal) {
+        await client.execute(remove);
+        return;
+      }
+      await client.batch(
+        [remove, { sql: `DELETE FROM ${journalTable} WHERE id = ?`, args: [fullId] }],
+        "write"
+      );
     },
 
     async list(options?: { prefix?: string; limit?: number }): Promise<Array<{ id: string; updatedAt: string }>> {
@@ -197,6 +413,98 @@ export function libsql(urlOrOptions: string | LibSqlOptions): LibSqlStore {
       }));
     },
 
+    async query(options: SnapshotQueryOptions = {}): Promise<SnapshotQueryPage> {
+      await ensureTable();
+      const where = ["id LIKE ?"];
+      const args: Array<string | number> = [prefix + (options.prefix ?? "") + "%"];
+      if (options.workflowName !== undefined) {
+        where.push(`${WORKFLOW_NAME} = ?`);
+        args.push(options.workflowName);
+      }
+      if (options.status !== undefined) {
+        const statuses = [options.status].flat();
+        where.push(`${STATUS} IN (${statuses.map(() => "?").join(", ")})`);
+        args.push(...statuses);
+      }
+      // `->` yields JSON text, so `true` does not match 1.
+      for (const [key, value] of Object.entries(options.metadata ?? {})) {
+        where.push(`snapshot -> ? = ?`);
+        args.push(`$.metadata.${JSON.stringify(key)}`, JSON.stringify(value));
+      }
+      if (options.updatedAfter !== undefined) {
+        where.push("updated_at > ?");
+        args.push(new Date(options.updatedAfter).toISOString());
+      }
+      if (options.updatedBefore !== undefined) {
+        where.push("updated_at < ?");
+        args.push(new Date(options.updatedBefore).toISOString());
+      }
+      if (options.cursor !== undefined) {
+        const cursor = decodeSnapshotCursor(options.cursor);
+        where.push("(updated_at < ? OR (updated_at = ? AND id > ?))");
+        args.push(cursor.updatedAt, cursor.updatedAt, prefix + cursor.id);
+      }
+      const limit = options.limit ?? 100;
+
+      // One row past the page says whether there is another.
+      const result = await client.execute({
+        sql: `SELECT id, updated_at FROM ${tableName}
+              WHERE ${where.join(" AND ")}
+              ORDER BY updated_at DESC, id ASC
+              LIMIT ?`,
+        args: [...args, limit + 1],
+      });
+
+      const entries = result.rows.slice(0, limit).map(row => ({
+        id: (row.id as string).slice(prefix.length),
+        updatedAt: row.updated_at as string,
+      }));
+      if (result.rows.length <= limit) return { entries };
+      const last = entries[entries.length - 1]!;
+      return { entries, nextCursor: encodeSnapshotCursor(last.updatedAt, last.id) };
+    },
+
+    async claimNext(
+      limit: number,
+      options?: { now?: number; workflowNames?: readonly string[] }
+    ): Promise<Array<{ id: string; snapshot: WorkflowSnapshot }>> {
+      await ensureTable();
+      const names = options?.workflowNames;
+      const byName = names ? `AND ${WORKFLOW_NAME} IN (${names.map(() => "?").join(", ")})` : "";
+      const result = await client.execute({
+        sql: `UPDATE ${tableName}
+              SET snapshot = json_set(snapshot, '$.metadata.engineState', 'processing'), updated_at = ${SQLITE_NOW_ISO},
+                  revision = revision + 1
+              WHERE id IN (
+                SELECT id FROM ${tableName}
+                WHERE id LIKE ? AND json_extract(snapshot, '$.metadata.engineState') = 'queued'
+                  AND ${QUEUE_RUN_AT} <= ? ${byName}
+                ORDER BY ${QUEUE_PRIORITY} DESC, ${QUEUE_RUN_AT} ASC
+                LIMIT ?
+              )
+              RETURNING id, snapshot`,
+        args: [prefix + "%", new Date(options?.now ?? Date.now()).toISOString(), ...(names ?? []), limit],
+      });
+      return result.rows
+        .map(row => ({
+          id: (row.id as string).slice(prefix.length),
+          snapshot: JSON.parse(row.snapshot as string) as WorkflowSnapshot,
+        }))
+        .sort(compareQueued);
+    },
+
+    async markDone(id: string): Promise<void> {
+      await setEngineState(id, "done");
+    },
+
+    async markFailed(id: string): Promise<void> {
+      await setEngineState(id, "failed");
+    },
+
+    stepCache(options?: LibSqlStepCacheOptions): AsyncStepCache {
+      return createLibSqlStepCache(client, options);
+    },
+
     async close(): Promise<void> {
       // Only close client if we created it
       if (ownClient) {
@@ -205,6 +513,55 @@ export function libsql(urlOrOptions: string | LibSqlOptions): LibSqlStore {
     },
   };
 
+  if (journal) {
+    store.append = async (id: string, delta: WorkflowSnapshot, options?: SnapshotSaveOptions): Promise<void> => {
+      await ensureTable();
+      const fullId = prefix + id;
+      const expectedRevision = options?.expectedRevision;
+      // Appending onto no snapshot stores the delta as one.
+      if (expectedRevision === null) return store.save(id, delta, options);
+      // The row keeps the latest execution and metadata, so queries see them
+      // before compaction. json_patch merges nested objects too, but load
+      // folds the deltas over the row, which restores their shallow merge.
+      const head = delta.metadata
+        ? {
+            sql: `json_set(snapshot, '$.execution', json(?), '$.metadata', json_patch(COALESCE(snapshot -> '$.metadata', '{}'), ?))`,
+            args: [JSON.stringify(delta.execution), JSON.stringify(delta.metadata)],
+          }
+        : { sql: `json_set(snapshot, '$.execution', json(?))`, args: [JSON.stringify(delta.execution)] };
+      const [touched] = await client.batch(
+        [
+          expectedRevision === undefined
+            ? {
+                sql: `UPDATE ${tableName} SET snapshot = ${head.sql}, updated_at = ${SQLITE_NOW_ISO}, revision = revision + 1
+                      WHERE id = ?`,
+                args: [...head.args, fullId],
+              }
+            : {
+                sql: `UPDATE ${tableName} SET snapshot = ${head.sql}, updated_at = ${SQLITE_NOW_ISO}, revision = revision + 1
+                      WHERE id = ? AND revision = ?`,
+                args: [...head.args, fullId, expectedRevision],
+              },
+          {
+            sql: `INSERT INTO ${journalTable} (id, delta) SELECT ?, ? WHERE ${AFTER_WRITE}`,
+            args: [fullId, JSON.stringify(delta)],
+          },
+        ],
+        "write"
+      );
+      if (touched!.rowsAffected === 0) {
+        if (expectedRevision !== undefined) throw await conflict(id, expectedRevision);
+        await store.save(id, delta);
+        return;
+      }
+      const pending = await client.execute({
+        sql: `SELECT COUNT(*) AS n FROM ${journalTable} WHERE id = ?`,
+        args: [fullId],
+      });
+      if (Number(pending.rows[0]!.n) >= journal.compactEvery) await compact(fullId);
+    };
+  }
+
   // Add lock methods if lock is configured
   if (lock) {
     store.tryAcquire = lock.tryAcquire.bind(lock);
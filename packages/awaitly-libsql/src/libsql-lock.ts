@@ -6,6 +6,13 @@
 import type { Client } from "@libsql/client";
 import { randomUUID } from "node:crypto";
 
+/**
+ * The current time as SQLite text in the same ISO 8601 form as
+ * `Date#toISOString()`, so stored timestamps compare correctly as strings.
+ * (`datetime('now')` uses a space separator and whole seconds.)
+ */
+export const SQLITE_NOW_ISO = `strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`;
+
 export interface LibSqlLockOptions {
   /**
    * Table name for workflow locks.
@@ -73,7 +80,7 @@ export function createLibSqlLock(
         ON CONFLICT(workflow_id) DO UPDATE SET
           owner_token = excluded.owner_token,
           expires_at = excluded.expires_at
-        WHERE ${lockTableName}.expires_at < datetime('now')
+        WHERE ${lockTableName}.expires_at < ${SQLITE_NOW_ISO}
         RETURNING owner_token
       `,
       args: [id, ownerToken, expiresAt],
@@ -1,5 +1,7 @@
 import { describe, it, expect } from "vitest";
-import { libsql } from "./index";
+import { createClient } from "@libsql/client";
+import { ok, err, createWorkflow, type AsyncResult } from "awaitly";
+import { libsql, type WorkflowSnapshot } from "./index";
 
 describe("libsql() SnapshotStore", () => {
   describe("table name validation (SQL injection prevention)", () => {
@@ -57,4 +59,273 @@ describe("libsql() SnapshotStore", () => {
       expect(store).toBeDefined();
     });
   });
+
+  describe("queue store", () => {
+    const queued = (i: number): WorkflowSnapshot => ({
+      formatVersion: 1,
+      steps: {},
+      execution: { status: "running", lastUpdated: new Date().toISOString() },
+      metadata: { engineState: "queued", workflowName: "wf", enqueuedAt: new Date(i).toISOString() },
+    });
+
+    it("claims queued runs oldest first and moves them to processing", async () => {
+      const store = libsql("file::memory:");
+      await store.save("late", queued(2));
+      await store.save("early", queued(1));
+      await store.save("other", { ...queued(0), metadata: { engineState: "failed" } });
+
+      const claimed = await store.claimNext(5);
+      expect(claimed.map(c => c.id)).toEqual(["early", "late"]);
+      expect(claimed[0]?.snapshot.metadata?.engineState).toBe("processing");
+      expect(await store.claimNext(5)).toEqual([]);
+      await store.close();
+    });
+
+    it("respects the limit and never hands out a run twice", async () => {
+      const store = libsql("file::memory:");
+      for (let i = 0; i < 5; i++) await store.save(`job-${i}`, queued(i));
+
+      const [a, b] = await Promise.all([store.claimNext(3), store.claimNext(3)]);
+      expect(a).toHaveLength(3);
+      expect([...a, ...b].map(c => c.id).sort()).toEqual(["job-0", "job-1", "job-2", "job-3", "job-4"]);
+      await store.close();
+    });
+
+    it("marks claimed runs done or failed", async () => {
+      const store = libsql("file::memory:");
+      await store.save("a", queued(1));
+      await store.save("b", queued(2));
+      await store.claimNext(2);
+
+      await store.markDone("a");
+      await store.markFailed("b");
+      await store.markFailed("missing");
+
+      expect(((await store.load("a")) as WorkflowSnapshot).metadata?.engineState).toBe("done");
+      expect(((await store.load("b")) as WorkflowSnapshot).metadata?.engineState).toBe("failed");
+      await store.close();
+    });
+
+    it("claims only due runs, highest priority first", async () => {
+      const store = libsql("file::memory:");
+      const at = (runAt: number, priority?: number): WorkflowSnapshot => ({
+        ...queued(0),
+        metadata: {
+          ...queued(0).metadata,
+          runAt: new Date(runAt).toISOString(),
+          ...(priority !== undefined ? { priority } : {}),
+        },
+      });
+      await store.save("early", at(1000));
+      await store.save("urgent", at(2000, 5));
+      await store.save("future", at(10_000, 10));
+      await store.save("low", at(0, -1));
+
+      expect((await store.claimNext(10, { now: 5000 })).map(c => c.id)).toEqual(["urgent", "early", "low"]);
+      expect((await store.claimNext(10, { now: 10_000 })).map(c => c.id)).toEqual(["future"]);
+      await store.close();
+    });
+
+    it("claims only the named workflows' runs", async () => {
+      const store = libsql("file::memory:");
+      const named = (workflowName: string, i: number): WorkflowSnapshot => ({
+        ...queued(i),
+        metadata: { ...queued(i).metadata, workflowName },
+      });
+      await store.save("b", named("b", 1));
+      await store.save("a", named("a", 2));
+      await store.save("c", named("c", 3));
+
+      expect((await store.claimNext(10, { workflowNames: ["a", "c"] })).map(c => c.id)).toEqual(["a", "c"]);
+      expect((await store.claimNext(10, { workflowNames: [] }))).toEqual([]);
+      expect(((await store.load("b")) as WorkflowSnapshot).metadata?.engineState).toBe("queued");
+      await store.close();
+    });
+  });
+
+  describe("journal", () => {
+    const snapshot = (steps: Record<string, number>, lastStepKey: string): WorkflowSnapshot => ({
+      formatVersion: 1,
+      steps: Object.fromEntries(Object.entries(steps).map(([key, value]) => [key, { ok: true, value }])),
+      execution: { status: "running", lastUpdated: new Date().toISOString() },
+      metadata: { lastStepKey },
+    });
+
+    it("is only a SnapshotJournal when enabled", () => {
+      expect(libsql("file::memory:").append).toBeUndefined();
+      expect(libsql({ url: "file::memory:", journal: true }).append).toBeTypeOf("function");
+    });
+
+    it("loads the snapshot with its appended deltas merged in", async () => {
+      const store = libsql({ url: "file::memory:", journal: true });
+      await store.save("wf", snapshot({ a: 1 }, "a"));
+      await store.append!("wf", snapshot({ b: 2 }, "b"));
+      await store.append!("wf", snapshot({ a: 3 }, "a"));
+
+      const loaded = (await store.load("wf")) as WorkflowSnapshot;
+      expect(loaded.steps).toEqual({ a: { ok: true, value: 3 }, b: { ok: true, value: 2 } });
+      expect(loaded.metadata?.lastStepKey).toBe("a");
+
+      // A full save replaces the snapshot and its deltas.
+      await store.save("wf", snapshot({ c: 4 }, "c"));
+      expect(((await store.load("wf")) as WorkflowSnapshot).steps).toEqual({ c: { ok: true, value: 4 } });
+      await store.close();
+    });
+
+    it("stores an append to an unknown id as its snapshot", async () => {
+      const store = libsql({ url: "file::memory:", journal: true });
+      await store.append!("new", snapshot({ a: 1 }, "a"));
+      expect(((await store.load("new")) as WorkflowSnapshot).steps).toEqual({ a: { ok: true, value: 1 } });
+      expect((await store.list()).map(e => e.id)).toEqual(["new"]);
+      await store.close();
+    });
+
+    it("folds deltas into the snapshot every compactEvery appends", async () => {
+      const client = createClient({ url: "file::memory:" });
+      const store = libsql({ url: "file::memory:", client, journal: { compactEvery: 3 } });
+      await store.save("wf", snapshot({}, "start"));
+      for (let i = 0; i < 4; i++) await store.append!("wf", snapshot({ [`s${i}`]: i }, `s${i}`));
+
+      const pending = await client.execute("SELECT COUNT(*) AS n FROM awaitly_snapshots_journal");
+      expect(Number(pending.rows[0]!.n)).toBe(1);
+      expect(Object.keys(((await store.load("wf")) as WorkflowSnapshot).steps)).toEqual(["s0", "s1", "s2", "s3"]);
+
+      await store.delete("wf");
+      expect(await store.load("wf")).toBeNull();
+      expect(Number((await client.execute("SELECT COUNT(*) AS n FROM awaitly_snapshots_journal")).rows[0]!.n)).toBe(0);
+      client.close();
+    });
+  });
+
+  describe("revisions", () => {
+    const snapshot = (step: string): WorkflowSnapshot => ({
+      formatVersion: 1,
+      steps: { [step]: { ok: true, value: step } },
+      execution: { status: "running", lastUpdated: "2026-01-01T00:00:00.000Z" },
+      metadata: { engineState: "queued", workflowName: "wf", enqueuedAt: "2026-01-01T00:00:00.000Z" },
+    });
+
+    it("adds the revision column to a table created without it", async () => {
+      const client = createClient({ url: "file::memory:" });
+      await client.execute("CREATE TABLE awaitly_snapshots (id TEXT PRIMARY KEY, snapshot TEXT NOT NULL, updated_at TEXT)");
+      await client.execute({
+        sql: "INSERT INTO awaitly_snapshots (id, snapshot) VALUES (?, ?)",
+        args: ["old", JSON.stringify(snapshot("a"))],
+      });
+
+      const store = libsql({ url: "file::memory:", client });
+      expect(await store.loadRevision("old")).toEqual({ snapshot: snapshot("a"), revision: 1 });
+      await store.save("old", snapshot("b"), { expectedRevision: 1 });
+      expect((await store.loadRevision("old"))?.revision).toBe(2);
+      client.close();
+    });
+
+    it("keeps the journal when a conditional save is rejected", async () => {
+      const store = libsql({ url: "file::memory:", journal: true });
+      await store.save("run", snapshot("a"));
+      await store.append!("run", snapshot("b"), { expectedRevision: 1 });
+
+      await expect(store.save("run", snapshot("c"), { expectedRevision: 1 })).rejects.toThrow("expected revision 1");
+      const loaded = await store.loadRevision("run");
+      expect(Object.keys((loaded?.snapshot as WorkflowSnapshot).steps)).toEqual(["a", "b"]);
+      expect(loaded?.revision).toBe(2);
+      await store.close();
+    });
+
+    it("counts queue state changes as writes", async () => {
+      const store = libsql("file::memory:");
+      await store.save("run", snapshot("a"));
+      await store.claimNext(1);
+      await store.markDone("run");
+
+      expect((await store.loadRevision("run"))?.revision).toBe(3);
+      await expect(store.save("run", snapshot("b"), { expectedRevision: 1 })).rejects.toMatchObject({
+        name: "SnapshotConflictError",
+        expectedRevision: 1,
+        actualRevision: 3,
+      });
+      await store.close();
+    });
+  });
+
+  describe("query", () => {
+    const snapshot = (status: WorkflowSnapshot["execution"]["status"], step: string): WorkflowSnapshot => ({
+      formatVersion: 1,
+      steps: { [step]: { ok: true, value: step } },
+      execution: { status, lastUpdated: "2026-01-01T00:00:00.000Z" },
+      metadata: { workflowName: "checkout", input: { nested: { a: 1 } } },
+    });
+
+    it("filters on the workflow name and status indexes", async () => {
+      const client = createClient({ url: "file::memory:" });
+      const store = libsql({ url: "file::memory:", client });
+      await store.save("run", snapshot("failed", "a"));
+      expect((await store.query({ workflowName: "checkout", status: "failed" })).entries.map(entry => entry.id)).toEqual(["run"]);
+
+      const plan = async (filter: string) =>
+        (await client.execute(`EXPLAIN QUERY PLAN SELECT id FROM awaitly_snapshots WHERE ${filter} ORDER BY updated_at DESC`))
+          .rows.map(row => String(row.detail))
+          .join("\n");
+      expect(await plan("json_extract(snapshot, '$.metadata.workflowName') = 'checkout'")).toContain("awaitly_snapshots_workflow_name_idx");
+      expect(await plan("json_extract(snapshot, '$.execution.status') = 'failed'")).toContain("awaitly_snapshots_status_idx");
+      client.close();
+    });
+
+    it("loads journaled snapshots unchanged after keeping their head current", async () => {
+      const store = libsql({ url: "file::memory:", journal: true });
+      await store.save("run", snapshot("running", "a"));
+      const delta: WorkflowSnapshot = {
+        ...snapshot("suspended", "b"),
+        metadata: { input: { nested: { b: 2 } }, reason: null },
+      };
+      await store.append!("run", delta);
+
+      expect(await store.load("run")).toEqual({
+        formatVersion: 1,
+        steps: { a: { ok: true, value: "a" }, b: { ok: true, value: "b" } },
+        execution: delta.execution,
+        metadata: { workflowName: "checkout", input: { nested: { b: 2 } }, reason: null },
+      });
+      expect((await store.query({ status: "suspended" })).entries.map(entry => entry.id)).toEqual(["run"]);
+      await store.close();
+    });
+  });
+
+  describe("step cache", () => {
+    it("shares explicitly keyed step results across workflow runs", async () => {
+      const store = libsql("file::memory:");
+      const cache = store.stepCache();
+      let calls = 0;
+      const charge = async (amount: number): AsyncResult<number, "DECLINED"> => {
+        calls++;
+        return amount > 100 ? err("DECLINED", { cause: new Error("over limit") }) : ok(amount);
+      };
+      const workflow = createWorkflow("checkout", { charge }, { cache });
+      const run = (amount: number) =>
+        workflow.run(async ({ step, deps }) => step("charge", () => deps.charge(amount), { key: `charge:${amount}` }));
+
+      expect(await run(10)).toEqual({ ok: true, value: 10 });
+      expect(await run(10)).toEqual({ ok: true, value: 10 });
+      await run(500);
+      const replayed = await run(500);
+      expect(!replayed.ok && replayed.error).toBe("DECLINED");
+      expect(!replayed.ok && replayed.cause).toBeInstanceOf(Error);
+      expect(calls).toBe(2);
+      await store.close();
+    });
+
+    it("reads several keys at once and skips expired entries", async () => {
+      const store = libsql("file::memory:");
+      const cache = store.stepCache({ prefix: "reports:" });
+      await cache.set("a", ok(1));
+      await cache.set("b", ok(2), { ttl: 1 });
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      expect(await cache.getMany(["a", "b", "c"])).toEqual([ok(1), undefined, undefined]);
+      expect(await cache.has("b")).toBe(false);
+      expect(await cache.delete("a")).toBe(true);
+      expect(await cache.get("a")).toBeUndefined();
+      await store.close();
+    });
+  });
 });
@@ -0,0 +1,114 @@
+/**
+ * libSQL step cache: an AsyncStepCache shared by every process using the
+ * same database. Results are stored as JSON; entries with a TTL are ignored
+ * once expired and overwritten by the next set.
+ */
+
+import type { Client } from "@libsql/client";
+import {
+  type AsyncStepCache,
+  type StepResult,
+  serializeCachedResult,
+  deserializeCachedResult,
+} from "awaitly/durable";
+
+export interface LibSqlStepCacheOptions {
+  /**
+   * Table name for cached step results.
+   * @default 'awaitly_step_cache'
+   */
+  table?: string;
+  /** Key prefix, so several caches can share one table. @default '' */
+  prefix?: string;
+}
+
+/**
+ * Create an AsyncStepCache backed by a libSQL table.
+ * Pass the client used for state so the cache shares its connection.
+ *
+ * @example
+ * ```typescript
+ * const cache = createLibSqlStepCache(client, { prefix: 'reports:' });
+ * const workflow = createWorkflow('report', deps, { cache });
+ * ```
+ */
+export function createLibSqlStepCache(client: Client, options: LibSqlStepCacheOptions = {}): AsyncStepCache {
+  const tableName = options.table ?? "awaitly_step_cache";
+  if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(tableName)) {
+    throw new Error(`Invalid table name: ${tableName}. Must be alphanumeric with underscores.`);
+  }
+  const prefix = options.prefix ?? "";
+  // expires_at is epoch milliseconds, compared against the caller's clock
+  const live = `(expires_at IS NULL OR expires_at > ?)`;
+  let tableCreated = false;
+
+  const ensureTable = async (): Promise<void> => {
+    if (tableCreated) return;
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${tableName} (
+        key TEXT PRIMARY KEY,
+        result TEXT NOT NULL,
+        expires_at INTEGER
+      )
+    `);
+    tableCreated = true;
+  };
+
+  const parse = (raw: unknown) => deserializeCachedResult(JSON.parse(raw as string) as StepResult);
+
+  return {
+    async get(key) {
+      await ensureTable();
+      const result = await client.execute({
+        sql: `SELECT result FROM ${tableName} WHERE key = ? AND ${live}`,
+        args: [prefix + key, Date.now()],
+      });
+      return result.rows.length === 0 ? undefined : parse(result.rows[0]!.result);
+    },
+
+    async getMany(keys) {
+      if (keys.length === 0) return [];
+      await ensureTable();
+      const result = await client.execute({
+        sql: `SELECT key, result FROM ${tableName} WHERE key IN (${keys.map(() => "?").join(", ")}) AND ${live}`,
+        args: [...keys.map(key => prefix + key), Date.now()],
+      });
+      const found = new Map(result.rows.map(row => [row.key as string, row.result]));
+      return keys.map(key => {
+        const raw = found.get(prefix + key);
+        return raw === undefined ? undefined : parse(raw);
+      });
+    },
+
+    async set(key, value, setOptions) {
+      await ensureTable();
+      await client.execute({
+        sql: `INSERT INTO ${tableName} (key, result, expires_at) VALUES (?, ?, ?)
+              ON CONFLICT(key) DO UPDATE SET result = excluded.result, expires_at = excluded.expires_at`,
+        args: [
+          prefix + key,
+          JSON.stringify(serializeCachedResult(value)),
+          setOptions?.ttl ? Date.now() + setOptions.ttl : null,
+        ],
+      });
+    },
+
+    async has(key) {
+      await ensureTable();
+      const result = await client.execute({
+        sql: `SELECT 1 FROM ${tableName} WHERE key = ? AND ${live}`,
+        args: [prefix + key, Date.now()],
+      });
+      return result.rows.length > 0;
+    },
+
+    async delete(key) {
+      await ensureTable();
+      const result = await client.execute({
+        sql: `DELETE FROM ${tableName} WHERE key = ?`,
+        args: [prefix + key],
+      });
+      return result.rowsAffected > 0;
+    },
+  };
+}
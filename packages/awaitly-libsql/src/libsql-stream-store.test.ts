@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getStreamReader, type StreamItem } from "awaitly/durable";
+import { libsqlStreamStore } from "./index";
+
+describe("libsqlStreamStore()", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "awaitly-libsql-streams-"));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("rejects unsafe table names", () => {
+    expect(() => libsqlStreamStore({ url: "file::memory:", table: "streams; DROP TABLE x" })).toThrow(
+      "Invalid table name"
+    );
+  });
+
+  it("shares ordered items and close state between clients of one database", async () => {
+    const url = `file:${join(dir, "shared.db")}`;
+    const writer = libsqlStreamStore(url);
+    const reader = libsqlStreamStore(url);
+
+    for (const [position, value] of ["a", "b", "c"].entries()) {
+      expect((await writer.append("wf-1", "tokens", { value, position, ts: 1000 + position })).ok).toBe(true);
+    }
+
+    const page = await reader.read<string>("wf-1", "tokens", 1, 1);
+    expect(page.ok && page.value).toEqual([{ value: "b", position: 1, ts: 1001 }]);
+    const missing = await reader.read("wf-1", "other", 0);
+    expect(missing.ok && missing.value).toEqual([]);
+
+    expect((await writer.closeStream("wf-1", "tokens")).ok).toBe(true);
+    const meta = await reader.getMetadata("wf-1", "tokens");
+    expect(meta.ok && meta.value).toMatchObject({ id: "wf-1:tokens", length: 3, closed: true });
+
+    const rejected = await writer.append("wf-1", "tokens", { value: "d", position: 3, ts: 1003 });
+    expect(!rejected.ok && rejected.error.reason).toBe("write_error");
+
+    const values: string[] = [];
+    const stream = getStreamReader<string>({ store: reader, workflowId: "wf-1", namespace: "tokens", pollInterval: 10 });
+    for (let next = await stream.read(); next.ok; next = await stream.read()) {
+      values.push(next.value);
+    }
+    expect(values).toEqual(["a", "b", "c"]);
+
+    await writer.close();
+    await reader.close();
+  });
+
+  it("delivers items appended by another client to subscribers", async () => {
+    const url = `file:${join(dir, "subscribe.db")}`;
+    const writer = libsqlStreamStore(url);
+    const subscriber = libsqlStreamStore({ url, pollInterval: 10 });
+    await writer.append("wf-2", "progress", { value: 0, position: 0, ts: 1 });
+
+    const received: StreamItem<number>[] = [];
+    const unsubscribe = subscriber.subscribe<number>("wf-2", "progress", item => received.push(item));
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await writer.append("wf-2", "progress", { value: 50, position: 1, ts: 2 });
+    await writer.append("wf-2", "progress", { value: 100, position: 2, ts: 3 });
+    await expect.poll(() => received.map(item => item.value)).toEqual([50, 100]);
+
+    unsubscribe();
+    await writer.close();
+    await subscriber.close();
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * libSQL stream store: a StreamStore shared by every process using the same
+ * database, so `step.getWritable()` output from a durable run on one machine
+ * can be read or subscribed to from another. Subscribers poll for new items.
+ */
+
+import { createClient, type Client } from "@libsql/client";
+import { ok, err, type AsyncResult } from "awaitly";
+import {
+  type StreamStore,
+  type StreamStoreError,
+  type StreamItem,
+  type StreamMetadata,
+  type Unsubscribe,
+  streamStoreError,
+} from "awaitly/durable";
+
+export interface LibSqlStreamStoreOptions {
+  /** libSQL connection URL (file: for local, https: for Turso). */
+  url: string;
+  /** Auth token for remote Turso instances. */
+  authToken?: string;
+  /**
+   * Table name for stream metadata. Items go in `<table>_items`.
+   * @default 'awaitly_streams'
+   */
+  table?: string;
+  /** Bring your own client. */
+  client?: Client;
+  /** How often subscribers check for new items, in ms. @default 250 */
+  pollInterval?: number;
+}
+
+/** StreamStore backed by libSQL. */
+export interface LibSqlStreamStore extends StreamStore {
+  /** Close the client if the store created it. */
+  close(): Promise<void>;
+}
+
+/**
+ * Create a StreamStore backed by libSQL.
+ * Items are kept in order by position; each `subscribe` polls from the
+ * stream's length at the time it subscribed.
+ *
+ * @example
+ * ```typescript
+ * const streamStore = libsqlStreamStore('file:./workflow.db');
+ * const workflow = createWorkflow('report', deps, { streamStore });
+ *
+ * // In an HTTP handler in another process
+ * const reader = getStreamReader({ store: streamStore, workflowId, namespace: 'progress' });
+ * ```
+ */
+export function libsqlStreamStore(urlOrOptions: string | LibSqlStreamStoreOptions): LibSqlStreamStore {
+  const opts = typeof urlOrOptions === "string" ? { url: urlOrOptions } : urlOrOptions;
+  const tableName = opts.table ?? "awaitly_streams";
+  if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(tableName)) {
+    throw new Error(`Invalid table name: ${tableName}. Must be alphanumeric with underscores.`);
+  }
+  const itemsTable = `${tableName}_items`;
+  const pollInterval = opts.pollInterval ?? 250;
+
+  // Create or use existing client
+  const ownClient = !opts.client;
+  const client = opts.client ?? createClient({
+    url: opts.url,
+    authToken: opts.authToken,
+  });
+  let tableCreated = false;
+
+  const ensureTable = async (): Promise<void> => {
+    if (tableCreated) return;
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${tableName} (
+        workflow_id TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        item_count INTEGER NOT NULL DEFAULT 0,
+        closed INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        last_write_at INTEGER,
+        closed_at INTEGER,
+        PRIMARY KEY (workflow_id, namespace)
+      )
+    `);
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${itemsTable} (
+        workflow_id TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        value TEXT,
+        ts INTEGER NOT NULL,
+        PRIMARY KEY (workflow_id, namespace, position)
+      )
+    `);
+    tableCreated = true;
+  };
+
+  const readItems = async <T>(
+    workflowId: string,
+    namespace: string,
+    startIndex: number,
+    limit?: number
+  ): Promise<StreamItem<T>[]> => {
+    await ensureTable();
+    const result = await client.execute({
+      sql: `SELECT value, position, ts FROM ${itemsTable}
+            WHERE workflow_id = ? AND namespace = ? AND position >= ?
+            ORDER BY position
+            ${limit !== undefined ? "LIMIT ?" : ""}`,
+      args: limit !== undefined ? [workflowId, namespace, startIndex, limit] : [workflowId, namespace, startIndex],
+    });
+    return result.rows.map(row => ({
+      value: JSON.parse(row.value as string) as T,
+      position: Number(row.position),
+      ts: Number(row.ts),
+    }));
+  };
+
+  const readLength = async (workflowId: string, namespace: string): Promise<number> => {
+    await ensureTable();
+    const result = await client.execute({
+      sql: `SELECT item_count FROM ${tableName} WHERE workflow_id = ? AND namespace = ?`,
+      args: [workflowId, namespace],
+    });
+    return result.rows.length === 0 ? 0 : Number(result.rows[0]!.item_count);
+  };
+
+  return {
+    async append<T>(workflowId: string, namespace: string, item: StreamItem<T>): AsyncResult<void, StreamStoreError> {
+      try {
+        await ensureTable();
+        const now = Date.now();
+        // The batch runs as one write transaction; the item insert and the
+        // length bump only apply while the stream is open.
+        const open = `EXISTS (SELECT 1 FROM ${tableName} WHERE workflow_id = ? AND namespace = ? AND closed = 0)`;
+        const [, inserted] = await client.batch(
+          [
+            {
+              sql: `INSERT INTO ${tableName} (workflow_id, namespace, created_at) VALUES (?, ?, ?)
+                    ON CONFLICT (workflow_id, namespace) DO NOTHING`,
+              args: [workflowId, namespace, now],
+            },
+            {
+              sql: `INSERT INTO ${itemsTable} (workflow_id, namespace, position, value, ts)
+                    SELECT ?, ?, ?, ?, ? WHERE ${open}`,
+              args: [
+                workflowId,
+                namespace,
+                item.position,
+                JSON.stringify(item.value) ?? null,
+                item.ts,
+                workflowId,
+                namespace,
+              ],
+            },
+            {
+              sql: `UPDATE ${tableName} SET item_count = item_count + 1, last_write_at = ?
+                    WHERE workflow_id = ? AND namespace = ? AND closed = 0`,
+              args: [now, workflowId, namespace],
+            },
+          ],
+          "write"
+        );
+        if (inserted!.rowsAffected === 0) {
+          return err(streamStoreError("write_error", "Cannot write to closed stream"));
+        }
+        return ok(undefined);
+      } catch (cause) {
+        return err(streamStoreError("write_error", "Failed to append item", cause));
+      }
+    },
+
+    async read<T>(
+      workflowId: string,
+      namespace: string,
+      startIndex: number,
+      limit?: number
+    ): AsyncResult<StreamItem<T>[], StreamStoreError> {
+      try {
+        return ok(await readItems<T>(workflowId, namespace, startIndex, limit));
+      } catch (cause) {
+        return err(streamStoreError("read_error", "Failed to read items", cause));
+      }
+    },
+
+    async getMetadata(workflowId: string, namespace: string): AsyncResult<StreamMetadata | undefined, StreamStoreError> {
+      try {
+        await ensureTable();
+        const result = await client.execute({
+          sql: `SELECT item_count, closed, created_at, last_write_at, closed_at FROM ${tableName}
+                WHERE workflow_id = ? AND namespace = ?`,
+          args: [workflowId, namespace],
+        });
+        if (result.rows.length === 0) return ok(undefined);
+        const row = result.rows[0]!;
+        return ok({
+          id: `${workflowId}:${namespace}`,
+          namespace,
+          workflowId,
+          length: Number(row.item_count),
+          closed: Number(row.closed) === 1,
+          createdAt: Number(row.created_at),
+          lastWriteAt: row.last_write_at === null ? undefined : Number(row.last_write_at),
+          closedAt: row.closed_at === null ? undefined : Number(row.closed_at),
+        });
+      } catch (cause) {
+        return err(streamStoreError("metadata_error", "Failed to get metadata", cause));
+      }
+    },
+
+    async closeStream(workflowId: string, namespace: string): AsyncResult<void, StreamStoreError> {
+      try {
+        await ensureTable();
+        await client.execute({
+          sql: `UPDATE ${tableName} SET closed = 1, closed_at = ?
+                WHERE workflow_id = ? AND namespace = ? AND closed = 0`,
+          args: [Date.now(), workflowId, namespace],
+        });
+        return ok(undefined);
+      } catch (cause) {
+        return err(streamStoreError("close_error", "Failed to close stream", cause));
+      }
+    },
+
+    subscribe<T>(workflowId: string, namespace: string, callback: (item: StreamItem<T>) => void): Unsubscribe {
+      let active = true;
+      let next: number | undefined;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const poll = async () => {
+        try {
+          next ??= await readLength(workflowId, namespace);
+          for (const item of await readItems<T>(workflowId, namespace, next)) {
+            if (!active) return;
+            next = item.position + 1;
+            try {
+              callback(item);
+            } catch {
+              // Ignore subscriber errors
+            }
+          }
+        } catch {
+          // Try again on the next poll
+        }
+        if (active) timer = setTimeout(poll, pollInterval);
+      };
+      void poll();
+
+      return () => {
+        active = false;
+        clearTimeout(timer);
+      };
+    },
+
+    async close(): Promise<void> {
+      // Only close client if we created it
+      if (ownClient) {
+        client.close();
+      }
+    },
+  };
+}
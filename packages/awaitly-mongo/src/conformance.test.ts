@@ -0,0 +1,38 @@
+import { describe, it } from "vitest";
+import {
+  runSnapshotStoreConformance,
+  runSnapshotRevisionsConformance,
+  runSnapshotQueryConformance,
+  runWorkflowLockConformance,
+} from "awaitly/testing";
+import { mongo, type MongoStore, type WorkflowLock } from "./index";
+
+// Needs a live database, so only runs when one is configured.
+const TEST_CONNECTION_STRING = process.env.TEST_MONGODB_URI;
+
+describe.skipIf(!TEST_CONNECTION_STRING)("mongo() conformance", () => {
+  const collection = `test_conformance_${Date.now()}`;
+
+  runSnapshotStoreConformance(() => mongo({ url: TEST_CONNECTION_STRING!, collection }), { describe, it });
+
+  runSnapshotRevisionsConformance(() => mongo({ url: TEST_CONNECTION_STRING!, collection }), { describe, it });
+
+  runSnapshotRevisionsConformance(
+    () => mongo({ url: TEST_CONNECTION_STRING!, collection: `${collection}_journaled`, journal: true }),
+    { describe, it, name: "SnapshotRevisions conformance with a journal" }
+  );
+
+  runSnapshotQueryConformance(() => mongo({ url: TEST_CONNECTION_STRING!, collection }), { describe, it });
+
+  runSnapshotQueryConformance(
+    () => mongo({ url: TEST_CONNECTION_STRING!, collection: `${collection}_journaled`, journal: true }),
+    { describe, it, name: "SnapshotQuery conformance with a journal" }
+  );
+
+  runWorkflowLockConformance(
+    () =>
+      mongo({ url: TEST_CONNECTION_STRING!, collection, lock: { lockCollectionName: `${collection}_lock` } }) as MongoStore &
+        WorkflowLock,
+    { describe, it }
+  );
+});
@@ -6,33 +6,73 @@
  * Supports both WorkflowSnapshot and ResumeState (serialized via serializeResumeState).
  */
 
-import type { Db, MongoClientOptions } from "mongodb";
+import type { Db, Filter, MongoClientOptions } from "mongodb";
 import { MongoClient as MongoClientImpl } from "mongodb";
-import type { WorkflowSnapshot, SnapshotStore } from "awaitly/durable";
-import type { WorkflowLock } from "awaitly/durable";
+import type {
+  WorkflowSnapshot,
+  SnapshotStore,
+  QueueStore,
+  SnapshotJournal,
+  SnapshotSaveOptions,
+  SnapshotQuery,
+  SnapshotQueryOptions,
+  SnapshotQueryPage,
+} from "awaitly/durable";
+import type { WorkflowLock, AsyncStepCache } from "awaitly/durable";
 import {
   type ResumeState,
   type StoreSaveInput,
   type StoreLoadResult,
   isWorkflowSnapshot,
+  mergeSnapshots,
   isResumeState,
   isSerializedResumeState,
   serializeResumeState,
   deserializeResumeState,
+  encodeSnapshotCursor,
+  decodeSnapshotCursor,
+  SnapshotConflictError,
 } from "awaitly/durable";
 import { createMongoLock, type MongoLockOptions } from "./mongo-lock";
+import { createMongoStepCache, type MongoStepCacheOptions } from "./mongo-step-cache";
 
 /** Document shape for the snapshots collection (string _id). */
 interface SnapshotDoc {
   _id: string;
   snapshot: WorkflowSnapshot | import("awaitly/durable").SerializedResumeState;
   updatedAt: Date;
+  /** Bumped by every full save and compaction; journaled deltas belong to one generation. */
+  generation?: number;
+  /** Bumped by every write; absent on documents saved before revisions (revision 0). */
+  revision?: number;
+}
+
+/** Document shape for the journal collection: one delta appended onto a snapshot. */
+interface JournalDoc {
+  snapshotId: string;
+  generation: number;
+  delta: WorkflowSnapshot;
 }
 
 // Re-export types for convenience
-export type { SnapshotStore, WorkflowSnapshot } from "awaitly/durable";
+export type {
+  SnapshotStore,
+  WorkflowSnapshot,
+  QueueStore,
+  SnapshotJournal,
+  SnapshotRevisions,
+  SnapshotSaveOptions,
+  SnapshotQuery,
+  SnapshotQueryOptions,
+  SnapshotQueryPage,
+} from "awaitly/durable";
+export { SnapshotConflictError } from "awaitly/durable";
 export type { WorkflowLock } from "awaitly/durable";
 export type { MongoLockOptions } from "./mongo-lock";
+export { createMongoStepCache, type MongoStepCacheOptions } from "./mongo-step-cache";
+export type { AsyncStepCache } from "awaitly/durable";
+export { mongoStreamStore, type MongoStreamStoreOptions, type MongoStreamStore } from "./mongo-stream-store";
+export type { StreamStore } from "awaitly/durable";
 export type { StoreSaveInput, StoreLoadResult } from "awaitly/durable";
 
 // =============================================================================
@@ -57,15 +97,34 @@ export interface MongoOptions {
   clientOptions?: MongoClientOptions;
   /** Cross-process lock options. When set, the store implements WorkflowLock. */
   lock?: MongoLockOptions;
+  /**
+   * Keep the step deltas durable.run appends in a `<collection>_journal`
+   * collection instead of rewriting the snapshot after every step. When set,
+   * the store implements SnapshotJournal. A snapshot's deltas are folded into
+   * it once `compactEvery` have accumulated. @default { compactEvery: 100 }
+   */
+  journal?: boolean | { compactEvery?: number };
 }
 
-/** Mongo store with widened save/load for WorkflowSnapshot and ResumeState. Compatible with SnapshotStore for snapshot-only usage. */
-export interface MongoStore extends Partial<WorkflowLock> {
-  save(id: string, state: StoreSaveInput): Promise<void>;
+/**
+ * Mongo store with widened save/load for WorkflowSnapshot and ResumeState. Compatible with SnapshotStore for snapshot-only usage.
+ * Implements QueueStore with `findOneAndUpdate`, so several engines can share one collection, and
+ * SnapshotRevisions with a `revision` field matched in the update filter, and SnapshotQuery with
+ * indexes on the workflow name and status.
+ */
+export interface MongoStore extends Partial<WorkflowLock>, Partial<SnapshotJournal>, QueueStore, SnapshotQuery {
+  /** Upsert, or with `options.expectedRevision` write only at that revision (else SnapshotConflictError). */
+  save(id: string, state: StoreSaveInput, options?: SnapshotSaveOptions): Promise<void>;
   load(id: string): Promise<StoreLoadResult>;
+  /** `load` with the document's revision, for a later conditional save. */
+  loadRevision(id: string): Promise<{ snapshot: NonNullable<StoreLoadResult>; revision: number } | null>;
   loadResumeState(id: string): Promise<ResumeState | null>;
   delete(id: string): Promise<void>;
   list(options?: { prefix?: string; limit?: number }): Promise<Array<{ id: string; updatedAt: string }>>;
+  /** Filter by workflow name, status, write time and metadata, a page at a time. */
+  query(options?: SnapshotQueryOptions): Promise<SnapshotQueryPage>;
+  /** An AsyncStepCache in this database, sharing the store's client. */
+  stepCache(options?: MongoStepCacheOptions): AsyncStepCache;
   close(): Promise<void>;
 }
 
@@ -120,6 +179,8 @@ export function mongo(urlOrOptions: string | MongoOptions): MongoStore {
   databaseName = databaseName ?? "awaitly";
 
   const collectionName = opts.collection ?? "awaitly_snapshots";
+  const journalName = `${collectionName}_journal`;
+  const journal = opts.journal ? { compactEvery: 100, ...(opts.journal === true ? {} : opts.journal) } : null;
 
   // Create or use existing client
   const ownClient = !opts.client;
@@ -147,6 +208,37 @@ export function mongo(urlOrOptions: string | MongoOptions): MongoStore {
     await collection.createIndex({ updatedAt: -1 }, { background: true }).catch(() => {
       // Index may already exist, ignore error
     });
+    // Queue index: claims filter on engine state and take the highest
+    // priority, earliest due run.
+    await collection
+      .createIndex(
+        {
+          "snapshot.metadata.engineState": 1,
+          "snapshot.metadata.priority": -1,
+          "snapshot.metadata.runAt": 1,
+          "snapshot.metadata.enqueuedAt": 1,
+        },
+        { background: true }
+      )
+      .catch(() => {
+        // Index may already exist, ignore error
+      });
+
+    // Query indexes: filter on the workflow name or status, newest first.
+    for (const field of ["snapshot.metadata.workflowName", "snapshot.execution.status"]) {
+      await collection.createIndex({ [field]: 1, updatedAt: -1, _id: 1 }, { background: true }).catch(() => {
+        // Index may already exist, ignore error
+      });
+    }
+
+    if (journal) {
+      await db
+        .collection<JournalDoc>(journalName)
+        .createIndex({ snapshotId: 1, generation: 1, _id: 1 }, { background: true })
+        .catch(() => {
+          // Index may already exist, ignore error
+        });
+    }
 
     // Create lock if requested
     if (opts.lock && !lock) {
@@ -156,34 +248,111 @@ export function mongo(urlOrOptions: string | MongoOptions): MongoStore {
     return db;
   };
 
+  /** The stored document for `fullId` and its current generation's deltas, oldest first. */
+  const readState = async (fullId: string): Promise<{ doc: SnapshotDoc; deltas: WorkflowSnapshot[] } | null> => {
+    const db = await ensureConnected();
+    const doc = await db.collection<SnapshotDoc>(collectionName).findOne({ _id: fullId });
+    if (!doc) return null;
+    if (!journal) return { doc, deltas: [] };
+    const entries = await db
+      .collection<JournalDoc>(journalName)
+      .find({ snapshotId: fullId, generation: doc.generation ?? 0 })
+      .sort({ _id: 1 })
+      .toArray();
+    return { doc, deltas: entries.map(entry => entry.delta) };
+  };
+
+  const fold = (raw: unknown, deltas: WorkflowSnapshot[]): WorkflowSnapshot =>
+    deltas.reduce((snapshot, delta) => mergeSnapshots(snapshot, delta), raw as WorkflowSnapshot);
+
+  const toLoadResult = ({ doc, deltas }: { doc: SnapshotDoc; deltas: WorkflowSnapshot[] }): NonNullable<StoreLoadResult> => {
+    const raw = doc.snapshot;
+    if (isSerializedResumeState(raw)) return deserializeResumeState(raw);
+    if (deltas.length > 0) return fold(raw, deltas);
+    if (isWorkflowSnapshot(raw)) return raw;
+    return raw as WorkflowSnapshot;
+  };
+
+  /** Filter for a document still at `revision`. */
+  const atRevision = (revision: number) => ({ revision: revision === 0 ? { $exists: false } : revision });
+
+  /** The error for a write to `id` rejected at `expectedRevision`. */
+  const conflict = async (id: string, expectedRevision: number | null): Promise<SnapshotConflictError> => {
+    const db = await ensureConnected();
+    const doc = await db.collection<SnapshotDoc>(collectionName).findOne({ _id: prefix + id }, { projection: { revision: 1 } });
+    return new SnapshotConflictError(id, expectedRevision, doc ? (doc.revision ?? 0) : null);
+  };
+
+  /** Fold `fullId`'s journaled deltas into its snapshot document. */
+  const compact = async (fullId: string): Promise<void> => {
+    const state = await readState(fullId);
+    if (!state || state.deltas.length === 0) return;
+    const db = await ensureConnected();
+    const generation = state.doc.generation ?? 0;
+    // Moving to the next generation retires the folded deltas in the same
+    // write. Folding leaves what load returns unchanged, so the revision
+    // stays; a write since the read moved it, and then the fold is skipped.
+    const folded = await db.collection<SnapshotDoc>(collectionName).updateOne(
+      { _id: fullId, generation: state.doc.generation, ...atRevision(state.doc.revision ?? 0) },
+      { $set: { snapshot: fold(state.doc.snapshot, state.deltas), generation: generation + 1 } }
+    );
+    if (folded.matchedCount === 0) return;
+    await db.collection<JournalDoc>(journalName).deleteMany({ snapshotId: fullId, generation: { $lte: generation } });
+  };
+
+  const setEngineState = async (id: string, engineState: string): Promise<void> => {
+    const db = await ensureConnected();
+    const collection = db.collection<SnapshotDoc>(collectionName);
+    // Deltas carry metadata too, so fold them in before changing it.
+    if (journal) await compact(prefix + id);
+    await collection.updateOne(
+      { _id: prefix + id, "snapshot.metadata": { $exists: true } },
+      { $set: { "snapshot.metadata.engineState": engineState, updatedAt: new Date() }, $inc: { revision: 1 } }
+    );
+  };
+
   const store: MongoStore = {
-    async save(id: string, state: StoreSaveInput): Promise<void> {
+    async save(id: string, state: StoreSaveInput, options?: SnapshotSaveOptions): Promise<void> {
       const db = await ensureConnected();
       const collection = db.collection<SnapshotDoc>(collectionName);
       const fullId = prefix + id;
       const toStore = isResumeState(state) ? serializeResumeState(state) : state;
-      await collection.updateOne(
-        { _id: fullId },
-        {
-          $set: {
-            snapshot: toStore,
-            updatedAt: new Date(),
-          },
-        },
-        { upsert: true }
+      const expectedRevision = options?.expectedRevision;
+
+      if (expectedRevision === null) {
+        // Insert-only: an existing document leaves the upsert with nothing to insert.
+        const inserted = await collection.updateOne(
+          { _id: fullId },
+          { $setOnInsert: { snapshot: toStore, updatedAt: new Date(), revision: 1, ...(journal ? { generation: 1 } : {}) } },
+          { upsert: true }
+        );
+        if (inserted.upsertedCount === 0) throw await conflict(id, expectedRevision);
+        return;
+      }
+
+      const filter = expectedRevision === undefined ? { _id: fullId } : { _id: fullId, ...atRevision(expectedRevision) };
+      // A full save starts a new generation, which supersedes the journal.
+      const doc = await collection.findOneAndUpdate(
+        filter,
+        { $set: { snapshot: toStore, updatedAt: new Date() }, $inc: { revision: 1, ...(journal ? { generation: 1 } : {}) } },
+        { upsert: expectedRevision === undefined, returnDocument: "after", projection: { generation: 1 } }
       );
+      if (!doc) throw await conflict(id, expectedRevision!);
+      if (journal) {
+        await db
+          .collection<JournalDoc>(journalName)
+          .deleteMany({ snapshotId: fullId, generation: { $lt: doc.generation ?? 0 } });
+      }
     },
 
     async load(id: string): Promise<StoreLoadResult> {
-      const db = await ensureConnected();
-      const collection = db.collection<SnapshotDoc>(collectionName);
-      const fullId = prefix + id;
-      const doc = await collection.findOne({ _id: fullId });
-      if (!doc) return null;
-      const raw = doc.snapshot;
-      if (isSerializedResumeState(raw)) return deserializeResumeState(raw);
-      if (isWorkflowSnapshot(raw)) return raw;
-      return raw as WorkflowSnapshot;
+      const state = await readState(prefix + id);
+      return state && toLoadResult(state);
+    },
+
+    async loadRevision(id: string): Promise<{ snapshot: NonNullable<StoreLoadResult>; revision: number } | null> {
+      const state = await readState(prefix + id);
+      return state && { snapshot: toLoadResult(state), revision: state.doc.revision ?? 0 };
     },
 
     async loadResumeState(id: string): Promise<ResumeState | null> {
@@ -198,6 +367,7 @@ export function mongo(urlOrOptions: string | MongoOptions): MongoStore {
       const collection = db.collection<SnapshotDoc>(collectionName);
       const fullId = prefix + id;
       await collection.deleteOne({ _id: fullId });
+      if (journal) await db.collection<JournalDoc>(journalName).deleteMany({ snapshotId: fullId });
     },
 
     async list(options?: { prefix?: string; limit?: number }): Promise<Array<{ id: string; updatedAt: string }>> {
@@ -219,6 +389,98 @@ export function mongo(urlOrOptions: string | MongoOptions): MongoStore {
       }));
     },
 
+    async query(options: SnapshotQueryOptions = {}): Promise<SnapshotQueryPage> {
+      const db = await ensureConnected();
+      const collection = db.collection<SnapshotDoc>(collectionName);
+      const escaped = (prefix + (options.prefix ?? "")).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      const filters: Array<Record<string, unknown>> = [{ _id: { $regex: `^${escaped}` } }];
+      if (options.workflowName !== undefined) filters.push({ "snapshot.metadata.workflowName": options.workflowName });
+      if (options.status !== undefined) filters.push({ "snapshot.execution.status": { $in: [options.status].flat() } });
+      for (const [key, value] of Object.entries(options.metadata ?? {})) {
+        filters.push({ [`snapshot.metadata.${key}`]: value });
+      }
+      if (options.updatedAfter !== undefined) filters.push({ updatedAt: { $gt: new Date(options.updatedAfter) } });
+      if (options.updatedBefore !== undefined) filters.push({ updatedAt: { $lt: new Date(options.updatedBefore) } });
+      if (options.cursor !== undefined) {
+        const cursor = decodeSnapshotCursor(options.cursor);
+        const at = new Date(cursor.updatedAt);
+        filters.push({ $or: [{ updatedAt: { $lt: at } }, { updatedAt: at, _id: { $gt: prefix + cursor.id } }] });
+      }
+      const limit = options.limit ?? 100;
+
+      // One document past the page says whether there is another.
+      const docs = await collection
+        .find({ $and: filters } as Filter<SnapshotDoc>)
+        .sort({ updatedAt: -1, _id: 1 })
+        .limit(limit + 1)
+        .toArray();
+
+      const entries = docs.slice(0, limit).map(doc => ({
+        id: String(doc._id).slice(prefix.length),
+        updatedAt: doc.updatedAt.toISOString(),
+      }));
+      if (docs.length <= limit) return { entries };
+      const last = entries[entries.length - 1]!;
+      return { entries, nextCursor: encodeSnapshotCursor(last.updatedAt, last.id) };
+    },
+
+    async claimNext(
+      limit: number,
+      options?: { now?: number; workflowNames?: readonly string[] }
+    ): Promise<Array<{ id: string; snapshot: WorkflowSnapshot }>> {
+      const db = await ensureConnected();
+      const collection = db.collection<SnapshotDoc>(collectionName);
+      const escaped = prefix.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      const now = new Date(options?.now ?? Date.now()).toISOString();
+      const claimed: Array<{ id: string; snapshot: WorkflowSnapshot }> = [];
+
+      // One atomic findOneAndUpdate per run: a document is only ever flipped
+      // from "queued" by one caller, however many engines are claiming.
+      while (claimed.length < limit) {
+        const doc = await collection.findOneAndUpdate(
+          {
+            _id: { $regex: `^${escaped}` },
+            "snapshot.metadata.engineState": "queued",
+            ...(options?.workflowNames
+              ? { "snapshot.metadata.workflowName": { $in: [...options.workflowNames] } }
+              : {}),
+            // Runs queued before runAt existed are due immediately.
+            $or: [
+              { "snapshot.metadata.runAt": { $lte: now } },
+              { "snapshot.metadata.runAt": { $exists: false } },
+            ],
+          },
+          { $set: { "snapshot.metadata.engineState": "processing", updatedAt: new Date() }, $inc: { revision: 1 } },
+          {
+            sort: {
+              "snapshot.metadata.priority": -1,
+              "snapshot.metadata.runAt": 1,
+              "snapshot.metadata.enqueuedAt": 1,
+            },
+            returnDocument: "after",
+          }
+        );
+        if (!doc) break;
+        claimed.push({
+          id: String(doc._id).slice(prefix.length),
+          snapshot: doc.snapshot as WorkflowSnapshot,
+        });
+      }
+      return claimed;
+    },
+
+    async markDone(id: string): Promise<void> {
+      await setEngineState(id, "done");
+    },
+
+    async markFailed(id: string): Promise<void> {
+      await setEngineState(id, "failed");
+    },
+
+    stepCache(options?: MongoStepCacheOptions): AsyncStepCache {
+      return createMongoStepCache(ensureConnected, options);
+    },
+
     async close(): Promise<void> {
       // Only close client if we created it
       if (ownClient && client) {
@@ -248,6 +510,47 @@ export function mongo(urlOrOptions: string | MongoOptions): MongoStore {
     },
   };
 
+  if (journal) {
+    store.append = async (id: string, delta: WorkflowSnapshot, options?: SnapshotSaveOptions): Promise<void> => {
+      const db = await ensureConnected();
+      const fullId = prefix + id;
+      const expectedRevision = options?.expectedRevision;
+      // Appending onto no snapshot stores the delta as one.
+      if (expectedRevision === null) return store.save(id, delta, options);
+      const doc = await db
+        .collection<SnapshotDoc>(collectionName)
+        .findOneAndUpdate(
+          expectedRevision === undefined ? { _id: fullId } : { _id: fullId, ...atRevision(expectedRevision) },
+          {
+            // The document keeps the latest execution and metadata, so
+            // queries see them before compaction; load folds the deltas in.
+            $set: {
+              updatedAt: new Date(),
+              "snapshot.execution": delta.execution,
+              ...Object.fromEntries(
+                Object.entries(delta.metadata ?? {})
+                  .filter(([, value]) => value !== undefined)
+                  .map(([key, value]) => [`snapshot.metadata.${key}`, value])
+              ),
+            },
+            $inc: { revision: 1 },
+          },
+          { returnDocument: "after" }
+        );
+      if (!doc) {
+        if (expectedRevision !== undefined) throw await conflict(id, expectedRevision);
+        await store.save(id, delta);
+        return;
+      }
+      const entries = db.collection<JournalDoc>(journalName);
+      const generation = doc.generation ?? 0;
+      await entries.insertOne({ snapshotId: fullId, generation, delta });
+      if ((await entries.countDocuments({ snapshotId: fullId, generation })) >= journal.compactEvery) {
+        await compact(fullId);
+      }
+    };
+  }
+
   // Only include lock methods if lock is configured
   if (!opts.lock) {
     delete store.tryAcquire;
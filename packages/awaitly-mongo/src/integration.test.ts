@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeAll } from "vitest";
-import { mongo } from "./index";
+import { mongo, mongoStreamStore } from "./index";
 import { MongoClient as MongoClientImpl } from "mongodb";
-import { durable } from "awaitly/durable";
+import { durable, type StreamItem } from "awaitly/durable";
 import { ok, err, type AsyncResult } from "awaitly";
 
 const TEST_CONNECTION_STRING = process.env.TEST_MONGODB_URI ??
@@ -162,4 +162,170 @@ describe.skipIf(shouldSkip)("Integration with durable.run", () => {
     },
     20000 // 20 second timeout
   );
+
+  it.skipIf(() => !mongoAvailable)(
+    "queue: concurrent claims never share a run",
+    async () => {
+      const connectionString = TEST_CONNECTION_STRING || "mongodb://localhost:27017/test_awaitly";
+      const store = mongo({
+        url: connectionString,
+        collection: `test_queue_${Date.now()}`,
+      });
+
+      for (let i = 0; i < 5; i++) {
+        await store.save(`job-${i}`, {
+          formatVersion: 1 as const,
+          steps: {},
+          execution: { status: "running" as const, lastUpdated: new Date().toISOString() },
+          metadata: { engineState: "queued", workflowName: "wf", enqueuedAt: new Date(i).toISOString() },
+        });
+      }
+
+      const [a, b] = await Promise.all([store.claimNext(3), store.claimNext(3)]);
+      const ids = [...a, ...b].map(c => c.id).sort();
+      expect(ids).toEqual(["job-0", "job-1", "job-2", "job-3", "job-4"]);
+
+      await store.markFailed("job-0");
+      const failed = await store.load("job-0");
+      expect(failed && "metadata" in failed ? failed.metadata?.engineState : undefined).toBe("failed");
+      expect(await store.claimNext(5)).toEqual([]);
+
+      await store.close();
+    },
+    20000
+  );
+
+  it.skipIf(() => !mongoAvailable)(
+    "queue: claims due runs by priority, then runAt",
+    async () => {
+      const connectionString = TEST_CONNECTION_STRING || "mongodb://localhost:27017/test_awaitly";
+      const store = mongo({
+        url: connectionString,
+        collection: `test_queue_due_${Date.now()}`,
+      });
+
+      const queued = (runAt: number, priority?: number) => ({
+        formatVersion: 1 as const,
+        steps: {},
+        execution: { status: "running" as const, lastUpdated: new Date().toISOString() },
+        metadata: {
+          engineState: "queued",
+          workflowName: "wf",
+          enqueuedAt: new Date(0).toISOString(),
+          runAt: new Date(runAt).toISOString(),
+          ...(priority !== undefined ? { priority } : {}),
+        },
+      });
+      await store.save("early", queued(1000, 0));
+      await store.save("urgent", queued(2000, 5));
+      await store.save("future", queued(10_000, 10));
+      await store.save("low", queued(0, -1));
+
+      await store.save("elsewhere", { ...queued(0, 0), metadata: { ...queued(0, 0).metadata, workflowName: "other" } });
+
+      const claimed = await store.claimNext(10, { now: 5000, workflowNames: ["wf"] });
+      expect(claimed.map(c => c.id)).toEqual(["urgent", "early", "low"]);
+      expect((await store.claimNext(10, { now: 10_000, workflowNames: ["wf"] })).map(c => c.id)).toEqual(["future"]);
+      expect((await store.claimNext(10, { now: 10_000 })).map(c => c.id)).toEqual(["elsewhere"]);
+
+      await store.close();
+    },
+    20000
+  );
+
+  it.skipIf(() => !mongoAvailable)(
+    "journal: loads appended deltas and compacts them",
+    async () => {
+      const connectionString = TEST_CONNECTION_STRING || "mongodb://localhost:27017/test_awaitly";
+      const store = mongo({
+        url: connectionString,
+        collection: `test_journal_${Date.now()}`,
+        journal: { compactEvery: 3 },
+      });
+
+      const snapshot = (key: string, value: number) => ({
+        formatVersion: 1 as const,
+        steps: { [key]: { ok: true as const, value } },
+        execution: { status: "running" as const, lastUpdated: new Date().toISOString() },
+        metadata: { lastStepKey: key },
+      });
+      for (let i = 0; i < 5; i++) await store.append!("wf", snapshot(`s${i}`, i));
+
+      const loaded = await store.load("wf");
+      expect(Object.keys((loaded as ReturnType<typeof snapshot>).steps)).toEqual(["s0", "s1", "s2", "s3", "s4"]);
+
+      await store.save("wf", snapshot("only", 1));
+      expect(Object.keys(((await store.load("wf")) as ReturnType<typeof snapshot>).steps)).toEqual(["only"]);
+      await store.delete("wf");
+      expect(await store.load("wf")).toBeNull();
+
+      await store.close();
+    },
+    20000
+  );
+
+  it.skipIf(() => !mongoAvailable)(
+    "stepCache: shares keyed step results across runs",
+    async () => {
+      const connectionString = TEST_CONNECTION_STRING || "mongodb://localhost:27017/test_awaitly";
+      const store = mongo({
+        url: connectionString,
+        collection: `test_cache_runs_${Date.now()}`,
+      });
+      const cache = store.stepCache({ collection: `test_step_cache_${Date.now()}` });
+
+      let calls = 0;
+      const buildReport = async (): AsyncResult<string, "FAILED"> => ok(`report-${++calls}`);
+      const run = (id: string) =>
+        durable.run(
+          { buildReport },
+          async ({ step, deps }) => step("report", () => deps.buildReport(), { key: "report:today" }),
+          { id, store, cache }
+        );
+
+      expect(await run(`a-${Date.now()}`)).toEqual({ ok: true, value: "report-1" });
+      expect(await run(`b-${Date.now()}`)).toEqual({ ok: true, value: "report-1" });
+      expect(calls).toBe(1);
+
+      await cache.set("short", ok(1), { ttl: 1 });
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(await cache.getMany(["report:today", "short", "missing"])).toEqual([ok("report-1"), undefined, undefined]);
+      expect(await cache.delete("report:today")).toBe(true);
+      expect(await cache.has("report:today")).toBe(false);
+
+      await store.close();
+    },
+    20000
+  );
+
+  it.skipIf(() => !mongoAvailable)(
+    "mongoStreamStore: shares ordered items with subscribers on another client",
+    async () => {
+      const url = TEST_CONNECTION_STRING || "mongodb://localhost:27017/test_awaitly";
+      const collection = `test_streams_${Date.now()}`;
+      const writer = mongoStreamStore({ url, collection });
+      const subscriber = mongoStreamStore({ url, collection, pollInterval: 20 });
+      await writer.append("wf-1", "tokens", { value: "a", position: 0, ts: 1 });
+
+      const received: StreamItem<string>[] = [];
+      const unsubscribe = subscriber.subscribe<string>("wf-1", "tokens", item => received.push(item));
+      await new Promise(resolve => setTimeout(resolve, 200));
+      await writer.append("wf-1", "tokens", { value: "b", position: 1, ts: 2 });
+      await writer.append("wf-1", "tokens", { value: "c", position: 2, ts: 3 });
+      await expect.poll(() => received.map(item => item.value)).toEqual(["b", "c"]);
+
+      const page = await subscriber.read<string>("wf-1", "tokens", 1, 1);
+      expect(page.ok && page.value).toEqual([{ value: "b", position: 1, ts: 2 }]);
+      expect((await writer.closeStream("wf-1", "tokens")).ok).toBe(true);
+      const meta = await subscriber.getMetadata("wf-1", "tokens");
+      expect(meta.ok && meta.value).toMatchObject({ length: 3, closed: true });
+      const rejected = await writer.append("wf-1", "tokens", { value: "d", position: 3, ts: 4 });
+      expect(rejected.ok).toBe(false);
+
+      unsubscribe();
+      await writer.close();
+      await subscriber.close();
+    },
+    20000
+  );
 });
@@ -0,0 +1,95 @@
+/**
+ * MongoDB step cache: an AsyncStepCache shared by every process using the
+ * same database. Results are stored as documents; entries with a TTL are
+ * ignored once expired and removed by a TTL index.
+ */
+
+import type { Db } from "mongodb";
+import {
+  type AsyncStepCache,
+  type StepResult,
+  serializeCachedResult,
+  deserializeCachedResult,
+} from "awaitly/durable";
+
+export interface MongoStepCacheOptions {
+  /**
+   * Collection name for cached step results.
+   * @default 'awaitly_step_cache'
+   */
+  collection?: string;
+  /** Key prefix, so several caches can share one collection. @default '' */
+  prefix?: string;
+}
+
+interface StepCacheDoc {
+  _id: string;
+  result: StepResult;
+  expiresAt?: Date;
+}
+
+/**
+ * Create an AsyncStepCache backed by a MongoDB collection.
+ * `getDb` resolves the Db used for state (connecting on first use), so the
+ * cache shares its client.
+ *
+ * @example
+ * ```typescript
+ * const cache = createMongoStepCache(async () => client.db('myapp'), { prefix: 'reports:' });
+ * const workflow = createWorkflow('report', deps, { cache });
+ * ```
+ */
+export function createMongoStepCache(getDb: () => Promise<Db>, options: MongoStepCacheOptions = {}): AsyncStepCache {
+  const collectionName = options.collection ?? "awaitly_step_cache";
+  const prefix = options.prefix ?? "";
+  let indexed = false;
+
+  const collection = async () => {
+    const entries = (await getDb()).collection<StepCacheDoc>(collectionName);
+    if (!indexed) {
+      // Mongo drops expired entries in the background; reads filter them too.
+      await entries.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0, background: true }).catch(() => {
+        // Index may already exist, ignore error
+      });
+      indexed = true;
+    }
+    return entries;
+  };
+
+  const live = () => ({ $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: new Date() } }] });
+
+  return {
+    async get(key) {
+      const doc = await (await collection()).findOne({ _id: prefix + key, ...live() });
+      return doc ? deserializeCachedResult(doc.result) : undefined;
+    },
+
+    async getMany(keys) {
+      const docs = await (await collection())
+        .find({ _id: { $in: keys.map(key => prefix + key) }, ...live() })
+        .toArray();
+      const found = new Map(docs.map(doc => [doc._id, doc.result]));
+      return keys.map(key => {
+        const stored = found.get(prefix + key);
+        return stored && deserializeCachedResult(stored);
+      });
+    },
+
+    async set(key, value, setOptions) {
+      const result = serializeCachedResult(value);
+      await (await collection()).replaceOne(
+        { _id: prefix + key },
+        setOptions?.ttl ? { result, expiresAt: new Date(Date.now() + setOptions.ttl) } : { result },
+        { upsert: true }
+      );
+    },
+
+    async has(key) {
+      return (await (await collection()).countDocuments({ _id: prefix + key, ...live() }, { limit: 1 })) > 0;
+    },
+
+    async delete(key) {
+      return (await (await collection()).deleteOne({ _id: prefix + key })).deletedCount > 0;
+    },
+  };
+}
@@ -0,0 +1,255 @@
+/**
+ * MongoDB stream store: a StreamStore shared by every process using the same
+ * database, so `step.getWritable()` output from a durable run on one pod can
+ * be read or subscribed to from another. Subscribers tail the items
+ * collection by polling, which works without a replica set.
+ */
+
+import type { Db, MongoClientOptions } from "mongodb";
+import { MongoClient as MongoClientImpl } from "mongodb";
+import { ok, err, type AsyncResult } from "awaitly";
+import {
+  type StreamStore,
+  type StreamStoreError,
+  type StreamItem,
+  type StreamMetadata,
+  type Unsubscribe,
+  streamStoreError,
+} from "awaitly/durable";
+
+export interface MongoStreamStoreOptions {
+  /** MongoDB connection URL. */
+  url: string;
+  /** Database name. @default 'awaitly' */
+  database?: string;
+  /**
+   * Collection name for stream metadata. Items go in `<collection>_items`.
+   * @default 'awaitly_streams'
+   */
+  collection?: string;
+  /** Bring your own client. */
+  client?: MongoClientImpl;
+  /** MongoDB client options. */
+  clientOptions?: MongoClientOptions;
+  /** How often subscribers check for new items, in ms. @default 250 */
+  pollInterval?: number;
+}
+
+/** StreamStore backed by MongoDB. */
+export interface MongoStreamStore extends StreamStore {
+  /** Close the client if the store created it. */
+  close(): Promise<void>;
+}
+
+interface StreamDoc {
+  workflowId: string;
+  namespace: string;
+  length: number;
+  closed: boolean;
+  createdAt: number;
+  lastWriteAt?: number;
+  closedAt?: number;
+}
+
+interface StreamItemDoc {
+  workflowId: string;
+  namespace: string;
+  position: number;
+  value: unknown;
+  ts: number;
+}
+
+/**
+ * Create a StreamStore backed by MongoDB.
+ * Items are kept in order by position; each `subscribe` polls from the
+ * stream's length at the time it subscribed.
+ *
+ * @example
+ * ```typescript
+ * const streamStore = mongoStreamStore('mongodb://localhost:27017/myapp');
+ * const workflow = createWorkflow('report', deps, { streamStore });
+ *
+ * // In an HTTP handler on another pod
+ * const reader = getStreamReader({ store: streamStore, workflowId, namespace: 'progress' });
+ * ```
+ */
+export function mongoStreamStore(urlOrOptions: string | MongoStreamStoreOptions): MongoStreamStore {
+  const opts = typeof urlOrOptions === "string" ? { url: urlOrOptions } : urlOrOptions;
+
+  // Parse database from URL if provided
+  let databaseName = opts.database;
+  const urlMatch = opts.url.match(/mongodb(?:\+srv)?:\/\/[^/]+\/([^?]+)/);
+  if (!databaseName && urlMatch && urlMatch[1]) {
+    databaseName = urlMatch[1];
+  }
+  databaseName = databaseName ?? "awaitly";
+
+  const collectionName = opts.collection ?? "awaitly_streams";
+  const itemsName = `${collectionName}_items`;
+  const pollInterval = opts.pollInterval ?? 250;
+
+  // Create or use existing client
+  const ownClient = !opts.client;
+  let client: MongoClientImpl | undefined = opts.client;
+  let db: Db | undefined;
+
+  const ensureConnected = async (): Promise<Db> => {
+    if (db) return db;
+
+    if (!client) {
+      client = new MongoClientImpl(opts.url, {
+        directConnection: !opts.url.includes("mongodb+srv://"),
+        ...opts.clientOptions,
+      });
+    }
+
+    await client.connect();
+    const connected = client.db(databaseName);
+    await connected
+      .collection<StreamDoc>(collectionName)
+      .createIndex({ workflowId: 1, namespace: 1 }, { unique: true, background: true })
+      .catch(() => {
+        // Index may already exist, ignore error
+      });
+    // Positions are unique per stream, so a replayed write cannot duplicate an item.
+    await connected
+      .collection<StreamItemDoc>(itemsName)
+      .createIndex({ workflowId: 1, namespace: 1, position: 1 }, { unique: true, background: true })
+      .catch(() => {
+        // Index may already exist, ignore error
+      });
+    db = connected;
+    return db;
+  };
+
+  const readItems = async <T>(
+    workflowId: string,
+    namespace: string,
+    startIndex: number,
+    limit?: number
+  ): Promise<StreamItem<T>[]> => {
+    const cursor = (await ensureConnected())
+      .collection<StreamItemDoc>(itemsName)
+      .find({ workflowId, namespace, position: { $gte: startIndex } })
+      .sort({ position: 1 });
+    if (limit !== undefined) cursor.limit(limit);
+    const docs = await cursor.toArray();
+    return docs.map(doc => ({ value: doc.value as T, position: doc.position, ts: doc.ts }));
+  };
+
+  return {
+    async append<T>(workflowId: string, namespace: string, item: StreamItem<T>): AsyncResult<void, StreamStoreError> {
+      try {
+        const db = await ensureConnected();
+        const streams = db.collection<StreamDoc>(collectionName);
+        const stream = await streams.findOne({ workflowId, namespace });
+        if (stream?.closed) {
+          return err(streamStoreError("write_error", "Cannot write to closed stream"));
+        }
+
+        await db.collection<StreamItemDoc>(itemsName).insertOne({
+          workflowId,
+          namespace,
+          position: item.position,
+          value: item.value,
+          ts: item.ts,
+        });
+        const now = Date.now();
+        await streams.updateOne(
+          { workflowId, namespace },
+          { $inc: { length: 1 }, $set: { lastWriteAt: now }, $setOnInsert: { closed: false, createdAt: now } },
+          { upsert: true }
+        );
+        return ok(undefined);
+      } catch (cause) {
+        return err(streamStoreError("write_error", "Failed to append item", cause));
+      }
+    },
+
+    async read<T>(
+      workflowId: string,
+      namespace: string,
+      startIndex: number,
+      limit?: number
+    ): AsyncResult<StreamItem<T>[], StreamStoreError> {
+      try {
+        return ok(await readItems<T>(workflowId, namespace, startIndex, limit));
+      } catch (cause) {
+        return err(streamStoreError("read_error", "Failed to read items", cause));
+      }
+    },
+
+    async getMetadata(workflowId: string, namespace: string): AsyncResult<StreamMetadata | undefined, StreamStoreError> {
+      try {
+        const stream = await (await ensureConnected()).collection<StreamDoc>(collectionName).findOne({ workflowId, namespace });
+        if (!stream) return ok(undefined);
+        return ok({
+          id: `${workflowId}:${namespace}`,
+          namespace,
+          workflowId,
+          length: stream.length,
+          closed: stream.closed,
+          createdAt: stream.createdAt,
+          lastWriteAt: stream.lastWriteAt,
+          closedAt: stream.closedAt,
+        });
+      } catch (cause) {
+        return err(streamStoreError("metadata_error", "Failed to get metadata", cause));
+      }
+    },
+
+    async closeStream(workflowId: string, namespace: string): AsyncResult<void, StreamStoreError> {
+      try {
+        await (await ensureConnected())
+          .collection<StreamDoc>(collectionName)
+          .updateOne({ workflowId, namespace, closed: false }, { $set: { closed: true, closedAt: Date.now() } });
+        return ok(undefined);
+      } catch (cause) {
+        return err(streamStoreError("close_error", "Failed to close stream", cause));
+      }
+    },
+
+    subscribe<T>(workflowId: string, namespace: string, callback: (item: StreamItem<T>) => void): Unsubscribe {
+      let active = true;
+      let next: number | undefined;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const poll = async () => {
+        try {
+          if (next === undefined) {
+            const stream = await (await ensureConnected())
+              .collection<StreamDoc>(collectionName)
+              .findOne({ workflowId, namespace });
+            next = stream?.length ?? 0;
+          }
+          for (const item of await readItems<T>(workflowId, namespace, next)) {
+            if (!active) return;
+            next = item.position + 1;
+            try {
+              callback(item);
+            } catch {
+              // Ignore subscriber errors
+            }
+          }
+        } catch {
+          // Try again on the next poll
+        }
+        if (active) timer = setTimeout(poll, pollInterval);
+      };
+      void poll();
+
+      return () => {
+        active = false;
+        clearTimeout(timer);
+      };
+    },
+
+    async close(): Promise<void> {
+      // Only close client if we created it
+      if (ownClient && client) {
+        await client.close();
+        db = undefined;
+      }
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, it } from "vitest";
+import {
+  runSnapshotStoreConformance,
+  runSnapshotRevisionsConformance,
+  runSnapshotQueryConformance,
+  runWorkflowLockConformance,
+} from "awaitly/testing";
+import { postgres, type PostgresStore, type WorkflowLock } from "./index";
+
+// Needs a live database, so only runs when one is configured.
+const TEST_CONNECTION_STRING = process.env.TEST_POSTGRES_CONNECTION_STRING;
+
+describe.skipIf(!TEST_CONNECTION_STRING)("postgres() conformance", () => {
+  const table = `test_conformance_${Date.now()}`;
+
+  runSnapshotStoreConformance(() => postgres({ url: TEST_CONNECTION_STRING!, table }), { describe, it });
+
+  runSnapshotRevisionsConformance(() => postgres({ url: TEST_CONNECTION_STRING!, table }), { describe, it });
+
+  runSnapshotRevisionsConformance(
+    () => postgres({ url: TEST_CONNECTION_STRING!, table: `${table}_journaled`, journal: true }),
+    { describe, it, name: "SnapshotRevisions conformance with a journal" }
+  );
+
+  runSnapshotQueryConformance(() => postgres({ url: TEST_CONNECTION_STRING!, table }), { describe, it });
+
+  runSnapshotQueryConformance(
+    () => postgres({ url: TEST_CONNECTION_STRING!, table: `${table}_journaled`, journal: true }),
+    { describe, it, name: "SnapshotQuery conformance with a journal" }
+  );
+
+  runWorkflowLockConformance(
+    () => postgres({ url: TEST_CONNECTION_STRING!, table, lock: { lockTableName: `${table}_lock` } }) as PostgresStore & WorkflowLock,
+    { describe, it }
+  );
+});
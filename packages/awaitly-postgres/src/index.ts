@@ -7,24 +7,53 @@
  */
 
 import { Pool as PgPool } from "pg";
-import type { WorkflowSnapshot, SnapshotStore } from "awaitly/durable";
-import type { WorkflowLock } from "awaitly/durable";
+import type {
+  WorkflowSnapshot,
+  SnapshotStore,
+  QueueStore,
+  SnapshotJournal,
+  SnapshotSaveOptions,
+  SnapshotQuery,
+  SnapshotQueryOptions,
+  SnapshotQueryPage,
+} from "awaitly/durable";
+import type { WorkflowLock, AsyncStepCache } from "awaitly/durable";
 import {
   type ResumeState,
   type StoreSaveInput,
   type StoreLoadResult,
   isWorkflowSnapshot,
+  mergeSnapshots,
   isResumeState,
   isSerializedResumeState,
   serializeResumeState,
   deserializeResumeState,
+  encodeSnapshotCursor,
+  decodeSnapshotCursor,
+  SnapshotConflictError,
 } from "awaitly/durable";
 import { createPostgresLock, type PostgresLockOptions } from "./postgres-lock";
+import { createPostgresStepCache, type PostgresStepCacheOptions } from "./postgres-step-cache";
 
 // Re-export types for convenience
-export type { SnapshotStore, WorkflowSnapshot } from "awaitly/durable";
+export type {
+  SnapshotStore,
+  WorkflowSnapshot,
+  QueueStore,
+  SnapshotJournal,
+  SnapshotRevisions,
+  SnapshotSaveOptions,
+  SnapshotQuery,
+  SnapshotQueryOptions,
+  SnapshotQueryPage,
+} from "awaitly/durable";
+export { SnapshotConflictError } from "awaitly/durable";
 export type { WorkflowLock } from "awaitly/durable";
 export type { PostgresLockOptions } from "./postgres-lock";
+export { createPostgresStepCache, type PostgresStepCacheOptions } from "./postgres-step-cache";
+export type { AsyncStepCache } from "awaitly/durable";
+export { postgresStreamStore, type PostgresStreamStoreOptions, type PostgresStreamStore } from "./postgres-stream-store";
+export type { StreamStore } from "awaitly/durable";
 export type { StoreSaveInput, StoreLoadResult } from "awaitly/durable";
 
 // =============================================================================
@@ -47,6 +76,13 @@ export interface PostgresOptions {
   autoCreateTable?: boolean;
   /** Cross-process lock options. When set, the store implements WorkflowLock. */
   lock?: PostgresLockOptions;
+  /**
+   * Keep the step deltas durable.run appends in a `<table>_journal` table
+   * instead of rewriting the snapshot after every step. When set, the store
+   * implements SnapshotJournal. A snapshot's deltas are folded into it once
+   * `compactEvery` have accumulated. @default { compactEvery: 100 }
+   */
+  journal?: boolean | { compactEvery?: number };
 }
 
 // =============================================================================
@@ -55,6 +91,29 @@ export interface PostgresOptions {
 
 const SAFE_TABLE_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
 
+// Queued runs are due at metadata.runAt (older rows only have enqueuedAt)
+// and claimed highest metadata.priority first.
+const QUEUE_RUN_AT = `COALESCE(snapshot->'metadata'->>'runAt', snapshot->'metadata'->>'enqueuedAt')`;
+const QUEUE_PRIORITY = `COALESCE((snapshot->'metadata'->>'priority')::numeric, 0)`;
+
+// Query filters, each backed by an expression index.
+const WORKFLOW_NAME = `snapshot->'metadata'->>'workflowName'`;
+const STATUS = `snapshot->'execution'->>'status'`;
+// updated_at at full (microsecond) precision, for cursors.
+const CURSOR_AT = `to_char(updated_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')`;
+
+const queuedRunAt = (snapshot: WorkflowSnapshot) =>
+  String(snapshot.metadata?.runAt ?? snapshot.metadata?.enqueuedAt ?? "");
+const queuedPriority = (snapshot: WorkflowSnapshot) =>
+  typeof snapshot.metadata?.priority === "number" ? snapshot.metadata.priority : 0;
+
+function compareQueued(a: { snapshot: WorkflowSnapshot }, b: { snapshot: WorkflowSnapshot }): number {
+  return (
+    queuedPriority(b.snapshot) - queuedPriority(a.snapshot) ||
+    queuedRunAt(a.snapshot).localeCompare(queuedRunAt(b.snapshot))
+  );
+}
+
 /**
  * Create a snapshot store backed by PostgreSQL.
  * Save accepts WorkflowSnapshot or ResumeState; load returns whichever was stored.
@@ -89,13 +148,25 @@ const SAFE_TABLE_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
  * });
  * ```
  */
-/** Postgres store with widened save/load for WorkflowSnapshot and ResumeState. Compatible with SnapshotStore for snapshot-only usage. */
-export interface PostgresStore extends Partial<WorkflowLock> {
-  save(id: string, state: StoreSaveInput): Promise<void>;
+/**
+ * Postgres store with widened save/load for WorkflowSnapshot and ResumeState. Compatible with SnapshotStore for snapshot-only usage.
+ * Implements QueueStore with `FOR UPDATE SKIP LOCKED`, so several engines can share one table, and
+ * SnapshotRevisions with a `revision` column, so conditional saves are a single guarded statement, and
+ * SnapshotQuery with indexes on the workflow name, status and metadata.
+ */
+export interface PostgresStore extends Partial<WorkflowLock>, Partial<SnapshotJournal>, QueueStore, SnapshotQuery {
+  /** Upsert, or with `options.expectedRevision` write only at that revision (else SnapshotConflictError). */
+  save(id: string, state: StoreSaveInput, options?: SnapshotSaveOptions): Promise<void>;
   load(id: string): Promise<StoreLoadResult>;
+  /** `load` with the row's revision, for a later conditional save. */
+  loadRevision(id: string): Promise<{ snapshot: NonNullable<StoreLoadResult>; revision: number } | null>;
   loadResumeState(id: string): Promise<ResumeState | null>;
   delete(id: string): Promise<void>;
   list(options?: { prefix?: string; limit?: number }): Promise<Array<{ id: string; updatedAt: string }>>;
+  /** Filter by workflow name, status, write time and metadata, a page at a time. */
+  query(options?: SnapshotQueryOptions): Promise<SnapshotQueryPage>;
+  /** An AsyncStepCache in this database, sharing the store's pool. */
+  stepCache(options?: PostgresStepCacheOptions): AsyncStepCache;
   close(): Promise<void>;
 }
 
@@ -115,49 +186,178 @@ export function postgres(urlOrOptions: string | PostgresOptions): PostgresStore
   const pool = opts.pool ?? new PgPool({ connectionString: opts.url });
   let tableCreated = false;
 
+  const journal = opts.journal ? { compactEvery: 100, ...(opts.journal === true ? {} : opts.journal) } : null;
+  const journalTable = `${tableName}_journal`;
+
   const ensureTable = async (): Promise<void> => {
     if (!autoCreateTable || tableCreated) return;
     await pool.query(`
       CREATE TABLE IF NOT EXISTS ${tableName} (
         id TEXT PRIMARY KEY,
         snapshot JSONB NOT NULL,
-        updated_at TIMESTAMPTZ DEFAULT NOW()
+        updated_at TIMESTAMPTZ DEFAULT NOW(),
+        revision BIGINT NOT NULL DEFAULT 1
       )
     `);
+    // Tables created before revisions existed
+    await pool.query(`ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS revision BIGINT NOT NULL DEFAULT 1`);
     await pool.query(`
       CREATE INDEX IF NOT EXISTS ${tableName}_updated_at_idx ON ${tableName} (updated_at DESC)
     `);
+    // Partial index over queued engine runs only, so claiming stays cheap
+    // however many finished snapshots the table holds.
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS ${tableName}_queue_due_idx ON ${tableName} (${QUEUE_PRIORITY} DESC, ${QUEUE_RUN_AT})
+      WHERE snapshot->'metadata'->>'engineState' = 'queued'
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS ${tableName}_workflow_name_idx ON ${tableName} ((${WORKFLOW_NAME}), updated_at DESC)
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS ${tableName}_status_idx ON ${tableName} ((${STATUS}), updated_at DESC)
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS ${tableName}_metadata_idx ON ${tableName} USING GIN ((snapshot->'metadata') jsonb_path_ops)
+    `);
+    if (journal) {
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS ${journalTable} (
+          seq BIGSERIAL PRIMARY KEY,
+          id TEXT NOT NULL,
+          delta JSONB NOT NULL
+        )
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS ${journalTable}_id_idx ON ${journalTable} (id, seq)
+      `);
+    }
     tableCreated = true;
   };
 
+  /**
+   * The stored row for `fullId` and its journaled deltas, oldest first. One
+   * statement reads both from the same database snapshot, so a compaction
+   * running alongside cannot hand back the row without its deltas.
+   */
+  const readState = async (
+    fullId: string
+  ): Promise<{ raw: unknown; revision: number; deltas: Array<{ seq: string; delta: WorkflowSnapshot }> } | null> => {
+    const deltasColumn = journal
+      ? `, (SELECT COALESCE(jsonb_agg(jsonb_build_object('seq', j.seq::text, 'delta', j.delta) ORDER BY j.seq), '[]'::jsonb)
+           FROM ${journalTable} j WHERE j.id = t.id) AS deltas`
+      : "";
+    const result = await pool.query(`SELECT t.snapshot, t.revision${deltasColumn} FROM ${tableName} t WHERE t.id = $1`, [fullId]);
+    if (result.rows.length === 0) return null;
+    const row = result.rows[0];
+    return {
+      raw: row.snapshot as unknown,
+      revision: Number(row.revision),
+      deltas: journal ? (row.deltas as Array<{ seq: string; delta: WorkflowSnapshot }>) : [],
+    };
+  };
+
+  const fold = (raw: unknown, deltas: Array<{ delta: WorkflowSnapshot }>): WorkflowSnapshot =>
+    deltas.reduce((snapshot, { delta }) => mergeSnapshots(snapshot, delta), raw as WorkflowSnapshot);
+
+  const toLoadResult = ({ raw, deltas }: { raw: unknown; deltas: Array<{ delta: WorkflowSnapshot }> }): NonNullable<StoreLoadResult> => {
+    if (isSerializedResumeState(raw)) return deserializeResumeState(raw);
+    if (deltas.length > 0) return fold(raw, deltas);
+    if (isWorkflowSnapshot(raw)) return raw;
+    return raw as WorkflowSnapshot;
+  };
+
+  /** The error for a write to `id` rejected at `expectedRevision`. */
+  const conflict = async (id: string, expectedRevision: number | null): Promise<SnapshotConflictError> => {
+    const result = await pool.query(`SELECT revision FROM ${tableName} WHERE id = $1`, [prefix + id]);
+    return new SnapshotConflictError(id, expectedRevision, result.rows.length === 0 ? null : Number(result.rows[0].revision));
+  };
+
+  /** Fold `fullId`'s journaled deltas into its snapshot row. */
+  const compact = async (fullId: string): Promise<void> => {
+    const state = await readState(fullId);
+    if (!state || state.deltas.length === 0) return;
+    // One statement, so the row and the journal change together. Folding
+    // leaves what load returns unchanged, so the revision stays; a write
+    // since the read moved it, and then the fold is skipped.
+    await pool.query(
+      `WITH folded AS (
+         UPDATE ${tableName} SET snapshot = $2, updated_at = NOW() WHERE id = $1 AND revision = $4 RETURNING id
+       )
+       DELETE FROM ${journalTable} WHERE id IN (SELECT id FROM folded) AND seq <= $3`,
+      [fullId, JSON.stringify(fold(state.raw, state.deltas)), state.deltas[state.deltas.length - 1]!.seq, state.revision]
+    );
+  };
+
+  const setEngineState = async (id: string, engineState: string): Promise<void> => {
+    await ensureTable();
+    // Deltas carry metadata too, so fold them in before changing it.
+    if (journal) await compact(prefix + id);
+    await pool.query(
+      `UPDATE ${tableName}
+       SET snapshot = jsonb_set(snapshot, '{metadata,engineState}', to_jsonb($2::text)),
+           updated_at = NOW(), revision = revision + 1
+       WHERE id = $1 AND snapshot ? 'metadata'`,
+      [prefix + id, engineState]
+    );
+  };
+
   // Create lock if requested
   const lock = opts.lock ? createPostgresLock(pool, opts.lock) : null;
 
   const store: PostgresStore = {
-    async save(id: string, state: StoreSaveInput): Promise<void> {
+    async save(id: string, state: StoreSaveInput, options?: SnapshotSaveOptions): Promise<void> {
       await ensureTable();
       const fullId = prefix + id;
-      const toStore = isResumeState(state) ? serializeResumeState(state) : state;
-      await pool.query(
-        `INSERT INTO ${tableName} (id, snapshot, updated_at)
-         VALUES ($1, $2, NOW())
-         ON CONFLICT (id) DO UPDATE SET snapshot = $2, updated_at = NOW()`,
-        [fullId, JSON.stringify(toStore)]
+      const toStore = JSON.stringify(isResumeState(state) ? serializeResumeState(state) : state);
+      const expectedRevision = options?.expectedRevision;
+
+      if (expectedRevision === undefined) {
+        const upsert = `INSERT INTO ${tableName} (id, snapshot, updated_at)
+           VALUES ($1, $2, NOW())
+           ON CONFLICT (id) DO UPDATE SET snapshot = $2, updated_at = NOW(), revision = ${tableName}.revision + 1`;
+        await pool.query(
+          // A full save supersedes the journal.
+          journal ? `WITH cleared AS (DELETE FROM ${journalTable} WHERE id = $1) ${upsert}` : upsert,
+          [fullId, toStore]
+        );
+        return;
+      }
+
+      // A writer blocked on this row re-checks the revision once this one
+      // commits, so of two writers at one revision only the first matches.
+      const write =
+        expectedRevision === null
+          ? {
+              sql: `INSERT INTO ${tableName} (id, snapshot, updated_at) VALUES ($1, $2, NOW())
+                    ON CONFLICT (id) DO NOTHING RETURNING id`,
+              params: [fullId, toStore],
+            }
+          : {
+              sql: `UPDATE ${tableName} SET snapshot = $2, updated_at = NOW(), revision = revision + 1
+                    WHERE id = $1 AND revision = $3 RETURNING id`,
+              params: [fullId, toStore, expectedRevision],
+            };
+      const saved = await pool.query(
+        journal
+          ? `WITH saved AS (${write.sql}),
+               cleared AS (DELETE FROM ${journalTable} WHERE id IN (SELECT id FROM saved))
+             SELECT id FROM saved`
+          : write.sql,
+        write.params
       );
+      if (saved.rowCount === 0) throw await conflict(id, expectedRevision);
     },
 
     async load(id: string): Promise<StoreLoadResult> {
       await ensureTable();
-      const fullId = prefix + id;
-      const result = await pool.query(
-        `SELECT snapshot FROM ${tableName} WHERE id = $1`,
-        [fullId]
-      );
-      if (result.rows.length === 0) return null;
-      const raw = result.rows[0].snapshot;
-      if (isSerializedResumeState(raw)) return deserializeResumeState(raw);
-      if (isWorkflowSnapshot(raw)) return raw;
-      return raw as WorkflowSnapshot;
+      const state = await readState(prefix + id);
+      return state && toLoadResult(state);
+    },
+
+    async loadRevision(id: string): Promise<{ snapshot: NonNullable<StoreLoadResult>; revision: number } | null> {
+      await ensureTable();
+      const state = await readState(prefix + id);
+      return state && { snapshot: toLoadResult(state), revision: state.revision };
     },
 
     async loadResumeState(id: string): Promise<ResumeState | null> {
@@ -170,7 +370,11 @@ export function postgres(urlOrOptions: string | PostgresOptions): PostgresStore
     async delete(id: string): Promise<void> {
       await ensureTable();
       const fullId = prefix + id;
-      await pool.query(`DELETE FROM ${tableName} WHERE id = $1`, [fullId]);
+      const remove = `DELETE FROM ${tableName} WHERE id = $1`;
+      await pool.query(
+        journal ? `WITH cleared AS (DELETE FROM ${journalTable} WHERE id = $1) ${remove}` : remove,
+        [fullId]
+      );
     },
 
     async list(options?: { prefix?: string; limit?: number }): Promise<Array<{ id: string; updatedAt: string }>> {
@@ -192,6 +396,88 @@ export function postgres(urlOrOptions: string | PostgresOptions): PostgresStore
       }));
     },
 
+    async query(options: SnapshotQueryOptions = {}): Promise<SnapshotQueryPage> {
+      await ensureTable();
+      const params: unknown[] = [];
+      const param = (value: unknown) => `$${params.push(value)}`;
+      const where = [`id LIKE ${param(prefix + (options.prefix ?? "") + "%")}`];
+      if (options.workflowName !== undefined) where.push(`${WORKFLOW_NAME} = ${param(options.workflowName)}`);
+      if (options.status !== undefined) where.push(`${STATUS} = ANY(${param([options.status].flat())}::text[])`);
+      if (options.metadata !== undefined) where.push(`snapshot->'metadata' @> ${param(JSON.stringify(options.metadata))}::jsonb`);
+      if (options.updatedAfter !== undefined) where.push(`updated_at > ${param(new Date(options.updatedAfter))}`);
+      if (options.updatedBefore !== undefined) where.push(`updated_at < ${param(new Date(options.updatedBefore))}`);
+      if (options.cursor !== undefined) {
+        const cursor = decodeSnapshotCursor(options.cursor);
+        const at = param(cursor.updatedAt);
+        where.push(`(updated_at < ${at}::timestamptz OR (updated_at = ${at}::timestamptz AND id > ${param(prefix + cursor.id)}))`);
+      }
+      const limit = options.limit ?? 100;
+
+      // One row past the page says whether there is another.
+      const result = await pool.query(
+        `SELECT id, updated_at, ${CURSOR_AT} AS cursor_at FROM ${tableName}
+         WHERE ${where.join(" AND ")}
+         ORDER BY updated_at DESC, id ASC
+         LIMIT ${param(limit + 1)}`,
+        params
+      );
+
+      const rows = result.rows.slice(0, limit);
+      const entries = rows.map(row => ({
+        id: (row.id as string).slice(prefix.length),
+        updatedAt: (row.updated_at as Date).toISOString(),
+      }));
+      if (result.rows.length <= limit) return { entries };
+      const last = rows[rows.length - 1];
+      return { entries, nextCursor: encodeSnapshotCursor(last.cursor_at as string, entries[entries.length - 1]!.id) };
+    },
+
+    async claimNext(
+      limit: number,
+      options?: { now?: number; workflowNames?: readonly string[] }
+    ): Promise<Array<{ id: string; snapshot: WorkflowSnapshot }>> {
+      await ensureTable();
+      const params: unknown[] = [prefix + "%", limit, new Date(options?.now ?? Date.now()).toISOString()];
+      const byName = options?.workflowNames
+        ? `AND ${WORKFLOW_NAME} = ANY($${params.push([...options.workflowNames])}::text[])`
+        : "";
+      // SKIP LOCKED lets concurrent engines claim disjoint rows without waiting.
+      const result = await pool.query(
+        `UPDATE ${tableName} AS t
+         SET snapshot = jsonb_set(t.snapshot, '{metadata,engineState}', '"processing"'),
+             updated_at = NOW(), revision = t.revision + 1
+         FROM (
+           SELECT id FROM ${tableName}
+           WHERE id LIKE $1 AND snapshot->'metadata'->>'engineState' = 'queued'
+             AND ${QUEUE_RUN_AT} <= $3 ${byName}
+           ORDER BY ${QUEUE_PRIORITY} DESC, ${QUEUE_RUN_AT} ASC
+           LIMIT $2
+           FOR UPDATE SKIP LOCKED
+         ) AS claimed
+         WHERE t.id = claimed.id
+         RETURNING t.id, t.snapshot`,
+        params
+      );
+      return result.rows
+        .map(row => ({
+          id: (row.id as string).slice(prefix.length),
+          snapshot: row.snapshot as WorkflowSnapshot,
+        }))
+        .sort(compareQueued);
+    },
+
+    async markDone(id: string): Promise<void> {
+      await setEngineState(id, "done");
+    },
+
+    async markFailed(id: string): Promise<void> {
+      await setEngineState(id, "failed");
+    },
+
+    stepCache(options?: PostgresStepCacheOptions): AsyncStepCache {
+      return createPostgresStepCache(pool, options);
+    },
+
     async close(): Promise<void> {
       // Only end pool if we created it
       if (ownPool) {
@@ -200,6 +486,36 @@ export function postgres(urlOrOptions: string | PostgresOptions): PostgresStore
     },
   };
 
+  if (journal) {
+    store.append = async (id: string, delta: WorkflowSnapshot, options?: SnapshotSaveOptions): Promise<void> => {
+      await ensureTable();
+      const fullId = prefix + id;
+      const expectedRevision = options?.expectedRevision;
+      // Appending onto no snapshot stores the delta as one.
+      if (expectedRevision === null) return store.save(id, delta, options);
+      // The row keeps the latest execution and metadata, so queries see
+      // them before compaction; load folds the deltas in as before.
+      const head =
+        `jsonb_set(snapshot, '{execution}', $2::jsonb->'execution')` +
+        (delta.metadata ? ` || jsonb_build_object('metadata', COALESCE(snapshot->'metadata', '{}'::jsonb) || ($2::jsonb->'metadata'))` : "");
+      const appended = await pool.query(
+        `WITH touched AS (
+           UPDATE ${tableName} SET snapshot = ${head}, updated_at = NOW(), revision = revision + 1
+           WHERE id = $1 ${expectedRevision === undefined ? "" : "AND revision = $3"} RETURNING id
+         )
+         INSERT INTO ${journalTable} (id, delta) SELECT id, $2::jsonb FROM touched`,
+        expectedRevision === undefined ? [fullId, JSON.stringify(delta)] : [fullId, JSON.stringify(delta), expectedRevision]
+      );
+      if (appended.rowCount === 0) {
+        if (expectedRevision !== undefined) throw await conflict(id, expectedRevision);
+        await store.save(id, delta);
+        return;
+      }
+      const pending = await pool.query(`SELECT COUNT(*) AS n FROM ${journalTable} WHERE id = $1`, [fullId]);
+      if (Number(pending.rows[0].n) >= journal.compactEvery) await compact(fullId);
+    };
+  }
+
   // Add lock methods if lock is configured
   if (lock) {
     store.tryAcquire = lock.tryAcquire.bind(lock);
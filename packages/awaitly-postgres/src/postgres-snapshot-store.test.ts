@@ -1,5 +1,7 @@
+import { EventEmitter } from "node:events";
 import { describe, it, expect } from "vitest";
-import { postgres } from "./index";
+import type { Pool } from "pg";
+import { postgres, postgresStreamStore } from "./index";
 
 describe("postgres() SnapshotStore", () => {
   describe("table name validation (SQL injection prevention)", () => {
@@ -52,9 +54,73 @@ describe("postgres() SnapshotStore", () => {
       expect(store.close).toBeDefined();
     });
 
+    it("should throw when the step cache table name is invalid", () => {
+      const store = postgres("postgresql://localhost/mydb");
+      expect(() => store.stepCache({ table: "cache; DROP TABLE users" })).toThrow(/Invalid table name/);
+    });
+
+    it("should throw when the stream store table name is invalid", () => {
+      expect(() =>
+        postgresStreamStore({ url: "postgresql://localhost/mydb", table: "streams; DROP TABLE users" })
+      ).toThrow(/Invalid table name/);
+    });
+
     it("should accept default table name (string shorthand)", () => {
       const store = postgres("postgresql://localhost/mydb");
       expect(store).toBeDefined();
     });
   });
 });
+
+describe("postgresStreamStore() listener", () => {
+  // Pool handing out clients that only record their queries
+  const createPool = () => {
+    const clients: Array<EventEmitter & { queries: string[]; released: unknown[] }> = [];
+    const pool = {
+      connect: async () => {
+        const client = Object.assign(new EventEmitter(), {
+          queries: [] as string[],
+          released: [] as unknown[],
+          query: async (sql: string) => {
+            client.queries.push(sql);
+            return { rows: [] };
+          },
+          release: (cause?: unknown) => client.released.push(cause),
+        });
+        clients.push(client);
+        return client;
+      },
+    };
+    return { pool: pool as unknown as Pool, clients };
+  };
+
+  it("listens on the table name as written", async () => {
+    const { pool, clients } = createPool();
+    const store = postgresStreamStore({ url: "", table: "Awaitly_Streams", pool });
+    const unsubscribe = store.subscribe("wf-1", "tokens", () => {});
+    await new Promise(resolve => setTimeout(resolve, 0));
+    unsubscribe();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(clients[0]?.queries).toEqual(['LISTEN "Awaitly_Streams"', 'UNLISTEN "Awaitly_Streams"']);
+  });
+
+  it("drops a listening client that errors and listens again on the next subscribe", async () => {
+    const { pool, clients } = createPool();
+    const store = postgresStreamStore({ url: "", pool });
+    store.subscribe("wf-1", "tokens", () => {});
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const lost = new Error("connection terminated");
+    clients[0]?.emit("error", lost);
+    expect(clients[0]?.released).toEqual([lost]);
+
+    store.subscribe("wf-1", "tokens", () => {});
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(clients).toHaveLength(2);
+    expect(clients[1]?.queries).toEqual(['LISTEN "awaitly_streams"']);
+    await store.close();
+    expect(clients[0]?.released).toEqual([lost]);
+    expect(clients[1]?.released).toEqual([undefined]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * PostgreSQL step cache: an AsyncStepCache shared by every process using the
+ * same database. Results are stored as JSON; entries with a TTL are ignored
+ * once expired and overwritten by the next set.
+ */
+
+import type { Pool } from "pg";
+import {
+  type AsyncStepCache,
+  type StepResult,
+  serializeCachedResult,
+  deserializeCachedResult,
+} from "awaitly/durable";
+
+export interface PostgresStepCacheOptions {
+  /**
+   * Table name for cached step results.
+   * @default 'awaitly_step_cache'
+   */
+  table?: string;
+  /** Key prefix, so several caches can share one table. @default '' */
+  prefix?: string;
+}
+
+/**
+ * Create an AsyncStepCache backed by a PostgreSQL table.
+ * Pass the pool used for state so the cache shares its connections.
+ *
+ * @example
+ * ```typescript
+ * const cache = createPostgresStepCache(pool, { prefix: 'reports:' });
+ * const workflow = createWorkflow('report', deps, { cache });
+ * ```
+ */
+export function createPostgresStepCache(pool: Pool, options: PostgresStepCacheOptions = {}): AsyncStepCache {
+  const tableName = options.table ?? "awaitly_step_cache";
+  if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(tableName)) {
+    throw new Error(`Invalid table name: ${tableName}. Must be alphanumeric with underscores.`);
+  }
+  const prefix = options.prefix ?? "";
+  const live = `(expires_at IS NULL OR expires_at > NOW())`;
+  let tableCreated = false;
+
+  const ensureTable = async (): Promise<void> => {
+    if (tableCreated) return;
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS ${tableName} (
+        key TEXT PRIMARY KEY,
+        result JSONB NOT NULL,
+        expires_at TIMESTAMPTZ
+      )
+    `);
+    tableCreated = true;
+  };
+
+  return {
+    async get(key) {
+      await ensureTable();
+      const result = await pool.query(`SELECT result FROM ${tableName} WHERE key = $1 AND ${live}`, [prefix + key]);
+      return result.rows.length === 0 ? undefined : deserializeCachedResult(result.rows[0].result as StepResult);
+    },
+
+    async getMany(keys) {
+      await ensureTable();
+      const result = await pool.query(`SELECT key, result FROM ${tableName} WHERE key = ANY($1) AND ${live}`, [
+        keys.map(key => prefix + key),
+      ]);
+      const found = new Map(result.rows.map(row => [row.key as string, row.result as StepResult]));
+      return keys.map(key => {
+        const stored = found.get(prefix + key);
+        return stored && deserializeCachedResult(stored);
+      });
+    },
+
+    async set(key, value, setOptions) {
+      await ensureTable();
+      const expiresAt = setOptions?.ttl ? new Date(Date.now() + setOptions.ttl) : null;
+      await pool.query(
+        `INSERT INTO ${tableName} (key, result, expires_at)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (key) DO UPDATE SET result = EXCLUDED.result, expires_at = EXCLUDED.expires_at`,
+        [prefix + key, JSON.stringify(serializeCachedResult(value)), expiresAt]
+      );
+    },
+
+    async has(key) {
+      await ensureTable();
+      const result = await pool.query(`SELECT 1 FROM ${tableName} WHERE key = $1 AND ${live}`, [prefix + key]);
+      return result.rows.length > 0;
+    },
+
+    async delete(key) {
+      await ensureTable();
+      const result = await pool.query(`DELETE FROM ${tableName} WHERE key = $1`, [prefix + key]);
+      return (result.rowCount ?? 0) > 0;
+    },
+  };
+}
@@ -0,0 +1,328 @@
+/**
+ * PostgreSQL stream store: a StreamStore shared by every process using the
+ * same database, so `step.getWritable()` output from a durable run on one
+ * pod can be read or subscribed to from another. Appends notify subscribers
+ * with LISTEN/NOTIFY.
+ */
+
+import { Pool as PgPool, type PoolClient, type Notification } from "pg";
+import { ok, err, type AsyncResult } from "awaitly";
+import {
+  type StreamStore,
+  type StreamStoreError,
+  type StreamItem,
+  type StreamMetadata,
+  type Unsubscribe,
+  streamStoreError,
+} from "awaitly/durable";
+
+export interface PostgresStreamStoreOptions {
+  /** PostgreSQL connection URL. */
+  url: string;
+  /**
+   * Table name for stream metadata. Items go in `<table>_items`, and the
+   * table name is also the NOTIFY channel.
+   * @default 'awaitly_streams'
+   */
+  table?: string;
+  /** Bring your own pool. */
+  pool?: PgPool;
+}
+
+/** StreamStore backed by PostgreSQL. */
+export interface PostgresStreamStore extends StreamStore {
+  /** Stop listening and end the pool if the store created it. */
+  close(): Promise<void>;
+}
+
+interface StreamNotification {
+  workflowId: string;
+  namespace: string;
+  position: number;
+}
+
+/**
+ * Create a StreamStore backed by PostgreSQL.
+ * Items are kept in order by position; `subscribe` holds one pool client
+ * listening for appends from any process.
+ *
+ * @example
+ * ```typescript
+ * const streamStore = postgresStreamStore('postgresql://localhost/mydb');
+ * const workflow = createWorkflow('report', deps, { streamStore });
+ *
+ * // In an HTTP handler on another pod
+ * const reader = getStreamReader({ store: streamStore, workflowId, namespace: 'progress' });
+ * ```
+ */
+export function postgresStreamStore(urlOrOptions: string | PostgresStreamStoreOptions): PostgresStreamStore {
+  const opts = typeof urlOrOptions === "string" ? { url: urlOrOptions } : urlOrOptions;
+  const tableName = opts.table ?? "awaitly_streams";
+  if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(tableName)) {
+    throw new Error(`Invalid table name: ${tableName}. Must be alphanumeric with underscores.`);
+  }
+  const itemsTable = `${tableName}_items`;
+
+  const ownPool = !opts.pool;
+  const pool = opts.pool ?? new PgPool({ connectionString: opts.url });
+  let tableCreated = false;
+
+  const subscribers = new Map<string, Set<(position: number) => void>>();
+  type Listener = { client: PoolClient; drop: (cause?: Error) => void };
+  let listener: Promise<Listener> | undefined;
+
+  const subscriberKey = (workflowId: string, namespace: string) => JSON.stringify([workflowId, namespace]);
+
+  const ensureTable = async (): Promise<void> => {
+    if (tableCreated) return;
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS ${tableName} (
+        workflow_id TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        item_count INTEGER NOT NULL DEFAULT 0,
+        closed BOOLEAN NOT NULL DEFAULT FALSE,
+        created_at BIGINT NOT NULL,
+        last_write_at BIGINT,
+        closed_at BIGINT,
+        PRIMARY KEY (workflow_id, namespace)
+      )
+    `);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS ${itemsTable} (
+        workflow_id TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        value JSONB,
+        ts BIGINT NOT NULL,
+        PRIMARY KEY (workflow_id, namespace, position)
+      )
+    `);
+    tableCreated = true;
+  };
+
+  const readItems = async <T>(
+    workflowId: string,
+    namespace: string,
+    startIndex: number,
+    limit?: number
+  ): Promise<StreamItem<T>[]> => {
+    await ensureTable();
+    const result = await pool.query(
+      `SELECT value, position, ts FROM ${itemsTable}
+       WHERE workflow_id = $1 AND namespace = $2 AND position >= $3
+       ORDER BY position
+       ${limit !== undefined ? "LIMIT $4" : ""}`,
+      limit !== undefined ? [workflowId, namespace, startIndex, limit] : [workflowId, namespace, startIndex]
+    );
+    return result.rows.map(row => ({ value: row.value as T, position: row.position as number, ts: Number(row.ts) }));
+  };
+
+  const onNotification = (message: Notification) => {
+    if (message.channel !== tableName || !message.payload) return;
+    const { workflowId, namespace, position } = JSON.parse(message.payload) as StreamNotification;
+    for (const deliver of subscribers.get(subscriberKey(workflowId, namespace)) ?? []) {
+      deliver(position);
+    }
+  };
+
+  // Quoted so Postgres keeps the channel's case, matching pg_notify and the
+  // channel check above.
+  const channel = `"${tableName}"`;
+
+  const listen = (): Promise<Listener> => {
+    if (listener) return listener;
+    const pending: Promise<Listener> = pool.connect().then(
+      async client => {
+        const detach = () => {
+          client.removeListener("notification", onNotification);
+          client.removeListener("error", drop);
+          if (listener === pending) listener = undefined;
+        };
+        // A broken connection is released here unless unlisten already
+        // took it; the next subscribe listens again.
+        const drop = (cause?: Error) => {
+          const owned = listener === pending;
+          detach();
+          if (owned) client.release(cause ?? true);
+        };
+        client.on("notification", onNotification);
+        client.on("error", drop);
+        try {
+          await client.query(`LISTEN ${channel}`);
+        } catch (cause) {
+          detach();
+          client.release(cause instanceof Error ? cause : true);
+          throw cause;
+        }
+        return { client, drop };
+      },
+      (cause: unknown) => {
+        // Let the next subscribe try again
+        if (listener === pending) listener = undefined;
+        throw cause;
+      }
+    );
+    listener = pending;
+    return pending;
+  };
+
+  const unlisten = async (): Promise<void> => {
+    const pending = listener;
+    listener = undefined;
+    if (!pending) return;
+    const connection = await pending.catch(() => undefined);
+    if (!connection) return;
+    const { client, drop } = connection;
+    client.removeListener("notification", onNotification);
+    client.removeListener("error", drop);
+    await client.query(`UNLISTEN ${channel}`).catch(() => {
+      // Connection already gone; release drops it
+    });
+    client.release();
+  };
+
+  return {
+    async append<T>(workflowId: string, namespace: string, item: StreamItem<T>): AsyncResult<void, StreamStoreError> {
+      try {
+        await ensureTable();
+        const now = Date.now();
+        // One statement: bump the stream's length unless it is closed, store
+        // the item, and notify listeners once the write commits.
+        const result = await pool.query(
+          `WITH stream AS (
+             INSERT INTO ${tableName} (workflow_id, namespace, item_count, created_at, last_write_at)
+             VALUES ($1, $2, 1, $5, $5)
+             ON CONFLICT (workflow_id, namespace) DO UPDATE
+               SET item_count = ${tableName}.item_count + 1, last_write_at = EXCLUDED.last_write_at
+               WHERE NOT ${tableName}.closed
+             RETURNING 1
+           ), item AS (
+             INSERT INTO ${itemsTable} (workflow_id, namespace, position, value, ts)
+             SELECT $1, $2, $3, $4::jsonb, $6 FROM stream
+             RETURNING position
+           )
+           SELECT pg_notify($7, $8) FROM item`,
+          [
+            workflowId,
+            namespace,
+            item.position,
+            JSON.stringify(item.value),
+            now,
+            item.ts,
+            tableName,
+            JSON.stringify({ workflowId, namespace, position: item.position } satisfies StreamNotification),
+          ]
+        );
+        if (result.rowCount === 0) {
+          return err(streamStoreError("write_error", "Cannot write to closed stream"));
+        }
+        return ok(undefined);
+      } catch (cause) {
+        return err(streamStoreError("write_error", "Failed to append item", cause));
+      }
+    },
+
+    async read<T>(
+      workflowId: string,
+      namespace: string,
+      startIndex: number,
+      limit?: number
+    ): AsyncResult<StreamItem<T>[], StreamStoreError> {
+      try {
+        return ok(await readItems<T>(workflowId, namespace, startIndex, limit));
+      } catch (cause) {
+        return err(streamStoreError("read_error", "Failed to read items", cause));
+      }
+    },
+
+    async getMetadata(workflowId: string, namespace: string): AsyncResult<StreamMetadata | undefined, StreamStoreError> {
+      try {
+        await ensureTable();
+        const result = await pool.query(
+          `SELECT item_count, closed, created_at, last_write_at, closed_at FROM ${tableName}
+           WHERE workflow_id = $1 AND namespace = $2`,
+          [workflowId, namespace]
+        );
+        if (result.rows.length === 0) return ok(undefined);
+        const row = result.rows[0];
+        return ok({
+          id: `${workflowId}:${namespace}`,
+          namespace,
+          workflowId,
+          length: row.item_count as number,
+          closed: row.closed as boolean,
+          createdAt: Number(row.created_at),
+          lastWriteAt: row.last_write_at === null ? undefined : Number(row.last_write_at),
+          closedAt: row.closed_at === null ? undefined : Number(row.closed_at),
+        });
+      } catch (cause) {
+        return err(streamStoreError("metadata_error", "Failed to get metadata", cause));
+      }
+    },
+
+    async closeStream(workflowId: string, namespace: string): AsyncResult<void, StreamStoreError> {
+      try {
+        await ensureTable();
+        await pool.query(
+          `UPDATE ${tableName} SET closed = TRUE, closed_at = $3
+           WHERE workflow_id = $1 AND namespace = $2 AND NOT closed`,
+          [workflowId, namespace, Date.now()]
+        );
+        return ok(undefined);
+      } catch (cause) {
+        return err(streamStoreError("close_error", "Failed to close stream", cause));
+      }
+    },
+
+    subscribe<T>(workflowId: string, namespace: string, callback: (item: StreamItem<T>) => void): Unsubscribe {
+      const key = subscriberKey(workflowId, namespace);
+      let active = true;
+      let next: number | undefined;
+      let delivering = Promise.resolve();
+
+      // Notifications only carry the position; read from the last delivered
+      // item so callbacks see every item once, in order.
+      const deliver = (position: number) => {
+        delivering = delivering.then(async () => {
+          if (!active || (next !== undefined && position < next)) return;
+          const items = await readItems<T>(workflowId, namespace, next ?? position).catch(() => []);
+          for (const item of items) {
+            if (!active) return;
+            next = item.position + 1;
+            try {
+              callback(item);
+            } catch {
+              // Ignore subscriber errors
+            }
+          }
+        });
+      };
+
+      let subs = subscribers.get(key);
+      if (!subs) {
+        subs = new Set();
+        subscribers.set(key, subs);
+      }
+      subs.add(deliver);
+      listen().catch(() => {
+        // Subscriptions stay silent until a later subscribe reconnects
+      });
+
+      return () => {
+        active = false;
+        subs?.delete(deliver);
+        if (subs?.size === 0) subscribers.delete(key);
+        if (subscribers.size === 0) void unlisten();
+      };
+    },
+
+    async close(): Promise<void> {
+      subscribers.clear();
+      await unlisten();
+      // Only end pool if we created it
+      if (ownPool) {
+        await pool.end();
+      }
+    },
+  };
+}
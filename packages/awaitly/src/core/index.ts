@@ -2572,7 +2572,7 @@ function isMapperException(e: unknown): e is MapperException {
  * Calculate the delay for a retry attempt based on the backoff strategy.
  * @internal
  */
-function calculateRetryDelay(
+export function calculateRetryDelay(
   attempt: number,
   options: {
     backoff: BackoffStrategy;
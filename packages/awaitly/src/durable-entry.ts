@@ -8,6 +8,7 @@
 export {
   // Main API
   durable,
+  createMemorySnapshotStore,
 
   // Thrown (and surfaced as PersistenceError.cause) when a resumed workflow's
   // step order no longer matches its checkpoint.
@@ -15,13 +16,20 @@ export {
 
   // Types
   type DurableOptions,
+  type DurableStep,
+  type DurableContext,
+  type QueryHandler,
   type DurableWorkflowEvent,
   type VersionMismatchError,
+  type DurableMigrationError,
   type ConcurrentExecutionError,
   type PersistenceError,
   type WorkflowLock,
   type DeleteStatesOptions,
   type DeleteStatesResult,
+  type ExportStatesOptions,
+  type ImportStatesOptions,
+  type ImportStatesResult,
 
   // Type guards
   isVersionMismatch,
@@ -29,10 +37,20 @@ export {
   isPersistenceError,
   isLeaseExpired,
   isIdempotencyConflict,
+  isWorkflowSuspended,
+  isWorkflowContinuedAsNew,
+  isQueryFailed,
+  isRewindFailed,
+  isImportStatesFailed,
 
   // New error types
   type LeaseExpiredError,
   type IdempotencyConflictError,
+  type WorkflowSuspendedError,
+  type WorkflowContinuedAsNewError,
+  type QueryFailedError,
+  type RewindFailedError,
+  type ImportStatesFailedError,
 
   // Re-exports from workflow
   isWorkflowCancelled,
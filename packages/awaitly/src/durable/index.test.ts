@@ -1,15 +1,29 @@
 import { describe, it, expect, vi } from "vitest";
-import { ok, err, type AsyncResult } from "../core";
+import { ok, err, type AsyncResult, type Result } from "../core";
 import {
   durable,
   isVersionMismatch,
   isConcurrentExecution,
   isWorkflowCancelled,
   isPersistenceError,
+  isWorkflowSuspended,
+  isWorkflowContinuedAsNew,
+  isQueryFailed,
+  isRewindFailed,
+  isImportStatesFailed,
+  createMemorySnapshotStore,
   type DurableWorkflowEvent,
   type SnapshotStore,
 } from ".";
-import type { WorkflowSnapshot } from "../persistence";
+import {
+  mergeSnapshots,
+  SnapshotConflictError,
+  type BlobStore,
+  type JSONValue,
+  type WorkflowSnapshot,
+} from "../persistence";
+import { createTestClock } from "../testing";
+import { createSnapshotKeyRenameMigration, isMigrationError } from "../versioning";
 
 // Helper functions for testing
 const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
@@ -405,6 +419,28 @@ describe("Durable Execution", () => {
       expect(second.ok).toBe(true);
       expect(executions).toBe(1);
     });
+
+    it("does not reject a failed run resumed under the same idempotency key as concurrent", async () => {
+      const store = createTestSnapshotStore();
+
+      async function flaky(): AsyncResult<string, "FLAKY"> {
+        return err("FLAKY");
+      }
+      const runOnce = () =>
+        durable.run({ flaky }, async ({ step, deps }) => step("flaky", () => deps.flaky()), {
+          id: "workflow-retry",
+          store,
+          idempotencyKey: "retry-key",
+        });
+
+      const first = await runOnce();
+      expect(first.ok).toBe(false);
+
+      // Replayed from the stored snapshot rather than refused as CONCURRENT_EXECUTION
+      const second = await runOnce();
+      expect(second.ok).toBe(false);
+      if (!second.ok) expect(second.error).toBe("FLAKY");
+    });
   });
 
   describe("Version Checking", () => {
@@ -827,6 +863,852 @@ describe("Durable Execution", () => {
     });
   });
 
+  describe("Durable Sleep", () => {
+    function coolOffWorkflow() {
+      const before = vi.fn(async () => ok("before"));
+      const after = vi.fn(async () => ok("after"));
+      const deps = { before, after };
+      const fn: Parameters<typeof durable.run<typeof deps, string>>[1] = async ({ step, deps }) => {
+        await step("before", () => deps.before());
+        await step.sleep("cool-off", "3d");
+        return await step("after", () => deps.after());
+      };
+      return { deps, fn, before, after };
+    }
+
+    it("suspends at a long sleep and resumes past it once due", async () => {
+      const store = createTestSnapshotStore();
+      const clock = createTestClock(Date.parse("2026-03-10T00:00:00Z"));
+      const { deps, fn, before, after } = coolOffWorkflow();
+      const durableSleepMs = 60_000;
+
+      const first = await durable.run(deps, fn, { id: "cool-1", store, clock, durableSleepMs });
+      expect(first.ok).toBe(false);
+      if (!first.ok && isWorkflowSuspended(first.error)) {
+        expect(first.error).toMatchObject({ reason: "sleep", stepKey: "cool-off", wakeAt: "2026-03-13T00:00:00.000Z" });
+      } else {
+        expect.fail("expected WORKFLOW_SUSPENDED");
+      }
+      const snapshot = await store.load("cool-1");
+      expect(snapshot?.execution).toMatchObject({ status: "suspended", wakeAt: "2026-03-13T00:00:00.000Z" });
+      expect(Object.keys(snapshot!.steps)).toEqual(["before", "cool-off:wake-at"]);
+
+      // Too early: suspends again without moving the wake-up time
+      clock.advance(60_000);
+      expect(await durable.resumeDue(deps, fn, { store, clock, durableSleepMs })).toEqual([]);
+      const early = await durable.run(deps, fn, { id: "cool-1", store, clock, durableSleepMs });
+      expect(!early.ok && isWorkflowSuspended(early.error) && early.error.wakeAt).toBe("2026-03-13T00:00:00.000Z");
+
+      clock.set(Date.parse("2026-03-13T00:00:00Z"));
+      const resumed = await durable.resumeDue(deps, fn, { store, clock, durableSleepMs });
+      expect(resumed).toEqual([{ id: "cool-1", result: { ok: true, value: "after" } }]);
+      expect(before).toHaveBeenCalledTimes(1);
+      expect(after).toHaveBeenCalledTimes(1);
+      expect(await store.load("cool-1")).toBeNull();
+    });
+
+    it("resumes due runs behind any number of newer snapshots", async () => {
+      const store = createMemorySnapshotStore();
+      const clock = createTestClock(Date.parse("2026-03-10T00:00:00Z"));
+      const { deps, fn } = coolOffWorkflow();
+      const durableSleepMs = 60_000;
+
+      for (let i = 0; i < 150; i++) await durable.run(deps, fn, { id: `cool-${i}`, store, clock, durableSleepMs });
+      const done = { formatVersion: 1, steps: {}, execution: { status: "completed", lastUpdated: "2026-03-10T00:00:00.000Z" } } as const;
+      for (let i = 0; i < 1100; i++) await store.save(`newer:${i}`, done);
+
+      clock.set(Date.parse("2026-03-13T00:00:00Z"));
+      const resumed = await durable.resumeDue(deps, fn, { store, clock, durableSleepMs, limit: 1000 });
+      expect(resumed).toHaveLength(150);
+      expect(resumed.every(({ result }) => result.ok)).toBe(true);
+    });
+
+    it("waits in-process for every sleep unless durableSleepMs is set", async () => {
+      const store = createTestSnapshotStore();
+      const clock = createTestClock(0);
+      const { deps, fn } = coolOffWorkflow();
+
+      const running = durable.run(deps, fn, { id: "cool-3", store, clock });
+      await vi.waitFor(() => expect(deps.before).toHaveBeenCalled());
+      await delay(0);
+      clock.advance(3 * 24 * 60 * 60_000);
+
+      expect(await running).toEqual({ ok: true, value: "after" });
+    });
+
+    it("waits in-process for sleeps shorter than durableSleepMs", async () => {
+      const store = createTestSnapshotStore();
+      const clock = createTestClock(0);
+      const { deps, fn } = coolOffWorkflow();
+
+      const running = durable.run(deps, fn, { id: "cool-2", store, clock, durableSleepMs: Infinity });
+      await vi.waitFor(() => expect(deps.before).toHaveBeenCalled());
+      await delay(0);
+      clock.advance(3 * 24 * 60 * 60_000);
+
+      expect(await running).toEqual({ ok: true, value: "after" });
+      expect(await store.load("cool-2")).toBeNull();
+    });
+  });
+
+  describe("Signals", () => {
+    const approve = vi.fn(async (decision: string) => ok(`approved by ${decision}`));
+
+    function approvalRun(store: SnapshotStore, id: string, options?: { timeout?: string; clock?: ReturnType<typeof createTestClock> }) {
+      return durable.run(
+        { approve },
+        async ({ step, deps }) => {
+          const decision = options?.timeout
+            ? await step.waitForSignal<{ by: string }>("approval", { timeout: options.timeout })
+            : await step.waitForSignal<{ by: string }>("approval");
+          if (!decision) return "timed out";
+          return await step("approve", () => deps.approve(decision.by));
+        },
+        { id, store, clock: options?.clock }
+      );
+    }
+
+    it("suspends until the signal is sent, then resumes with its payload", async () => {
+      const store = createTestSnapshotStore();
+
+      const first = await approvalRun(store, "signal-1");
+      expect(!first.ok && isWorkflowSuspended(first.error) && first.error).toMatchObject({
+        reason: "signal",
+        signal: "approval",
+        stepKey: "signal:approval",
+      });
+      expect((await store.load("signal-1"))?.execution).toMatchObject({ status: "suspended" });
+      expect(await durable.resumeDue({ approve }, async () => "unused", { store })).toEqual([]);
+
+      expect(await durable.signal(store, "signal-1", "approval", { by: "ada" })).toBe(true);
+      expect((await store.load("signal-1"))?.execution.wakeAt).toEqual(expect.any(String));
+
+      expect(await approvalRun(store, "signal-1")).toEqual({ ok: true, value: "approved by ada" });
+      expect(await store.list()).toEqual([]);
+    });
+
+    it("buffers signals sent before the wait and consumes them in order", async () => {
+      const store = createTestSnapshotStore();
+      await durable.signal(store, "signal-2", "item", "first");
+      await delay(2);
+      await durable.signal(store, "signal-2", "item", "second");
+      await durable.signal(store, "other", "item", "not mine");
+
+      const result = await durable.run(
+        {},
+        async ({ step }) => [await step.waitForSignal("item"), await step.waitForSignal("item")],
+        { id: "signal-2", store }
+      );
+
+      expect(result).toEqual({ ok: true, value: ["first", "second"] });
+      expect((await store.list()).map(e => e.id)).toEqual([expect.stringMatching(/^signal:other:/)]);
+    });
+
+    it("keeps the send order of signals sent in the same millisecond", async () => {
+      const store = createTestSnapshotStore();
+      vi.useFakeTimers({ toFake: ["Date"] });
+      try {
+        vi.setSystemTime(Date.parse("2026-03-10T00:00:00Z"));
+        for (let i = 0; i < 10; i++) await durable.signal(store, "signal-4", "item", i);
+      } finally {
+        vi.useRealTimers();
+      }
+
+      const result = await durable.run(
+        {},
+        async ({ step }) => {
+          const items: unknown[] = [];
+          for (let i = 0; i < 10; i++) items.push(await step.waitForSignal("item"));
+          return items;
+        },
+        { id: "signal-4", store }
+      );
+      expect(result).toEqual({ ok: true, value: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9] });
+    });
+
+    it("resolves undefined once the timeout passes without a signal", async () => {
+      const store = createTestSnapshotStore();
+      const clock = createTestClock(Date.parse("2026-03-10T00:00:00Z"));
+
+      const first = await approvalRun(store, "signal-3", { timeout: "1h", clock });
+      expect(!first.ok && isWorkflowSuspended(first.error) && first.error.wakeAt).toBe("2026-03-10T01:00:00.000Z");
+
+      clock.advance(60 * 60_000);
+      expect(await approvalRun(store, "signal-3", { timeout: "1h", clock })).toEqual({ ok: true, value: "timed out" });
+    });
+  });
+
+  describe("Queries", () => {
+    const ship = vi.fn(async (item: string) => ok(`shipped ${item}`));
+    const fulfil: Parameters<typeof durable.run<{ ship: typeof ship }, string>>[1] = async ({ step, deps, ctx }) => {
+      const shipped: string[] = [];
+      ctx.onQuery("progress", () => ({ shipped }));
+      ctx.onQuery("broken", () => {
+        throw new Error("no");
+      });
+      for (const item of ["a", "b"]) {
+        shipped.push(await step(`ship-${item}`, () => deps.ship(item)));
+      }
+      await step.waitForSignal("delivered");
+      return "done";
+    };
+
+    it("answers from the live handlers while the run executes here", async () => {
+      const store = createTestSnapshotStore();
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+
+      const running = durable.run(
+        {},
+        async ({ step, ctx }) => {
+          let stage = "starting";
+          ctx.onQuery("stage", () => stage);
+          stage = "waiting";
+          await step("wait", async () => ok(await gate));
+          return stage;
+        },
+        { id: "query-live", store }
+      );
+      await delay(5);
+
+      expect(await durable.query(store, "query-live", "stage")).toEqual({ ok: true, value: "waiting" });
+      release();
+      expect(await running).toEqual({ ok: true, value: "waiting" });
+      expect(await durable.query(store, "query-live", "stage")).toMatchObject({
+        ok: false,
+        error: { type: "QUERY_FAILED", reason: "not-found" },
+      });
+    });
+
+    it("replays a suspended run's snapshot without executing steps", async () => {
+      const store = createTestSnapshotStore();
+      const first = await durable.run({ ship }, fulfil, { id: "query-1", store });
+      expect(!first.ok && isWorkflowSuspended(first.error)).toBe(true);
+      ship.mockClear();
+
+      const progress = await durable.query(store, "query-1", "progress", { deps: { ship }, fn: fulfil });
+      expect(progress).toEqual({ ok: true, value: { shipped: ["shipped a", "shipped b"] } });
+      expect(ship).not.toHaveBeenCalled();
+      expect((await store.load("query-1"))?.execution.status).toBe("suspended");
+      expect(await store.list()).toHaveLength(1);
+    });
+
+    it("reports queries it cannot answer", async () => {
+      const store = createTestSnapshotStore();
+      await durable.run({ ship }, fulfil, { id: "query-2", store });
+      const workflow = { deps: { ship }, fn: fulfil };
+
+      expect(await durable.query(store, "query-2", "progress")).toMatchObject({
+        ok: false,
+        error: { type: "QUERY_FAILED", reason: "replay-unavailable" },
+      });
+      expect(await durable.query(store, "query-2", "eta", workflow)).toMatchObject({
+        ok: false,
+        error: { type: "QUERY_FAILED", reason: "unknown-query", query: "eta" },
+      });
+      const broken = await durable.query(store, "query-2", "broken", workflow);
+      expect(!broken.ok && isQueryFailed(broken.error) && broken.error).toMatchObject({
+        reason: "handler-threw",
+        cause: new Error("no"),
+      });
+    });
+  });
+
+  describe("Continue as new", () => {
+    const tick = vi.fn(async (n: number) => ok(n));
+    const countTo3: Parameters<typeof durable.run<{ tick: typeof tick }, number>>[1] = async ({ step, deps, ctx }) => {
+      const { n } = ctx.input as { n: number };
+      await step("tick", () => deps.tick(n));
+      if (n < 3) return await step.continueAsNew({ n: n + 1 });
+      return n;
+    };
+
+    it("closes the run and starts a fresh one under a derived id", async () => {
+      const store = createTestSnapshotStore();
+      const events: DurableWorkflowEvent<unknown>[] = [];
+      const options = {
+        id: "loop",
+        store,
+        input: { n: 1 },
+        idempotencyKey: "loop-key",
+        onEvent: (e: DurableWorkflowEvent<unknown>) => events.push(e),
+      };
+
+      const first = await durable.run({ tick }, countTo3, options);
+      expect(!first.ok && isWorkflowContinuedAsNew(first.error) && first.error).toMatchObject({
+        workflowId: "loop",
+        successorId: "loop~1",
+        generation: 1,
+      });
+      expect(events).toContainEqual(
+        expect.objectContaining({ type: "continued_as_new", workflowId: "loop", successorId: "loop~1", generation: 1 })
+      );
+      expect(await store.load("loop")).toMatchObject({ steps: {}, execution: { status: "completed" }, metadata: { continuedAs: "loop~1" } });
+      expect(await store.load("loop~1")).toMatchObject({
+        steps: {},
+        execution: { status: "suspended" },
+        metadata: { input: { n: 2 }, continuedFrom: "loop", chainId: "loop", generation: 1, idempotencyKey: "loop-key" },
+      });
+
+      // The first run's id points at the latest run in the chain.
+      const again = await durable.run({ tick }, countTo3, options);
+      expect(!again.ok && isWorkflowContinuedAsNew(again.error) && again.error.successorId).toBe("loop~1");
+
+      const [second] = await durable.resumeDue({ tick }, countTo3, { store });
+      expect(second!.id).toBe("loop~1");
+      expect(!second!.result.ok && isWorkflowContinuedAsNew(second!.result.error) && second!.result.error.successorId).toBe("loop~2");
+      expect(await store.load("loop~1")).toBeNull();
+      expect((await store.load("loop"))?.metadata?.continuedAs).toBe("loop~2");
+
+      expect(await durable.resumeDue({ tick }, countTo3, { store })).toEqual([{ id: "loop~2", result: { ok: true, value: 3 } }]);
+      expect(tick.mock.calls.map(([n]) => n)).toEqual([1, 2, 3]);
+      // Only the chain's result is left, under the key it started with.
+      expect((await store.list()).map(e => e.id)).toEqual(["idem:loop-key"]);
+      expect(await durable.run({ tick }, countTo3, options)).toEqual({ ok: true, value: 3 });
+      expect(tick).toHaveBeenCalledTimes(3);
+    });
+
+    it("sends signals and queries for the first run's id to the latest run", async () => {
+      const store = createTestSnapshotStore();
+      const fn: Parameters<typeof durable.run<Record<string, never>, string>>[1] = async ({ step, ctx }) => {
+        const { generation = 0 } = ctx.input as { generation?: number };
+        ctx.onQuery("generation", () => generation);
+        if (generation === 0) return await step.continueAsNew({ generation: 1 });
+        return await step.waitForSignal<string>("go");
+      };
+
+      await durable.run({}, fn, { id: "chain", store });
+      const [waiting] = await durable.resumeDue({}, fn, { store });
+      expect(!waiting!.result.ok && isWorkflowSuspended(waiting!.result.error)).toBe(true);
+
+      expect(await durable.query(store, "chain", "generation", { deps: {}, fn })).toEqual({ ok: true, value: 1 });
+      expect(await durable.signal(store, "chain", "go", "went")).toBe(true);
+      expect(await durable.resumeDue({}, fn, { store })).toEqual([{ id: "chain~1", result: { ok: true, value: "went" } }]);
+      expect(await store.list()).toEqual([]);
+    });
+  });
+
+  describe("Rewind and fork", () => {
+    const calls: string[] = [];
+    const record = (name: string) => async () => {
+      calls.push(name);
+      return ok(name);
+    };
+    const pipeline =
+      (chargeFails: boolean): Parameters<typeof durable.run<Record<string, never>, string, void, readonly ["CARD_DECLINED"]>>[1] =>
+      async ({ step }) => {
+        const a = await step("validate", record("validate"));
+        const b = await step("reserve", record("reserve"));
+        const c = await step("charge", async () => {
+          calls.push("charge");
+          return chargeFails ? err("CARD_DECLINED" as const) : ok("charged");
+        });
+        const d = await step("ship", record("ship"));
+        return [a, b, c, d].join(",");
+      };
+
+    async function failAtCharge(store: SnapshotStore, id: string) {
+      calls.length = 0;
+      const result = await durable.run({}, pipeline(true), { id, store });
+      expect(result).toMatchObject({ ok: false, error: "CARD_DECLINED" });
+    }
+
+    it("rewinds a failed run so it re-runs from the given step", async () => {
+      const store = createTestSnapshotStore();
+      await failAtCharge(store, "order-1");
+
+      const rewound = await durable.rewind(store, "order-1", { toStep: "charge" });
+      expect(rewound.ok).toBe(true);
+      const saved = await store.load("order-1");
+      expect(Object.keys(saved!.steps)).toEqual(["validate", "reserve"]);
+      expect(saved!.metadata).toMatchObject({
+        stepOrder: ["validate", "reserve"],
+        rewinds: [{ toStep: "charge", droppedSteps: ["charge"] }],
+      });
+
+      calls.length = 0;
+      const result = await durable.run({}, pipeline(false), { id: "order-1", store });
+      expect(result).toEqual({ ok: true, value: "validate,reserve,charged,ship" });
+      expect(calls).toEqual(["charge", "ship"]);
+    });
+
+    it("forks a run's history into a new id and leaves the source as it was", async () => {
+      const store = createTestSnapshotStore();
+      await failAtCharge(store, "order-1");
+      const before = await store.load("order-1");
+
+      const forked = await durable.fork(store, "order-1", { fromStep: "reserve", newId: "order-1-retry" });
+      expect(forked.ok).toBe(true);
+      expect(await store.load("order-1")).toEqual(before);
+      expect((await store.load("order-1-retry"))?.metadata).toMatchObject({
+        stepOrder: ["validate"],
+        forkedFrom: { workflowId: "order-1", step: "reserve" },
+      });
+
+      calls.length = 0;
+      const result = await durable.run({}, pipeline(false), { id: "order-1-retry", store });
+      expect(result).toEqual({ ok: true, value: "validate,reserve,charged,ship" });
+      expect(calls).toEqual(["reserve", "charge", "ship"]);
+    });
+
+    it("fails with the reason when the history cannot be cut", async () => {
+      const store = createTestSnapshotStore();
+      await failAtCharge(store, "order-1");
+      await store.save("taken", { formatVersion: 1, steps: {}, execution: { status: "running", lastUpdated: "" } });
+
+      const reasons = await Promise.all([
+        durable.rewind(store, "missing", { toStep: "charge" }),
+        durable.rewind(store, "order-1", { toStep: "ship" }),
+        durable.fork(store, "order-1", { fromStep: "charge", newId: "taken" }),
+      ]);
+      expect(reasons.map((r) => !r.ok && isRewindFailed(r.error) && r.error.reason)).toEqual([
+        "not-found",
+        "unknown-step",
+        "exists",
+      ]);
+    });
+  });
+
+  describe("Snapshot migrations", () => {
+    const fetchUser = vi.fn(async () => ok({ name: "Ada" }));
+    const v1: Parameters<typeof durable.run<{ fetchUser: typeof fetchUser }, string>>[1] = async ({ step, deps }) => {
+      const user = await step("user:fetch", () => deps.fetchUser());
+      const greeting = await step.waitForSignal<string>("greeting");
+      return `${greeting} ${user.name}`;
+    };
+    const v2: typeof v1 = async ({ step, deps }) => {
+      const user = await step("user:load", () => deps.fetchUser());
+      const greeting = await step.waitForSignal<string>("greeting");
+      return `${greeting} ${user.name}`;
+    };
+
+    async function suspendedAtV1(store: SnapshotStore) {
+      fetchUser.mockClear();
+      await durable.run({ fetchUser }, v1, { id: "greet", store });
+      await durable.signal(store, "greet", "greeting", "Hello");
+    }
+
+    it("migrates older state version by version before resuming", async () => {
+      const store = createTestSnapshotStore();
+      await suspendedAtV1(store);
+
+      const result = await durable.run({ fetchUser }, v2, {
+        id: "greet",
+        store,
+        version: 3,
+        migrations: {
+          1: createSnapshotKeyRenameMigration({ "user:fetch": "user:load" }),
+          2: (snapshot) => ({ ...snapshot, metadata: { ...snapshot.metadata, migratedBy: "v3" } }),
+        },
+      });
+      expect(result).toEqual({ ok: true, value: "Hello Ada" });
+      expect(fetchUser).toHaveBeenCalledTimes(1);
+    });
+
+    it("fails the run with a MigrationError when a migration throws or returns an invalid snapshot", async () => {
+      const store = createTestSnapshotStore();
+      await suspendedAtV1(store);
+
+      const thrown = await durable.run({ fetchUser }, v2, {
+        id: "greet",
+        store,
+        version: 2,
+        migrations: { 1: () => { throw new Error("bad data"); } },
+      });
+      expect(!thrown.ok && isMigrationError(thrown.error) && thrown.error).toMatchObject({
+        workflowId: "greet",
+        fromVersion: 1,
+        toVersion: 2,
+        message: expect.stringContaining("bad data"),
+      });
+
+      const invalid = await durable.run({ fetchUser }, v2, {
+        id: "greet",
+        store,
+        version: 2,
+        migrations: { 1: (snapshot) => ({ ...snapshot, steps: undefined as never }) },
+      });
+      expect(!invalid.ok && isMigrationError(invalid.error) && invalid.error.message).toContain("invalid snapshot");
+      expect((await store.load("greet"))?.steps).toHaveProperty("user:fetch");
+    });
+
+    it("leaves state with no migration path to onVersionMismatch", async () => {
+      const store = createTestSnapshotStore();
+      await suspendedAtV1(store);
+
+      const result = await durable.run({ fetchUser }, v2, { id: "greet", store, version: 3, migrations: { 2: (s) => s } });
+      expect(!result.ok && isVersionMismatch(result.error) && result.error.storedVersion).toBe(1);
+    });
+  });
+
+  describe("Export and import", () => {
+    const waiting: Parameters<typeof durable.run<Record<string, never>, string>>[1] = async ({ step }) => {
+      const first = await step("first", async () => ok("one"));
+      return `${first} ${await step.waitForSignal<string>("next")}`;
+    };
+
+    async function collect(lines: AsyncIterable<string>): Promise<string> {
+      let out = "";
+      for await (const line of lines) out += line;
+      return out;
+    }
+
+    it("moves suspended runs to another store, where they resume", async () => {
+      const source = createTestSnapshotStore();
+      await durable.run({}, waiting, { id: "order-1", store: source });
+      await durable.run({}, waiting, { id: "order-2", store: source });
+      await durable.run({}, waiting, { id: "invoice-1", store: source });
+
+      const ndjson = await collect(durable.exportStates(source, { prefix: "order-" }));
+      const lines = ndjson.trimEnd().split("\n").map((line) => JSON.parse(line) as { id: string; snapshot: WorkflowSnapshot });
+      expect(lines.map(({ id }) => id).sort()).toEqual(["order-1", "order-2"]);
+      expect(lines[0]!.snapshot).toEqual(await source.load(lines[0]!.id));
+
+      const target = createTestSnapshotStore();
+      // Chunks split mid-line, as a file stream would deliver them.
+      const bytes = new TextEncoder().encode(ndjson);
+      const chunks = [bytes.subarray(0, 7), bytes.subarray(7)];
+      expect(await durable.importStates(target, chunks)).toEqual({ ok: true, value: { imported: 2, skipped: 0 } });
+
+      await durable.signal(target, "order-1", "next", "two");
+      expect(await durable.run({}, waiting, { id: "order-1", store: target })).toEqual({ ok: true, value: "one two" });
+    });
+
+    it("exports every run, paging through the store's query index", async () => {
+      const store = createMemorySnapshotStore();
+      const query = vi.spyOn(store, "query");
+      const done = { formatVersion: 1, steps: {}, execution: { status: "completed", lastUpdated: "2026-03-10T00:00:00.000Z" } } as const;
+      for (let i = 0; i < 250; i++) await store.save(`run-${i}`, done);
+
+      const lines = (await collect(durable.exportStates(store))).trimEnd().split("\n");
+      expect(lines).toHaveLength(250);
+      expect(query).toHaveBeenCalledTimes(3);
+      expect((await collect(durable.exportStates(store, { limit: 120 }))).trimEnd().split("\n")).toHaveLength(120);
+    });
+
+    it("skips runs that are still changing or invalid when exported", async () => {
+      const store = createTestSnapshotStore();
+      await durable.run({}, waiting, { id: "busy", store });
+      await store.save("broken", { formatVersion: 1 } as unknown as WorkflowSnapshot);
+      let loads = 0;
+      const changing: SnapshotStore = {
+        ...store,
+        load: async (id) => {
+          const snapshot = await store.load(id);
+          return id === "busy" && snapshot ? { ...snapshot, metadata: { ...snapshot.metadata, loads: ++loads } } : snapshot;
+        },
+      };
+
+      const skipped: Array<[string, string]> = [];
+      const out = await collect(durable.exportStates(changing, { onSkipped: (id, reason) => skipped.push([id, reason]) }));
+      expect(out).toBe("");
+      expect(skipped.sort()).toEqual([
+        ["broken", "invalid"],
+        ["busy", "changing"],
+      ]);
+    });
+
+    it("stops at an invalid line or a conflicting id unless told otherwise", async () => {
+      const source = createTestSnapshotStore();
+      await durable.run({}, waiting, { id: "order-1", store: source });
+      const line = await collect(durable.exportStates(source));
+
+      const target = createTestSnapshotStore();
+      const invalid = await durable.importStates(target, `${line}{"id":"order-2"}\n`);
+      expect(!invalid.ok && isImportStatesFailed(invalid.error) && invalid.error).toMatchObject({
+        reason: "invalid-line",
+        line: 2,
+        workflowId: "order-2",
+        imported: 1,
+      });
+
+      const conflict = await durable.importStates(target, line);
+      expect(!conflict.ok && isImportStatesFailed(conflict.error) && conflict.error.reason).toBe("conflict");
+      expect(await durable.importStates(target, line, { onConflict: "skip" })).toEqual({ ok: true, value: { imported: 0, skipped: 1 } });
+      expect(await durable.importStates(target, line, { onConflict: "overwrite" })).toEqual({ ok: true, value: { imported: 1, skipped: 0 } });
+    });
+  });
+
+  describe("Patches", () => {
+    const checkFraud = vi.fn(async () => ok("clear"));
+    const charge = vi.fn(async () => ok("charged"));
+    const deps = { checkFraud, charge };
+    type Fn = Parameters<typeof durable.run<typeof deps, string>>[1];
+    const before: Fn = async ({ step, deps }) => {
+      await step("load", async () => ok("order"));
+      await step.waitForSignal<string>("approved");
+      return await step("charge", () => deps.charge());
+    };
+    const patched: Fn = async ({ step, deps, ctx }) => {
+      await step("load", async () => ok("order"));
+      if (ctx.patched("add-fraud-check")) {
+        await step("fraud-check", () => deps.checkFraud());
+      }
+      await step.waitForSignal<string>("approved");
+      return await step("charge", () => deps.charge());
+    };
+
+    it("keeps runs recorded before the patch on the old branch", async () => {
+      const store = createTestSnapshotStore();
+      checkFraud.mockClear();
+      await durable.run(deps, before, { id: "old", store });
+      await durable.signal(store, "old", "approved", "yes");
+
+      expect(await durable.run(deps, patched, { id: "old", store })).toEqual({ ok: true, value: "charged" });
+      expect(checkFraud).not.toHaveBeenCalled();
+    });
+
+    it("records the answer so a patched run keeps the new branch on resume", async () => {
+      const store = createTestSnapshotStore();
+      checkFraud.mockClear();
+      const first = await durable.run(deps, patched, { id: "new", store });
+      expect(!first.ok && isWorkflowSuspended(first.error)).toBe(true);
+      expect(checkFraud).toHaveBeenCalledTimes(1);
+      expect((await store.load("new"))?.metadata?.patches).toEqual({ "add-fraud-check": true });
+
+      await durable.signal(store, "new", "approved", "yes");
+      expect(await durable.run(deps, patched, { id: "new", store })).toEqual({ ok: true, value: "charged" });
+      expect(checkFraud).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Step cache", () => {
+    it("serves explicitly keyed steps from a cache shared across runs", async () => {
+      const store = createTestSnapshotStore();
+      const cache = new Map<string, Result<unknown, unknown>>();
+      const buildReport = vi.fn(async () => ok("report"));
+      const fn: Parameters<typeof durable.run<{ buildReport: typeof buildReport }, string>>[1] = async ({ step, deps }) => {
+        await step("load", async () => ok("order"));
+        const report = await step("report", () => deps.buildReport(), { key: "report:2026-10-19" });
+        await step.waitForSignal<string>("approved");
+        return report;
+      };
+
+      const first = await durable.run({ buildReport }, fn, { id: "a", store, cache });
+      expect(!first.ok && isWorkflowSuspended(first.error)).toBe(true);
+      await durable.run({ buildReport }, fn, { id: "b", store, cache });
+      expect(buildReport).toHaveBeenCalledTimes(1);
+
+      await durable.signal(store, "a", "approved", "yes");
+      expect(await durable.run({ buildReport }, fn, { id: "a", store, cache })).toEqual({ ok: true, value: "report" });
+      expect([...cache.keys()]).toEqual(["report:2026-10-19"]);
+    });
+  });
+
+  describe("Step journal", () => {
+    function createJournalStore() {
+      const store = createTestSnapshotStore();
+      const saves: string[][] = [];
+      const appends: string[][] = [];
+      return {
+        ...store,
+        saves,
+        appends,
+        async save(id: string, snapshot: WorkflowSnapshot) {
+          saves.push(Object.keys(snapshot.steps));
+          await store.save(id, snapshot);
+        },
+        async append(id: string, delta: WorkflowSnapshot) {
+          appends.push(Object.keys(delta.steps));
+          const stored = await store.load(id);
+          await store.save(id, stored ? mergeSnapshots(stored, delta) : delta);
+        },
+      };
+    }
+
+    it("saves a run's first checkpoint and appends only changed steps after it", async () => {
+      const store = createJournalStore();
+      const fn: Parameters<typeof durable.run<{ fetchUser: typeof fetchUser; createOrder: typeof createOrder }, unknown>>[1] =
+        async ({ step, deps }) => {
+          await step("a", () => deps.fetchUser("1"));
+          await step("b", () => deps.fetchUser("2"));
+          await step.waitForSignal("go");
+          return await step("order", () => deps.createOrder("1"));
+        };
+
+      const first = await durable.run({ fetchUser, createOrder }, fn, { id: "journal-1", store });
+      expect(!first.ok && isWorkflowSuspended(first.error)).toBe(true);
+      expect(store.saves[0]).toEqual(["a"]);
+      expect(store.appends).toEqual([["b"], ["signal:go"]]);
+      expect(Object.keys((await store.load("journal-1"))!.steps)).toEqual(["a", "b"]);
+
+      // A resumed run starts over with a full save, merged onto the stored steps.
+      store.saves.length = 0;
+      store.appends.length = 0;
+      await durable.signal(store, "journal-1", "go");
+      const resumed = await durable.run({ fetchUser, createOrder }, fn, { id: "journal-1", store });
+      expect(resumed).toEqual({ ok: true, value: { orderId: "order-1", userId: "1" } });
+      expect(store.saves.at(-1)).toEqual(["a", "b", "signal:go"]);
+      expect(store.appends).toEqual([["order"]]);
+    });
+  });
+
+  describe("Snapshot revisions", () => {
+    const snapshot = (step: string): WorkflowSnapshot => ({
+      formatVersion: 1,
+      steps: { [step]: { ok: true, value: step } },
+      execution: { status: "running", lastUpdated: "2026-01-01T00:00:00.000Z" },
+    });
+
+    it("rejects a conditional save once the stored revision has moved", async () => {
+      const store = createMemorySnapshotStore();
+      await store.save("rev-1", snapshot("a"), { expectedRevision: null });
+      expect(await store.loadRevision("rev-1")).toEqual({ snapshot: snapshot("a"), revision: 1 });
+
+      await store.save("rev-1", snapshot("b"));
+      await expect(store.save("rev-1", snapshot("c"), { expectedRevision: 1 })).rejects.toMatchObject({
+        name: "SnapshotConflictError",
+        id: "rev-1",
+        expectedRevision: 1,
+        actualRevision: 2,
+      });
+      await expect(store.save("rev-1", snapshot("c"), { expectedRevision: null })).rejects.toBeInstanceOf(
+        SnapshotConflictError
+      );
+      expect((await store.load("rev-1"))!.steps).toEqual(snapshot("b").steps);
+
+      await store.markFailed("rev-1");
+      expect((await store.loadRevision("rev-1"))!.revision).toBe(3);
+      await store.delete("rev-1");
+      expect(await store.loadRevision("rev-1")).toBeNull();
+    });
+
+    it("stops a run whose snapshot another writer saved, keeping that writer's steps", async () => {
+      const store = createMemorySnapshotStore();
+      const createOrderSpy = vi.fn(createOrder);
+      const fn: Parameters<typeof durable.run<{ fetchUser: typeof fetchUser; createOrder: typeof createOrder }, unknown>>[1] =
+        async ({ step, deps }) => {
+          const user = await step("user", () => deps.fetchUser("1"));
+          // Another worker writes this run's snapshot while it is mid-step.
+          await step("sneak", async () => {
+            const stored = (await store.load("rev-2"))!;
+            await store.save("rev-2", { ...stored, metadata: { ...stored.metadata, writer: "other" } });
+            return ok("done");
+          });
+          return await step("order", () => deps.createOrder(user.id));
+        };
+
+      const events: DurableWorkflowEvent<unknown>[] = [];
+      const result = await durable.run({ fetchUser, createOrder: createOrderSpy }, fn, {
+        id: "rev-2",
+        store,
+        onEvent: (event) => events.push(event),
+      });
+
+      expect(!result.ok && isPersistenceError(result.error) && result.error.operation).toBe("save");
+      expect(!result.ok && isPersistenceError(result.error) && result.error.cause).toBeInstanceOf(SnapshotConflictError);
+      expect(createOrderSpy).not.toHaveBeenCalled();
+      expect(events.some((event) => event.type === "persist_error")).toBe(true);
+      const stored = (await store.load("rev-2"))!;
+      expect(stored.metadata?.writer).toBe("other");
+      expect(Object.keys(stored.steps)).toEqual(["user"]);
+    });
+
+    it("resumes a suspended run through conditional saves", async () => {
+      const store = createMemorySnapshotStore();
+      const fn: Parameters<typeof durable.run<{ fetchUser: typeof fetchUser }, unknown>>[1] = async ({ step, deps }) => {
+        const user = await step("user", () => deps.fetchUser("1"));
+        const approval = await step.waitForSignal<string>("approved");
+        return `${user.name}: ${approval}`;
+      };
+
+      const first = await durable.run({ fetchUser }, fn, { id: "rev-3", store });
+      expect(!first.ok && isWorkflowSuspended(first.error)).toBe(true);
+      expect((await store.loadRevision("rev-3"))!.revision).toBe(3);
+
+      await durable.signal(store, "rev-3", "approved", "yes");
+      expect(await durable.run({ fetchUser }, fn, { id: "rev-3", store })).toEqual({ ok: true, value: "User 1: yes" });
+    });
+  });
+
+  describe("Offloaded step values", () => {
+    function createBlobStore(): BlobStore & { blobs: Map<string, JSONValue> } {
+      const blobs = new Map<string, JSONValue>();
+      return {
+        blobs,
+        async put(key, value) {
+          blobs.set(key, value);
+        },
+        async get(key) {
+          return blobs.get(key);
+        },
+        async delete(key) {
+          blobs.delete(key);
+        },
+      };
+    }
+
+    const report = vi.fn(async () => ok({ rows: Array.from({ length: 50 }, (_, i) => `row-${i}`) }));
+    const publish = vi.fn(async (rows: number) => ok(rows));
+    const fn: Parameters<typeof durable.run<{ report: typeof report; publish: typeof publish }, number>>[1] = async ({ step, deps }) => {
+      const { rows } = await step("report", () => deps.report());
+      await step.waitForSignal("approved");
+      return await step("publish", () => deps.publish(rows.length));
+    };
+
+    it("stores large values in the blob store and reads them back on resume", async () => {
+      const store = createTestSnapshotStore();
+      const blobs = createBlobStore();
+      const offload = { store: blobs, thresholdBytes: 100 };
+
+      const first = await durable.run({ report, publish }, fn, { id: "offload-1", store, offload });
+      expect(!first.ok && isWorkflowSuspended(first.error)).toBe(true);
+      const stored = (await store.load("offload-1"))!.steps.report;
+      expect(stored).toEqual({ ok: true, value: { __awaitlyBlob: "offload-1/report", bytes: expect.any(Number) } });
+      expect(blobs.blobs.get("offload-1/report")).toEqual({ rows: expect.arrayContaining(["row-49"]) });
+
+      report.mockClear();
+      await durable.signal(store, "offload-1", "approved");
+      expect(await durable.run({ report, publish }, fn, { id: "offload-1", store, offload })).toEqual({ ok: true, value: 50 });
+      expect(report).not.toHaveBeenCalled();
+      expect(publish).toHaveBeenLastCalledWith(50);
+      expect(blobs.blobs.size).toBe(0);
+    });
+
+    it("copies offloaded values into a fork, so the source and the fork each complete", async () => {
+      const store = createTestSnapshotStore();
+      const blobs = createBlobStore();
+      const offload = { store: blobs, thresholdBytes: 100 };
+      await durable.run({ report, publish }, fn, { id: "offload-3", store, offload });
+
+      const unforked = await durable.fork(store, "offload-3", { fromStep: "signal:approved", newId: "offload-3-fork" });
+      expect(!unforked.ok && unforked.error).toMatchObject({ type: "REWIND_FAILED", reason: "offloaded" });
+
+      const forked = await durable.fork(store, "offload-3", { fromStep: "signal:approved", newId: "offload-3-fork", offload });
+      expect(forked.ok && forked.value.steps.report).toEqual({
+        ok: true,
+        value: { __awaitlyBlob: "offload-3-fork/report", bytes: expect.any(Number) },
+      });
+      expect(blobs.blobs.get("offload-3-fork/report")).toEqual(blobs.blobs.get("offload-3/report"));
+
+      for (const id of ["offload-3", "offload-3-fork"]) {
+        await durable.signal(store, id, "approved");
+        expect(await durable.run({ report, publish }, fn, { id, store, offload })).toEqual({ ok: true, value: 50 });
+      }
+      expect(blobs.blobs.size).toBe(0);
+    });
+
+    it("deletes the offloaded values of the steps a rewind drops", async () => {
+      const store = createTestSnapshotStore();
+      const blobs = createBlobStore();
+      const offload = { store: blobs, thresholdBytes: 100 };
+      await durable.run({ report, publish }, fn, { id: "offload-4", store, offload });
+
+      expect((await durable.rewind(store, "offload-4", { toStep: "signal:approved", offload })).ok).toBe(true);
+      expect([...blobs.blobs.keys()]).toEqual(["offload-4/report"]);
+      expect((await durable.rewind(store, "offload-4", { toStep: "report", offload })).ok).toBe(true);
+      expect(blobs.blobs.size).toBe(0);
+    });
+
+    it("fails to resume offloaded values without the blob store", async () => {
+      const store = createTestSnapshotStore();
+      await durable.run({ report, publish }, fn, { id: "offload-2", store, offload: { store: createBlobStore(), thresholdBytes: 100 } });
+
+      const resumed = await durable.run({ report, publish }, fn, { id: "offload-2", store });
+      expect(!resumed.ok && isPersistenceError(resumed.error) && resumed.error.operation).toBe("load");
+    });
+  });
+
   describe("Persistence Errors", () => {
     it("returns PersistenceError when store returns an invalid snapshot", async () => {
       const store: SnapshotStore = {
@@ -1136,6 +2018,27 @@ describe("Durable Execution", () => {
       // Each entry should have updatedAt
       expect(result.every((r) => typeof r.updatedAt === "string")).toBe(true);
     });
+
+    it("durable.listPending filters by workflow name, status and metadata, with or without store queries", async () => {
+      const snapshot = (status: WorkflowSnapshot["execution"]["status"], metadata: Record<string, string>): WorkflowSnapshot => ({
+        formatVersion: 1,
+        steps: {},
+        execution: { status, lastUpdated: new Date().toISOString() },
+        metadata,
+      });
+
+      for (const store of [createMemorySnapshotStore(), createTestSnapshotStore()]) {
+        await store.save("order-1", snapshot("failed", { workflowName: "checkout", region: "eu" }));
+        await store.save("order-2", snapshot("suspended", { workflowName: "checkout", region: "us" }));
+        await store.save("refund-1", snapshot("failed", { workflowName: "refund", region: "eu" }));
+
+        const ids = async (options: Parameters<typeof durable.listPending>[1]) =>
+          (await durable.listPending(store, options)).map((entry) => entry.id).sort();
+        expect(await ids({ workflowName: "checkout", status: "failed" })).toEqual(["order-1"]);
+        expect(await ids({ status: "failed", metadata: { region: "eu" } })).toEqual(["order-1", "refund-1"]);
+        expect(await ids({ prefix: "order-", updatedAfter: new Date(Date.now() + 60_000) })).toEqual([]);
+      }
+    });
   });
 
   describe("Type Guards", () => {
@@ -7,6 +7,7 @@
 
 import {
   err,
+  ok,
   type Result,
   type WorkflowEvent,
   type RunStep,
@@ -16,9 +17,12 @@ import {
 import {
   createWorkflow,
   createResumeStateCollector,
+  isAsyncStepCache,
 } from "../workflow";
 import type {
   AnyResultFn,
+  AsyncStepCache,
+  StepCache,
   ErrorsOfDeps,
   WorkflowOptions,
   WorkflowContext,
@@ -26,18 +30,39 @@ import type {
   Workflow,
 } from "../workflow/types";
 import type { StreamStore } from "../streaming/types";
+import { systemClock, type Clock } from "../clock";
+import { parse as parseDuration } from "../duration";
+import type { DurationInput } from "../cache";
 import {
   type SnapshotStore,
+  type QueueStore,
+  type SnapshotRevisions,
+  type SnapshotSaveOptions,
+  type SnapshotQuery,
+  type SnapshotQueryOptions,
+  type SnapshotQueryPage,
   type WorkflowSnapshot,
   type StepResult,
   type JSONValue,
+  type BlobStore,
+  type BlobRef,
   mergeSnapshots,
+  hasSnapshotJournal,
+  hasSnapshotQuery,
+  hasSnapshotRevisions,
+  isBlobRef,
   assertValidSnapshot,
+  validateSnapshot,
   SnapshotFormatError,
   SnapshotDecodeError,
+  SnapshotConflictError,
   serializeError,
   serializeThrown,
+  dueQueuedRuns,
+  pageSnapshotQuery,
+  querySnapshots,
 } from "../persistence";
+import { migrateSnapshot, isMigrationError, type MigrationError, type Migrations } from "../versioning";
 
 // Re-export for convenience
 export { type SnapshotStore } from "../persistence";
@@ -47,12 +72,33 @@ export type { WorkflowCancelledError } from "../workflow/types";
 // In-memory store for zero-config usage
 let defaultStore: SnapshotStore | undefined;
 
-function createMemorySnapshotStore(): SnapshotStore {
-  const store = new Map<string, { snapshot: WorkflowSnapshot; updatedAt: Date }>();
+/**
+ * Create an in-memory snapshot store (per process; state is lost on restart).
+ * This is the store `durable.run` uses when none is passed. It also implements
+ * {@link QueueStore}, so it can back `createEngine` in tests and single-process
+ * apps, {@link SnapshotRevisions}, so concurrent writers of one id conflict,
+ * and {@link SnapshotQuery}.
+ */
+export function createMemorySnapshotStore(): SnapshotStore & QueueStore & SnapshotRevisions & SnapshotQuery {
+  const store = new Map<string, { snapshot: WorkflowSnapshot; updatedAt: Date; revision: number }>();
+
+  const setEngineState = (id: string, engineState: string): void => {
+    const entry = store.get(id);
+    if (!entry) return;
+    store.set(id, {
+      snapshot: { ...entry.snapshot, metadata: { ...entry.snapshot.metadata, engineState } },
+      updatedAt: new Date(),
+      revision: entry.revision + 1,
+    });
+  };
 
   return {
-    async save(id: string, snapshot: WorkflowSnapshot): Promise<void> {
-      store.set(id, { snapshot, updatedAt: new Date() });
+    async save(id: string, snapshot: WorkflowSnapshot, options?: SnapshotSaveOptions): Promise<void> {
+      const revision = store.get(id)?.revision ?? null;
+      if (options?.expectedRevision !== undefined && options.expectedRevision !== revision) {
+        throw new SnapshotConflictError(id, options.expectedRevision, revision);
+      }
+      store.set(id, { snapshot, updatedAt: new Date(), revision: (revision ?? 0) + 1 });
     },
 
     async load(id: string): Promise<WorkflowSnapshot | null> {
@@ -60,6 +106,11 @@ function createMemorySnapshotStore(): SnapshotStore {
       return entry?.snapshot ?? null;
     },
 
+    async loadRevision(id: string): Promise<{ snapshot: WorkflowSnapshot; revision: number } | null> {
+      const entry = store.get(id);
+      return entry ? { snapshot: entry.snapshot, revision: entry.revision } : null;
+    },
+
     async delete(id: string): Promise<void> {
       store.delete(id);
     },
@@ -72,12 +123,43 @@ function createMemorySnapshotStore(): SnapshotStore {
       for (const [id, entry] of store.entries()) {
         if (prefix && !id.startsWith(prefix)) continue;
         results.push({ id, updatedAt: entry.updatedAt.toISOString() });
-        if (results.length >= limit) break;
       }
 
-      // Sort by updatedAt descending
+      // Sort by updatedAt descending, then take the most recent `limit`
       results.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
-      return results;
+      return results.slice(0, limit);
+    },
+
+    async query(options?: SnapshotQueryOptions): Promise<SnapshotQueryPage> {
+      return pageSnapshotQuery(
+        [...store.entries()].map(([id, entry]) => ({
+          id,
+          updatedAt: entry.updatedAt.toISOString(),
+          snapshot: () => entry.snapshot,
+        })),
+        options
+      );
+    },
+
+    async claimNext(
+      limit: number,
+      options?: { now?: number; workflowNames?: readonly string[] }
+    ): Promise<Array<{ id: string; snapshot: WorkflowSnapshot }>> {
+      // Synchronous from read to write, so two claims in this process never overlap.
+      const entries = [...store.entries()].map(([id, entry]) => ({ id, snapshot: entry.snapshot }));
+      const queued = dueQueuedRuns(entries, options?.now ?? Date.now(), options?.workflowNames).slice(0, limit);
+      return queued.map(({ id }) => {
+        setEngineState(id, "processing");
+        return { id, snapshot: store.get(id)!.snapshot };
+      });
+    },
+
+    async markDone(id: string): Promise<void> {
+      setEngineState(id, "done");
+    },
+
+    async markFailed(id: string): Promise<void> {
+      setEngineState(id, "failed");
     },
 
     async close(): Promise<void> {
@@ -114,6 +196,20 @@ function shapeDriftError(
   };
 }
 
+/**
+ * Build the PersistenceError surfaced to callers when a checkpoint lost a
+ * race with another writer of the same id.
+ */
+function snapshotConflictError(workflowId: string, cause: SnapshotConflictError): PersistenceError {
+  return {
+    type: "PERSISTENCE_ERROR",
+    operation: "save",
+    workflowId,
+    cause,
+    message: `Failed to save state for workflow '${workflowId}': ${cause.message}`,
+  };
+}
+
 /**
  * Thrown when a resumed workflow's step order no longer matches the order
  * recorded in its checkpoint.
@@ -148,6 +244,497 @@ export class WorkflowShapeDriftError extends Error {
   }
 }
 
+/** Default `offload.thresholdBytes`. */
+const OFFLOAD_THRESHOLD_BYTES = 64 * 1024;
+
+/** Keys of the blobs `snapshot`'s offloaded step values are stored under. */
+function blobKeys(snapshot: WorkflowSnapshot | null): string[] {
+  if (!snapshot) return [];
+  return Object.values(snapshot.steps).flatMap(step => (step.ok && isBlobRef(step.value) ? [step.value.__awaitlyBlob] : []));
+}
+
+/** The {@link blobKeys} run `id` wrote itself, which are its to delete. */
+function ownBlobKeys(id: string, snapshot: WorkflowSnapshot | null): string[] {
+  return blobKeys(snapshot).filter(key => key.startsWith(`${id}/`));
+}
+
+/** `snapshot` with its offloaded step values copied to blobs of run `id`. */
+async function copyBlobValues(snapshot: WorkflowSnapshot, id: string, blobs: BlobStore): Promise<WorkflowSnapshot> {
+  let steps: Record<string, StepResult> | undefined;
+  for (const [key, step] of Object.entries(snapshot.steps)) {
+    if (!step.ok || !isBlobRef(step.value)) continue;
+    const value = await blobs.get(step.value.__awaitlyBlob);
+    if (value === undefined) throw new Error(`Offloaded value of step '${key}' is missing from the blob store`);
+    const ref: BlobRef = { __awaitlyBlob: `${id}/${key}`, bytes: step.value.bytes };
+    await blobs.put(ref.__awaitlyBlob, value);
+    steps ??= { ...snapshot.steps };
+    steps[key] = { ok: true, value: ref };
+  }
+  return steps ? { ...snapshot, steps } : snapshot;
+}
+
+/** `snapshot` with its offloaded step values read back from `blobs`. */
+async function withBlobValues(snapshot: WorkflowSnapshot, blobs: BlobStore | undefined): Promise<WorkflowSnapshot> {
+  let steps: Record<string, StepResult> | undefined;
+  for (const [key, step] of Object.entries(snapshot.steps)) {
+    if (!step.ok || !isBlobRef(step.value)) continue;
+    if (!blobs) throw new Error(`Step '${key}' has an offloaded value; pass the offload store to read it`);
+    const value = await blobs.get(step.value.__awaitlyBlob);
+    if (value === undefined) throw new Error(`Offloaded value of step '${key}' is missing from the blob store`);
+    steps ??= { ...snapshot.steps };
+    steps[key] = { ok: true, value };
+  }
+  return steps ? { ...snapshot, steps } : snapshot;
+}
+
+/** Id prefix of buffered signal records, which share the workflow's store. */
+const SIGNAL_PREFIX = "signal:";
+
+/** Suspended runs {@link durable.resumeDue} reads per query page. */
+const RESUME_PAGE_SIZE = 100;
+
+/** Ids {@link storedIds} reads per query page. */
+const EXPORT_PAGE_SIZE = 100;
+
+/**
+ * Every id stored under `prefix`, most recently updated first. A store with
+ * SnapshotQuery is paged through its cursor; any other store is listed
+ * whole, since `list` cannot page.
+ */
+async function* storedIds(store: SnapshotStore, prefix: string | undefined): AsyncGenerator<string> {
+  const byPrefix = prefix !== undefined ? { prefix } : {};
+  if (!hasSnapshotQuery(store)) {
+    for (const { id } of await store.list({ ...byPrefix, limit: Number.MAX_SAFE_INTEGER })) yield id;
+    return;
+  }
+  let cursor: string | undefined;
+  do {
+    const page = await store.query({ ...byPrefix, ...(cursor !== undefined ? { cursor } : {}), limit: EXPORT_PAGE_SIZE });
+    for (const { id } of page.entries) yield id;
+    cursor = page.nextCursor;
+  } while (cursor !== undefined);
+}
+
+/**
+ * Signals sent by this process so far. Record ids carry it after the send
+ * time, so signals sent in the same millisecond keep the order they were sent.
+ */
+let signalSequence = 0;
+
+interface BufferedSignal {
+  /** Store id of the signal record */
+  id: string;
+  payload: JSONValue;
+}
+
+/** Buffered signals named `name` for `workflowId`, oldest first. */
+async function bufferedSignals(
+  store: SnapshotStore,
+  workflowId: string,
+  name: string
+): Promise<BufferedSignal[]> {
+  const signals: BufferedSignal[] = [];
+  // Record ids sort by the time they were sent, then by send order.
+  const entries = (await store.list({ prefix: `${SIGNAL_PREFIX}${workflowId}:`, limit: 1000 }))
+    .map(entry => entry.id)
+    .sort();
+  for (const id of entries) {
+    const metadata = (await store.load(id))?.metadata;
+    if (metadata?.workflowId === workflowId && metadata.signal === name) {
+      signals.push({ id, payload: metadata.payload ?? null });
+    }
+  }
+  return signals;
+}
+
+/**
+ * Metadata keys linking the runs of a chain started by `step.continueAsNew()`.
+ * A continued run records its predecessor, the chain's first run and its
+ * place in the chain; the first run's closed record names the latest run.
+ */
+const CONTINUED_FROM_KEY = "continuedFrom";
+const CONTINUED_AS_KEY = "continuedAs";
+const CHAIN_KEY = "chainId";
+const GENERATION_KEY = "generation";
+
+/** The run `snapshot`'s run continued as, when it was closed by `step.continueAsNew()`. */
+export function continuedRunOf(snapshot: WorkflowSnapshot | null): string | undefined {
+  const successorId = snapshot?.metadata?.[CONTINUED_AS_KEY];
+  return typeof successorId === "string" ? successorId : undefined;
+}
+
+/** What `step.continueAsNew()` fails the run with; `durable.run` acts on it. */
+interface ContinueAsNew {
+  type: "CONTINUE_AS_NEW";
+  input: JSONValue;
+}
+
+function isContinueAsNew(error: unknown): error is ContinueAsNew {
+  return typeof error === "object" && error !== null && (error as ContinueAsNew).type === "CONTINUE_AS_NEW";
+}
+
+/**
+ * Close a run that called `step.continueAsNew()` and save its successor.
+ *
+ * Successor ids derive from the chain's first run (`<first>~<n>`). That run's
+ * record is kept, closed and naming the latest successor, so its id still
+ * leads to the live run; runs in between are deleted. The successor is saved
+ * suspended and due at once. Each write can be repeated, so a run that
+ * continues again after a crash part-way through ends in the same state.
+ */
+async function continueAsNew(
+  store: SnapshotStore,
+  request: ContinueAsNew,
+  options: { workflowId: string; version: number; idempotencyKey?: string; blobs?: BlobStore }
+): Promise<Result<never, WorkflowContinuedAsNewError | PersistenceError>> {
+  const { workflowId, version, blobs } = options;
+  let successorId: string;
+  let generation: number;
+  try {
+    const current = await store.load(workflowId);
+    const metadata = current?.metadata ?? {};
+    const chainId = typeof metadata[CHAIN_KEY] === "string" ? metadata[CHAIN_KEY] : workflowId;
+    generation = (typeof metadata[GENERATION_KEY] === "number" ? metadata[GENERATION_KEY] : 0) + 1;
+    successorId = `${chainId}~${generation}`;
+    const idempotencyKey =
+      options.idempotencyKey ?? (typeof metadata.idempotencyKey === "string" ? metadata.idempotencyKey : undefined);
+    const now = new Date().toISOString();
+
+    if (!(await store.load(successorId))) {
+      await store.save(successorId, {
+        formatVersion: 1,
+        steps: {},
+        execution: { status: "suspended", lastUpdated: now, wakeAt: now },
+        metadata: {
+          version,
+          input: request.input,
+          [CHAIN_KEY]: chainId,
+          [GENERATION_KEY]: generation,
+          [CONTINUED_FROM_KEY]: workflowId,
+          ...(idempotencyKey !== undefined ? { idempotencyKey } : {}),
+        },
+      } satisfies WorkflowSnapshot);
+    }
+
+    if (chainId === workflowId) {
+      // Keeps the run's own metadata (input, engine state) and drops its steps.
+      const { stepOrder: _stepOrder, stepArgs: _stepArgs, lastStepKey: _lastStepKey, ...kept } = metadata;
+      await store.save(workflowId, {
+        formatVersion: 1,
+        steps: {},
+        execution: { status: "completed", lastUpdated: now, completedAt: now },
+        metadata: { ...kept, [CONTINUED_AS_KEY]: successorId },
+      });
+    } else {
+      const first = await store.load(chainId);
+      if (first) {
+        await store.save(chainId, { ...first, metadata: { ...first.metadata, [CONTINUED_AS_KEY]: successorId } });
+      }
+      await store.delete(workflowId);
+    }
+
+    if (blobs) await Promise.all(blobKeys(current).map(key => blobs.delete(key).catch(() => undefined)));
+  } catch (cause) {
+    return err({
+      type: "PERSISTENCE_ERROR",
+      operation: "save",
+      workflowId,
+      cause,
+      message: `Failed to continue workflow '${workflowId}' as new: ${cause instanceof Error ? cause.message : String(cause)}`,
+    });
+  }
+  return err({
+    type: "WORKFLOW_CONTINUED_AS_NEW",
+    workflowId,
+    successorId,
+    generation,
+    message: `Workflow '${workflowId}' continued as new under '${successorId}'.`,
+  });
+}
+
+/**
+ * `snapshot` with `step` and every step recorded after it removed, or
+ * `undefined` when it has not recorded `step`. Order is the executed order in
+ * `metadata.stepOrder` (the one shape drift is checked against), so a resumed
+ * run replays the kept steps and executes again from `step`.
+ */
+function truncateAt(snapshot: WorkflowSnapshot, step: string): { snapshot: WorkflowSnapshot; dropped: string[] } | undefined {
+  const { lastStepKey: _lastStepKey, ...metadata } = snapshot.metadata ?? {};
+  const order = Array.isArray(metadata.stepOrder) ? (metadata.stepOrder as string[]) : Object.keys(snapshot.steps);
+  const index = order.indexOf(step);
+  if (index === -1) return undefined;
+
+  const kept = new Set(order.slice(0, index));
+  const steps = Object.fromEntries(Object.entries(snapshot.steps).filter(([key]) => kept.has(key)));
+  const warnings = snapshot.warnings?.filter(warning => kept.has(warning.stepId));
+  return {
+    snapshot: {
+      ...snapshot,
+      steps,
+      warnings: warnings && warnings.length > 0 ? warnings : undefined,
+      execution: { status: "running", lastUpdated: new Date().toISOString() },
+      metadata: {
+        ...metadata,
+        stepOrder: order.slice(0, index),
+        ...(Array.isArray(metadata.stepArgs) ? { stepArgs: metadata.stepArgs.slice(0, index) } : {}),
+        // An unapplied patch is answered again from the cut history; an
+        // applied one was answered where the history ended, so it stays.
+        ...(PATCHES_KEY in metadata
+          ? { [PATCHES_KEY]: Object.fromEntries(Object.entries(patchesOf(snapshot)).filter(([, applied]) => applied)) }
+          : {}),
+      },
+    },
+    dropped: Object.keys(snapshot.steps).filter(key => !kept.has(key)),
+  };
+}
+
+/**
+ * `cache` behind the async interface, so `createWorkflow` keeps restored
+ * state out of it and uses it for explicitly keyed steps only.
+ */
+function toAsyncStepCache(cache: StepCache): AsyncStepCache {
+  return {
+    get: async (key) => (cache.has(key) ? cache.get(key) : undefined),
+    getMany: async (keys) => keys.map((key) => (cache.has(key) ? cache.get(key) : undefined)),
+    set: async (key, result, options) => cache.set(key, result, options),
+    has: async (key) => cache.has(key),
+    delete: async (key) => cache.delete(key),
+  };
+}
+
+/** Metadata key holding a run's `ctx.patched()` answers, by patch name. */
+const PATCHES_KEY = "patches";
+
+function patchesOf(snapshot: WorkflowSnapshot | null | undefined): Record<string, boolean> {
+  const patches = snapshot?.metadata?.[PATCHES_KEY];
+  if (typeof patches !== "object" || patches === null || Array.isArray(patches)) return {};
+  return Object.fromEntries(Object.entries(patches).filter(([, applied]) => typeof applied === "boolean")) as Record<string, boolean>;
+}
+
+/**
+ * `ctx.patched()` for one run of `fn`. A run whose stored history reaches
+ * past the call was recorded by code without the patch, so it keeps the old
+ * branch; any other run takes the new one. The first answer is recorded and
+ * returned on every later resume.
+ */
+function createPatches(stored: WorkflowSnapshot | null | undefined, stepsSoFar: () => number) {
+  const recorded = patchesOf(stored);
+  const storedOrder = stored?.metadata?.stepOrder;
+  const storedSteps = Array.isArray(storedOrder) ? storedOrder.length : Object.keys(stored?.steps ?? {}).length;
+  const decided: Record<string, boolean> = {};
+  return {
+    decided,
+    patched: (name: string): boolean => (decided[name] ??= recorded[name] ?? stepsSoFar() >= storedSteps),
+  };
+}
+
+/**
+ * `step` inside `durable.run`, with durable sleeps and `waitForSignal()`.
+ *
+ * With `durableSleepMs` set, a sleep at least that long records its wake-up
+ * time as a step, then fails a second step with {@link WorkflowSuspendedError}
+ * until that time has passed. `waitForSignal()` does the same until a signal sent with
+ * `durable.signal()` is buffered, and records the signal's payload as its
+ * step value.
+ */
+function durableStep<E>(
+  step: RunStep<E>,
+  options: { workflowId: string; store: SnapshotStore; clock: Clock; durableSleepMs: number | undefined }
+): DurableStep<E> {
+  const { workflowId, store, clock, durableSleepMs } = options;
+  const suspended = (suspension: Omit<WorkflowSuspendedError, "type" | "workflowId" | "message">) =>
+    err({
+      type: "WORKFLOW_SUSPENDED",
+      workflowId,
+      ...suspension,
+      message: `Workflow '${workflowId}' is suspended at '${suspension.stepKey}' ${
+        suspension.reason === "signal" ? `waiting for signal '${suspension.signal}'` : `until ${suspension.wakeAt}`
+      }.`,
+    } satisfies WorkflowSuspendedError as E);
+
+  const sleep: RunStep<E>["sleep"] = async (id, duration, sleepOptions) => {
+    const parsed = typeof duration === "string" ? parseDuration(duration) : duration;
+    if (!parsed || durableSleepMs === undefined || parsed.millis < durableSleepMs) {
+      // eslint-disable-next-line awaitly/step-require-id
+      return step.sleep(id, duration, sleepOptions);
+    }
+
+    const key = sleepOptions?.key ?? id;
+    // internal binding: the sleep's key names both steps
+    const wakeAt = await step(
+      // eslint-disable-next-line awaitly/step-require-id
+      `${key}:wake-at`,
+      // Recorded once, so a resumed run keeps the original wake-up time.
+      async () => ok(new Date(clock.now() + parsed.millis).toISOString())
+    );
+    return await step(
+      // eslint-disable-next-line awaitly/step-require-id
+      key,
+      async () => {
+        if (clock.now() >= Date.parse(wakeAt)) return ok(undefined);
+        return suspended({ reason: "sleep", stepKey: key, wakeAt });
+      },
+      { description: sleepOptions?.description }
+    );
+  };
+
+  // Waits so far per signal name, to key repeat waits; signal records already
+  // consumed by a wait in this run, in case deleting one failed.
+  const waits = new Map<string, number>();
+  const consumed = new Set<string>();
+
+  const waitForSignal = async (name: string, waitOptions?: { timeout?: DurationInput; key?: string }) => {
+    const n = (waits.get(name) ?? 0) + 1;
+    waits.set(name, n);
+    const key = waitOptions?.key ?? (n === 1 ? `signal:${name}` : `signal:${name}#${n}`);
+
+    let deadline: string | undefined;
+    if (waitOptions?.timeout !== undefined) {
+      const timeout = typeof waitOptions.timeout === "string" ? parseDuration(waitOptions.timeout) : waitOptions.timeout;
+      if (!timeout) throw new Error(`step.waitForSignal: invalid timeout '${String(waitOptions.timeout)}'`);
+      deadline = await step(
+        // eslint-disable-next-line awaitly/step-require-id
+        `${key}:deadline`,
+        async () => ok(new Date(clock.now() + timeout.millis).toISOString())
+      );
+    }
+
+    const received = await step(
+      // eslint-disable-next-line awaitly/step-require-id
+      key,
+      // Timed out when `id` is absent.
+      async (): Promise<Result<Partial<BufferedSignal>, E>> => {
+        const signal = (await bufferedSignals(store, workflowId, name)).find(s => !consumed.has(s.id));
+        if (signal) return ok(signal);
+        if (deadline !== undefined && clock.now() >= Date.parse(deadline)) return ok({});
+        return suspended({ reason: "signal", signal: name, stepKey: key, wakeAt: deadline });
+      }
+    );
+
+    if (received.id !== undefined) {
+      consumed.add(received.id);
+      // The payload is in this run's snapshot now, so the buffered copy can go.
+      try {
+        await store.delete(received.id);
+      } catch {
+        // Best-effort cleanup; `consumed` keeps it from being read twice.
+      }
+    }
+    return received.payload;
+  };
+
+  // A failed step ends the run; durable.run sees the marker and starts the successor.
+  const continueAsNew = (input: JSONValue): Promise<never> =>
+    step("continue-as-new", async () => err({ type: "CONTINUE_AS_NEW", input } satisfies ContinueAsNew as E));
+
+  // eslint-disable-next-line awaitly/step-require-id
+  const wrapped = ((...args: Parameters<RunStep<E>>) => step(...args)) as DurableStep<E>;
+  return Object.assign(wrapped, step, {
+    sleep,
+    waitForSignal: waitForSignal as DurableStep<E>["waitForSignal"],
+    continueAsNew,
+  });
+}
+
+/** `ctx` for a run of `fn`, with `onQuery()` registering into `handlers`. */
+function withQueries<C>(
+  ctx: WorkflowContext<C>,
+  handlers: Map<string, QueryHandler>,
+  patched: (name: string) => boolean
+): DurableContext<C> {
+  return {
+    ...ctx,
+    onQuery: (name, handler) => {
+      handlers.set(name, handler);
+    },
+    patched,
+  };
+}
+
+/** Thrown before the first step a query replay has no checkpoint for. */
+class QueryReplayHalt extends Error {
+  constructor() {
+    super("Query replay reached the end of the checkpoint");
+    this.name = "QueryReplayHalt";
+  }
+}
+
+/** `store.load`, with the snapshot's revision when the store has revisions. */
+async function loadWithRevision(
+  store: SnapshotStore,
+  id: string
+): Promise<{ snapshot: WorkflowSnapshot; revision?: number } | null> {
+  if (hasSnapshotRevisions(store)) return store.loadRevision(id);
+  const snapshot = await store.load(id);
+  return snapshot && { snapshot };
+}
+
+/**
+ * `store.save`, conditional on `expectedRevision` when the store has
+ * revisions and one is given.
+ */
+function saveAtRevision(
+  store: SnapshotStore,
+  id: string,
+  snapshot: WorkflowSnapshot,
+  expectedRevision: number | null | undefined
+): Promise<void> {
+  return expectedRevision !== undefined && hasSnapshotRevisions(store)
+    ? store.save(id, snapshot, { expectedRevision })
+    : store.save(id, snapshot);
+}
+
+/**
+ * Save a suspended run's snapshot. The step that suspended it is dropped so
+ * the resumed run checks it again instead of replaying the suspension. A run
+ * waiting for a signal that was sent while it was suspending is due at once.
+ */
+async function suspend(
+  store: SnapshotStore,
+  suspension: WorkflowSuspendedError,
+  now: number
+): Promise<Result<never, WorkflowSuspendedError | PersistenceError>> {
+  const { workflowId, stepKey } = suspension;
+  let wakeAt = suspension.wakeAt;
+  try {
+    // With revisions, a write that lands between this load and save conflicts
+    // rather than being overwritten.
+    const loaded = await loadWithRevision(store, workflowId);
+    if (loaded) {
+      const { snapshot } = loaded;
+      let revision = loaded.revision;
+      const steps = Object.fromEntries(Object.entries(snapshot.steps).filter(([key]) => key !== stepKey));
+      const save = async () => {
+        await saveAtRevision(
+          store,
+          workflowId,
+          {
+            ...snapshot,
+            steps,
+            execution: { ...snapshot.execution, status: "suspended", lastUpdated: new Date().toISOString(), wakeAt },
+          },
+          revision
+        );
+        if (revision !== undefined) revision++;
+      };
+      await save();
+      if (suspension.signal !== undefined && (await bufferedSignals(store, workflowId, suspension.signal)).length > 0) {
+        wakeAt = new Date(now).toISOString();
+        await save();
+      }
+    }
+  } catch (cause) {
+    return err({
+      type: "PERSISTENCE_ERROR",
+      operation: "save",
+      workflowId,
+      cause,
+      message: `Failed to save suspended state for workflow '${workflowId}': ${cause instanceof Error ? cause.message : String(cause)}`,
+    });
+  }
+  return err(wakeAt === suspension.wakeAt ? suspension : { ...suspension, wakeAt });
+}
+
 /**
  * Error returned when workflow cannot resume due to version mismatch.
  * Indicates the stored state was created with a different workflow version.
@@ -167,6 +754,17 @@ export type VersionMismatchError = {
   currentVersion?: number;
 };
 
+/**
+ * Error returned when a durable run's stored state fails to migrate.
+ * A {@link MigrationError} that also names the run.
+ */
+export interface DurableMigrationError extends MigrationError {
+  /** Workflow execution ID */
+  workflowId: string;
+  /** Guidance message */
+  message: string;
+}
+
 /**
  * Error returned when workflow execution is rejected due to concurrent run.
  */
@@ -254,6 +852,210 @@ export function isLeaseExpired(error: unknown): error is LeaseExpiredError {
   );
 }
 
+/**
+ * Returned when a run suspends rather than wait in-process, at a durable
+ * `step.sleep` or a `step.waitForSignal`. The run's snapshot is saved with
+ * `status: "suspended"`; the engine (or `durable.resumeDue()`) runs it again
+ * once `wakeAt` passes, and it resumes from its completed steps.
+ */
+export type WorkflowSuspendedError = {
+  type: "WORKFLOW_SUSPENDED";
+  workflowId: string;
+  /** What the run is waiting for */
+  reason: "sleep" | "signal";
+  /** Name of the awaited signal, when `reason` is `"signal"` */
+  signal?: string;
+  /** Key of the step the run suspended at */
+  stepKey: string;
+  /**
+   * ISO timestamp the run is due to resume at. Absent for a signal wait
+   * without a timeout: `durable.signal()` makes it due.
+   */
+  wakeAt?: string;
+  message: string;
+};
+
+/**
+ * `step` inside `durable.run`: {@link RunStep} plus `waitForSignal()`.
+ */
+export type DurableStep<E> = RunStep<E> & {
+  /**
+   * Wait for a signal sent with `durable.signal(store, workflowId, name, payload)`
+   * and return its payload.
+   *
+   * Signals are buffered in the store, so one sent before the run reaches
+   * this wait is not lost; each wait consumes the oldest unread signal of that
+   * name. While none is buffered the run suspends with
+   * {@link WorkflowSuspendedError} (`reason: "signal"`), and sending the
+   * signal makes it due again. With `timeout`, the run is also due once the
+   * timeout passes, and the wait then resolves `undefined`.
+   *
+   * @example
+   * ```typescript
+   * const approval = await step.waitForSignal<{ approved: boolean }>("approval", { timeout: "7d" });
+   * if (!approval?.approved) return await step("reject", () => deps.reject(orderId));
+   * ```
+   */
+  waitForSignal<T extends JSONValue = JSONValue>(
+    name: string,
+    options: { timeout: DurationInput; key?: string }
+  ): Promise<T | undefined>;
+  waitForSignal<T extends JSONValue = JSONValue>(name: string, options?: { key?: string }): Promise<T>;
+
+  /**
+   * End this run and start the workflow afresh with `input`, so a long-lived
+   * loop's snapshot does not grow with every iteration.
+   *
+   * The run's snapshot is closed and a fresh one is saved under a derived id
+   * (`<first run's id>~<n>`), due at once; `durable.run` returns
+   * {@link WorkflowContinuedAsNewError} naming it. The new run reads `input`
+   * as `ctx.input` and records its chain's final result under the
+   * idempotency key the chain started with. Its first run's id stays usable
+   * for `durable.signal()`, `durable.query()` and the engine.
+   *
+   * @example
+   * ```typescript
+   * const cursor = await step("poll", () => deps.poll(ctx.input.cursor));
+   * await step.sleep("wait", "1h");
+   * return await step.continueAsNew({ cursor });
+   * ```
+   */
+  continueAsNew(input: JSONValue): Promise<never>;
+};
+
+export function isWorkflowSuspended(error: unknown): error is WorkflowSuspendedError {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as WorkflowSuspendedError).type === "WORKFLOW_SUSPENDED"
+  );
+}
+
+/**
+ * Returned when a run ends with `step.continueAsNew()`, or is run again after
+ * it did. The chain goes on under `successorId`, saved suspended and due at
+ * once: the engine or `durable.resumeDue()` picks it up, or run that id.
+ */
+export type WorkflowContinuedAsNewError = {
+  type: "WORKFLOW_CONTINUED_AS_NEW";
+  workflowId: string;
+  /** Id of the run the chain continues as */
+  successorId: string;
+  /** Position of that run in the chain (its first run is 0) */
+  generation: number;
+  message: string;
+};
+
+export function isWorkflowContinuedAsNew(error: unknown): error is WorkflowContinuedAsNewError {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as WorkflowContinuedAsNewError).type === "WORKFLOW_CONTINUED_AS_NEW"
+  );
+}
+
+/** A query handler registered with `ctx.onQuery()`. */
+export type QueryHandler = () => unknown;
+
+/**
+ * `ctx` inside `durable.run`: {@link WorkflowContext} plus `onQuery()` and
+ * `patched()`.
+ */
+export type DurableContext<C = void> = WorkflowContext<C> & {
+  /**
+   * Answer `durable.query(store, workflowId, name)` with `handler`'s return
+   * value. Handlers read state the workflow keeps in ordinary variables; they
+   * must not run steps or change that state. Registering the same name again
+   * replaces the handler.
+   *
+   * @example
+   * ```typescript
+   * const shipped: string[] = [];
+   * ctx.onQuery("progress", () => ({ shipped }));
+   * for (const item of items) {
+   *   shipped.push(await step(`ship-${item}`, () => deps.ship(item)));
+   * }
+   * ```
+   */
+  onQuery(name: string, handler: QueryHandler): void;
+
+  /**
+   * Whether this run takes the code added under patch `name`: `true` for
+   * runs that reach the call with no stored history past it (new runs, and
+   * resumed runs past their last checkpoint), `false` for replays of history
+   * recorded before the patch was deployed. Steps can be inserted or removed
+   * behind it without a version bump or {@link WorkflowShapeDriftError}. The
+   * answer is recorded in the snapshot (`metadata.patches`), so a run gets
+   * the same one on every resume.
+   *
+   * Retire a patch (keep only its new branch) once no stored run has
+   * recorded it unapplied; `awaitly-analyze --doctor --states=<export>`
+   * reports patches that can go.
+   *
+   * @example
+   * ```typescript
+   * const order = await step("load", () => deps.loadOrder(id));
+   * if (ctx.patched("add-fraud-check")) {
+   *   await step("fraud-check", () => deps.checkFraud(order));
+   * }
+   * await step("charge", () => deps.charge(order));
+   * ```
+   */
+  patched(name: string): boolean;
+};
+
+/**
+ * Returned by `durable.query()` when a query cannot be answered.
+ *
+ * - `not-found`: no run is active in this process and none is stored under the id
+ * - `replay-unavailable`: the run is stored but `deps` and `fn` were not passed to replay it
+ * - `unknown-query`: the workflow registered no handler under that name (by the point it reached)
+ * - `handler-threw`: the handler threw; see `cause`
+ */
+export type QueryFailedError = {
+  type: "QUERY_FAILED";
+  workflowId: string;
+  query: string;
+  reason: "not-found" | "replay-unavailable" | "unknown-query" | "handler-threw";
+  cause?: unknown;
+  message: string;
+};
+
+export function isQueryFailed(error: unknown): error is QueryFailedError {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as QueryFailedError).type === "QUERY_FAILED"
+  );
+}
+
+/**
+ * Returned by `durable.rewind()` and `durable.fork()` when the history cannot
+ * be cut.
+ *
+ * - `not-found`: no run is stored under the id
+ * - `unknown-step`: the run has not recorded the step
+ * - `in-use`: the run is executing (here, or in another process holding its lock)
+ * - `exists`: the fork's id already has stored state
+ * - `offloaded`: the fork would copy offloaded step values, and no `offload` store was given
+ */
+export type RewindFailedError = {
+  type: "REWIND_FAILED";
+  workflowId: string;
+  reason: "not-found" | "unknown-step" | "in-use" | "exists" | "offloaded";
+  /** The step the history was to be cut at */
+  step: string;
+  message: string;
+};
+
+export function isRewindFailed(error: unknown): error is RewindFailedError {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as RewindFailedError).type === "REWIND_FAILED"
+  );
+}
+
 /**
  * Error returned when an idempotency key is reused with different input.
  */
@@ -314,7 +1116,7 @@ export interface WorkflowLock {
 /**
  * Check if a store implements the optional WorkflowLock interface.
  */
-function hasWorkflowLock(
+export function hasWorkflowLock(
   store: SnapshotStore
 ): store is SnapshotStore & WorkflowLock {
   return (
@@ -406,6 +1208,26 @@ export interface DurableOptions<
     requestedVersion: number;
   }) => "throw" | "clear" | { migratedSnapshot: WorkflowSnapshot } | Promise<"throw" | "clear" | { migratedSnapshot: WorkflowSnapshot }>;
 
+  /**
+   * Migrations for stored state older than `version`, keyed by the version
+   * they upgrade from (see `migrateSnapshot`). They run in order before the
+   * run resumes; a migration that throws or returns an invalid snapshot fails
+   * the run with {@link DurableMigrationError}. Stored state with no migration path
+   * is handled by `onVersionMismatch`.
+   *
+   * @example
+   * ```typescript
+   * await durable.run(deps, fn, {
+   *   id, store, version: 3,
+   *   migrations: {
+   *     1: createSnapshotKeyRenameMigration({ 'user:fetch': 'user:load' }),
+   *     2: createSnapshotKeyRemoveMigration(['audit']),
+   *   },
+   * });
+   * ```
+   */
+  migrations?: Migrations<WorkflowSnapshot> | undefined;
+
   /**
    * Allow concurrent executions with the same workflow ID.
    * When `false` (default), a second run with the same ID will be rejected while one is active.
@@ -457,7 +1279,8 @@ export interface DurableOptions<
 
   /**
    * Unified event stream for workflow and step lifecycle.
-   * Includes durable-specific events: `persist_success` and `persist_error`.
+   * Includes durable-specific events: `persist_success`, `persist_error` and
+   * `continued_as_new`.
    */
   onEvent?: ((event: DurableWorkflowEvent<unknown, C>, ctx: C) => void) | undefined;
 
@@ -472,14 +1295,42 @@ export interface DurableOptions<
    * the stored result is returned without re-execution.
    * If the stored input differs, an IdempotencyConflictError is returned.
    */
-  idempotencyKey?: string | undefined;
+  idempotencyKey?: string | undefined;
+
+  /**
+   * Workflow input, read by the workflow as `ctx.input`.
+   * When idempotencyKey is set, this is compared against stored input.
+   * A run started by `step.continueAsNew()` reads the input it was given there.
+   * Must be JSON-serializable.
+   */
+  input?: unknown;
+
+  /**
+   * Sleeps at least this long are durable: instead of waiting in-process,
+   * `step.sleep` records its wake-up time in the snapshot and the run returns
+   * {@link WorkflowSuspendedError}, releasing the worker and the lock. Run it
+   * again (or let the engine or `durable.resumeDue()` do so) after `wakeAt`
+   * and it continues past the sleep. Shorter sleeps wait in-process.
+   *
+   * @default undefined (every sleep waits in-process)
+   */
+  durableSleepMs?: number | undefined;
+
+  /**
+   * Keep step values at least `thresholdBytes` of JSON (default 64 KiB) in
+   * `store` instead of inline in the snapshot, which then holds a
+   * {@link BlobRef} in their place. Offloaded values are read back when the
+   * run resumes (a resume without `offload` fails with a PersistenceError)
+   * and deleted when it completes; `durable.deleteState()` leaves them.
+   * A snapshot codec does not reach them: wrap `store` with `withBlobCodec`.
+   */
+  offload?: { store: BlobStore; thresholdBytes?: number } | undefined;
 
   /**
-   * Workflow input for idempotency conflict detection.
-   * When idempotencyKey is set, this is compared against stored input.
-   * Must be JSON-serializable.
+   * Time source for durable sleeps, retry delays and `step.withTimeout`.
+   * Defaults to the system clock; pass `createTestClock()` in tests.
    */
-  input?: unknown;
+  clock?: Clock | undefined;
 
   /**
    * Stream store backing `step.getReadable()` / `step.getWritable()`.
@@ -498,6 +1349,24 @@ export interface DurableOptions<
    * ```
    */
   streamStore?: StreamStore | undefined;
+
+  /**
+   * Step result cache shared with other runs, e.g. an `AsyncStepCache` from
+   * a database adapter. Steps with an explicit `key` found in it are not
+   * executed, so an expensive step runs once across runs rather than once
+   * per run. Steps keyed by their id never use it.
+   *
+   * The run's own checkpoints always come first and are never written to the
+   * cache. A step served from the cache is not checkpointed; on resume it is
+   * read from the cache again, or executed if the entry has gone.
+   *
+   * @example
+   * ```typescript
+   * const store = postgres(process.env.DATABASE_URL);
+   * await durable.run(deps, fn, { id: `report-${day}`, store, cache: store.stepCache() });
+   * ```
+   */
+  cache?: StepCache | AsyncStepCache | undefined;
 }
 
 /**
@@ -520,6 +1389,14 @@ export type DurableWorkflowEvent<E, C = void> =
       error: unknown;
       ts: number;
       context?: C;
+    }
+  | {
+      type: "continued_as_new";
+      workflowId: string;
+      successorId: string;
+      generation: number;
+      ts: number;
+      context?: C;
     };
 
 /**
@@ -548,11 +1425,132 @@ export interface DeleteStatesResult {
   errors?: Array<{ id: string; error: unknown }>;
 }
 
+/**
+ * Options for exporting workflow state with `durable.exportStates()`.
+ */
+export interface ExportStatesOptions {
+  /** Only export runs whose id starts with this. */
+  prefix?: string;
+  /**
+   * Most runs to export; the rest of the store is not read.
+   * @default every run under `prefix`
+   */
+  limit?: number;
+  /**
+   * Reads of a run that may disagree before it is skipped as still changing.
+   * @default 3
+   */
+  maxAttempts?: number;
+  /** Called for each listed run that is not exported, and why. */
+  onSkipped?: (id: string, reason: "deleted" | "changing" | "invalid") => void;
+}
+
+/**
+ * Options for importing workflow state with `durable.importStates()`.
+ */
+export interface ImportStatesOptions {
+  /**
+   * What to do with a line whose id already has state in the target store:
+   * stop the import, leave the stored state, or replace it.
+   * @default 'fail'
+   */
+  onConflict?: "fail" | "skip" | "overwrite";
+}
+
+/**
+ * Result of importing workflow state.
+ */
+export interface ImportStatesResult {
+  /** Number of runs saved (including overwritten ones). */
+  imported: number;
+  /** Number of runs left as they were because their id already had state. */
+  skipped: number;
+}
+
+/**
+ * Error returned when `durable.importStates()` stops at a line. Lines before
+ * it were imported; fix the line and import again with `onConflict: 'skip'`.
+ * - `invalid-line`: the line is not an exported `{ id, snapshot }` record
+ * - `conflict`: the id already has state and `onConflict` is `'fail'`
+ */
+export type ImportStatesFailedError = {
+  type: "IMPORT_STATES_FAILED";
+  reason: "invalid-line" | "conflict";
+  /** 1-based line number in the input */
+  line: number;
+  /** The line's workflow ID, when it has one */
+  workflowId?: string;
+  /** Number of runs saved before the failing line */
+  imported: number;
+  message: string;
+};
+
+export function isImportStatesFailed(error: unknown): error is ImportStatesFailedError {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as ImportStatesFailedError).type === "IMPORT_STATES_FAILED"
+  );
+}
+
+/** Split text chunks (or bytes) into lines, whatever the chunk boundaries. */
+async function* ndjsonLines(
+  input: string | Iterable<string | Uint8Array> | AsyncIterable<string | Uint8Array>
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffered = "";
+  for await (const chunk of typeof input === "string" ? [input] : input) {
+    buffered += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffered.indexOf("\n")) !== -1) {
+      yield buffered.slice(0, newline);
+      buffered = buffered.slice(newline + 1);
+    }
+  }
+  buffered += decoder.decode();
+  if (buffered.length > 0) yield buffered;
+}
+
+/** `durable.run`'s `fn`, for helpers that take one (`durable.run` spells it out for hovers). */
+type DurableWorkflowFn<
+  Deps extends Readonly<Record<string, AnyResultFn>>,
+  T,
+  C,
+  Errs extends readonly string[]
+> = (context: {
+  step: DurableStep<ErrorsOfDeps<Deps> | Errs[number]>;
+  deps: Deps;
+  ctx: DurableContext<C>;
+}) => T | Promise<T>;
+
+/** What `durable.run` resolves with. */
+type DurableRunResult<
+  Deps extends Readonly<Record<string, AnyResultFn>>,
+  T,
+  Errs extends readonly string[]
+> = Result<
+  T,
+  | ErrorsOfDeps<Deps>
+  | Errs[number]
+  | UnexpectedError
+  | WorkflowCancelledError
+  | VersionMismatchError
+  | DurableMigrationError
+  | ConcurrentExecutionError
+  | PersistenceError
+  | LeaseExpiredError
+  | IdempotencyConflictError
+  | WorkflowSuspendedError
+  | WorkflowContinuedAsNewError
+>;
+
 // Track active workflow executions for concurrency control
 const activeWorkflows = new Set<string>();
 // Track in-flight idempotency key executions so concurrent in-process callers
 // can await the first execution's result instead of racing through the store load.
 const pendingIdempotencyRuns = new Map<string, Promise<unknown>>();
+// Query handlers of the runs executing in this process, by workflow ID.
+const liveQueries = new Map<string, Map<string, QueryHandler>>();
 
 /**
  * Durable workflow execution namespace.
@@ -630,11 +1628,11 @@ export const durable = {
       // renders as the concrete literal union in hovers instead of the opaque
       // `ErrorsOfDeps<{ ...whole deps... }>`. See createWorkflow / run(deps, fn).
       context: {
-        step: RunStep<
+        step: DurableStep<
           { [K in keyof Deps]: ErrorOf<Deps[K]> }[keyof Deps] | Errs[number]
         >;
         deps: Deps;
-        ctx: WorkflowContext<C>;
+        ctx: DurableContext<C>;
       }
     ) => T | Promise<T>,
     options: DurableOptions<C, Errs>
@@ -646,10 +1644,13 @@ export const durable = {
       | UnexpectedError
       | WorkflowCancelledError
       | VersionMismatchError
+      | DurableMigrationError
       | ConcurrentExecutionError
       | PersistenceError
       | LeaseExpiredError
       | IdempotencyConflictError
+      | WorkflowSuspendedError
+      | WorkflowContinuedAsNewError
     >
   > {
     const {
@@ -666,10 +1667,15 @@ export const durable = {
       onEvent,
       onError,
       onVersionMismatch,
+      migrations,
       idempotencyKey,
       input,
       streamStore,
+      cache,
       errors,
+      durableSleepMs,
+      clock = systemClock,
+      offload,
     } = options;
 
     const effectiveStore = storeOption ?? getDefaultStore();
@@ -822,14 +1828,25 @@ export const durable = {
 
     // Mark as active (in-process)
     activeWorkflows.add(id);
+    const queries = new Map<string, QueryHandler>();
+    liveQueries.set(id, queries);
 
     // Tracks the final result so the idempotency deferred can be resolved in finally.
     let durableResult: unknown;
     try {
       // Load existing snapshot (wrap in try-catch to return Result on store errors)
       let existingSnapshot: WorkflowSnapshot | null = null;
+      // Revision this run's next checkpoint expects to replace (null: no
+      // snapshot yet). Stays undefined when the store has no revisions.
+      let revision: number | null | undefined;
       try {
-        existingSnapshot = await effectiveStore.load(id);
+        if (hasSnapshotRevisions(effectiveStore)) {
+          const loaded = await effectiveStore.loadRevision(id);
+          existingSnapshot = loaded?.snapshot ?? null;
+          revision = loaded?.revision ?? null;
+        } else {
+          existingSnapshot = await effectiveStore.load(id);
+        }
       } catch (loadError) {
         const error: PersistenceError = {
           type: "PERSISTENCE_ERROR",
@@ -860,6 +1877,20 @@ export const durable = {
         }
       }
 
+      // A run closed by step.continueAsNew() lives on under its successor's id.
+      const successorId = continuedRunOf(existingSnapshot);
+      if (successorId !== undefined) {
+        const error: WorkflowContinuedAsNewError = {
+          type: "WORKFLOW_CONTINUED_AS_NEW",
+          workflowId: id,
+          successorId,
+          // Successor ids end in `~<generation>`.
+          generation: Number(successorId.slice(successorId.lastIndexOf("~") + 1)),
+          message: `Workflow '${id}' continued as new under '${successorId}'; run that id to resume it.`,
+        };
+        durableResult = err(error); return err(error);
+      }
+
       // Version check if snapshot exists
       if (existingSnapshot) {
         // Check metadata.version (workflow logic version)
@@ -868,7 +1899,24 @@ export const durable = {
           typeof existingSnapshot.metadata?.version === "number"
             ? existingSnapshot.metadata.version
             : 1;
-        if (storedVersion !== version) {
+        let migrated = false;
+        if (migrations && storedVersion < version) {
+          const migration = await migrateSnapshot(existingSnapshot, version, migrations);
+          if (!migration.ok) {
+            if (isMigrationError(migration.error)) {
+              const error: DurableMigrationError = {
+                ...migration.error,
+                workflowId: id,
+                message: `Failed to migrate state for workflow '${id}' from version ${migration.error.fromVersion} to ${migration.error.toVersion}: ${migration.error.cause instanceof Error ? migration.error.cause.message : String(migration.error.cause)}`,
+              };
+              durableResult = err(error); return err(error);
+            }
+          } else {
+            existingSnapshot = migration.value;
+            migrated = true;
+          }
+        }
+        if (storedVersion !== version && !migrated) {
           const error: VersionMismatchError = {
             type: "VERSION_MISMATCH",
             workflowId: id,
@@ -889,6 +1937,7 @@ export const durable = {
           if (resolution === "clear") {
             try {
               await effectiveStore.delete(id);
+              if (revision !== undefined) revision = null;
             } catch {
               // ignore delete errors
             }
@@ -899,6 +1948,24 @@ export const durable = {
         }
       }
 
+      // The workflow replays offloaded step values; the stored snapshot, which
+      // writes below merge onto, keeps the references.
+      let replaySnapshot = existingSnapshot;
+      if (existingSnapshot) {
+        try {
+          replaySnapshot = await withBlobValues(existingSnapshot, offload?.store);
+        } catch (blobError) {
+          const error: PersistenceError = {
+            type: "PERSISTENCE_ERROR",
+            operation: "load",
+            workflowId: id,
+            cause: blobError,
+            message: `Failed to load offloaded step values for workflow '${id}': ${blobError instanceof Error ? blobError.message : String(blobError)}`,
+          };
+          durableResult = err(error); return err(error);
+        }
+      }
+
       // Define error type for this workflow
       // Deps errors plus anything declared via `errors`, which is what steps in
     // this run are allowed to fail with.
@@ -932,14 +1999,46 @@ export const durable = {
         : undefined;
       const observedStepOrder: string[] = [];
       const observedStepArgs: Array<string | null> = [];
+      const patches = createPatches(existingSnapshot, () => observedStepOrder.length);
       let shapeDrift: { index: number; expected: string; actual: string } | undefined;
+      let conflict: SnapshotConflictError | undefined;
+
+      // With a journal, only a run's first write saves the whole snapshot; the
+      // rest append the steps whose results changed since the previous write.
+      const journal = hasSnapshotJournal(effectiveStore) ? effectiveStore : undefined;
+      let checkpointed = false;
+      const written = new Map<string, unknown>();
+
+      // Offloaded values by step key, so an unchanged value is not stored again.
+      const offloaded = new Map<string, { value: unknown; ref: BlobRef }>();
+      const stepValue = async (stepKey: string, value: unknown): Promise<JSONValue> => {
+        if (!offload) return value as JSONValue;
+        const previous = offloaded.get(stepKey);
+        if (previous && previous.value === value) return previous.ref;
+        const json = JSON.stringify(value);
+        const bytes = json === undefined ? 0 : new TextEncoder().encode(json).byteLength;
+        if (bytes < (offload.thresholdBytes ?? OFFLOAD_THRESHOLD_BYTES)) return value as JSONValue;
+        const ref: BlobRef = { __awaitlyBlob: `${id}/${stepKey}`, bytes };
+        await offload.store.put(ref.__awaitlyBlob, value as JSONValue);
+        offloaded.set(stepKey, { value, ref });
+        return ref;
+      };
+
+      // A run started by step.continueAsNew() reads the input it was continued
+      // with, and records its chain's result under the chain's idempotency key.
+      const continued = existingSnapshot?.metadata?.[CONTINUED_FROM_KEY] !== undefined;
+      const runInput = continued ? existingSnapshot!.metadata!.input : input;
+      const storedKey = existingSnapshot?.metadata?.idempotencyKey;
+      const resultKey = idempotencyKey ?? (continued && typeof storedKey === "string" ? storedKey : undefined);
 
       // Build workflow options with proper types (U = UnexpectedError by default)
       const workflowOptions: WorkflowOptions<E, UnexpectedError, C, Errs> = {
         // Declared errors reach the analyzer and the union alike.
         ...(errors ? { errors } : {}),
         // Restore from existing snapshot
-        snapshot: existingSnapshot,
+        snapshot: replaySnapshot,
+        // As an async cache, so the restored steps stay out of it
+        ...(cache ? { cache: isAsyncStepCache(cache) ? cache : toAsyncStepCache(cache) } : {}),
 
         // Persist after each keyed step
         onAfterStep: async (stepKey, result, wfId, ctx) => {
@@ -948,8 +2047,9 @@ export const durable = {
             const collectedState = resumeCollector.getResumeState();
             const steps: Record<string, StepResult> = {};
             for (const [key, entry] of collectedState.steps) {
+              if (journal && checkpointed && written.get(key) === entry.result) continue;
               if (entry.result.ok) {
-                steps[key] = { ok: true, value: entry.result.value as JSONValue };
+                steps[key] = { ok: true, value: await stepValue(key, entry.result.value) };
               } else {
                 // Serialize cause for proper snapshot format
                 const cause = entry.result.cause;
@@ -995,29 +2095,40 @@ export const durable = {
                   storedStepArgs && storedStepArgs.length > observedStepArgs.length
                     ? storedStepArgs
                     : [...observedStepArgs],
+                ...(Object.keys(patches.decided).length > 0
+                  ? { [PATCHES_KEY]: { ...patchesOf(existingSnapshot), ...patches.decided } }
+                  : {}),
               } as Record<string, JSONValue>,
             };
 
-            // If we have an existing snapshot, merge it with the current one
-            // This preserves steps from previous runs
-            let snapshotToSave = existingSnapshot
-              ? mergeSnapshots(existingSnapshot, currentSnapshot)
-              : currentSnapshot;
-
-            // Clear stale warnings for steps that were re-executed in this run
-            if (snapshotToSave.warnings && snapshotToSave.warnings.length > 0) {
-              const currentStepKeys = new Set(Object.keys(currentSnapshot.steps));
-              const filtered = snapshotToSave.warnings.filter(
-                w => !currentStepKeys.has(w.stepId)
-              );
-              snapshotToSave = {
-                ...snapshotToSave,
-                warnings: filtered.length > 0 ? filtered : undefined,
-              };
-            }
+            if (journal && checkpointed) {
+              // The store merges the delta onto what it holds.
+              await journal.append(id, currentSnapshot, revision === undefined ? undefined : { expectedRevision: revision });
+            } else {
+              // If we have an existing snapshot, merge it with the current one
+              // This preserves steps from previous runs
+              let snapshotToSave = existingSnapshot
+                ? mergeSnapshots(existingSnapshot, currentSnapshot)
+                : currentSnapshot;
+
+              // Clear stale warnings for steps that were re-executed in this run
+              if (snapshotToSave.warnings && snapshotToSave.warnings.length > 0) {
+                const currentStepKeys = new Set(Object.keys(currentSnapshot.steps));
+                const filtered = snapshotToSave.warnings.filter(
+                  w => !currentStepKeys.has(w.stepId)
+                );
+                snapshotToSave = {
+                  ...snapshotToSave,
+                  warnings: filtered.length > 0 ? filtered : undefined,
+                };
+              }
 
-            // Persist to store
-            await effectiveStore.save(id, snapshotToSave);
+              // Persist to store
+              await saveAtRevision(effectiveStore, id, snapshotToSave, revision);
+              checkpointed = true;
+            }
+            if (revision !== undefined) revision = (revision ?? 0) + 1;
+            for (const [key, entry] of collectedState.steps) written.set(key, entry.result);
 
             // Emit success event
             emitDurableEvent(
@@ -1043,6 +2154,12 @@ export const durable = {
               },
               ctx as C
             );
+            // Another writer saved this id since the run loaded it. Stop here
+            // rather than keep running on top of (or overwriting) its steps.
+            if (persistError instanceof SnapshotConflictError) {
+              conflict ??= persistError;
+              throw persistError;
+            }
           }
         },
 
@@ -1090,10 +2207,12 @@ export const durable = {
 
         onError: onError as (error: E | UnexpectedError, stepName?: string, ctx?: C) => void,
         streamStore,
+        clock,
         signal: leaseAbortController && signal
           ? AbortSignal.any([signal, leaseAbortController.signal])
           : leaseAbortController?.signal ?? signal,
         createContext,
+        ...(runInput !== undefined ? { input: runInput } : {}),
       };
 
       // Create workflow instance (U = UnexpectedError by default)
@@ -1118,9 +2237,17 @@ export const durable = {
       }
 
       // Execute workflow (snapshot validation may throw SnapshotFormatError at run time)
-      let result: Result<T, E | UnexpectedError | PersistenceError>;
+      let result: Result<T, E | UnexpectedError | PersistenceError | WorkflowContinuedAsNewError>;
+      let runContext: C | undefined;
       try {
-        result = await workflowInstance!.run(fn);
+        result = await workflowInstance!.run((context) => {
+          runContext = context.ctx.context;
+          return fn({
+            ...context,
+            step: durableStep(context.step, { workflowId: id, store: effectiveStore, clock, durableSleepMs }),
+            ctx: withQueries(context.ctx, queries, patches.patched),
+          });
+        });
         if (shapeDrift) {
           // onBeforeStep threw before the mismatched step read its stored
           // value, so nothing downstream saw a wrong result. Surface it as a
@@ -1129,6 +2256,12 @@ export const durable = {
           durableResult = err(error);
           return err(error);
         }
+        if (conflict) {
+          // The stored snapshot is the other writer's; leave it as it is.
+          const error = snapshotConflictError(id, conflict);
+          durableResult = err(error);
+          return err(error);
+        }
       } catch (runError) {
         if (runError instanceof WorkflowShapeDriftError) {
           const error = shapeDriftError(id, {
@@ -1139,6 +2272,11 @@ export const durable = {
           durableResult = err(error);
           return err(error);
         }
+        if (runError instanceof SnapshotConflictError) {
+          const error = snapshotConflictError(id, runError);
+          durableResult = err(error);
+          return err(error);
+        }
         if (runError instanceof SnapshotFormatError || runError instanceof SnapshotDecodeError) {
           const error: PersistenceError = {
             type: "PERSISTENCE_ERROR",
@@ -1163,6 +2301,27 @@ export const durable = {
         return leaseErr;
       }
 
+      if (!result.ok) {
+        if (isContinueAsNew(result.error)) {
+          const continued = await continueAsNew(effectiveStore, result.error, {
+            workflowId: id,
+            version,
+            idempotencyKey: resultKey,
+            blobs: offload?.store,
+          });
+          if (!continued.ok) {
+            if (isWorkflowContinuedAsNew(continued.error)) {
+              const { successorId, generation } = continued.error;
+              emitDurableEvent(
+                { type: "continued_as_new", workflowId: id, successorId, generation, ts: Date.now(), context: runContext },
+                runContext as C
+              );
+            }
+          }
+          result = continued;
+        }
+      }
+
       // On success: clean up stored state
       if (result.ok) {
         try {
@@ -1178,9 +2337,24 @@ export const durable = {
           durableResult = err(error); return err(error);
         }
 
+        if (offload) {
+          const keys = new Set([...ownBlobKeys(id, existingSnapshot), ...[...offloaded.values()].map(o => o.ref.__awaitlyBlob)]);
+          await Promise.all([...keys].map(key => offload.store.delete(key).catch(() => undefined)));
+        }
+
+        // The chain is done, so its first run's closed record can go.
+        const chainId = existingSnapshot?.metadata?.[CHAIN_KEY];
+        if (continued && typeof chainId === "string") {
+          try {
+            if (continuedRunOf(await effectiveStore.load(chainId)) === id) await effectiveStore.delete(chainId);
+          } catch {
+            // Best-effort cleanup
+          }
+        }
+
         // Save idempotency record on success
-        if (idempotencyKey) {
-          const idemId = `idem:${idempotencyKey}`;
+        if (resultKey) {
+          const idemId = `idem:${resultKey}`;
           try {
             await effectiveStore.save(idemId, {
               formatVersion: 1,
@@ -1192,7 +2366,7 @@ export const durable = {
               },
               metadata: {
                 workflowId: id,
-                idempotencyKey,
+                idempotencyKey: resultKey,
                 input: input as JSONValue,
                 finalResult: result as JSONValue,
               },
@@ -1201,8 +2375,24 @@ export const durable = {
             // Non-fatal: workflow succeeded but idempotency record failed to save
           }
         }
+      } else if (idempotencyKey) {
+        // On error/cancellation: state remains for resume. Drop our "running"
+        // idempotency marker, or resuming with the same key would be rejected
+        // as a concurrent execution.
+        try {
+          await effectiveStore.delete(`idem:${idempotencyKey}`);
+        } catch {
+          // Non-fatal: the marker is best-effort
+        }
+      }
+
+      if (!result.ok) {
+        if (isWorkflowSuspended(result.error)) {
+          const suspended = await suspend(effectiveStore, result.error, clock.now());
+          durableResult = suspended;
+          return suspended;
+        }
       }
-      // On error/cancellation: state remains for resume
 
       // Workflow result is structurally compatible with our return type
       // (workflow returns E | UnexpectedError, we return that plus our durable-specific errors)
@@ -1211,6 +2401,7 @@ export const durable = {
     } finally {
       // Always remove from active set
       activeWorkflows.delete(id);
+      if (liveQueries.get(id) === queries) liveQueries.delete(id);
       // Resolve in-process idempotency deferred so concurrent waiters get the result
       if (resolveIdempotencyRun) {
         resolveIdempotencyRun(durableResult);
@@ -1233,6 +2424,370 @@ export const durable = {
     }
   },
 
+  /**
+   * Resume suspended runs whose wake-up time has passed, or that were sent
+   * the signal they wait for.
+   *
+   * For deployments without the engine: call it on a timer with the same
+   * `deps` and `fn` the runs were started with. Runs are resumed one at a
+   * time through {@link durable.run}, so each replays its completed steps and
+   * continues past the sleep or wait. Use `prefix` to pick out this workflow's ids
+   * when the store holds several.
+   *
+   * @param deps - Workflow dependencies
+   * @param fn - Workflow function
+   * @param options - Options passed to each `durable.run`, plus `prefix` and
+   *   `limit` (most runs to resume, default 100)
+   * @returns The id and result of each resumed run
+   *
+   * @example
+   * ```typescript
+   * setInterval(async () => {
+   *   await durable.resumeDue(deps, onboarding, { store, prefix: "onboarding-" });
+   * }, 60_000);
+   * ```
+   */
+  async resumeDue<
+    const Deps extends Readonly<Record<string, AnyResultFn>>,
+    T,
+    C = void,
+    const Errs extends readonly string[] = readonly []
+  >(
+    deps: Deps,
+    fn: DurableWorkflowFn<Deps, T, C, Errs>,
+    options: Omit<DurableOptions<C, Errs>, "id"> & { prefix?: string; limit?: number } = {}
+  ): Promise<Array<{ id: string; result: DurableRunResult<Deps, T, Errs> }>> {
+    const { prefix, limit = 100, ...runOptions } = options;
+    const store = runOptions.store ?? getDefaultStore();
+    const now = (runOptions.clock ?? systemClock).now();
+
+    const resumed: Array<{ id: string; result: DurableRunResult<Deps, T, Errs> }> = [];
+    // Resumed runs are written again, which moves them ahead of the cursor.
+    let cursor: string | undefined;
+    do {
+      const page = await querySnapshots(store, {
+        ...(prefix !== undefined ? { prefix } : {}),
+        status: "suspended",
+        ...(cursor !== undefined ? { cursor } : {}),
+        limit: RESUME_PAGE_SIZE,
+      });
+      for (const entry of page.entries) {
+        if (resumed.length >= limit) return resumed;
+        const execution = (await store.load(entry.id))?.execution;
+        // Without a wakeAt it waits for a signal that has not been sent.
+        if (execution?.status !== "suspended" || !execution.wakeAt || Date.parse(execution.wakeAt) > now) continue;
+        resumed.push({ id: entry.id, result: await this.run(deps, fn, { ...runOptions, id: entry.id }) });
+      }
+      cursor = page.nextCursor;
+    } while (cursor !== undefined);
+    return resumed;
+  },
+
+  /**
+   * Send a signal to a workflow run, for `step.waitForSignal(name)` to receive.
+   *
+   * The signal is buffered in the store as its own record, so it is kept
+   * whether the run is waiting for it, still working towards the wait, or
+   * executing in another process. A suspended run is made due at once: the
+   * engine or `durable.resumeDue()` picks it up (for runs managed by the
+   * engine, send with `engine.signal()`, which also re-queues the run).
+   *
+   * @param store - Snapshot store the run uses
+   * @param workflowId - Workflow execution ID
+   * @param name - Signal name, as passed to `step.waitForSignal`
+   * @param payload - JSON value the wait resolves with
+   * @returns `true` once the signal is stored, `false` on store errors
+   */
+  async signal(store: SnapshotStore, workflowId: string, name: string, payload: JSONValue = null): Promise<boolean> {
+    const sentAt = new Date().toISOString();
+    const sequence = String(++signalSequence).padStart(16, "0");
+    try {
+      // A run continued as new takes signals under its latest successor's id.
+      workflowId = continuedRunOf(await store.load(workflowId)) ?? workflowId;
+      await store.save(`${SIGNAL_PREFIX}${workflowId}:${sentAt}:${sequence}:${crypto.randomUUID()}`, {
+        formatVersion: 1,
+        steps: {},
+        execution: { status: "completed", lastUpdated: sentAt, completedAt: sentAt },
+        metadata: { workflowId, signal: name, payload },
+      } satisfies WorkflowSnapshot);
+    } catch {
+      return false;
+    }
+
+    // A run executing now holds its lease and checks the buffer itself before suspending.
+    let lease: { ownerToken: string } | null = null;
+    try {
+      if (hasWorkflowLock(store)) {
+        lease = await store.tryAcquire(workflowId, { ttlMs: 30_000 });
+        if (!lease) return true;
+      }
+      const snapshot = await store.load(workflowId);
+      if (snapshot?.execution.status === "suspended" && !(snapshot.execution.wakeAt && snapshot.execution.wakeAt <= sentAt)) {
+        await store.save(workflowId, { ...snapshot, execution: { ...snapshot.execution, wakeAt: sentAt } });
+      }
+    } catch {
+      // The signal is stored; a run that misses the wake-up still reads it when resumed.
+    } finally {
+      if (lease && hasWorkflowLock(store)) await store.release(workflowId, lease.ownerToken).catch(() => undefined);
+    }
+    return true;
+  },
+
+  /**
+   * Ask a workflow run a question it answers with a handler registered by
+   * `ctx.onQuery(name, handler)`.
+   *
+   * A run executing in this process answers from its live handlers. Otherwise
+   * the run's snapshot is replayed through `fn` without executing or saving
+   * anything: completed steps return their checkpointed values, and the
+   * replay stops at the first step the snapshot has no checkpoint for, which
+   * is where a suspended run is waiting. The handler then answers from the
+   * state the replay rebuilt. Replaying needs the run's `deps` and `fn`, and
+   * like resuming it relies on `fn` being deterministic between steps.
+   *
+   * @param store - Snapshot store the run uses
+   * @param workflowId - Workflow execution ID
+   * @param name - Query name, as passed to `ctx.onQuery`
+   * @param workflow - The run's `deps` and `fn`, to answer for a run that is not active here, with the `offload`, `durableSleepMs` and `clock` it runs with
+   * @returns The handler's value, or {@link QueryFailedError}
+   *
+   * @example
+   * ```typescript
+   * const progress = await durable.query<{ shipped: string[] }>(store, "order-123", "progress", { deps, fn: fulfil });
+   * if (progress.ok) console.log(progress.value.shipped);
+   * ```
+   */
+  async query<
+    T = unknown,
+    const Deps extends Readonly<Record<string, AnyResultFn>> = Readonly<Record<string, AnyResultFn>>,
+    C = void,
+    const Errs extends readonly string[] = readonly []
+  >(
+    store: SnapshotStore,
+    workflowId: string,
+    name: string,
+    workflow?: {
+      deps: Deps;
+      fn: DurableWorkflowFn<Deps, unknown, C, Errs>;
+      createContext?: () => C;
+    } & Pick<DurableOptions, "offload" | "durableSleepMs" | "clock">
+  ): Promise<Result<T, QueryFailedError | PersistenceError>> {
+    const failed = (reason: QueryFailedError["reason"], message: string, cause?: unknown) =>
+      err({
+        type: "QUERY_FAILED" as const,
+        workflowId,
+        query: name,
+        reason,
+        ...(cause !== undefined ? { cause } : {}),
+        message,
+      });
+    const answer = async (handler: QueryHandler | undefined): Promise<Result<T, QueryFailedError>> => {
+      if (!handler) return failed("unknown-query", `Workflow '${workflowId}' has no query handler named '${name}'.`);
+      try {
+        return ok((await handler()) as T);
+      } catch (cause) {
+        return failed(
+          "handler-threw",
+          `Query '${name}' on workflow '${workflowId}' threw: ${cause instanceof Error ? cause.message : String(cause)}`,
+          cause
+        );
+      }
+    };
+
+    const live = liveQueries.get(workflowId);
+    if (live) return answer(live.get(name));
+
+    let snapshot: WorkflowSnapshot | null;
+    try {
+      snapshot = await store.load(workflowId);
+      if (snapshot) assertValidSnapshot(snapshot);
+      if (snapshot && workflow) snapshot = await withBlobValues(snapshot, workflow.offload?.store);
+    } catch (cause) {
+      return err({
+        type: "PERSISTENCE_ERROR",
+        operation: "load",
+        workflowId,
+        cause,
+        message: `Failed to load state for workflow '${workflowId}': ${cause instanceof Error ? cause.message : String(cause)}`,
+      });
+    }
+    const successorId = continuedRunOf(snapshot);
+    if (successorId !== undefined) return this.query<T, Deps, C, Errs>(store, successorId, name, workflow);
+    if (!snapshot) return failed("not-found", `Workflow '${workflowId}' is not running and has no stored state.`);
+    if (!workflow) {
+      return failed("replay-unavailable", `Workflow '${workflowId}' is not running in this process; pass its deps and fn to replay it.`);
+    }
+
+    const steps = snapshot.steps;
+    const handlers = new Map<string, QueryHandler>();
+    let replayed = 0;
+    const patches = createPatches(snapshot, () => replayed);
+    const input = snapshot.metadata?.input;
+    const replay = createWorkflow(workflowId, workflow.deps, {
+      snapshot,
+      createContext: workflow.createContext,
+      // Runs the engine or step.continueAsNew() started keep their input here.
+      ...(input !== undefined ? { input } : {}),
+      onBeforeStep: (stepKey) => {
+        if (!Object.hasOwn(steps, stepKey)) throw new QueryReplayHalt();
+        replayed++;
+      },
+    });
+    try {
+      await replay.run((context) =>
+        workflow.fn({
+          ...context,
+          step: durableStep(context.step, {
+            workflowId,
+            store,
+            clock: workflow.clock ?? systemClock,
+            durableSleepMs: workflow.durableSleepMs,
+          }),
+          ctx: withQueries(context.ctx, handlers, patches.patched),
+        })
+      );
+    } catch {
+      // However the replay ended, the handlers it registered answer for that point.
+    }
+    return answer(handlers.get(name));
+  },
+
+  /**
+   * Cut a stored run's history back to just before `toStep`, so the next run
+   * keeps the steps recorded before it and executes `toStep` and everything
+   * after it again. Use it to re-run from a step whose code was fixed
+   * instead of deleting the whole run with `durable.deleteState()`.
+   *
+   * Steps are cut in the order the run executed them, which is the order
+   * shape drift is checked against. The cut is recorded in
+   * `metadata.rewinds`. Resume the run with `durable.run` under the same id;
+   * a run the engine dead-lettered is re-queued with `engine.requeue()`.
+   * Pass the run's `offload` to delete the dropped steps' offloaded values.
+   *
+   * @param store - Snapshot store the run uses
+   * @param id - Workflow execution ID
+   * @param options - `toStep`: key of the first step to drop; `offload`: the run's blob store
+   * @returns The saved snapshot, or {@link RewindFailedError}
+   *
+   * @example
+   * ```typescript
+   * // Step "charge" had a bug; keep everything before it.
+   * await durable.rewind(store, "order-123", { toStep: "charge" });
+   * await durable.run(deps, checkout, { id: "order-123", store });
+   * ```
+   */
+  async rewind(
+    store: SnapshotStore,
+    id: string,
+    options: { toStep: string; offload?: { store: BlobStore } }
+  ): Promise<Result<WorkflowSnapshot, RewindFailedError | PersistenceError>> {
+    const { toStep, offload } = options;
+    const failed = (reason: RewindFailedError["reason"], message: string) =>
+      err({ type: "REWIND_FAILED" as const, workflowId: id, reason, step: toStep, message });
+    if (activeWorkflows.has(id)) return failed("in-use", `Workflow '${id}' is executing; rewind it once it stops.`);
+
+    let lease: { ownerToken: string } | null = null;
+    try {
+      if (hasWorkflowLock(store)) {
+        lease = await store.tryAcquire(id, { ttlMs: 30_000 });
+        if (!lease) return failed("in-use", `Workflow '${id}' is executing in another process; rewind it once it stops.`);
+      }
+      const snapshot = await store.load(id);
+      if (!snapshot) return failed("not-found", `Workflow '${id}' has no stored state.`);
+      const cut = truncateAt(snapshot, toStep);
+      if (!cut) return failed("unknown-step", `Workflow '${id}' has not recorded step '${toStep}'.`);
+
+      const previous = Array.isArray(snapshot.metadata?.rewinds) ? snapshot.metadata.rewinds : [];
+      const rewound: WorkflowSnapshot = {
+        ...cut.snapshot,
+        metadata: {
+          ...cut.snapshot.metadata,
+          rewinds: [...previous, { toStep, droppedSteps: cut.dropped, at: cut.snapshot.execution.lastUpdated }],
+        },
+      };
+      await store.save(id, rewound);
+      if (offload) {
+        const kept = new Set(blobKeys(rewound));
+        const dropped = ownBlobKeys(id, snapshot).filter(key => !kept.has(key));
+        await Promise.all(dropped.map(key => offload.store.delete(key).catch(() => undefined)));
+      }
+      return ok(rewound);
+    } catch (cause) {
+      return err({
+        type: "PERSISTENCE_ERROR",
+        operation: "save",
+        workflowId: id,
+        cause,
+        message: `Failed to rewind workflow '${id}': ${cause instanceof Error ? cause.message : String(cause)}`,
+      });
+    } finally {
+      if (lease && hasWorkflowLock(store)) await store.release(id, lease.ownerToken).catch(() => undefined);
+    }
+  },
+
+  /**
+   * Copy a stored run's history up to just before `fromStep` into a new run
+   * under `newId`, leaving the source untouched. Running `newId` replays the
+   * copied steps and executes from `fromStep`, e.g. to try a fix against a
+   * failed run's real history while the original stays for inspection.
+   *
+   * The copy records `metadata.forkedFrom` and does not carry the source's
+   * idempotency key, so its result is never recorded as the source's.
+   * Offloaded step values are copied under `newId` in `offload.store`, so
+   * each run deletes only its own when it completes.
+   *
+   * @param store - Snapshot store the run uses
+   * @param sourceId - Workflow execution ID to copy
+   * @param options - `fromStep`: key of the first step not copied; `newId`: id of the copy; `offload`: the run's blob store, required when the copied steps were offloaded
+   * @returns The copy's snapshot, or {@link RewindFailedError}
+   *
+   * @example
+   * ```typescript
+   * await durable.fork(store, "order-123", { fromStep: "charge", newId: "order-123-retry" });
+   * await durable.run(deps, checkoutFixed, { id: "order-123-retry", store });
+   * ```
+   */
+  async fork(
+    store: SnapshotStore,
+    sourceId: string,
+    options: { fromStep: string; newId: string; offload?: { store: BlobStore } }
+  ): Promise<Result<WorkflowSnapshot, RewindFailedError | PersistenceError>> {
+    const { fromStep, newId, offload } = options;
+    const failed = (workflowId: string, reason: RewindFailedError["reason"], message: string) =>
+      err({ type: "REWIND_FAILED" as const, workflowId, reason, step: fromStep, message });
+
+    try {
+      const snapshot = await store.load(sourceId);
+      if (!snapshot) return failed(sourceId, "not-found", `Workflow '${sourceId}' has no stored state.`);
+      const cut = truncateAt(snapshot, fromStep);
+      if (!cut) return failed(sourceId, "unknown-step", `Workflow '${sourceId}' has not recorded step '${fromStep}'.`);
+      if (await store.load(newId)) return failed(newId, "exists", `Workflow '${newId}' already has stored state.`);
+      if (!offload && blobKeys(cut.snapshot).length > 0) {
+        return failed(sourceId, "offloaded", `Workflow '${sourceId}' has offloaded step values; pass its offload store to fork it.`);
+      }
+
+      const copied = offload ? await copyBlobValues(cut.snapshot, newId, offload.store) : cut.snapshot;
+      const { idempotencyKey: _idempotencyKey, ...metadata } = copied.metadata ?? {};
+      const fork: WorkflowSnapshot = {
+        ...copied,
+        metadata: {
+          ...metadata,
+          forkedFrom: { workflowId: sourceId, step: fromStep, at: cut.snapshot.execution.lastUpdated },
+        },
+      };
+      await store.save(newId, fork);
+      return ok(fork);
+    } catch (cause) {
+      return err({
+        type: "PERSISTENCE_ERROR",
+        operation: "save",
+        workflowId: newId,
+        cause,
+        message: `Failed to fork workflow '${sourceId}' as '${newId}': ${cause instanceof Error ? cause.message : String(cause)}`,
+      });
+    }
+  },
+
   /**
    * Clear all persisted workflow state from the store.
    * Use for admin/testing. If the store implements `clear()`, that is used;
@@ -1329,18 +2884,156 @@ export const durable = {
   },
 
   /**
-   * List workflow IDs with persisted state.
+   * Export stored workflow state as NDJSON, one `{ id, snapshot }` record
+   * per line, e.g. to move in-flight runs to another store with
+   * `durable.importStates()`.
+   *
+   * No locks are taken. Each run is read until two reads agree, so a run
+   * saved mid-export is never written half old, half new; one still changing
+   * after `maxAttempts` reads, deleted after listing, or failing snapshot
+   * validation is skipped and reported to `onSkipped`. Stop workers first for
+   * a complete export. Offloaded step values stay in their blob store; only
+   * the references are exported.
+   *
+   * @param store - Snapshot store to read
+   * @param options - Optional prefix, limit and skip reporting
+   * @returns NDJSON lines, each ending in a newline
+   *
+   * @example
+   * ```typescript
+   * import { createWriteStream } from 'node:fs';
+   * import { Readable } from 'node:stream';
+   * import { pipeline } from 'node:stream/promises';
+   *
+   * await pipeline(Readable.from(durable.exportStates(store, { prefix: 'order-' })), createWriteStream('states.ndjson'));
+   * ```
+   */
+  async *exportStates(store: SnapshotStore, options: ExportStatesOptions = {}): AsyncGenerator<string> {
+    const { prefix, limit = Number.POSITIVE_INFINITY, maxAttempts = 3, onSkipped } = options;
+    let listed = 0;
+    for await (const id of storedIds(store, prefix)) {
+      if (listed++ >= limit) return;
+      let line: string | undefined;
+      let reason: "deleted" | "changing" | "invalid" = "changing";
+      let previous = JSON.stringify(await store.load(id));
+      for (let attempt = 1; attempt < Math.max(2, maxAttempts) && line === undefined; attempt++) {
+        const current = await store.load(id);
+        const serialized = JSON.stringify(current);
+        if (serialized === previous) {
+          if (current === null) reason = "deleted";
+          else if (!validateSnapshot(current).valid) reason = "invalid";
+          else line = `${JSON.stringify({ id, snapshot: current })}\n`;
+          break;
+        }
+        previous = serialized;
+      }
+      if (line === undefined) onSkipped?.(id, reason);
+      else yield line;
+    }
+  },
+
+  /**
+   * Import workflow state exported by `durable.exportStates()`.
+   *
+   * Each line is validated before it is saved. Imported runs resume where
+   * they were: queued engine runs are claimable, suspended ones wake on
+   * schedule. The import stops at the first invalid line, or at the first id
+   * that already has state when `onConflict` is `'fail'`.
+   *
+   * @param store - Snapshot store to write
+   * @param input - NDJSON as a string, or chunks of text or bytes (e.g. a file stream)
+   * @param options - What to do with ids that already have state
+   * @returns Counts of imported and skipped runs, or {@link ImportStatesFailedError}
+   *
+   * @example
+   * ```typescript
+   * import { createReadStream } from 'node:fs';
+   *
+   * const result = await durable.importStates(postgresStore, createReadStream('states.ndjson'), { onConflict: 'skip' });
+   * ```
+   */
+  async importStates(
+    store: SnapshotStore,
+    input: string | Iterable<string | Uint8Array> | AsyncIterable<string | Uint8Array>,
+    options: ImportStatesOptions = {}
+  ): Promise<Result<ImportStatesResult, ImportStatesFailedError | PersistenceError>> {
+    const { onConflict = "fail" } = options;
+    let imported = 0;
+    let skipped = 0;
+    let lineNumber = 0;
+    const failed = (reason: ImportStatesFailedError["reason"], message: string, workflowId?: string) =>
+      err({
+        type: "IMPORT_STATES_FAILED" as const,
+        reason,
+        line: lineNumber,
+        ...(workflowId !== undefined ? { workflowId } : {}),
+        imported,
+        message: `Line ${lineNumber}: ${message}`,
+      });
+
+    let id: string | undefined;
+    try {
+      for await (const line of ndjsonLines(input)) {
+        lineNumber++;
+        id = undefined;
+        if (line.trim() === "") continue;
+
+        let record: unknown;
+        try {
+          record = JSON.parse(line);
+        } catch (parseError) {
+          return failed("invalid-line", `not valid JSON (${parseError instanceof Error ? parseError.message : String(parseError)})`);
+        }
+        const candidate = record as { id?: unknown; snapshot?: unknown } | null;
+        if (typeof candidate !== "object" || candidate === null || typeof candidate.id !== "string") {
+          return failed("invalid-line", "expected an { id, snapshot } record");
+        }
+        id = candidate.id;
+        const validation = validateSnapshot(candidate.snapshot);
+        if (!validation.valid) {
+          return failed("invalid-line", `invalid snapshot for '${id}': ${validation.errors.join("; ")}`, id);
+        }
+
+        if (onConflict !== "overwrite" && (await store.load(id)) !== null) {
+          if (onConflict === "fail") return failed("conflict", `workflow '${id}' already has stored state.`, id);
+          skipped++;
+          continue;
+        }
+        await store.save(id, validation.snapshot);
+        imported++;
+      }
+    } catch (cause) {
+      return err({
+        type: "PERSISTENCE_ERROR",
+        operation: "save",
+        workflowId: id ?? "",
+        cause,
+        message: `Failed to import workflow state at line ${lineNumber}: ${cause instanceof Error ? cause.message : String(cause)}`,
+      });
+    }
+    return ok({ imported, skipped });
+  },
+
+  /**
+   * List workflow IDs with persisted state, most recently updated first.
+   * Filters run on the store's indexes when it implements `SnapshotQuery`
+   * (see `querySnapshots`); page through more with `querySnapshots` itself.
    *
    * @param store - Snapshot store
-   * @param options - Optional prefix and limit
+   * @param options - Optional prefix, limit and filters (workflowName, status, updatedAfter, ...)
    * @returns Array of { id, updatedAt } entries
+   *
+   * @example
+   * ```typescript
+   * const failed = await durable.listPending(store, { workflowName: 'checkout', status: 'failed' });
+   * ```
    */
   async listPending(
     store: SnapshotStore,
-    options?: { prefix?: string; limit?: number }
+    options?: Omit<SnapshotQueryOptions, "cursor">
   ): Promise<Array<{ id: string; updatedAt: string }>> {
     try {
-      return await store.list(options);
+      return (await querySnapshots(store, options)).entries;
     } catch {
       return [];
     }
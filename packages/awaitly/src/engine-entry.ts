@@ -10,5 +10,24 @@ export {
   type EngineEvent,
   type EnqueueOptions,
   type ScheduleOptions,
+  type IntervalScheduleOptions,
+  type CronScheduleOptions,
+  type MisfirePolicy,
+  type ScheduleInfo,
+  type DeadLetter,
+  type StopOptions,
+  type RunInfo,
+  type RunState,
+  type ListRunsOptions,
   type WorkflowRegistration,
+  type EngineStep,
+  type ChildOptions,
+  type WorkflowValue,
+  type WorkflowErrors,
+
+  // Cron expressions used by `schedule({ cron })`
+  parseCron,
+  nextCronTime,
+  CronParseError,
+  type CronSpec,
 } from "./engine";
@@ -0,0 +1,147 @@
+/**
+ * Child workflows: a run that starts another registered workflow and waits on
+ * its result.
+ *
+ * The child is an ordinary engine run under an id derived from the parent's
+ * (`<parentId>/<stepId>`), so its retry policy, limits and the admin calls
+ * apply to it as usual. Starting it is a step, which records the child id in
+ * the parent's snapshot, and a resumed parent replays that step rather than
+ * starting a second child. While the child is unsettled the parent does not
+ * hold a worker: the waiting step fails with a pending marker, the engine
+ * parks the parent back in the queue, and the child wakes it once it settles.
+ * The settled child's result, failed or not, is the waiting step's value, so
+ * the parent decides what a failed child means for it.
+ */
+
+import { err, ok, type Result } from "../core";
+import type { DurableStep } from "../durable";
+import { UnexpectedError } from "../errors";
+import {
+  deserializeCauseNew,
+  type JSONValue,
+  type SerializedCause,
+  type SnapshotStore,
+  type WorkflowSnapshot,
+} from "../persistence";
+import type { ChildOptions, EngineStep, EnqueueOptions } from "./types";
+
+/** Metadata key naming the run that started a child. */
+export const PARENT_KEY = "parentId";
+
+export function childRunId(parentId: string, stepId: string): string {
+  return `${parentId}/${stepId}`;
+}
+
+/** What a waiting step fails with while its child is unsettled; the engine parks the parent on it. */
+interface ChildPending {
+  type: "CHILD_PENDING";
+  childId: string;
+}
+
+export function isChildPending(error: unknown): error is ChildPending {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as ChildPending).type === "CHILD_PENDING" &&
+    typeof (error as ChildPending).childId === "string"
+  );
+}
+
+export function parentOf(snapshot: WorkflowSnapshot): string | undefined {
+  const parentId = snapshot.metadata?.[PARENT_KEY];
+  return typeof parentId === "string" ? parentId : undefined;
+}
+
+/**
+ * `metadata.outcome` for a child that failed with `error`. Thrown errors are
+ * left out: the parent rebuilds them from `lastError` as an UnexpectedError.
+ */
+export function failureOutcome(error: unknown): { outcome?: JSONValue } {
+  return error instanceof Error ? {} : { outcome: { ok: false, error: error as JSONValue } };
+}
+
+/**
+ * A settled child's outcome as the parent's waiting step records it, or
+ * `undefined` while the child is unsettled. It stays JSON so the parent's
+ * snapshot can hold it; {@link toChildResult} turns it into the result.
+ */
+export function childOutcome(childId: string, snapshot: WorkflowSnapshot | null): JSONValue | undefined {
+  const metadata = snapshot?.metadata;
+  const outcome = metadata?.outcome;
+  switch (metadata?.engineState) {
+    case "done":
+      return outcome ?? { ok: true };
+    case "failed":
+      return outcome ?? { ok: false, lastError: metadata.lastError ?? null };
+    case "cancelled":
+      return { ok: false, error: { type: "WORKFLOW_CANCELLED", reason: `Child workflow '${childId}' was cancelled` } };
+    default:
+      return undefined;
+  }
+}
+
+/** The result `step.child()` resolves with. A child that threw fails with an UnexpectedError around its error. */
+export function toChildResult(outcome: JSONValue): Result<unknown, unknown> {
+  const settled = outcome as { ok: boolean; value?: unknown; error?: unknown; lastError?: SerializedCause | null };
+  if (settled.ok) return ok(settled.value);
+  if ("lastError" in settled) {
+    return err(new UnexpectedError({ cause: settled.lastError ? deserializeCauseNew(settled.lastError) : undefined }));
+  }
+  return err(settled.error);
+}
+
+/** `step` for a run of a registered workflow: the run's own step plus `child()`. */
+export function withChildren(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  step: DurableStep<any>,
+  parentId: string,
+  engine: {
+    store: SnapshotStore;
+    enqueue(name: string, options?: EnqueueOptions): Promise<string>;
+  }
+): EngineStep {
+  const { store, enqueue } = engine;
+
+  async function child(id: string, workflowName: string, input?: unknown, options?: ChildOptions) {
+    // internal binding: the caller's id names both steps
+    const childId = await step(
+      // eslint-disable-next-line awaitly/step-require-id
+      `${id}:start`,
+      async () => {
+        const runId = childRunId(parentId, id);
+        // Already there when a crash lost this step's checkpoint but not the enqueue.
+        if (!(await store.load(runId))) {
+          await enqueue(workflowName, {
+            ...options,
+            id: runId,
+            input,
+            metadata: { ...options?.metadata, [PARENT_KEY]: parentId },
+          });
+        }
+        return ok(runId);
+      }
+    );
+
+    const outcome = await step(
+      // eslint-disable-next-line awaitly/step-require-id
+      id,
+      async () => {
+        const settled = childOutcome(childId, await store.load(childId));
+        return settled === undefined ? err({ type: "CHILD_PENDING", childId } satisfies ChildPending) : ok(settled);
+      }
+    );
+
+    // The result is in this run's snapshot now, so the child's record can go.
+    // Failed and cancelled children stay for operators to inspect.
+    try {
+      if ((await store.load(childId))?.metadata?.engineState === "done") await store.delete(childId);
+    } catch {
+      // Best-effort cleanup
+    }
+    return toChildResult(outcome);
+  }
+
+  // eslint-disable-next-line awaitly/step-require-id
+  const engineStep = ((...args: Parameters<typeof step>) => step(...args)) as EngineStep;
+  return Object.assign(engineStep, step, { child });
+}
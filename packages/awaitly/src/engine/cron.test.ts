@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { CronParseError, cronTimesBetween, nextCronTime, parseCron } from "./cron";
+
+const at = (iso: string) => Date.parse(iso);
+const iso = (ms: number | null) => (ms === null ? null : new Date(ms).toISOString());
+
+describe("parseCron", () => {
+  it("parses 5-field expressions with a zero seconds field", () => {
+    const spec = parseCron("*/15 9-17 * * MON-FRI");
+    expect([...spec.seconds]).toEqual([0]);
+    expect([...spec.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...spec.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...spec.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(spec.timezone).toBe("UTC");
+  });
+
+  it("parses 6-field expressions with a leading seconds field", () => {
+    const spec = parseCron("30 0 12 * * *");
+    expect([...spec.seconds]).toEqual([30]);
+    expect([...spec.hours]).toEqual([12]);
+  });
+
+  it("expands macros, names, lists and start/step", () => {
+    expect([...parseCron("@daily").hours]).toEqual([0]);
+    expect([...parseCron("0 0 1 JAN,jul *").months]).toEqual([1, 7]);
+    expect([...parseCron("5/20 * * * *").minutes]).toEqual([5, 25, 45]);
+  });
+
+  it("treats 7 as Sunday", () => {
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  it.each([
+    ["* * * *", /expected 5 or 6 fields/],
+    ["60 * * * *", /minute 60 is out of range/],
+    ["* * * 13 *", /month 13 is out of range/],
+    ["*/0 * * * *", /not a valid step/],
+    ["5-1 * * * *", /reversed/],
+    ["x * * * *", /not a valid minute/],
+  ])("rejects '%s'", (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(CronParseError);
+    expect(() => parseCron(expression)).toThrow(message);
+  });
+
+  it("rejects unknown timezones", () => {
+    expect(() => parseCron("0 2 * * *", "Mars/Olympus")).toThrow(/unknown timezone/);
+  });
+});
+
+describe("nextCronTime", () => {
+  it("finds the next occurrence in UTC", () => {
+    const spec = parseCron("0 2 * * *");
+    expect(iso(nextCronTime(spec, at("2026-03-10T01:00:00Z")))).toBe("2026-03-10T02:00:00.000Z");
+    expect(iso(nextCronTime(spec, at("2026-03-10T02:00:00Z")))).toBe("2026-03-11T02:00:00.000Z");
+  });
+
+  it("skips weekends for a weekday schedule", () => {
+    const spec = parseCron("0 9 * * MON-FRI");
+    // Friday 2026-03-13 10:00 -> Monday 2026-03-16 09:00
+    expect(iso(nextCronTime(spec, at("2026-03-13T10:00:00Z")))).toBe("2026-03-16T09:00:00.000Z");
+  });
+
+  it("matches either day field when both are restricted", () => {
+    const spec = parseCron("0 0 13 * FRI");
+    // Next is Friday 2026-03-20 or the 13th of April — whichever comes first.
+    expect(iso(nextCronTime(spec, at("2026-03-14T00:00:00Z")))).toBe("2026-03-20T00:00:00.000Z");
+  });
+
+  it("evaluates wall time in the given timezone across DST", () => {
+    const spec = parseCron("0 2 * * *", "Europe/London");
+    // GMT in winter: 02:00 local is 02:00Z
+    expect(iso(nextCronTime(spec, at("2026-01-10T00:00:00Z")))).toBe("2026-01-10T02:00:00.000Z");
+    // BST in summer: 02:00 local is 01:00Z
+    expect(iso(nextCronTime(spec, at("2026-07-10T00:00:00Z")))).toBe("2026-07-10T01:00:00.000Z");
+  });
+
+  it("shifts a wall time skipped by spring-forward past the gap", () => {
+    // 2026-03-08 02:30 does not exist in New York; it runs at 03:30 EDT.
+    const spec = parseCron("30 2 * * *", "America/New_York");
+    expect(iso(nextCronTime(spec, at("2026-03-08T05:00:00Z")))).toBe("2026-03-08T07:30:00.000Z");
+  });
+
+  it("runs a wall time repeated by fall-back only once", () => {
+    // 2026-11-01 01:30 happens twice in New York (EDT then EST).
+    const spec = parseCron("30 1 * * *", "America/New_York");
+    const first = nextCronTime(spec, at("2026-11-01T04:00:00Z"));
+    expect(iso(first)).toBe("2026-11-01T05:30:00.000Z");
+    expect(iso(nextCronTime(spec, first!))).toBe("2026-11-02T06:30:00.000Z");
+  });
+
+  it("returns null for an expression that never matches", () => {
+    expect(nextCronTime(parseCron("0 0 31 2 *"), at("2026-01-01T00:00:00Z"))).toBeNull();
+  });
+});
+
+describe("cronTimesBetween", () => {
+  it("lists occurrences in (after, until] oldest first", () => {
+    const spec = parseCron("0 * * * *");
+    const times = cronTimesBetween(spec, at("2026-01-01T00:00:00Z"), at("2026-01-01T03:00:00Z"));
+    expect(times.map(iso)).toEqual([
+      "2026-01-01T01:00:00.000Z",
+      "2026-01-01T02:00:00.000Z",
+      "2026-01-01T03:00:00.000Z",
+    ]);
+  });
+
+  it("respects the limit", () => {
+    const spec = parseCron("* * * * *");
+    expect(cronTimesBetween(spec, 0, 3_600_000, 5)).toHaveLength(5);
+  });
+});
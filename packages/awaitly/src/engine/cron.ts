@@ -0,0 +1,322 @@
+/**
+ * Cron expressions for engine schedules.
+ *
+ * Parses standard 5-field (`minute hour day-of-month month day-of-week`) and
+ * 6-field (leading `second`) expressions and computes occurrences in an IANA
+ * timezone. Matching is done on the wall clock of that zone and converted to
+ * an instant afterwards, so "02:00 Europe/London" stays at 02:00 local time
+ * across DST changes.
+ */
+
+/** A parsed cron expression. Build with {@link parseCron}. */
+export interface CronSpec {
+  /** The source expression, as given. */
+  readonly expression: string;
+  /** IANA timezone the expression is evaluated in. */
+  readonly timezone: string;
+  readonly seconds: ReadonlySet<number>;
+  readonly minutes: ReadonlySet<number>;
+  readonly hours: ReadonlySet<number>;
+  readonly daysOfMonth: ReadonlySet<number>;
+  readonly months: ReadonlySet<number>;
+  /** 0 = Sunday. `7` in the source is folded into `0`. */
+  readonly daysOfWeek: ReadonlySet<number>;
+  /** `true` when day-of-month was `*` or `?`. */
+  readonly anyDayOfMonth: boolean;
+  /** `true` when day-of-week was `*` or `?`. */
+  readonly anyDayOfWeek: boolean;
+}
+
+/**
+ * Thrown by {@link parseCron} for a malformed expression or an unknown timezone.
+ */
+export class CronParseError extends Error {
+  readonly expression: string;
+
+  constructor(expression: string, message: string) {
+    super(`Invalid cron expression '${expression}': ${message}`);
+    this.name = "CronParseError";
+    this.expression = expression;
+  }
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+interface FieldRange {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Offset added to a name's index (months are 1-based). */
+  nameBase?: number;
+}
+
+const SECOND: FieldRange = { name: "second", min: 0, max: 59 };
+const MINUTE: FieldRange = { name: "minute", min: 0, max: 59 };
+const HOUR: FieldRange = { name: "hour", min: 0, max: 23 };
+const DAY_OF_MONTH: FieldRange = { name: "day-of-month", min: 1, max: 31 };
+const MONTH: FieldRange = { name: "month", min: 1, max: 12, names: MONTH_NAMES, nameBase: 1 };
+const DAY_OF_WEEK: FieldRange = { name: "day-of-week", min: 0, max: 7, names: DAY_NAMES, nameBase: 0 };
+
+function parseValue(expression: string, raw: string, range: FieldRange): number {
+  const upper = raw.toUpperCase();
+  const named = range.names?.indexOf(upper) ?? -1;
+  if (named >= 0) return named + (range.nameBase ?? 0);
+  if (!/^\d+$/.test(raw)) {
+    throw new CronParseError(expression, `'${raw}' is not a valid ${range.name}`);
+  }
+  const value = Number(raw);
+  if (value < range.min || value > range.max) {
+    throw new CronParseError(
+      expression,
+      `${range.name} ${value} is out of range ${range.min}-${range.max}`
+    );
+  }
+  return value;
+}
+
+function parseField(expression: string, field: string, range: FieldRange): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [base, stepRaw, extra] = part.split("/");
+    if (base === undefined || base === "" || extra !== undefined) {
+      throw new CronParseError(expression, `'${part}' is not a valid ${range.name}`);
+    }
+    let step = 1;
+    if (stepRaw !== undefined) {
+      if (!/^\d+$/.test(stepRaw) || Number(stepRaw) === 0) {
+        throw new CronParseError(expression, `'${stepRaw}' is not a valid step in ${range.name}`);
+      }
+      step = Number(stepRaw);
+    }
+
+    let start: number;
+    let end: number;
+    if (base === "*" || base === "?") {
+      start = range.min;
+      end = range.max;
+    } else if (base.includes("-")) {
+      const [from, to] = base.split("-");
+      start = parseValue(expression, from ?? "", range);
+      end = parseValue(expression, to ?? "", range);
+      if (start > end) {
+        throw new CronParseError(expression, `range '${base}' in ${range.name} is reversed`);
+      }
+    } else {
+      start = parseValue(expression, base, range);
+      // `5/15` means "from 5, every 15" — run to the end of the field.
+      end = stepRaw === undefined ? start : range.max;
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+/**
+ * Parse a cron expression.
+ *
+ * Supports `*`, `?`, lists (`1,15`), ranges (`1-5`), steps (`*\/15`, `5/10`),
+ * month and weekday names (`JAN`, `MON-FRI`), and the `@yearly`, `@monthly`,
+ * `@weekly`, `@daily`, `@hourly` macros. When both day-of-month and
+ * day-of-week are restricted, a day matches if either does (classic cron).
+ *
+ * @param expression - 5-field or 6-field (with leading seconds) expression
+ * @param timezone - IANA timezone name (default: `"UTC"`)
+ * @throws {CronParseError} when the expression or timezone is invalid
+ *
+ * @example
+ * ```typescript
+ * parseCron("0 2 * * *", "Europe/London"); // nightly at 02:00 London time
+ * parseCron("0 9 * * MON-FRI");            // weekdays at 09:00 UTC
+ * ```
+ */
+export function parseCron(expression: string, timezone = "UTC"): CronSpec {
+  const trimmed = expression.trim();
+  const source = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = source.split(/\s+/);
+  if (fields.length !== 5 && fields.length !== 6) {
+    throw new CronParseError(expression, `expected 5 or 6 fields, got ${fields.length}`);
+  }
+  if (fields.length === 5) fields.unshift("0");
+
+  try {
+    getFormatter(timezone);
+  } catch {
+    throw new CronParseError(expression, `unknown timezone '${timezone}'`);
+  }
+
+  const [sec, min, hour, dom, month, dow] = fields as [string, string, string, string, string, string];
+  const daysOfWeek = parseField(expression, dow, DAY_OF_WEEK);
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression,
+    timezone,
+    seconds: parseField(expression, sec, SECOND),
+    minutes: parseField(expression, min, MINUTE),
+    hours: parseField(expression, hour, HOUR),
+    daysOfMonth: parseField(expression, dom, DAY_OF_MONTH),
+    months: parseField(expression, month, MONTH),
+    daysOfWeek,
+    anyDayOfMonth: dom === "*" || dom === "?",
+    anyDayOfWeek: dow === "*" || dow === "?",
+  };
+}
+
+// =============================================================================
+// Timezone conversion
+// =============================================================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock time of `instant` in `timezone`, encoded as UTC milliseconds
+ * (so the `getUTC*` accessors read the local fields).
+ */
+function toWallTime(instant: number, timezone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(new Date(instant))) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return Date.UTC(
+    parts.year!,
+    parts.month! - 1,
+    parts.day!,
+    parts.hour!,
+    parts.minute!,
+    parts.second!,
+    new Date(instant).getUTCMilliseconds()
+  );
+}
+
+function offsetAt(instant: number, timezone: string): number {
+  return toWallTime(instant, timezone) - instant;
+}
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Convert a wall-clock time back to an instant. A time repeated by a DST
+ * fall-back resolves to its first occurrence; a time skipped by a spring-forward
+ * resolves to the same distance past the transition (02:30 becomes 03:30).
+ */
+function fromWallTime(wall: number, timezone: string): number {
+  const before = offsetAt(wall - DAY_MS, timezone);
+  const after = offsetAt(wall + DAY_MS, timezone);
+  const candidates = [wall - before, wall - after].filter(
+    (instant) => toWallTime(instant, timezone) === wall
+  );
+  if (candidates.length > 0) return Math.min(...candidates);
+  return wall - before;
+}
+
+// =============================================================================
+// Occurrences
+// =============================================================================
+
+function dayMatches(spec: CronSpec, wall: Date): boolean {
+  const domMatch = spec.daysOfMonth.has(wall.getUTCDate());
+  const dowMatch = spec.daysOfWeek.has(wall.getUTCDay());
+  if (spec.anyDayOfMonth) return dowMatch;
+  if (spec.anyDayOfWeek) return domMatch;
+  return domMatch || dowMatch;
+}
+
+/** Eight years of days: enough for any satisfiable expression (Feb 29 included). */
+const MAX_SEARCH_DAYS = 366 * 8;
+
+/**
+ * First occurrence strictly after `after` (Unix ms), or `null` if the
+ * expression can never match (e.g. `0 0 31 2 *`).
+ */
+export function nextCronTime(spec: CronSpec, after: number): number | null {
+  // Start at the next whole second on the zone's wall clock.
+  let wall = new Date(Math.floor(toWallTime(after, spec.timezone) / 1000) * 1000 + 1000);
+  const searchEnd = wall.getTime() + MAX_SEARCH_DAYS * DAY_MS;
+
+  while (wall.getTime() < searchEnd) {
+    const y = wall.getUTCFullYear();
+    const mo = wall.getUTCMonth();
+    const d = wall.getUTCDate();
+    const h = wall.getUTCHours();
+    const mi = wall.getUTCMinutes();
+
+    if (!spec.months.has(mo + 1)) {
+      wall = new Date(Date.UTC(y, mo + 1, 1));
+      continue;
+    }
+    if (!dayMatches(spec, wall)) {
+      wall = new Date(Date.UTC(y, mo, d + 1));
+      continue;
+    }
+    if (!spec.hours.has(h)) {
+      wall = new Date(Date.UTC(y, mo, d, h + 1));
+      continue;
+    }
+    if (!spec.minutes.has(mi)) {
+      wall = new Date(Date.UTC(y, mo, d, h, mi + 1));
+      continue;
+    }
+    if (!spec.seconds.has(wall.getUTCSeconds())) {
+      wall = new Date(wall.getTime() + 1000);
+      continue;
+    }
+
+    const instant = fromWallTime(wall.getTime(), spec.timezone);
+    // A repeated (fall-back) wall time can map to an instant we have already
+    // passed; keep searching rather than firing twice.
+    if (instant > after) return instant;
+    wall = new Date(wall.getTime() + 1000);
+  }
+  return null;
+}
+
+/**
+ * Occurrences in `(after, until]`, oldest first, capped at `limit`.
+ */
+export function cronTimesBetween(
+  spec: CronSpec,
+  after: number,
+  until: number,
+  limit = Infinity
+): number[] {
+  const times: number[] = [];
+  let cursor = after;
+  while (times.length < limit) {
+    const next = nextCronTime(spec, cursor);
+    if (next === null || next > until) break;
+    times.push(next);
+    cursor = next;
+  }
+  return times;
+}
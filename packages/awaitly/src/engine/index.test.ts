@@ -12,10 +12,15 @@ import {
   InMemorySpanExporter,
   SimpleSpanProcessor,
 } from "@opentelemetry/sdk-trace-base";
-import { describe, it, expect, afterEach } from "vitest";
+import { describe, it, expect, expectTypeOf, afterEach, vi } from "vitest";
 import { createEngine } from ".";
-import { ok, err } from "../core";
+import { ok, err, type AsyncResult, type Result } from "../core";
+import type { UnexpectedError } from "../errors";
+import type { WorkflowCancelledError } from "../workflow/types";
+import { createTestClock } from "../testing";
 import type { SnapshotStore, WorkflowSnapshot } from "../persistence";
+import { createMemorySnapshotStore, type WorkflowLock } from "../durable";
+import { createSnapshotKeyRenameMigration } from "../versioning";
 import type { EngineEvent, WorkflowRegistration } from "./types";
 
 // Simple in-memory store for tests
@@ -38,6 +43,25 @@ function createTestStore(): SnapshotStore {
   };
 }
 
+// Adds an in-memory WorkflowLock so several engines can share one store
+function withTestLock(store: SnapshotStore): SnapshotStore & WorkflowLock {
+  const leases = new Map<string, { ownerToken: string; expiresAt: number }>();
+  let counter = 0;
+  return {
+    ...store,
+    async tryAcquire(id, opts) {
+      const held = leases.get(id);
+      if (held && held.expiresAt > Date.now()) return null;
+      const ownerToken = `owner-${++counter}`;
+      leases.set(id, { ownerToken, expiresAt: Date.now() + (opts?.ttlMs ?? 60_000) });
+      return { ownerToken };
+    },
+    async release(id, ownerToken) {
+      if (leases.get(id)?.ownerToken === ownerToken) leases.delete(id);
+    },
+  };
+}
+
 const testDeps = {
   greet: async (name: string) => ok(`Hello ${name}`),
 };
@@ -52,6 +76,9 @@ const failFn: WorkflowRegistration['fn'] = async ({ step, deps }) => {
   return await step("fail-step", () => deps.fail());
 };
 
+// Let cron loops woken by a test clock finish their enqueues.
+const flush = () => new Promise(r => setTimeout(r, 0));
+
 let engine: ReturnType<typeof createEngine> | undefined;
 
 afterEach(async () => {
@@ -393,3 +420,1412 @@ describe("createEngine", () => {
     expect(errors.length).toBeGreaterThan(0);
   });
 });
+
+describe("queue store", () => {
+  const noise = (i: number): WorkflowSnapshot => ({
+    formatVersion: 1,
+    steps: {},
+    execution: { status: "failed", lastUpdated: new Date().toISOString() },
+    metadata: { note: `old run ${i}` },
+  });
+
+  it("reaches queued runs that list-then-load would miss", async () => {
+    const store = createMemorySnapshotStore();
+    const claimNext = vi.spyOn(store, "claimNext");
+    engine = createEngine({
+      store,
+      workflows: { greet: { deps: testDeps, fn: testFn } },
+      concurrency: 1,
+    });
+
+    const id = await engine.enqueue("greet");
+    // Saved after the enqueue, so they fill every listed page ahead of it.
+    for (let i = 0; i < 50; i++) await store.save(`old:${i}`, noise(i));
+
+    expect(await engine.tick()).toBe(1);
+    expect(claimNext).toHaveBeenCalledWith(1, { now: expect.any(Number), workflowNames: ["greet"] });
+    expect(await store.load(id)).toBeNull();
+  });
+
+  it("claims oldest first and never hands out a run twice", async () => {
+    const store = createMemorySnapshotStore();
+    engine = createEngine({ store, workflows: { greet: { deps: testDeps, fn: testFn } } });
+
+    await engine.enqueue("greet", { id: "a" });
+    await engine.enqueue("greet", { id: "b" });
+    await engine.enqueue("greet", { id: "c" });
+
+    const [first, second] = await Promise.all([store.claimNext(2), store.claimNext(2)]);
+    expect(first.map(c => c.id)).toEqual(["a", "b"]);
+    expect(second.map(c => c.id)).toEqual(["c"]);
+    expect(first[0]?.snapshot.metadata?.engineState).toBe("processing");
+  });
+
+  it("marks failed runs so they are not claimed again", async () => {
+    const store = createMemorySnapshotStore();
+    engine = createEngine({ store, workflows: { fail: { deps: failDeps, fn: failFn } } });
+
+    await engine.enqueue("fail", { id: "fail-id" });
+    expect(await engine.tick()).toBe(1);
+    expect((await store.load("fail-id"))?.metadata?.engineState).toBe("failed");
+    expect(await engine.tick()).toBe(0);
+  });
+
+  it("leaves runs for workflows this engine does not register queued", async () => {
+    const store = createMemorySnapshotStore();
+    const producer = createEngine({ store, workflows: { greet: { deps: testDeps, fn: testFn } } });
+    await producer.enqueue("greet", { id: "elsewhere" });
+
+    engine = createEngine({ store, workflows: { fail: { deps: failDeps, fn: failFn } } });
+    expect(await engine.tick()).toBe(0);
+    expect((await store.load("elsewhere"))?.metadata?.engineState).toBe("queued");
+  });
+
+  it("reaches its own runs queued behind another engine's", async () => {
+    for (const store of [createMemorySnapshotStore(), createTestStore()]) {
+      const producer = createEngine({
+        store,
+        workflows: { a: { deps: testDeps, fn: testFn }, b: { deps: testDeps, fn: testFn } },
+      });
+      await producer.enqueue("b", { id: "b-1", priority: 1 });
+      await producer.enqueue("b", { id: "b-2", priority: 1 });
+      await producer.enqueue("a", { id: "a-1" });
+
+      engine = createEngine({ store, workflows: { a: { deps: testDeps, fn: testFn } }, concurrency: 2 });
+      expect(await engine.tick()).toBe(1);
+      expect(await store.load("a-1")).toBeNull();
+      expect((await store.load("b-1"))?.metadata?.engineState).toBe("queued");
+      await engine.stop();
+    }
+  });
+
+  it("pushes back a foreign run when the queue store claims it anyway", async () => {
+    const clock = createTestClock(0);
+    const store = createMemorySnapshotStore();
+    const producer = createEngine({ store, workflows: { b: { deps: testDeps, fn: testFn } }, clock });
+    await producer.enqueue("b", { id: "b-1" });
+
+    // A QueueStore that predates workflowNames and claims whatever is due.
+    const claimNext = store.claimNext.bind(store);
+    store.claimNext = (limit, options) => claimNext(limit, { now: options?.now });
+    engine = createEngine({ store, workflows: { a: { deps: testDeps, fn: testFn } }, clock });
+    expect(await engine.tick()).toBe(0);
+
+    const metadata = (await store.load("b-1"))?.metadata;
+    expect(metadata?.engineState).toBe("queued");
+    expect(Date.parse(String(metadata?.runAt))).toBeGreaterThan(clock.now());
+  });
+});
+
+describe("delayed and priority enqueue", () => {
+  const order: string[] = [];
+  const recordStart = (e: EngineEvent) => {
+    if (e.type === "workflow_started") order.push(e.id);
+  };
+
+  afterEach(() => {
+    order.length = 0;
+  });
+
+  it("holds a delayed run until the clock reaches runAt", async () => {
+    const store = createMemorySnapshotStore();
+    const clock = createTestClock(Date.parse("2026-03-10T00:00:00Z"));
+    const events: EngineEvent[] = [];
+    engine = createEngine({
+      store,
+      clock,
+      workflows: { greet: { deps: testDeps, fn: testFn } },
+      onEvent: (e) => events.push(e),
+    });
+
+    const id = await engine.enqueue("greet", { delay: "15m" });
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "workflow_enqueued", id, runAt: "2026-03-10T00:15:00.000Z", priority: 0 })
+    );
+
+    expect(await engine.tick()).toBe(0);
+    clock.advance(15 * 60_000 - 1);
+    expect(await engine.tick()).toBe(0);
+    clock.advance(1);
+    expect(await engine.tick()).toBe(1);
+    expect(await store.load(id)).toBeNull();
+  });
+
+  it("accepts an absolute runAt", async () => {
+    const store = createMemorySnapshotStore();
+    const clock = createTestClock(Date.parse("2026-03-10T00:00:00Z"));
+    engine = createEngine({ store, clock, workflows: { greet: { deps: testDeps, fn: testFn } } });
+
+    const id = await engine.enqueue("greet", { runAt: new Date("2026-03-10T09:00:00Z") });
+    expect((await store.load(id))?.metadata?.runAt).toBe("2026-03-10T09:00:00.000Z");
+
+    clock.set(Date.parse("2026-03-10T08:59:59Z"));
+    expect(await engine.tick()).toBe(0);
+    clock.set(Date.parse("2026-03-10T09:00:00Z"));
+    expect(await engine.tick()).toBe(1);
+  });
+
+  it("claims higher priority first, then earliest runAt", async () => {
+    const store = createMemorySnapshotStore();
+    const clock = createTestClock(Date.parse("2026-03-10T00:00:00Z"));
+    engine = createEngine({
+      store,
+      clock,
+      concurrency: 1,
+      workflows: { greet: { deps: testDeps, fn: testFn } },
+      onEvent: recordStart,
+    });
+
+    await engine.enqueue("greet", { id: "low", priority: -1 });
+    await engine.enqueue("greet", { id: "later", runAt: Date.parse("2026-03-10T00:00:01Z") });
+    await engine.enqueue("greet", { id: "default" });
+    await engine.enqueue("greet", { id: "urgent", priority: 10 });
+    clock.advance(1000);
+
+    for (let i = 0; i < 4; i++) await engine.tick();
+    expect(order).toEqual(["urgent", "default", "later", "low"]);
+  });
+
+  it("orders due runs the same way through the list fallback", async () => {
+    const store = createTestStore();
+    const clock = createTestClock(Date.parse("2026-03-10T00:00:00Z"));
+    engine = createEngine({
+      store,
+      clock,
+      concurrency: 2,
+      workflows: { greet: { deps: testDeps, fn: testFn } },
+      onEvent: recordStart,
+    });
+
+    await engine.enqueue("greet", { id: "default" });
+    await engine.enqueue("greet", { id: "delayed", delay: "1s", priority: 5 });
+    await engine.enqueue("greet", { id: "urgent", priority: 1 });
+
+    expect(await engine.tick()).toBe(2);
+    expect(order).toEqual(["urgent", "default"]);
+    clock.advance(1000);
+    await engine.tick();
+    expect(order).toEqual(["urgent", "default", "delayed"]);
+  });
+
+  it("rejects runAt with delay, and invalid delays", async () => {
+    engine = createEngine({
+      store: createMemorySnapshotStore(),
+      workflows: { greet: { deps: testDeps, fn: testFn } },
+    });
+
+    await expect(engine.enqueue("greet", { runAt: Date.now(), delay: "1s" })).rejects.toThrow(
+      "Pass either runAt or delay, not both"
+    );
+    await expect(engine.enqueue("greet", { delay: "soon" })).rejects.toThrow("Invalid delay: 'soon'");
+    await expect(engine.enqueue("greet", { priority: Number.NaN })).rejects.toThrow("Invalid priority");
+  });
+});
+
+describe("retries and dead letters", () => {
+  const flakyWorkflow = (failures: number) => {
+    const calls = { prepare: 0, send: 0 };
+    const deps = {
+      prepare: async () => {
+        calls.prepare++;
+        return ok("prepared");
+      },
+      send: async () => (++calls.send <= failures ? err("SEND_FAILED" as const) : ok("sent")),
+    };
+    const fn: WorkflowRegistration["fn"] = async ({ step, deps }) => {
+      await step("prepare", () => deps.prepare());
+      return await step("send", () => deps.send());
+    };
+    return { calls, deps, fn };
+  };
+
+  it("re-queues a failed run with backoff and resumes from its last completed step", async () => {
+    const store = createMemorySnapshotStore();
+    const clock = createTestClock(Date.parse("2026-03-10T00:00:00Z"));
+    const events: EngineEvent[] = [];
+    const { calls, deps, fn } = flakyWorkflow(2);
+    engine = createEngine({
+      store,
+      clock,
+      workflows: {
+        send: { deps, fn, retry: { attempts: 3, backoff: "exponential", initialDelay: 1000, jitter: false } },
+      },
+      onEvent: (e) => events.push(e),
+    });
+
+    const id = await engine.enqueue("send");
+    expect(await engine.tick()).toBe(1);
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "workflow_retrying", id, attempt: 1, delayMs: 1000, runAt: "2026-03-10T00:00:01.000Z" })
+    );
+    expect((await store.load(id))?.metadata).toMatchObject({ engineState: "queued", attempts: 1 });
+
+    expect(await engine.tick()).toBe(0);
+    clock.advance(1000);
+    expect(await engine.tick()).toBe(1);
+    expect(events).toContainEqual(expect.objectContaining({ type: "workflow_retrying", attempt: 2, delayMs: 2000 }));
+
+    clock.advance(2000);
+    expect(await engine.tick()).toBe(1);
+    expect(events.at(-2)).toMatchObject({ type: "workflow_completed", id });
+    expect(calls).toEqual({ prepare: 1, send: 3 });
+    expect(await store.load(id)).toBeNull();
+  });
+
+  it("dead-letters a run once its attempts are spent", async () => {
+    const store = createMemorySnapshotStore();
+    const clock = createTestClock(Date.parse("2026-03-10T00:00:00Z"));
+    const events: EngineEvent[] = [];
+    const { deps, fn } = flakyWorkflow(Infinity);
+    engine = createEngine({
+      store,
+      clock,
+      workflows: { send: { deps, fn, retry: { attempts: 2, backoff: "fixed", initialDelay: 10, jitter: false } } },
+      onEvent: (e) => events.push(e),
+    });
+
+    const id = await engine.enqueue("send", { input: { to: "a@example.com" } });
+    await engine.tick();
+    clock.advance(10);
+    await engine.tick();
+
+    expect(events.filter(e => e.type === "workflow_failed").map(e => "attempt" in e && e.attempt)).toEqual([1, 2]);
+    expect(events).toContainEqual(expect.objectContaining({ type: "workflow_dead_lettered", id, attempts: 2 }));
+    expect(await engine.listDeadLetters()).toEqual([
+      {
+        id,
+        workflowName: "send",
+        attempts: 2,
+        error: expect.objectContaining({ type: "thrown", value: "SEND_FAILED" }),
+        input: { to: "a@example.com" },
+        enqueuedAt: expect.any(String),
+        failedAt: "2026-03-10T00:00:00.010Z",
+      },
+    ]);
+    clock.advance(60_000);
+    expect(await engine.tick()).toBe(0);
+  });
+
+  it("dead-letters immediately without a policy or when shouldRetry declines", async () => {
+    const store = createMemorySnapshotStore();
+    const { deps, fn } = flakyWorkflow(Infinity);
+    engine = createEngine({
+      store,
+      workflows: {
+        once: { deps, fn },
+        picky: { deps, fn, retry: { attempts: 5, shouldRetry: (error) => error !== "SEND_FAILED" } },
+      },
+    });
+
+    await engine.enqueue("once", { id: "once-id" });
+    await engine.enqueue("picky", { id: "picky-id" });
+    await engine.tick();
+
+    const letters = await engine.listDeadLetters();
+    expect(letters.map(l => [l.id, l.attempts]).sort()).toEqual([["once-id", 1], ["picky-id", 1]]);
+    expect((await engine.listDeadLetters({ workflowName: "picky" })).map(l => l.id)).toEqual(["picky-id"]);
+  });
+
+  it("finds dead letters behind any number of newer snapshots", async () => {
+    const store = createMemorySnapshotStore();
+    const { deps, fn } = flakyWorkflow(Infinity);
+    engine = createEngine({ store, workflows: { send: { deps, fn } } });
+
+    const id = await engine.enqueue("send");
+    await engine.tick();
+    for (let i = 0; i < 1100; i++) await store.save(`newer:${i}`, { ...(await store.load(id))!, metadata: {} });
+
+    expect((await engine.listDeadLetters()).map(l => l.id)).toEqual([id]);
+    expect(await engine.listDeadLetters({ limit: 0 })).toEqual([]);
+  });
+
+  it("scans only the most recent 1000 snapshots of a store without query", async () => {
+    const store = createTestStore();
+    const list = vi.spyOn(store, "list");
+    const { deps, fn } = flakyWorkflow(Infinity);
+    engine = createEngine({ store, workflows: { send: { deps, fn } } });
+
+    const id = await engine.enqueue("send");
+    await engine.tick();
+    list.mockClear();
+    expect((await engine.listDeadLetters()).map(l => l.id)).toEqual([id]);
+    expect(await engine.recoverStale()).toBe(0);
+    expect(list.mock.calls.map(([options]) => options?.limit)).toEqual([1000, 1000]);
+  });
+
+  it("requeue runs a dead letter again with a fresh attempt count", async () => {
+    const store = createMemorySnapshotStore();
+    const events: EngineEvent[] = [];
+    const { calls, deps, fn } = flakyWorkflow(1);
+    engine = createEngine({
+      store,
+      workflows: { send: { deps, fn } },
+      onEvent: (e) => events.push(e),
+    });
+
+    const id = await engine.enqueue("send", { idempotencyKey: "send-once" });
+    await engine.tick();
+    expect(await engine.requeue("missing")).toBe(false);
+    expect(await engine.requeue(id)).toBe(true);
+    expect(events).toContainEqual(expect.objectContaining({ type: "workflow_requeued", id }));
+    expect((await store.load(id))?.metadata?.attempts).toBeUndefined();
+
+    expect(await engine.tick()).toBe(1);
+    expect(calls).toEqual({ prepare: 1, send: 2 });
+    expect(await engine.listDeadLetters()).toEqual([]);
+  });
+
+  it("discard deletes a dead letter", async () => {
+    const store = createMemorySnapshotStore();
+    const { deps, fn } = flakyWorkflow(Infinity);
+    engine = createEngine({ store, workflows: { send: { deps, fn } } });
+
+    const queuedId = await engine.enqueue("send", { runAt: Date.now() + 60_000 });
+    const id = await engine.enqueue("send");
+    await engine.tick();
+
+    expect(await engine.discard(queuedId)).toBe(false);
+    expect(await engine.discard(id)).toBe(true);
+    expect(await store.load(id)).toBeNull();
+    expect(await engine.listDeadLetters()).toEqual([]);
+  });
+});
+
+describe("per-workflow limits", () => {
+  const started = (events: EngineEvent[]) =>
+    events.flatMap(e => (e.type === "workflow_started" ? [e.id] : [])).sort();
+  const throttled = (events: EngineEvent[]) =>
+    events.flatMap(e => (e.type === "workflow_throttled" ? [[e.id, e.reason]] : [])).sort();
+
+  it("keeps a noisy workflow to its own concurrency and hands back the rest", async () => {
+    const store = createMemorySnapshotStore();
+    const clock = createTestClock(Date.now());
+    const events: EngineEvent[] = [];
+    engine = createEngine({
+      store,
+      clock,
+      workflows: {
+        reindex: { deps: testDeps, fn: testFn, concurrency: 1 },
+        greet: { deps: testDeps, fn: testFn },
+      },
+      onEvent: (e) => events.push(e),
+    });
+
+    for (let i = 0; i < 3; i++) await engine.enqueue("reindex", { id: `reindex-${i}` });
+    await engine.enqueue("greet", { id: "greet-0" });
+
+    expect(await engine.tick()).toBe(2);
+    expect(started(events)).toEqual(["greet-0", "reindex-0"]);
+    expect(throttled(events)).toEqual([["reindex-1", "concurrency"], ["reindex-2", "concurrency"]]);
+    expect(await engine.getRun("reindex-1")).toMatchObject({ state: "queued" });
+
+    // Handed back with a back-off, so the next tick does not claim them straight away.
+    expect(await engine.tick()).toBe(0);
+    clock.advance(1000);
+    expect(await engine.tick()).toBe(1);
+    clock.advance(1000);
+    expect(await engine.tick()).toBe(1);
+    expect(await engine.listRuns()).toEqual({ runs: [] });
+  });
+
+  it("limits concurrency per key derived from input", async () => {
+    const store = createMemorySnapshotStore();
+    const events: EngineEvent[] = [];
+    engine = createEngine({
+      store,
+      workflows: {
+        sync: {
+          deps: testDeps,
+          fn: testFn,
+          concurrency: { maxConcurrent: 1, key: (input) => (input as { customerId: string }).customerId },
+        },
+      },
+      onEvent: (e) => events.push(e),
+    });
+
+    await engine.enqueue("sync", { id: "a-1", input: { customerId: "a" } });
+    await engine.enqueue("sync", { id: "a-2", input: { customerId: "a" } });
+    await engine.enqueue("sync", { id: "b-1", input: { customerId: "b" } });
+
+    expect(await engine.tick()).toBe(2);
+    expect(started(events)).toEqual(["a-1", "b-1"]);
+    expect(throttled(events)).toEqual([["a-2", "concurrency"]]);
+  });
+
+  it("delays runs over the rate limit until a token is due", async () => {
+    const store = createMemorySnapshotStore();
+    const clock = createTestClock(Date.now());
+    const events: EngineEvent[] = [];
+    engine = createEngine({
+      store,
+      clock,
+      workflows: { notify: { deps: testDeps, fn: testFn, rateLimit: { maxPerSecond: 1, burstCapacity: 1 } } },
+      onEvent: (e) => events.push(e),
+    });
+
+    await engine.enqueue("notify", { id: "n-1" });
+    await engine.enqueue("notify", { id: "n-2" });
+
+    expect(await engine.tick()).toBe(1);
+    expect(throttled(events)).toEqual([["n-2", "rate_limit"]]);
+    const runAt = Date.parse((await engine.getRun("n-2"))!.runAt!);
+    expect(runAt - clock.now()).toBeGreaterThan(0);
+    expect(runAt - clock.now()).toBeLessThanOrEqual(1000);
+    expect(await engine.tick()).toBe(0);
+  });
+});
+
+describe("run admin", () => {
+  it("getRun describes a stored run", async () => {
+    const store = createMemorySnapshotStore();
+    engine = createEngine({ store, workflows: { greet: { deps: testDeps, fn: testFn }, fail: { deps: failDeps, fn: failFn } } });
+
+    const queued = await engine.enqueue("greet", { input: { name: "Ada" }, priority: 3 });
+    expect(await engine.getRun(queued)).toMatchObject({
+      id: queued,
+      workflowName: "greet",
+      state: "queued",
+      attempts: 0,
+      priority: 3,
+      completedSteps: 0,
+      input: { name: "Ada" },
+      enqueuedAt: expect.any(String),
+      runAt: expect.any(String),
+      updatedAt: expect.any(String),
+    });
+
+    const failed = await engine.enqueue("fail", { runAt: 0 });
+    await engine.tick();
+    expect(await engine.getRun(failed)).toMatchObject({
+      state: "failed",
+      attempts: 1,
+      currentStep: "fail-step",
+      error: expect.objectContaining({ type: "thrown" }),
+    });
+    expect(await engine.getRun(queued)).toBeNull();
+    expect(await engine.getRun("missing")).toBeNull();
+  });
+
+  it("listRuns filters by workflow and state and pages with a cursor", async () => {
+    const store = createMemorySnapshotStore();
+    engine = createEngine({ store, workflows: { greet: { deps: testDeps, fn: testFn }, fail: { deps: failDeps, fn: failFn } } });
+
+    const later = { runAt: Date.now() + 60_000 };
+    for (let i = 0; i < 5; i++) {
+      await engine.enqueue("greet", { id: `greet-${i}`, ...later });
+      // Distinct write times, so the order does not fall back to ids.
+      await new Promise(r => setTimeout(r, 2));
+    }
+    await engine.enqueue("fail", { id: "fail-0" });
+    await engine.tick();
+
+    const first = await engine.listRuns({ workflowName: "greet", state: "queued", limit: 2 });
+    expect(first.runs.map(r => r.id)).toEqual(["greet-4", "greet-3"]);
+    const second = await engine.listRuns({ workflowName: "greet", limit: 2, cursor: first.nextCursor });
+    expect(second.runs.map(r => r.id)).toEqual(["greet-2", "greet-1"]);
+    const last = await engine.listRuns({ workflowName: "greet", limit: 2, cursor: second.nextCursor });
+    expect(last).toEqual({ runs: [expect.objectContaining({ id: "greet-0" })] });
+
+    expect((await engine.listRuns({ state: ["failed", "cancelled"] })).runs.map(r => r.id)).toEqual(["fail-0"]);
+    await expect(engine.listRuns({ cursor: "nope" })).rejects.toThrow("Invalid snapshot cursor");
+  });
+
+  it("listRuns reaches runs behind any number of newer snapshots", async () => {
+    const store = createMemorySnapshotStore();
+    engine = createEngine({ store, workflows: { greet: { deps: testDeps, fn: testFn } } });
+
+    await engine.enqueue("greet", { id: "old-a", runAt: Date.now() + 60_000 });
+    await engine.enqueue("greet", { id: "old-b", runAt: Date.now() + 60_000 });
+    for (let i = 0; i < 1100; i++) await store.save(`newer:${i}`, { ...(await store.load("old-a"))!, metadata: {} });
+
+    const first = await engine.listRuns({ state: "queued", limit: 1 });
+    const second = await engine.listRuns({ state: "queued", limit: 1, cursor: first.nextCursor });
+    expect([...first.runs, ...second.runs].map(r => r.id).sort()).toEqual(["old-a", "old-b"]);
+    expect(second.nextCursor).toBeUndefined();
+    expect((await engine.listRuns({ state: ["queued", "processing"] })).runs).toHaveLength(2);
+    expect(await engine.listRuns({ limit: 0 })).toEqual({ runs: [] });
+  });
+
+  it("cancel marks a queued run cancelled so it is never claimed", async () => {
+    const store = createMemorySnapshotStore();
+    const events: EngineEvent[] = [];
+    engine = createEngine({ store, workflows: { greet: { deps: testDeps, fn: testFn } }, onEvent: (e) => events.push(e) });
+
+    const id = await engine.enqueue("greet");
+    expect(await engine.cancel(id)).toBe(true);
+    expect(events).toContainEqual(expect.objectContaining({ type: "workflow_cancelled", workflowName: "greet", id }));
+    expect(await engine.tick()).toBe(0);
+    expect(await engine.getRun(id)).toMatchObject({ state: "cancelled", cancelledAt: expect.any(String) });
+
+    expect(await engine.cancel(id)).toBe(false);
+    expect(await engine.cancel("missing")).toBe(false);
+  });
+
+  it("cancel aborts an in-flight run, and requeue resumes it", async () => {
+    const store = createMemorySnapshotStore();
+    const events: EngineEvent[] = [];
+    let release!: () => void;
+    const gate = new Promise<void>(r => { release = r; });
+    const deps = {
+      slow: async () => {
+        await gate;
+        return ok("slow done");
+      },
+      after: vi.fn(async () => ok("after done")),
+    };
+    engine = createEngine({
+      store,
+      workflows: {
+        job: {
+          deps,
+          fn: async ({ step, deps }) => {
+            await step("slow", () => deps.slow());
+            return await step("after", () => deps.after());
+          },
+        },
+      },
+      onEvent: (e) => events.push(e),
+    });
+
+    const id = await engine.enqueue("job");
+    const ticking = engine.tick();
+    await vi.waitFor(() => expect(events.map(e => e.type)).toContain("workflow_started"));
+    expect(await engine.getRun(id)).toMatchObject({ state: "processing" });
+
+    expect(await engine.cancel(id)).toBe(true);
+    release();
+    await ticking;
+
+    expect(deps.after).not.toHaveBeenCalled();
+    expect(events).toContainEqual(expect.objectContaining({ type: "workflow_cancelled", id }));
+    expect(events.map(e => e.type)).not.toContain("workflow_dead_lettered");
+    expect(await engine.getRun(id)).toMatchObject({ state: "cancelled", completedSteps: 1 });
+
+    expect(await engine.requeue(id)).toBe(true);
+    expect(await engine.tick()).toBe(1);
+    expect(deps.after).toHaveBeenCalledTimes(1);
+    expect(await engine.getRun(id)).toBeNull();
+  });
+});
+
+describe("graceful stop", () => {
+  // A two-step workflow whose first step waits for release().
+  function gatedJob() {
+    let release!: () => void;
+    const gate = new Promise<void>(r => { release = r; });
+    const deps = {
+      slow: vi.fn(async () => {
+        await gate;
+        return ok("slow done");
+      }),
+      after: vi.fn(async () => ok("after done")),
+    };
+    const registration: WorkflowRegistration = {
+      deps,
+      fn: async ({ step, deps }) => {
+        await step("slow", () => deps.slow());
+        return await step("after", () => deps.after());
+      },
+    };
+    return { deps, registration, release };
+  }
+
+  it("waits for in-flight runs before resolving", async () => {
+    const store = createMemorySnapshotStore();
+    const events: EngineEvent[] = [];
+    const { deps, registration, release } = gatedJob();
+    engine = createEngine({ store, workflows: { job: registration }, onEvent: (e) => events.push(e) });
+
+    const id = await engine.enqueue("job");
+    engine.start(60_000);
+    await vi.waitFor(() => expect(events.map(e => e.type)).toContain("workflow_started"));
+
+    const stopping = engine.stop();
+    await vi.waitFor(() => expect(events).toContainEqual(expect.objectContaining({ type: "engine_draining", inFlight: 1 })));
+    expect(events.map(e => e.type)).not.toContain("engine_stopped");
+    release();
+    await stopping;
+
+    expect(deps.after).toHaveBeenCalledTimes(1);
+    expect(await store.load(id)).toBeNull();
+    expect(events).toContainEqual(expect.objectContaining({ type: "engine_stopped", drained: 1, aborted: 0, remaining: 0 }));
+    expect(events.map(e => e.type).slice(-2)).toEqual(["engine_stopped", "engine_stop"]);
+  });
+
+  it("aborts runs still in flight after the drain timeout and re-queues them", async () => {
+    const store = createMemorySnapshotStore();
+    const clock = createTestClock(Date.now());
+    const events: EngineEvent[] = [];
+    const { deps, registration, release } = gatedJob();
+    engine = createEngine({ store, clock, workflows: { job: registration }, onEvent: (e) => events.push(e) });
+
+    const id = await engine.enqueue("job");
+    engine.start(60_000);
+    await vi.waitFor(() => expect(events.map(e => e.type)).toContain("workflow_started"));
+
+    const stopping = engine.stop({ drainTimeoutMs: 5_000 });
+    await vi.waitFor(() => expect(events.map(e => e.type)).toContain("engine_draining"));
+    clock.advance(5_000);
+    release();
+    await stopping;
+
+    expect(deps.after).not.toHaveBeenCalled();
+    expect(events).toContainEqual(expect.objectContaining({ type: "engine_stopped", drained: 0, aborted: 1, remaining: 0 }));
+    expect(events.map(e => e.type)).not.toContain("workflow_cancelled");
+    expect(await engine.getRun(id)).toMatchObject({ state: "queued", completedSteps: 1 });
+
+    // Another engine picks it up from the completed step
+    const next = createEngine({ store, clock, workflows: { job: registration } });
+    expect(await next.tick()).toBe(1);
+    expect(deps.slow).toHaveBeenCalledTimes(1);
+    expect(deps.after).toHaveBeenCalledTimes(1);
+    expect(await store.load(id)).toBeNull();
+  });
+
+  it("leaves runs going with abortInFlight: false", async () => {
+    const store = createMemorySnapshotStore();
+    const clock = createTestClock(Date.now());
+    const events: EngineEvent[] = [];
+    const { deps, registration, release } = gatedJob();
+    engine = createEngine({ store, clock, workflows: { job: registration }, onEvent: (e) => events.push(e) });
+
+    const id = await engine.enqueue("job");
+    engine.start(60_000);
+    await vi.waitFor(() => expect(events.map(e => e.type)).toContain("workflow_started"));
+
+    const stopping = engine.stop({ drainTimeoutMs: 1_000, abortInFlight: false });
+    await vi.waitFor(() => expect(events.map(e => e.type)).toContain("engine_draining"));
+    clock.advance(1_000);
+    await stopping;
+    expect(events).toContainEqual(expect.objectContaining({ type: "engine_stopped", drained: 0, aborted: 0, remaining: 1 }));
+
+    release();
+    await vi.waitFor(() => expect(events).toContainEqual(expect.objectContaining({ type: "workflow_completed", id })));
+    expect(deps.after).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("suspended runs", () => {
+  it("parks a run at a durable sleep until it is due", async () => {
+    const store = createMemorySnapshotStore();
+    const clock = createTestClock(Date.parse("2026-03-10T00:00:00Z"));
+    const events: EngineEvent[] = [];
+    const after = vi.fn(async () => ok("after"));
+    engine = createEngine({
+      store,
+      clock,
+      workflows: {
+        job: {
+          deps: { after },
+          durableDefaults: { durableSleepMs: 60_000 },
+          fn: async ({ step, deps }) => {
+            await step.sleep("cool-off", "1h");
+            return await step("after", () => deps.after());
+          },
+        },
+      },
+      onEvent: (e) => events.push(e),
+    });
+
+    const id = await engine.enqueue("job");
+    expect(await engine.tick()).toBe(1);
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "workflow_suspended", id, reason: "sleep", runAt: "2026-03-10T01:00:00.000Z" })
+    );
+    expect(await engine.getRun(id)).toMatchObject({ state: "queued", runAt: "2026-03-10T01:00:00.000Z" });
+    expect(await engine.tick()).toBe(0);
+
+    clock.advance(60 * 60_000);
+    expect(await engine.tick()).toBe(1);
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(await store.load(id)).toBeNull();
+  });
+  it("suspends a run waiting for a signal until signal() re-queues it", async () => {
+    const store = createMemorySnapshotStore();
+    const events: EngineEvent[] = [];
+    const ship = vi.fn(async (address: string) => ok(`shipped to ${address}`));
+    engine = createEngine({
+      store,
+      workflows: {
+        job: {
+          deps: { ship },
+          fn: async ({ step, deps }) => {
+            const { address } = await step.waitForSignal<{ address: string }>("address");
+            return await step("ship", () => deps.ship(address));
+          },
+        },
+      },
+      onEvent: (e) => events.push(e),
+    });
+
+    const id = await engine.enqueue("job");
+    expect(await engine.tick()).toBe(1);
+    expect(events).toContainEqual(expect.objectContaining({ type: "workflow_suspended", id, reason: "signal" }));
+    expect(await engine.getRun(id)).toMatchObject({ state: "suspended" });
+    expect(await engine.tick()).toBe(0);
+
+    expect(await engine.signal(id, "address", { address: "1 Main St" })).toBe(true);
+    expect(await engine.getRun(id)).toMatchObject({ state: "queued" });
+    expect(await engine.tick()).toBe(1);
+    expect(ship).toHaveBeenCalledWith("1 Main St");
+    expect(await store.load(id)).toBeNull();
+  });
+
+  it("answers queries for a suspended run by replaying it", async () => {
+    const store = createMemorySnapshotStore();
+    const pack = vi.fn(async (item: string) => ok(item));
+    engine = createEngine({
+      store,
+      workflows: {
+        job: {
+          deps: { pack },
+          fn: async ({ step, deps, ctx }) => {
+            const packed: string[] = [];
+            ctx.onQuery("packed", () => packed);
+            packed.push(await step("pack", () => deps.pack("box")));
+            await step.waitForSignal("go");
+            return packed;
+          },
+        },
+      },
+    });
+
+    const id = await engine.enqueue("job");
+    await engine.tick();
+    pack.mockClear();
+
+    expect(await engine.query(id, "packed")).toEqual({ ok: true, value: ["box"] });
+    expect(pack).not.toHaveBeenCalled();
+    expect(await engine.getRun(id)).toMatchObject({ state: "suspended" });
+  });
+
+  it("replays queries with the workflow's durableDefaults and the engine's clock", async () => {
+    const store = createMemorySnapshotStore();
+    const clock = createTestClock(Date.parse("2026-03-10T00:00:00Z"));
+    engine = createEngine({
+      store,
+      clock,
+      workflows: {
+        job: {
+          deps: {},
+          durableDefaults: { durableSleepMs: 60_000 },
+          fn: async ({ step, ctx }) => {
+            let phase = "cooling off";
+            ctx.onQuery("phase", () => phase);
+            await step.sleep("cool-off", "1h");
+            phase = "waiting for go";
+            await step.waitForSignal("go");
+            return phase;
+          },
+        },
+      },
+    });
+
+    const id = await engine.enqueue("job");
+    await engine.tick();
+    expect(await engine.query(id, "phase")).toEqual({ ok: true, value: "cooling off" });
+
+    clock.advance(60 * 60_000);
+    await engine.tick();
+    expect(await engine.getRun(id)).toMatchObject({ state: "suspended" });
+    expect(await engine.query(id, "phase")).toEqual({ ok: true, value: "waiting for go" });
+  });
+
+  it("re-queues a run that continued as new and runs its successor", async () => {
+    const store = createMemorySnapshotStore();
+    const events: EngineEvent[] = [];
+    const poll = vi.fn(async (cursor: number) => ok(cursor + 10));
+    engine = createEngine({
+      store,
+      workflows: {
+        job: {
+          deps: { poll },
+          fn: async ({ step, deps, ctx }) => {
+            const { cursor } = ctx.input as { cursor: number };
+            const next = await step("poll", () => deps.poll(cursor));
+            if (next < 30) return await step.continueAsNew({ cursor: next });
+            return next;
+          },
+        },
+      },
+      onEvent: (e) => events.push(e),
+    });
+
+    const id = await engine.enqueue("job", { input: { cursor: 0 } });
+    expect(await engine.tick()).toBe(1);
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "workflow_continued_as_new", id, successorId: `${id}~1` })
+    );
+    expect(await engine.getRun(id)).toMatchObject({ state: "queued", input: { cursor: 0 } });
+
+    expect(await engine.tick()).toBe(1);
+    expect(await engine.tick()).toBe(1);
+    expect(poll.mock.calls.map(([cursor]) => cursor)).toEqual([0, 10, 20]);
+    expect(events).toContainEqual(expect.objectContaining({ type: "workflow_completed", id }));
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("keeps a run continued as new from being recovered by another engine while it executes", async () => {
+    const store = withTestLock(createMemorySnapshotStore());
+    const clock = createTestClock(Date.now());
+    let unblock!: () => void;
+    const blocked = new Promise<void>(resolve => (unblock = resolve));
+    const poll = vi.fn(async (cursor: number) => {
+      if (cursor > 0) await blocked;
+      return ok(cursor + 10);
+    });
+    const job: WorkflowRegistration = {
+      deps: { poll },
+      fn: async ({ step, deps, ctx }) => {
+        const { cursor } = ctx.input as { cursor: number };
+        const next = await step("poll", () => deps.poll(cursor));
+        if (next < 20) return await step.continueAsNew({ cursor: next });
+        return next;
+      },
+    };
+    engine = createEngine({ store, clock, staleAfterMs: 60_000, workflows: { job } });
+    const other = createEngine({ store, clock, staleAfterMs: 60_000, workflows: { job } });
+
+    const id = await engine.enqueue("job", { input: { cursor: 0 } });
+    expect(await engine.tick()).toBe(1);
+    const running = engine.tick();
+    await vi.waitFor(() => expect(poll).toHaveBeenCalledTimes(2));
+
+    clock.advance(61_000);
+    expect(await other.recoverStale()).toBe(0);
+    expect(await other.cancel(id)).toBe(false);
+    expect(await other.getRun(id)).toMatchObject({ state: "processing" });
+
+    unblock();
+    expect(await running).toBe(1);
+    expect(await other.tick()).toBe(0);
+    expect(poll).toHaveBeenCalledTimes(2);
+    expect(await store.list()).toEqual([]);
+    await other.stop();
+  });
+
+  it("migrates runs stored at an older version with the registration's migrations", async () => {
+    const store = createMemorySnapshotStore();
+    const events: EngineEvent[] = [];
+    const fetchUser = vi.fn(async () => ok("Ada"));
+    const greet = (key: string): WorkflowRegistration => ({
+      deps: { fetchUser },
+      fn: async ({ step, deps }) => {
+        const name = await step(key, () => deps.fetchUser());
+        return `${await step.waitForSignal<string>("greeting")} ${name}`;
+      },
+    });
+
+    engine = createEngine({ store, workflows: { greet: greet("user:fetch") } });
+    const id = await engine.enqueue("greet");
+    await engine.tick();
+
+    engine = createEngine({
+      store,
+      workflows: {
+        greet: {
+          ...greet("user:load"),
+          durableDefaults: { version: 2 },
+          migrations: { 1: createSnapshotKeyRenameMigration({ "user:fetch": "user:load" }) },
+        },
+      },
+      onEvent: (e) => events.push(e),
+    });
+    expect(await engine.signal(id, "greeting", "Hello")).toBe(true);
+    expect(await engine.tick()).toBe(1);
+    expect(fetchUser).toHaveBeenCalledTimes(1);
+    expect(events).toContainEqual(expect.objectContaining({ type: "workflow_completed", id }));
+  });
+});
+
+describe("child workflows", () => {
+  /** The child `order` expects; each test registers its own implementation. */
+  type Charge = { deps: { charge: () => AsyncResult<string, "DECLINED"> }; fn: () => Promise<string> };
+
+  function childWorkflows(child: WorkflowRegistration) {
+    const ship = vi.fn(async (receipt: string) => ok(`shipped with ${receipt}`));
+    const order: WorkflowRegistration = {
+      deps: { ship },
+      fn: async ({ step, deps }) => {
+        const charged = await step.child<Charge>("charge", "charge", { amount: 42 });
+        expectTypeOf(charged).toEqualTypeOf<Result<string, "DECLINED" | UnexpectedError | WorkflowCancelledError>>();
+        const receipt = await step("receipt", () => charged);
+        return await step("ship", () => deps.ship(receipt));
+      },
+    };
+    return { ship, workflows: { order, charge: child } };
+  }
+
+  it("parks the parent until the child completes, then resumes it with the result", async () => {
+    const store = createMemorySnapshotStore();
+    const events: EngineEvent[] = [];
+    const charge = vi.fn(async () => ok("receipt-1"));
+    const { ship, workflows } = childWorkflows({ deps: { charge }, fn: async ({ step, deps }) => step("charge", () => deps.charge()) });
+    engine = createEngine({ store, workflows, onEvent: (e) => events.push(e) });
+
+    const id = await engine.enqueue("order");
+    const childId = `${id}/charge`;
+    expect(await engine.tick()).toBe(1);
+    expect(events).toContainEqual(expect.objectContaining({ type: "workflow_waiting", id, childId }));
+    expect(await engine.getRun(id)).toMatchObject({ state: "queued", completedSteps: 1 });
+    expect(await engine.getRun(childId)).toMatchObject({ state: "queued", parentId: id, input: { amount: 42 } });
+
+    // Only the child is due; finishing it wakes the parent
+    expect(await engine.tick()).toBe(1);
+    expect(await engine.getRun(childId)).toMatchObject({ state: "done" });
+    expect(await engine.tick()).toBe(1);
+
+    expect(charge).toHaveBeenCalledTimes(1);
+    expect(ship).toHaveBeenCalledWith("receipt-1");
+    expect(events.filter(e => e.type === "workflow_enqueued").map(e => (e as { id: string }).id)).toEqual([id, childId]);
+    expect(events.filter(e => e.type === "workflow_completed").map(e => (e as { id: string }).id)).toEqual([childId, id]);
+    expect(await store.load(id)).toBeNull();
+    expect(await store.load(childId)).toBeNull();
+  });
+
+  it("fails the parent with the child's error once the child is dead-lettered", async () => {
+    const store = createMemorySnapshotStore();
+    const events: EngineEvent[] = [];
+    const { ship, workflows } = childWorkflows({ deps: failDeps, fn: failFn });
+    engine = createEngine({ store, workflows, onEvent: (e) => events.push(e) });
+
+    const id = await engine.enqueue("order");
+    await engine.tick();
+    await engine.tick();
+    expect(await engine.getRun(`${id}/charge`)).toMatchObject({ state: "failed", parentId: id });
+    expect(await engine.tick()).toBe(1);
+
+    expect(ship).not.toHaveBeenCalled();
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "workflow_failed", id, error: { type: "FAIL", message: "boom" } })
+    );
+    expect(await engine.getRun(id)).toMatchObject({ state: "failed" });
+  });
+
+  it("cancelling the parent cancels its children", async () => {
+    const store = createMemorySnapshotStore();
+    const { workflows } = childWorkflows({ deps: testDeps, fn: testFn });
+    engine = createEngine({ store, workflows });
+
+    const id = await engine.enqueue("order");
+    await engine.tick();
+    expect(await engine.cancel(id)).toBe(true);
+
+    expect(await engine.getRun(`${id}/charge`)).toMatchObject({ state: "cancelled" });
+    expect(await engine.tick()).toBe(0);
+  });
+});
+
+describe("stale run recovery", () => {
+  // A claimed run with one completed step, as a worker would leave it on crashing.
+  async function crashMidRun(store: SnapshotStore & { claimNext: (n: number) => Promise<unknown> }) {
+    const producer = createEngine({ store, workflows: { greet: { deps: testDeps, fn: testFn } } });
+    const id = await producer.enqueue("greet");
+    await store.claimNext(1);
+    const snapshot = (await store.load(id))!;
+    await store.save(id, { ...snapshot, steps: { greet: { ok: true, value: "Hello from before" } } });
+    return id;
+  }
+
+  it("re-queues a processing run once it goes stale and resumes it", async () => {
+    const store = createMemorySnapshotStore();
+    const clock = createTestClock(Date.now());
+    const events: EngineEvent[] = [];
+    const greet = vi.fn(async () => ok("Hello again"));
+    engine = createEngine({
+      store,
+      clock,
+      staleAfterMs: 60_000,
+      workflows: { greet: { deps: { greet }, fn: testFn } },
+      onEvent: (e) => events.push(e),
+    });
+
+    const id = await crashMidRun(store);
+    expect(await engine.recoverStale()).toBe(0);
+    expect(await engine.tick()).toBe(0);
+
+    clock.advance(61_000);
+    expect(await engine.recoverStale()).toBe(1);
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "workflow_recovered", workflowName: "greet", id, lastUpdated: expect.any(String) })
+    );
+    expect((await store.load(id))?.metadata?.engineState).toBe("queued");
+
+    expect(await engine.tick()).toBe(1);
+    expect(greet).not.toHaveBeenCalled();
+    expect(events).toContainEqual(expect.objectContaining({ type: "workflow_completed", id }));
+  });
+
+  it("recovers a stale run behind any number of newer snapshots", async () => {
+    const store = createMemorySnapshotStore();
+    const clock = createTestClock(Date.now());
+    engine = createEngine({ store, clock, staleAfterMs: 60_000, workflows: { greet: { deps: testDeps, fn: testFn } } });
+
+    const id = await crashMidRun(store);
+    clock.advance(61_000);
+    for (let i = 0; i < 1100; i++) await store.save(`newer:${i}`, { ...(await store.load(id))!, metadata: {} });
+
+    expect(await engine.recoverStale()).toBe(1);
+    expect((await store.load(id))?.metadata?.engineState).toBe("queued");
+  });
+
+  it("leaves a stale-looking run alone while its lease is held", async () => {
+    const store = withTestLock(createMemorySnapshotStore()) as ReturnType<typeof createMemorySnapshotStore> & WorkflowLock;
+    const clock = createTestClock(Date.now());
+    engine = createEngine({
+      store,
+      clock,
+      staleAfterMs: 1000,
+      workflows: { greet: { deps: testDeps, fn: testFn } },
+    });
+
+    const id = await crashMidRun(store);
+    const lease = await store.tryAcquire(id, { ttlMs: 60_000 });
+    clock.advance(5000);
+    expect(await engine.recoverStale()).toBe(0);
+
+    await store.release(id, lease!.ownerToken);
+    expect(await engine.recoverStale()).toBe(1);
+  });
+
+  it("recovers stale runs when the engine starts", async () => {
+    const store = createMemorySnapshotStore();
+    const events: EngineEvent[] = [];
+    engine = createEngine({
+      store,
+      staleAfterMs: 0,
+      workflows: { greet: { deps: testDeps, fn: testFn } },
+      onEvent: (e) => events.push(e),
+    });
+
+    const id = await crashMidRun(store);
+    await new Promise(r => setTimeout(r, 5));
+    engine.start(60_000);
+    await vi.waitFor(() => expect(events.map(e => e.type)).toContain("workflow_recovered"));
+    await engine.stop();
+    expect(events).toContainEqual(expect.objectContaining({ type: "workflow_recovered", id }));
+  });
+});
+
+describe("cron schedules", () => {
+  const scheduledAts = async (store: SnapshotStore) => {
+    const entries = await store.list();
+    const times: string[] = [];
+    for (const e of entries) {
+      const snapshot = await store.load(e.id);
+      if (snapshot?.metadata?.engineState === "queued") {
+        times.push(snapshot.metadata.scheduledAt as string);
+      }
+    }
+    return times.sort();
+  };
+
+  it("enqueues at each occurrence driven by the clock", async () => {
+    const store = createTestStore();
+    const clock = createTestClock(Date.parse("2026-03-10T01:59:00Z"));
+    const events: EngineEvent[] = [];
+
+    engine = createEngine({
+      store,
+      clock,
+      workflows: { greet: { deps: testDeps, fn: testFn } },
+      onEvent: (e) => events.push(e),
+    });
+
+    const scheduleId = engine.schedule("greet", { cron: "0 2 * * *", timezone: "Europe/London" });
+    expect(engine.status().pendingSchedules).toBe(1);
+    await flush();
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "schedule_created", scheduleId, cron: "0 2 * * *", timezone: "Europe/London" })
+    );
+
+    clock.advance(30_000);
+    await flush();
+    expect(await scheduledAts(store)).toEqual([]);
+
+    clock.advance(30_000);
+    await flush();
+    expect(await scheduledAts(store)).toEqual(["2026-03-10T02:00:00.000Z"]);
+
+    engine.unschedule(scheduleId);
+  });
+
+  it("rejects an invalid expression without creating a schedule", () => {
+    engine = createEngine({
+      store: createTestStore(),
+      workflows: { greet: { deps: testDeps, fn: testFn } },
+    });
+
+    expect(() => engine!.schedule("greet", { cron: "61 * * * *" })).toThrow(/minute 61/);
+    expect(engine.status().pendingSchedules).toBe(0);
+  });
+
+  describe("misfire policy after downtime", () => {
+    const setup = (misfire: "skip" | "run-once" | "run-all") => {
+      const store = createTestStore();
+      const clock = createTestClock(Date.parse("2026-01-01T00:30:00Z"));
+      const events: EngineEvent[] = [];
+      engine = createEngine({
+        store,
+        clock,
+        workflows: { greet: { deps: testDeps, fn: testFn } },
+        onEvent: (e) => events.push(e),
+      });
+      engine.schedule("greet", { cron: "0 * * * *", misfire, misfireGraceMs: 1000 });
+      return { store, clock, events };
+    };
+
+    it("run-all enqueues every missed occurrence", async () => {
+      const { store, clock, events } = setup("run-all");
+      await flush();
+      // The host was suspended for three hours: one wake-up sees all of them.
+      clock.advance(3 * 3_600_000);
+      await flush();
+
+      expect(await scheduledAts(store)).toEqual([
+        "2026-01-01T01:00:00.000Z",
+        "2026-01-01T02:00:00.000Z",
+        "2026-01-01T03:00:00.000Z",
+      ]);
+      expect(events).toContainEqual(
+        expect.objectContaining({ type: "schedule_misfired", missed: 3, policy: "run-all" })
+      );
+    });
+
+    it("run-once coalesces missed occurrences into the latest", async () => {
+      const { store, clock } = setup("run-once");
+      await flush();
+      clock.advance(3 * 3_600_000);
+      await flush();
+
+      expect(await scheduledAts(store)).toEqual(["2026-01-01T03:00:00.000Z"]);
+    });
+
+    it("skip drops occurrences outside the grace window", async () => {
+      const { store, clock, events } = setup("skip");
+      await flush();
+      clock.advance(3 * 3_600_000);
+      await flush();
+
+      expect(await scheduledAts(store)).toEqual([]);
+      expect(events).toContainEqual(
+        expect.objectContaining({ type: "schedule_misfired", missed: 3, policy: "skip" })
+      );
+    });
+
+    it("skip still runs an occurrence that is on time", async () => {
+      const { store, clock, events } = setup("skip");
+      await flush();
+      clock.advance(30 * 60_000);
+      await flush();
+
+      expect(await scheduledAts(store)).toEqual(["2026-01-01T01:00:00.000Z"]);
+      expect(events.some(e => e.type === "schedule_misfired")).toBe(false);
+    });
+  });
+
+  it("stop() cancels cron schedules", async () => {
+    const store = createTestStore();
+    const clock = createTestClock(Date.parse("2026-01-01T00:30:00Z"));
+    engine = createEngine({
+      store,
+      clock,
+      workflows: { greet: { deps: testDeps, fn: testFn } },
+    });
+    engine.schedule("greet", { cron: "0 * * * *" });
+    await flush();
+    engine.start(60_000);
+    await engine.stop();
+
+    clock.advance(3_600_000);
+    await flush();
+    expect(await scheduledAts(store)).toEqual([]);
+  });
+});
+
+describe("persisted schedules", () => {
+  const queuedIds = async (store: SnapshotStore) => {
+    const ids: string[] = [];
+    for (const e of await store.list()) {
+      const snapshot = await store.load(e.id);
+      if (snapshot?.metadata?.engineState === "queued") ids.push(e.id);
+    }
+    return ids.sort();
+  };
+
+  it("stores the schedule and lists it", async () => {
+    const store = createTestStore();
+    const clock = createTestClock(Date.parse("2026-01-01T00:30:00Z"));
+    engine = createEngine({ store, clock, workflows: { greet: { deps: testDeps, fn: testFn } } });
+
+    const scheduleId = engine.schedule("greet", { id: "hourly", cron: "0 * * * *" });
+    await flush();
+
+    expect(scheduleId).toBe("schedule:hourly");
+    expect(await store.load(scheduleId)).toMatchObject({ metadata: { engineState: "schedule" } });
+    expect(await engine.listSchedules()).toEqual([
+      {
+        scheduleId: "schedule:hourly",
+        workflowName: "greet",
+        cron: "0 * * * *",
+        timezone: "UTC",
+        paused: false,
+        createdAt: "2026-01-01T00:30:00.000Z",
+        nextRunAt: "2026-01-01T01:00:00.000Z",
+      },
+    ]);
+  });
+
+  it("emits schedule_fired with the enqueued run id", async () => {
+    const store = createTestStore();
+    const clock = createTestClock(Date.parse("2026-01-01T00:30:00Z"));
+    const events: EngineEvent[] = [];
+    engine = createEngine({
+      store,
+      clock,
+      workflows: { greet: { deps: testDeps, fn: testFn } },
+      onEvent: (e) => events.push(e),
+    });
+
+    engine.schedule("greet", { id: "hourly", cron: "0 * * * *" });
+    await flush();
+    clock.advance(30 * 60_000);
+    await flush();
+
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: "schedule_fired",
+        scheduleId: "schedule:hourly",
+        id: "hourly:2026-01-01T01:00:00.000Z",
+        scheduledAt: "2026-01-01T01:00:00.000Z",
+      })
+    );
+    expect(await queuedIds(store)).toEqual(["hourly:2026-01-01T01:00:00.000Z"]);
+  });
+
+  it("removes the stored schedule on unschedule", async () => {
+    const store = createTestStore();
+    engine = createEngine({ store, workflows: { greet: { deps: testDeps, fn: testFn } } });
+
+    const scheduleId = engine.schedule("greet", { id: "nightly", cron: "0 2 * * *" });
+    await flush();
+    engine.unschedule(scheduleId);
+    await flush();
+
+    expect(await store.load(scheduleId)).toBeNull();
+    expect(await engine.listSchedules()).toEqual([]);
+  });
+
+  it("restores schedules on start after a restart and catches up", async () => {
+    const store = createTestStore();
+    const clock = createTestClock(Date.parse("2026-01-01T00:30:00Z"));
+    const workflows = { greet: { deps: testDeps, fn: testFn } };
+
+    const first = createEngine({ store, clock, workflows });
+    first.schedule("greet", { id: "hourly", cron: "0 * * * *" });
+    await flush();
+    first.start(60_000);
+    await first.stop();
+
+    // Down for two and a half hours; the replacement process registers nothing.
+    clock.advance(150 * 60_000);
+    engine = createEngine({ store, clock, workflows });
+    engine.start(60_000);
+    await flush();
+    await flush();
+
+    expect(engine.status().pendingSchedules).toBe(1);
+    expect(await queuedIds(store)).toEqual(["hourly:2026-01-01T03:00:00.000Z"]);
+  });
+
+  it("keeps firing state when a replica re-registers the same id", async () => {
+    const store = createTestStore();
+    const clock = createTestClock(Date.parse("2026-01-01T00:30:00Z"));
+    const workflows = { greet: { deps: testDeps, fn: testFn } };
+
+    const first = createEngine({ store, clock, workflows });
+    first.schedule("greet", { id: "hourly", cron: "0 * * * *", immediate: true });
+    await flush();
+    clock.advance(30 * 60_000);
+    await flush();
+    first.start(60_000);
+    await first.stop();
+
+    const before = await queuedIds(store);
+    engine = createEngine({ store, clock, workflows });
+    engine.schedule("greet", { id: "hourly", cron: "0 * * * *", immediate: true });
+    await flush();
+
+    // No second immediate run, and the 01:00 occurrence is not repeated.
+    expect(await queuedIds(store)).toEqual(before);
+    const [info] = await engine.listSchedules();
+    expect(info?.lastFiredAt).toBe("2026-01-01T01:00:00.000Z");
+  });
+
+  it("pauses and resumes without catching up the paused period", async () => {
+    const store = createTestStore();
+    const clock = createTestClock(Date.parse("2026-01-01T00:30:00Z"));
+    const events: EngineEvent[] = [];
+    engine = createEngine({
+      store,
+      clock,
+      workflows: { greet: { deps: testDeps, fn: testFn } },
+      onEvent: (e) => events.push(e),
+    });
+
+    const scheduleId = engine.schedule("greet", { id: "hourly", cron: "0 * * * *" });
+    await flush();
+    expect(await engine.pauseSchedule(scheduleId)).toBe(true);
+    expect((await engine.listSchedules())[0]).toMatchObject({ paused: true });
+    expect((await engine.listSchedules())[0]?.nextRunAt).toBeUndefined();
+
+    clock.advance(3 * 3_600_000);
+    await flush();
+    expect(await queuedIds(store)).toEqual([]);
+
+    expect(await engine.resumeSchedule(scheduleId)).toBe(true);
+    await flush();
+    clock.advance(30 * 60_000);
+    await flush();
+
+    expect(await queuedIds(store)).toEqual(["hourly:2026-01-01T04:00:00.000Z"]);
+    expect(events.map(e => e.type)).toEqual(
+      expect.arrayContaining(["schedule_paused", "schedule_resumed"])
+    );
+    expect(await engine.pauseSchedule("schedule:missing")).toBe(false);
+  });
+
+  it("enqueues each occurrence once across replicas sharing a locking store", async () => {
+    const store = withTestLock(createTestStore());
+    const clock = createTestClock(Date.parse("2026-01-01T00:30:00Z"));
+    const workflows = { greet: { deps: testDeps, fn: testFn } };
+    const fired: EngineEvent[] = [];
+    const onEvent = (e: EngineEvent) => {
+      if (e.type === "schedule_fired") fired.push(e);
+    };
+
+    const replicas = [1, 2, 3].map(() => createEngine({ store, clock, workflows, onEvent }));
+    for (const replica of replicas) {
+      replica.schedule("greet", { id: "hourly", cron: "0 * * * *" });
+    }
+    await flush();
+
+    clock.advance(30 * 60_000);
+    await flush();
+    await flush();
+    clock.advance(60 * 60_000);
+    await flush();
+    await flush();
+
+    expect(fired).toHaveLength(2);
+    expect(await queuedIds(store)).toEqual([
+      "hourly:2026-01-01T01:00:00.000Z",
+      "hourly:2026-01-01T02:00:00.000Z",
+    ]);
+
+    for (const replica of replicas) {
+      replica.start(60_000);
+      await replica.stop();
+    }
+  });
+});
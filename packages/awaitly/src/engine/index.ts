@@ -1,17 +1,113 @@
 import { randomUUID } from "node:crypto";
 import { context, propagation } from "@opentelemetry/api";
 import { resolveTelemetry, withEngineJobSpan } from "../core/opentelemetry";
-import type { WorkflowSnapshot } from "../persistence";
-import { durable } from "../durable";
+import { encodeSnapshotCursor, type JSONValue, type WorkflowSnapshot } from "../persistence";
+import { continuedRunOf, durable, hasWorkflowLock, isWorkflowContinuedAsNew, isWorkflowSuspended } from "../durable";
+import { systemClock } from "../clock";
+import { parse as parseDuration } from "../duration";
+import { parseCron } from "./cron";
+import { hasQueueStore, listQueue } from "./queue";
+import {
+  DEAD_LETTER_STATE,
+  attemptsMade,
+  retryDelay,
+  serializeFailure,
+  toDeadLetter,
+  withoutFailedSteps,
+} from "./retry";
+import { createRunLimits } from "./limits";
+import { childOutcome, failureOutcome, isChildPending, parentOf, withChildren } from "./children";
+import { scanSnapshots, toRunInfo } from "./runs";
+import {
+  SCHEDULE_PREFIX,
+  createScheduleRecord,
+  fromScheduleSnapshot,
+  nextOccurrence,
+  occurrenceId,
+  occurrencesBetween,
+  toScheduleInfo,
+  toScheduleSnapshot,
+  type ScheduleRecord,
+} from "./schedules";
 import type {
+  DeadLetter,
   Engine,
   EngineOptions,
   EngineEvent,
   EnqueueOptions,
+  ListRunsOptions,
+  RunInfo,
+  ScheduleInfo,
   ScheduleOptions,
+  StopOptions,
+  WorkflowRegistration,
 } from "./types";
 
-export type { Engine, EngineOptions, EngineEvent, EnqueueOptions, ScheduleOptions, WorkflowRegistration } from "./types";
+export type {
+  ChildOptions,
+  EngineStep,
+  WorkflowErrors,
+  WorkflowValue,
+  DeadLetter,
+  RunInfo,
+  RunState,
+  ListRunsOptions,
+  Engine,
+  EngineOptions,
+  EngineEvent,
+  EnqueueOptions,
+  StopOptions,
+  ScheduleOptions,
+  IntervalScheduleOptions,
+  CronScheduleOptions,
+  MisfirePolicy,
+  ScheduleInfo,
+  WorkflowRegistration,
+} from "./types";
+export { parseCron, nextCronTime, CronParseError, type CronSpec } from "./cron";
+
+/**
+ * Longest single wait in a schedule loop. Waking periodically re-reads the
+ * clock and the stored schedule, so a suspended host, a wall-clock jump, or a
+ * change made by another replica is noticed instead of trusting one long
+ * timer (and `setTimeout` overflows past ~24.8 days anyway).
+ */
+const MAX_SCHEDULE_SLEEP_MS = 60_000;
+
+/** Upper bound on occurrences enqueued by one `"run-all"` catch-up. */
+const MAX_CATCH_UP = 1000;
+
+/** Abort reason for runs interrupted by `stop()`, as opposed to `cancel()`. */
+const SHUTDOWN = Symbol("engine shutdown");
+
+/**
+ * How long a run parked on a child waits before re-checking it, in case the
+ * child settled without waking it (e.g. its engine crashed in between).
+ */
+const CHILD_RECHECK_MS = 60_000;
+
+/** Children listed when a run is cancelled. */
+const SCAN_LIMIT = 1000;
+
+/** Lease held on a schedule id while its due occurrences are enqueued, or on a stale run while it is re-queued. */
+const LEASE_TTL_MS = 30_000;
+
+/** Back-off before re-checking a schedule whose lease another replica holds. */
+const SCHEDULE_LEASE_RETRY_MS = 1000;
+
+/**
+ * How far a run this engine cannot execute is pushed back when handed back,
+ * for queue stores that ignore `workflowNames` when claiming.
+ */
+const UNREGISTERED_RETRY_MS = 5000;
+
+interface ScheduleEntry {
+  cancel(): void;
+  /** Interrupt the current sleep so the loop re-reads the stored schedule. */
+  wake(): void;
+  /** Settles once the schedule record has been written. */
+  ready: Promise<unknown>;
+}
 
 export function createEngine(options: EngineOptions): Engine {
   const {
@@ -20,14 +116,30 @@ export function createEngine(options: EngineOptions): Engine {
     concurrency = 5,
     onEvent,
     onError,
+    clock = systemClock,
+    staleAfterMs = 5 * 60_000,
+    recoveryIntervalMs = 60_000,
   } = options;
 
   const telemetry = resolveTelemetry(options.telemetry);
 
-  const schedules = new Map<string, ReturnType<typeof setInterval>>();
+  // Prefer the store's own queue index; list-then-load misses queued runs
+  // once other snapshots fill the listed page.
+  const queue = hasQueueStore(store) ? store : listQueue(store, concurrency * 2);
+
+  const limits = createRunLimits(workflows);
+  const registeredNames = Object.keys(workflows);
+  const schedules = new Map<string, ScheduleEntry>();
+  /** Runs this engine is executing, never treated as stale; aborting one cancels it. */
+  const activeRuns = new Map<string, AbortController>();
   let pollTimer: ReturnType<typeof setInterval> | undefined;
+  let recoveryTimer: ReturnType<typeof setInterval> | undefined;
   let running = false;
-  let tickInFlight = false;
+  let tickInFlight: Promise<number> | undefined;
+  /** Set while stop() drains: no new claims. */
+  let draining = false;
+  /** Set once stop() gives up on draining and aborts what is still running. */
+  let interrupting = false;
 
   function emit(event: EngineEvent): void {
     try {
@@ -43,6 +155,12 @@ export function createEngine(options: EngineOptions): Engine {
       throw new Error(`Unknown workflow: '${name}'. Registered: ${Object.keys(workflows).join(", ")}`);
     }
 
+    const runAt = resolveRunAt(opts);
+    const priority = opts?.priority ?? 0;
+    if (!Number.isFinite(priority)) {
+      throw new Error(`Invalid priority for '${name}': ${priority}`);
+    }
+
     const id = opts?.id ?? `${name}:${randomUUID()}`;
     const traceContext: Record<string, string> = {};
     propagation.inject(context.active(), traceContext);
@@ -62,6 +180,8 @@ export function createEngine(options: EngineOptions): Engine {
         input: (opts?.input ?? null) as string | number | boolean | null,
         idempotencyKey: opts?.idempotencyKey,
         enqueuedAt: new Date().toISOString(),
+        runAt,
+        priority,
         ...opts?.metadata,
         ...(Object.keys(traceContext).length > 0
           ? { awaitlyTraceContext: traceContext }
@@ -71,10 +191,30 @@ export function createEngine(options: EngineOptions): Engine {
 
     await store.save(id, snapshot);
 
-    emit({ type: "workflow_enqueued", workflowName: name, id, ts: Date.now() });
+    emit({ type: "workflow_enqueued", workflowName: name, id, runAt, priority, ts: Date.now() });
     return id;
   }
 
+  /** ISO time the run becomes claimable, from `runAt` or `delay` against `clock`. */
+  function resolveRunAt(opts: EnqueueOptions | undefined): string {
+    if (opts?.runAt !== undefined && opts.delay !== undefined) {
+      throw new Error("Pass either runAt or delay, not both");
+    }
+    if (opts?.runAt !== undefined) {
+      const at = opts.runAt instanceof Date ? opts.runAt.getTime() : opts.runAt;
+      if (!Number.isFinite(at)) throw new Error(`Invalid runAt: ${String(opts.runAt)}`);
+      return new Date(at).toISOString();
+    }
+    if (opts?.delay !== undefined) {
+      const duration = typeof opts.delay === "string" ? parseDuration(opts.delay) : opts.delay;
+      if (!duration || duration.millis < 0) {
+        throw new Error(`Invalid delay: '${String(opts.delay)}'`);
+      }
+      return new Date(clock.now() + duration.millis).toISOString();
+    }
+    return new Date(clock.now()).toISOString();
+  }
+
   /**
    * Restore the context captured when the workflow was enqueued, so baggage and
    * anything else riding on context reaches the workflow run.
@@ -85,129 +225,758 @@ export function createEngine(options: EngineOptions): Engine {
     return propagation.extract(context.active(), carrier as Record<string, string>);
   }
 
-  /** Run one queued workflow. Returns whether it was processed. */
+  /** Run one claimed workflow. Returns whether it was processed. */
   async function runJob(
     id: string,
     workflowName: string,
     snapshot: WorkflowSnapshot
   ): Promise<boolean> {
     const wf = workflows[workflowName];
-    if (!wf) return false;
+    if (!wf) {
+      // Registered on another engine sharing this store: hand it back, due a
+      // little later so it stops heading the queue this engine claims from.
+      const runAt = new Date(clock.now() + UNREGISTERED_RETRY_MS).toISOString();
+      await store.save(id, { ...snapshot, metadata: { ...snapshot.metadata, engineState: "queued", runAt } });
+      return false;
+    }
 
-    // Mark as processing (remove "queued" flag)
-    const processingSnapshot: WorkflowSnapshot = {
-      ...snapshot,
-      metadata: {
-        ...snapshot.metadata,
-        engineState: "processing",
-      },
-    };
-    await store.save(id, processingSnapshot);
+    const admitted = await limits.run(workflowName, snapshot.metadata?.input, () =>
+      executeJob(id, workflowName, wf, snapshot)
+    );
+    if ("throttle" in admitted) {
+      // Over this workflow's limits: hand it back until it may start.
+      const runAt = new Date(clock.now() + admitted.throttle.retryAfterMs).toISOString();
+      await store.save(id, { ...snapshot, metadata: { ...snapshot.metadata, engineState: "queued", runAt } });
+      emit({
+        type: "workflow_throttled",
+        workflowName,
+        id,
+        reason: admitted.throttle.reason,
+        runAt,
+        ts: Date.now(),
+      });
+      return false;
+    }
+    return true;
+  }
 
+  async function executeJob(
+    id: string,
+    workflowName: string,
+    wf: WorkflowRegistration,
+    snapshot: WorkflowSnapshot
+  ): Promise<void> {
+    if (continuedRunOf(snapshot) === undefined) return executeRun(id, workflowName, wf, snapshot);
+
+    // A run continued as new executes under its successor's id, which is the
+    // one durable.run leases. Hold the head's lease as well, so other engines
+    // see the run as live and neither recover nor cancel it meanwhile.
+    const release = await holdLease(id);
+    if (!release) {
+      // Leased for a moment by another engine waking or cancelling it.
+      await store.save(id, {
+        ...snapshot,
+        metadata: { ...snapshot.metadata, engineState: "queued", runAt: new Date(clock.now()).toISOString() },
+      });
+      return;
+    }
+    try {
+      await executeRun(id, workflowName, wf, snapshot);
+    } finally {
+      await release();
+    }
+  }
+
+  async function executeRun(
+    id: string,
+    workflowName: string,
+    wf: WorkflowRegistration,
+    snapshot: WorkflowSnapshot
+  ): Promise<void> {
     emit({ type: "workflow_started", workflowName, id, ts: Date.now() });
 
-    const result = await durable.run(wf.deps, wf.fn, {
-      id,
-      store,
-      idempotencyKey: snapshot.metadata?.idempotencyKey as string | undefined,
-      input: snapshot.metadata?.input,
-      ...wf.durableDefaults,
-    });
+    const controller = new AbortController();
+    if (interrupting) controller.abort(SHUTDOWN);
+    activeRuns.set(id, controller);
+    let result: Awaited<ReturnType<typeof durable.run>>;
+    try {
+      // A run continued as new goes on under its latest successor's id, whose
+      // failed steps are dropped here rather than when the run is re-queued.
+      const runId = continuedRunOf(snapshot) ?? id;
+      const successor = runId === id ? null : await store.load(runId);
+      if (successor && Object.values(successor.steps).some(step => !step.ok)) {
+        await store.save(runId, withoutFailedSteps(successor));
+      }
+      result = await durable.run(wf.deps, (context) => wf.fn({ ...context, step: withChildren(context.step, id, { store, enqueue }) }), {
+        id: runId,
+        store,
+        idempotencyKey: snapshot.metadata?.idempotencyKey as string | undefined,
+        input: snapshot.metadata?.input,
+        signal: controller.signal,
+        clock,
+        migrations: wf.migrations,
+        ...wf.durableDefaults,
+      });
+    } finally {
+      activeRuns.delete(id);
+    }
 
     if (result.ok) {
+      if (parentOf(snapshot) !== undefined) {
+        await settleChild(id, snapshot, { ok: true, value: result.value as JSONValue });
+      } else {
+        await queue.markDone(id);
+      }
       emit({ type: "workflow_completed", workflowName, id, ts: Date.now() });
+    } else if (controller.signal.reason === SHUTDOWN) {
+      // Interrupted by stop(): back in the queue, resuming from its last completed step.
+      const current = (await store.load(id)) ?? snapshot;
+      await store.save(id, {
+        ...withoutFailedSteps(current),
+        metadata: { ...current.metadata, engineState: "queued", runAt: new Date(clock.now()).toISOString() },
+      });
+    } else if (controller.signal.aborted) {
+      await markCancelled(id, workflowName, (await store.load(id)) ?? snapshot);
+    } else if (isChildPending(result.error)) {
+      await park(id, workflowName, snapshot, result.error.childId);
+    } else if (isWorkflowContinuedAsNew(result.error)) {
+      // durable.run closed this run's record and saved the successor it names.
+      const runAt = new Date(clock.now()).toISOString();
+      const current = (await store.load(id)) ?? snapshot;
+      await store.save(id, { ...current, metadata: { ...current.metadata, engineState: "queued", runAt } });
+      emit({ type: "workflow_continued_as_new", workflowName, id, successorId: result.error.successorId, ts: Date.now() });
+    } else if (isWorkflowSuspended(result.error)) {
+      // durable.run saved it suspended; claimable again once it is due to wake,
+      // or, waiting on a signal with no timeout, once signal() wakes it.
+      const runAt = result.error.wakeAt;
+      const current = (await store.load(id)) ?? snapshot;
+      await store.save(id, {
+        ...current,
+        metadata: { ...current.metadata, ...(runAt ? { engineState: "queued", runAt } : { engineState: "suspended" }) },
+      });
+      emit({
+        type: "workflow_suspended",
+        workflowName,
+        id,
+        reason: result.error.reason,
+        ...(runAt ? { runAt } : {}),
+        ts: Date.now(),
+      });
     } else {
-      emit({ type: "workflow_failed", workflowName, id, error: result.error, ts: Date.now() });
+      await recordFailure(id, workflowName, snapshot, result.error);
     }
+  }
+
+  /** Keep a completed child's result until its parent has read it, then wake the parent. */
+  async function settleChild(id: string, claimed: WorkflowSnapshot, outcome: JSONValue): Promise<void> {
+    const now = new Date(clock.now()).toISOString();
+    await store.save(id, {
+      ...claimed,
+      steps: {},
+      execution: { status: "completed", lastUpdated: now, completedAt: now },
+      metadata: { ...claimed.metadata, engineState: "done", outcome },
+    });
+    await wakeParent(claimed);
+  }
 
+  /** Put a run waiting on a child back in the queue, without holding a worker. */
+  async function park(id: string, workflowName: string, claimed: WorkflowSnapshot, childId: string): Promise<void> {
+    const current = (await store.load(id)) ?? claimed;
+    const runAt = new Date(clock.now() + CHILD_RECHECK_MS).toISOString();
+    // Drops the waiting step's pending marker so the next attempt checks the child again.
+    await store.save(id, {
+      ...withoutFailedSteps(current),
+      metadata: { ...current.metadata, engineState: "queued", runAt },
+    });
+    emit({ type: "workflow_waiting", workflowName, id, childId, runAt, ts: Date.now() });
+
+    // The child may have settled before this run was parked, when waking it found nothing to wake.
+    if (childOutcome(childId, await store.load(childId)) !== undefined) await wake(id);
+  }
+
+  async function wakeParent(child: WorkflowSnapshot): Promise<void> {
+    const parentId = parentOf(child);
+    if (parentId !== undefined) await wake(parentId);
+  }
+
+  /** Make a parked or suspended run due now. */
+  async function wake(id: string): Promise<void> {
+    await withLease(id, async () => {
+      const snapshot = await store.load(id);
+      const now = clock.now();
+      const state = snapshot?.metadata?.engineState;
+      if (state !== "suspended" && (state !== "queued" || Date.parse(String(snapshot!.metadata!.runAt)) <= now)) return;
+      await store.save(id, {
+        ...snapshot!,
+        metadata: { ...snapshot!.metadata, engineState: "queued", runAt: new Date(now).toISOString() },
+      });
+    });
+  }
+
+  async function query<T = unknown>(id: string, name: string) {
+    // A failed load is reported by durable.query, which loads the run again.
+    const workflowName = (await store.load(id).catch(() => null))?.metadata?.workflowName;
+    const wf = typeof workflowName === "string" ? workflows[workflowName] : undefined;
+    return durable.query<T>(
+      store,
+      id,
+      name,
+      wf && {
+        deps: wf.deps,
+        fn: (context) => wf.fn({ ...context, step: withChildren(context.step, id, { store, enqueue }) }),
+        // Replayed with the options the run executes with, so it takes the same path.
+        ...wf.durableDefaults,
+        clock,
+      }
+    );
+  }
+
+  async function signal(id: string, name: string, payload?: JSONValue): Promise<boolean> {
+    if (!(await durable.signal(store, id, name, payload))) return false;
+    await wake(id);
     return true;
   }
 
-  async function tick(): Promise<number> {
-    if (tickInFlight) return 0;
-    tickInFlight = true;
+  /** Re-queue a failed run with backoff, or dead-letter it once its retry policy is spent. */
+  async function recordFailure(
+    id: string,
+    workflowName: string,
+    claimed: WorkflowSnapshot,
+    error: unknown
+  ): Promise<void> {
+    const attempt = attemptsMade(claimed) + 1;
+    const retry = workflows[workflowName]?.retry;
+    const delayMs = retryDelay(retry, error, attempt);
+    // durable.run may have saved completed steps since the claim; keep them.
+    const current = (await store.load(id)) ?? claimed;
+    const now = clock.now();
+    const failure = { attempts: attempt, lastError: serializeFailure(error) };
 
-    try {
-      // List pending workflows from store
-      const entries = await store.list({ limit: concurrency * 2 });
+    emit({ type: "workflow_failed", workflowName, id, error, attempt, ts: Date.now() });
+
+    if (delayMs !== undefined) {
+      const runAt = new Date(now + delayMs).toISOString();
+      await store.save(id, {
+        ...withoutFailedSteps(current),
+        metadata: { ...current.metadata, ...failure, engineState: "queued", runAt },
+      });
+      retry?.onRetry?.(error, attempt, delayMs);
+      emit({ type: "workflow_retrying", workflowName, id, attempt, delayMs, runAt, ts: Date.now() });
+    } else {
+      await store.save(id, {
+        ...current,
+        metadata: {
+          ...current.metadata,
+          ...failure,
+          engineState: DEAD_LETTER_STATE,
+          failedAt: new Date(now).toISOString(),
+          ...(parentOf(current) !== undefined ? failureOutcome(error) : {}),
+        },
+      });
+      emit({ type: "workflow_dead_lettered", workflowName, id, attempts: attempt, ts: Date.now() });
+      await wakeParent(current);
+    }
+  }
+
+  async function listDeadLetters(
+    opts?: { workflowName?: string; limit?: number }
+  ): Promise<DeadLetter[]> {
+    const limit = opts?.limit ?? 100;
+    const letters: DeadLetter[] = [];
+    if (limit <= 0) return letters;
+    // A dead letter is not written again once parked, so the most recently
+    // updated come first and the scan can stop at `limit`.
+    for await (const entry of scanSnapshots(store, {
+      ...(opts?.workflowName !== undefined ? { workflowName: opts.workflowName } : {}),
+      metadata: { engineState: DEAD_LETTER_STATE },
+    })) {
+      const letter = toDeadLetter(entry.id, await store.load(entry.id));
+      if (letter && letters.push(letter) === limit) break;
+    }
+    return letters.sort((a, b) => b.failedAt.localeCompare(a.failedAt));
+  }
+
+  async function requeue(id: string): Promise<boolean> {
+    const snapshot = await store.load(id);
+    const run = toRunInfo(id, snapshot);
+    if (!snapshot || (run?.state !== DEAD_LETTER_STATE && run?.state !== "cancelled")) return false;
+
+    const {
+      attempts: _attempts,
+      lastError: _lastError,
+      failedAt: _failedAt,
+      cancelledAt: _cancelledAt,
+      ...metadata
+    } = snapshot.metadata ?? {};
+    await store.save(id, {
+      ...withoutFailedSteps(snapshot),
+      metadata: { ...metadata, engineState: "queued", runAt: new Date(clock.now()).toISOString() },
+    });
+    emit({ type: "workflow_requeued", workflowName: run.workflowName, id, ts: Date.now() });
+    return true;
+  }
+
+  async function getRun(id: string): Promise<RunInfo | null> {
+    return toRunInfo(id, await store.load(id));
+  }
+
+  async function listRuns(
+    opts?: ListRunsOptions
+  ): Promise<{ runs: RunInfo[]; nextCursor?: string }> {
+    const states = opts?.state === undefined ? undefined : [opts.state].flat();
+    const limit = opts?.limit ?? 100;
+    const runs: RunInfo[] = [];
+    if (limit <= 0) return { runs };
+    let last: { id: string; updatedAt: string } | undefined;
+    for await (const entry of scanSnapshots(store, {
+      ...(opts?.workflowName !== undefined ? { workflowName: opts.workflowName } : {}),
+      ...(states?.length === 1 ? { metadata: { engineState: states[0]! } } : {}),
+      ...(opts?.cursor !== undefined ? { cursor: opts.cursor } : {}),
+    })) {
+      const run = toRunInfo(entry.id, await store.load(entry.id));
+      if (!run || (states && !states.includes(run.state))) continue;
+      // One more match past the page says whether there is another.
+      if (runs.length === limit) return { runs, nextCursor: encodeSnapshotCursor(last!.updatedAt, last!.id) };
+      runs.push(run);
+      last = entry;
+    }
+    return { runs };
+  }
+
+  async function markCancelled(id: string, workflowName: string, snapshot: WorkflowSnapshot): Promise<void> {
+    await store.save(id, {
+      ...snapshot,
+      metadata: {
+        ...snapshot.metadata,
+        engineState: "cancelled",
+        cancelledAt: new Date(clock.now()).toISOString(),
+      },
+    });
+    emit({ type: "workflow_cancelled", workflowName, id, ts: Date.now() });
+
+    for (const child of await store.list({ prefix: `${id}/`, limit: SCAN_LIMIT })) {
+      await cancel(child.id);
+    }
+    await wakeParent(snapshot);
+  }
+
+  async function cancel(id: string): Promise<boolean> {
+    const controller = activeRuns.get(id);
+    if (controller) {
+      // runJob marks it cancelled once durable.run returns
+      controller.abort(new Error(`Run '${id}' was cancelled`));
+      return true;
+    }
+
+    // A live durable.run holds the run's lease (a run continued as new, its
+    // head's too), so this never overwrites a run another engine is executing.
+    const leased = await withLease(id, async () => {
+      const snapshot = await store.load(id);
+      const run = toRunInfo(id, snapshot);
+      if (!snapshot || (run?.state !== "queued" && run?.state !== "suspended")) return false;
+      await markCancelled(id, run.workflowName, snapshot);
+      return true;
+    });
+    return leased?.value ?? false;
+  }
+
+  async function discard(id: string): Promise<boolean> {
+    const letter = toDeadLetter(id, await store.load(id));
+    if (!letter) return false;
+
+    await store.delete(id);
+    emit({ type: "workflow_discarded", workflowName: letter.workflowName, id, ts: Date.now() });
+    return true;
+  }
 
-      // Filter to queued engine workflows
-      const queued: Array<{ id: string; workflowName: string; snapshot: WorkflowSnapshot }> = [];
-      for (const entry of entries) {
-        if (queued.length >= concurrency) break;
+  /**
+   * Re-queue `"processing"` runs whose worker has gone away, so durable.run
+   * resumes them from their last completed step. A run is stale once its
+   * snapshot has not been written for `staleAfterMs`; on a store with
+   * WorkflowLock it must also have no live lease.
+   */
+  async function recoverStale(): Promise<number> {
+    const cutoff = clock.now() - staleAfterMs;
+    let recovered = 0;
+
+    // Recovered runs are written again, which moves them ahead of the scan's cursor.
+    for await (const entry of scanSnapshots(store, {
+      metadata: { engineState: "processing" },
+      updatedBefore: new Date(cutoff + 1),
+    })) {
+      if (activeRuns.has(entry.id)) continue;
+
+      const leased = await withLease(entry.id, async () => {
+        // Re-read under the lease: another replica may have recovered it first.
         const snapshot = await store.load(entry.id);
-        if (
-          snapshot &&
-          snapshot.metadata?.engineState === "queued" &&
-          typeof snapshot.metadata?.workflowName === "string"
-        ) {
-          queued.push({ id: entry.id, workflowName: snapshot.metadata.workflowName as string, snapshot });
+        const workflowName = snapshot?.metadata?.workflowName;
+        if (snapshot?.metadata?.engineState !== "processing" || typeof workflowName !== "string") {
+          return false;
         }
-      }
+        await store.save(entry.id, {
+          ...snapshot,
+          metadata: {
+            ...snapshot.metadata,
+            engineState: "queued",
+            runAt: new Date(clock.now()).toISOString(),
+          },
+        });
+        emit({
+          type: "workflow_recovered",
+          workflowName,
+          id: entry.id,
+          lastUpdated: entry.updatedAt,
+          ts: Date.now(),
+        });
+        return true;
+      });
+      if (leased?.value) recovered++;
+    }
+
+    return recovered;
+  }
 
-      // Execute in parallel
-      const results = await Promise.allSettled(
-        queued.map(({ id, workflowName, snapshot }) =>
-          context.with(enqueueContext(snapshot), () =>
-            withEngineJobSpan(
-              { enabled: telemetry, workflowName, workflowId: id },
-              () => runJob(id, workflowName, snapshot)
-            )
+  async function tick(): Promise<number> {
+    if (tickInFlight || draining) return 0;
+    tickInFlight = claimAndRun();
+    try {
+      return await tickInFlight;
+    } finally {
+      tickInFlight = undefined;
+    }
+  }
+
+  async function claimAndRun(): Promise<number> {
+    // Claim queued workflows (moves them to "processing")
+    let claimed: Awaited<ReturnType<typeof queue.claimNext>> = [];
+    try {
+      // Only this engine's workflows, so runs registered elsewhere never fill the claim.
+      claimed = await queue.claimNext(concurrency, { now: clock.now(), workflowNames: registeredNames });
+    } catch (e) {
+      reportError(e);
+    }
+    const queued = claimed.flatMap(({ id, snapshot }) =>
+      typeof snapshot.metadata?.workflowName === "string"
+        ? [{ id, workflowName: snapshot.metadata.workflowName, snapshot }]
+        : []
+    );
+
+    // Execute in parallel
+    const results = await Promise.allSettled(
+      queued.map(({ id, workflowName, snapshot }) =>
+        context.with(enqueueContext(snapshot), () =>
+          withEngineJobSpan(
+            { enabled: telemetry, workflowName, workflowId: id },
+            () => runJob(id, workflowName, snapshot)
           )
         )
-      );
-
-      // Report errors from settled promises
-      let processed = 0;
-      for (const r of results) {
-        if (r.status === "fulfilled") {
-          if (r.value) processed++;
-        } else {
-          try { onError?.(r.reason); } catch { /* ignore */ }
-        }
+      )
+    );
+
+    // Report errors from settled promises
+    let processed = 0;
+    for (const r of results) {
+      if (r.status === "fulfilled") {
+        if (r.value) processed++;
+      } else {
+        try { onError?.(r.reason); } catch { /* ignore */ }
       }
+    }
 
-      emit({ type: "engine_tick", ts: Date.now(), processed });
-      return processed;
+    emit({ type: "engine_tick", ts: Date.now(), processed });
+    return processed;
+  }
+
+  function reportError(e: unknown): void {
+    try { onError?.(e); } catch { /* ignore */ }
+  }
+
+  /**
+   * Run `fn` while holding the lease on a schedule or run id, when the store
+   * implements WorkflowLock. Resolves to `undefined` without running `fn` if
+   * another replica (or a live durable.run) holds it.
+   */
+  async function withLease<T>(
+    id: string,
+    fn: () => Promise<T>
+  ): Promise<{ value: T } | undefined> {
+    if (!hasWorkflowLock(store)) return { value: await fn() };
+    const lease = await store.tryAcquire(id, { ttlMs: LEASE_TTL_MS });
+    if (!lease) return undefined;
+    try {
+      return { value: await fn() };
     } finally {
-      tickInFlight = false;
+      await store.release(id, lease.ownerToken).catch(reportError);
     }
   }
 
-  function schedule(name: string, opts: ScheduleOptions & EnqueueOptions): string {
-    const scheduleId = opts?.id ? `schedule:${opts.id}` : `schedule:${randomUUID()}`;
+  /**
+   * Take the lease on `id` and keep renewing it until the returned function
+   * releases it, when the store implements WorkflowLock. Resolves to `null`
+   * if another replica holds it.
+   */
+  async function holdLease(id: string): Promise<(() => Promise<void>) | null> {
+    if (!hasWorkflowLock(store)) return async () => {};
+    const lockStore = store;
+    const lease = await lockStore.tryAcquire(id, { ttlMs: LEASE_TTL_MS });
+    if (!lease) return null;
+    const heartbeat = lockStore.renew
+      ? setInterval(() => {
+          lockStore.renew!(id, lease.ownerToken, { ttlMs: LEASE_TTL_MS }).catch(reportError);
+        }, LEASE_TTL_MS / 3)
+      : undefined;
+    return async () => {
+      clearInterval(heartbeat);
+      await lockStore.release(id, lease.ownerToken).catch(reportError);
+    };
+  }
 
-    if (opts.immediate) {
-      void enqueue(name, opts).catch(e => {
-        try { onError?.(e); } catch { /* ignore */ }
-      });
+  async function loadSchedule(scheduleId: string): Promise<ScheduleRecord | null> {
+    return fromScheduleSnapshot(await store.load(scheduleId));
+  }
+
+  async function saveSchedule(record: ScheduleRecord): Promise<void> {
+    await store.save(record.scheduleId, toScheduleSnapshot(record, clock.now()));
+  }
+
+  async function fireOccurrence(record: ScheduleRecord, at: number): Promise<void> {
+    const scheduledAt = new Date(at).toISOString();
+    const id = await enqueue(record.workflowName, {
+      ...record.enqueue,
+      id: occurrenceId(record, at),
+      metadata: { ...record.enqueue.metadata, scheduleId: record.scheduleId, scheduledAt },
+    });
+    emit({
+      type: "schedule_fired",
+      workflowName: record.workflowName,
+      scheduleId: record.scheduleId,
+      id,
+      scheduledAt,
+      ts: Date.now(),
+    });
+  }
+
+  /**
+   * Enqueue the occurrences of a schedule that have fallen due, applying its
+   * misfire policy. Runs under the schedule's lease and records progress in
+   * the store, so replicas sharing the schedule enqueue each occurrence once.
+   * Returns false when another replica holds the lease.
+   */
+  async function fireDue(scheduleId: string): Promise<boolean> {
+    const leased = await withLease(scheduleId, async () => {
+      const record = await loadSchedule(scheduleId);
+      if (!record || record.paused) return;
+
+      const now = clock.now();
+      const last = Date.parse(record.lastFiredAt ?? record.createdAt);
+      const due = occurrencesBetween(record, last, now, MAX_CATCH_UP);
+      if (due.length === 0) return;
+
+      const policy = record.misfire ?? "run-once";
+      const latest = due[due.length - 1]!;
+      const onTime = now - latest <= (record.misfireGraceMs ?? 60_000);
+      const missed = onTime ? due.length - 1 : due.length;
+      if (missed > 0) {
+        emit({ type: "schedule_misfired", scheduleId, missed, policy, ts: Date.now() });
+      }
+
+      const toFire =
+        policy === "run-all" ? due
+        : policy === "run-once" ? [latest]
+        : onTime ? [latest]
+        : [];
+      for (const at of toFire) {
+        try {
+          await fireOccurrence(record, at);
+        } catch (e) {
+          reportError(e);
+        }
+      }
+
+      await saveSchedule({ ...record, lastFiredAt: new Date(now).toISOString() });
+    });
+    return leased !== undefined;
+  }
+
+  /**
+   * Drive a persisted schedule from `clock`: sleep until its next occurrence,
+   * then fire whatever fell due. The record is re-read on every wake, so a
+   * pause, resume, or removal by any replica takes effect here too.
+   */
+  function driveSchedule(scheduleId: string, ready: Promise<unknown>): void {
+    const controller = new AbortController();
+    let wakeController = new AbortController();
+    const entry: ScheduleEntry = {
+      cancel: () => controller.abort(),
+      wake: () => wakeController.abort(),
+      ready,
+    };
+    schedules.set(scheduleId, entry);
+
+    const sleep = async (ms: number) => {
+      wakeController = new AbortController();
+      await clock.sleep(ms, AbortSignal.any([controller.signal, wakeController.signal]));
+    };
+
+    const loop = async () => {
+      await ready;
+      while (!controller.signal.aborted) {
+        try {
+          const record = await loadSchedule(scheduleId);
+          if (!record) break;
+          const from = Date.parse(record.lastFiredAt ?? record.createdAt);
+          const next = record.paused ? null : nextOccurrence(record, from);
+          if (next === null && !record.paused) break;
+
+          await sleep(next === null ? MAX_SCHEDULE_SLEEP_MS : Math.min(next - clock.now(), MAX_SCHEDULE_SLEEP_MS));
+          if (controller.signal.aborted) break;
+
+          if (next !== null && clock.now() >= next && !(await fireDue(scheduleId))) {
+            await sleep(SCHEDULE_LEASE_RETRY_MS);
+          }
+        } catch (e) {
+          reportError(e);
+          await sleep(SCHEDULE_LEASE_RETRY_MS);
+        }
+      }
+      // A later schedule() call may have replaced this entry; leave that one be.
+      if (schedules.get(scheduleId) === entry) schedules.delete(scheduleId);
+    };
+
+    void loop().catch(reportError);
+  }
+
+  function schedule(name: string, opts: ScheduleOptions & Omit<EnqueueOptions, "runAt" | "delay">): string {
+    if (!workflows[name]) {
+      throw new Error(`Unknown workflow: '${name}'. Registered: ${Object.keys(workflows).join(", ")}`);
     }
+    const scheduleId = opts?.id ? `${SCHEDULE_PREFIX}${opts.id}` : `${SCHEDULE_PREFIX}${randomUUID()}`;
 
-    const interval = setInterval(() => {
-      void enqueue(name, opts).catch(e => {
-        try { onError?.(e); } catch { /* ignore */ }
-      });
-    }, opts.intervalMs);
+    // Parse before anything is persisted so a bad expression fails the call.
+    if (opts.cron !== undefined) parseCron(opts.cron, opts.timezone);
+
+    const created = createScheduleRecord(scheduleId, name, opts, clock.now());
+
+    // Every replica registers its schedules on boot. Re-registering updates
+    // the definition but keeps the stored firing state, and only the replica
+    // that creates the record honours `immediate`.
+    const ready = withLease(scheduleId, async () => {
+      const existing = await loadSchedule(scheduleId);
+      const record: ScheduleRecord = existing
+        ? {
+            ...created,
+            paused: existing.paused,
+            createdAt: existing.createdAt,
+            ...(existing.lastFiredAt !== undefined ? { lastFiredAt: existing.lastFiredAt } : {}),
+          }
+        : created;
+      await saveSchedule(record);
+      if (!existing && opts.immediate) {
+        await fireOccurrence(record, Date.parse(record.createdAt));
+      }
+    }).catch(reportError);
+
+    schedules.get(scheduleId)?.cancel();
+    driveSchedule(scheduleId, ready);
 
-    schedules.set(scheduleId, interval);
-    emit({ type: "schedule_created", workflowName: name, scheduleId, intervalMs: opts.intervalMs, ts: Date.now() });
+    emit({
+      type: "schedule_created",
+      workflowName: name,
+      scheduleId,
+      ...(created.cron !== undefined
+        ? { cron: created.cron, timezone: created.timezone }
+        : { intervalMs: created.intervalMs }),
+      ts: Date.now(),
+    });
     return scheduleId;
   }
 
   function unschedule(scheduleId: string): boolean {
-    const interval = schedules.get(scheduleId);
-    if (!interval) return false;
-    clearInterval(interval);
+    const entry = schedules.get(scheduleId);
+    if (!entry) return false;
+    entry.cancel();
     schedules.delete(scheduleId);
+    void entry.ready.then(() => store.delete(scheduleId)).catch(reportError);
     emit({ type: "schedule_removed", scheduleId, ts: Date.now() });
     return true;
   }
 
+  async function listSchedules(): Promise<ScheduleInfo[]> {
+    const entries = await store.list({ prefix: SCHEDULE_PREFIX, limit: 1000 });
+    const infos: ScheduleInfo[] = [];
+    for (const entry of entries) {
+      const record = await loadSchedule(entry.id);
+      if (record) infos.push(toScheduleInfo(record));
+    }
+    return infos;
+  }
+
+  /**
+   * Apply `update` to a stored schedule under its lease, retrying briefly
+   * while a replica is firing it. Returns false if the schedule does not exist.
+   */
+  async function updateSchedule(
+    scheduleId: string,
+    update: (record: ScheduleRecord) => ScheduleRecord
+  ): Promise<boolean> {
+    await schedules.get(scheduleId)?.ready;
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const leased = await withLease(scheduleId, async () => {
+        const record = await loadSchedule(scheduleId);
+        if (!record) return false;
+        await saveSchedule(update(record));
+        return true;
+      });
+      if (leased) {
+        schedules.get(scheduleId)?.wake();
+        return leased.value;
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    throw new Error(`Schedule '${scheduleId}' is locked by another engine; try again.`);
+  }
+
+  async function pauseSchedule(scheduleId: string): Promise<boolean> {
+    const found = await updateSchedule(scheduleId, (record) => ({ ...record, paused: true }));
+    if (found) emit({ type: "schedule_paused", scheduleId, ts: Date.now() });
+    return found;
+  }
+
+  async function resumeSchedule(scheduleId: string): Promise<boolean> {
+    const found = await updateSchedule(scheduleId, (record) =>
+      record.paused
+        ? { ...record, paused: false, lastFiredAt: new Date(clock.now()).toISOString() }
+        : record
+    );
+    if (found) emit({ type: "schedule_resumed", scheduleId, ts: Date.now() });
+    return found;
+  }
+
+  /** Pick up schedules persisted by earlier processes or other replicas. */
+  async function restoreSchedules(): Promise<void> {
+    const entries = await store.list({ prefix: SCHEDULE_PREFIX, limit: 1000 });
+    for (const entry of entries) {
+      if (!running || schedules.has(entry.id)) continue;
+      const record = await loadSchedule(entry.id);
+      if (record && workflows[record.workflowName]) {
+        driveSchedule(entry.id, Promise.resolve());
+      }
+    }
+  }
+
   function start(pollIntervalMs = 1000): void {
     if (running) return;
     running = true;
     emit({ type: "engine_start", ts: Date.now() });
 
+    void restoreSchedules().catch(reportError);
+
+    // Runs left "processing" by a crashed worker are recovered before the first tick
+    void recoverStale().catch(reportError);
+    recoveryTimer = setInterval(() => {
+      void recoverStale().catch(reportError);
+    }, recoveryIntervalMs);
+
     // Run first tick immediately
     void tick().catch(e => {
       try { onError?.(e); } catch { /* ignore */ }
@@ -220,34 +989,85 @@ export function createEngine(options: EngineOptions): Engine {
     }, pollIntervalMs);
   }
 
-  async function stop(): Promise<void> {
+  async function stop(opts?: StopOptions): Promise<void> {
     if (!running) return;
     running = false;
+    draining = true;
 
     // Clear poll timer
     if (pollTimer) {
       clearInterval(pollTimer);
       pollTimer = undefined;
     }
+    if (recoveryTimer) {
+      clearInterval(recoveryTimer);
+      recoveryTimer = undefined;
+    }
 
-    // Clear all schedules
-    for (const [id, interval] of schedules) {
-      clearInterval(interval);
+    // Stop driving schedules here; they stay in the store for the next start()
+    for (const [id, entry] of schedules) {
+      entry.cancel();
       schedules.delete(id);
     }
 
-    // Wait for in-flight tick to complete
-    while (tickInFlight) {
-      await new Promise(resolve => setTimeout(resolve, 50));
+    const inFlight = [...activeRuns.keys()];
+    emit({ type: "engine_draining", inFlight: inFlight.length, ts: Date.now() });
+
+    let aborted = 0;
+    let remaining = 0;
+    if (tickInFlight) {
+      const drained = await drain(tickInFlight, opts?.drainTimeoutMs);
+      if (!drained && opts?.abortInFlight !== false) {
+        interrupting = true;
+        aborted = activeRuns.size;
+        for (const controller of activeRuns.values()) controller.abort(SHUTDOWN);
+        await tickInFlight?.catch(() => undefined);
+      } else if (!drained) {
+        remaining = activeRuns.size;
+      }
     }
 
+    draining = false;
+    interrupting = false;
+    emit({
+      type: "engine_stopped",
+      drained: inFlight.length - aborted - remaining,
+      aborted,
+      remaining,
+      ts: Date.now(),
+    });
     emit({ type: "engine_stop", ts: Date.now() });
   }
 
+  /** Wait for the in-flight tick, up to `timeoutMs` on the engine's clock. Resolves true if it settled. */
+  async function drain(inFlightTick: Promise<number>, timeoutMs: number | undefined): Promise<boolean> {
+    const settled = inFlightTick.then(() => true, () => true);
+    if (timeoutMs === undefined) return settled;
+    const controller = new AbortController();
+    const timedOut = clock.sleep(timeoutMs, controller.signal).then(() => false, () => false);
+    try {
+      return await Promise.race([settled, timedOut]);
+    } finally {
+      controller.abort();
+    }
+  }
+
   return {
     enqueue,
     schedule,
     unschedule,
+    listSchedules,
+    pauseSchedule,
+    resumeSchedule,
+    listDeadLetters,
+    requeue,
+    discard,
+    getRun,
+    listRuns,
+    signal,
+    query,
+    cancel,
+    recoverStale,
     start,
     stop,
     tick,
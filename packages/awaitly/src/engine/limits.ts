@@ -0,0 +1,107 @@
+/**
+ * Per-workflow admission for claimed runs, built on the rate-limiter module.
+ *
+ * Limiters use the `"reject"` strategy: a run that cannot start now is handed
+ * back to the queue rather than held `"processing"` while it waits, so it
+ * never blocks other workflows' runs in the same tick.
+ */
+
+import {
+  createConcurrencyLimiter,
+  createRateLimiter,
+  isRateLimitExceededError,
+  type ConcurrencyLimiter,
+  type RateLimiter,
+} from "../rate-limiter";
+import type { WorkflowRegistration } from "./types";
+
+/**
+ * Wait before a run over its concurrency limit is due again. No slot frees at
+ * a known time, so this paces re-claims instead of handing the run straight
+ * back to the next tick.
+ */
+const CONCURRENCY_RETRY_MS = 1000;
+
+/** Shortest wait before a rate-limited run is due again. */
+const MIN_RATE_RETRY_MS = 50;
+
+/** Why a claimed run was handed back, and how long to wait before it is due again. */
+export interface Throttle {
+  reason: "concurrency" | "rate_limit";
+  retryAfterMs: number;
+}
+
+export interface RunLimits {
+  /**
+   * Run `fn` if the workflow's limits admit it, holding its concurrency slot
+   * until `fn` settles.
+   */
+  run<T>(
+    workflowName: string,
+    input: unknown,
+    fn: () => Promise<T>
+  ): Promise<{ value: T } | { throttle: Throttle }>;
+}
+
+export function createRunLimits(workflows: Record<string, WorkflowRegistration>): RunLimits {
+  // One concurrency limiter per workflow and key, dropped again once idle.
+  const slots = new Map<string, ConcurrencyLimiter>();
+  const rates = new Map<string, RateLimiter>();
+
+  function slotName(workflowName: string, input: unknown): string | undefined {
+    const concurrency = workflows[workflowName]?.concurrency;
+    if (concurrency === undefined) return undefined;
+    const key = typeof concurrency === "number" ? undefined : concurrency.key?.(input);
+    return `${workflowName}:${key ?? "*"}`;
+  }
+
+  function slotFor(workflowName: string, name: string): ConcurrencyLimiter {
+    let limiter = slots.get(name);
+    if (!limiter) {
+      const concurrency = workflows[workflowName]!.concurrency!;
+      const maxConcurrent = typeof concurrency === "number" ? concurrency : concurrency.maxConcurrent;
+      limiter = createConcurrencyLimiter(name, { maxConcurrent, strategy: "reject" });
+      slots.set(name, limiter);
+    }
+    return limiter;
+  }
+
+  function rateFor(workflowName: string): RateLimiter | undefined {
+    const rateLimit = workflows[workflowName]?.rateLimit;
+    if (rateLimit === undefined) return undefined;
+    let limiter = rates.get(workflowName);
+    if (!limiter) {
+      limiter = createRateLimiter(workflowName, { ...rateLimit, strategy: "reject" });
+      rates.set(workflowName, limiter);
+    }
+    return limiter;
+  }
+
+  return {
+    async run(workflowName, input, fn) {
+      const name = slotName(workflowName, input);
+      const slot = name === undefined ? undefined : slotFor(workflowName, name);
+      const rate = rateFor(workflowName);
+      let admitted = false;
+      const admit = async () => {
+        const start = async () => {
+          admitted = true;
+          return fn();
+        };
+        return rate ? rate.execute(start) : start();
+      };
+
+      try {
+        return { value: await (slot ? slot.execute(admit) : admit()) };
+      } catch (error) {
+        if (admitted) throw error;
+        if (isRateLimitExceededError(error)) {
+          return { throttle: { reason: "rate_limit", retryAfterMs: Math.max(error.retryAfterMs ?? 0, MIN_RATE_RETRY_MS) } };
+        }
+        return { throttle: { reason: "concurrency", retryAfterMs: CONCURRENCY_RETRY_MS } };
+      } finally {
+        if (name !== undefined && slot?.getStats().activeCount === 0) slots.delete(name);
+      }
+    },
+  };
+}
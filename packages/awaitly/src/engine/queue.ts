@@ -0,0 +1,55 @@
+/**
+ * How the engine reaches its queue: a store's own {@link QueueStore}
+ * capability when it has one, otherwise list-then-load over the snapshot store.
+ */
+
+import { dueQueuedRuns, type QueueStore, type SnapshotStore, type WorkflowSnapshot } from "../persistence";
+
+/**
+ * Check if a store implements the optional QueueStore interface.
+ */
+export function hasQueueStore(store: SnapshotStore): store is SnapshotStore & QueueStore {
+  return (
+    typeof (store as SnapshotStore & QueueStore).claimNext === "function" &&
+    typeof (store as SnapshotStore & QueueStore).markDone === "function" &&
+    typeof (store as SnapshotStore & QueueStore).markFailed === "function"
+  );
+}
+
+async function setEngineState(store: SnapshotStore, id: string, engineState: string): Promise<void> {
+  const snapshot = await store.load(id);
+  if (!snapshot) return;
+  await store.save(id, { ...snapshot, metadata: { ...snapshot.metadata, engineState } });
+}
+
+/**
+ * Queue for stores without the capability. It only sees queued runs among
+ * the `scanLimit` most recently updated snapshots, and claiming is not atomic
+ * across processes — adapters should implement QueueStore instead.
+ */
+export function listQueue(store: SnapshotStore, scanLimit: number): QueueStore {
+  return {
+    async claimNext(limit, options) {
+      const entries = await store.list({ limit: scanLimit });
+      const loaded: Array<{ id: string; snapshot: WorkflowSnapshot }> = [];
+      for (const entry of entries) {
+        const snapshot = await store.load(entry.id);
+        if (snapshot && typeof snapshot.metadata?.workflowName === "string") {
+          loaded.push({ id: entry.id, snapshot });
+        }
+      }
+      const claimed: Array<{ id: string; snapshot: WorkflowSnapshot }> = [];
+      for (const { id, snapshot } of dueQueuedRuns(loaded, options?.now ?? Date.now(), options?.workflowNames).slice(0, limit)) {
+        const processing: WorkflowSnapshot = {
+          ...snapshot,
+          metadata: { ...snapshot.metadata, engineState: "processing" },
+        };
+        await store.save(id, processing);
+        claimed.push({ id, snapshot: processing });
+      }
+      return claimed;
+    },
+    markDone: (id) => setEngineState(store, id, "done"),
+    markFailed: (id) => setEngineState(store, id, "failed"),
+  };
+}
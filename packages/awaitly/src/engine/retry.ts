@@ -0,0 +1,77 @@
+/**
+ * Engine-level retries and dead letters.
+ *
+ * A failed run goes back to `"queued"` with a later `runAt` while its
+ * registration's retry policy allows another attempt, and is otherwise parked
+ * as `"failed"` — the dead-letter state — with the attempt count and last
+ * error in its metadata. Either way its completed steps stay in the snapshot,
+ * so the next attempt resumes where the last one stopped.
+ */
+
+import { calculateRetryDelay, type RetryOptions } from "../core";
+import { isRetryableResultFailure } from "../errors";
+import {
+  serializeError,
+  serializeThrown,
+  type SerializedCause,
+  type WorkflowSnapshot,
+} from "../persistence";
+import type { DeadLetter } from "./types";
+
+/** `metadata.engineState` of a dead-lettered run. */
+export const DEAD_LETTER_STATE = "failed";
+
+/** Attempts already made for a run, from its metadata. */
+export function attemptsMade(snapshot: WorkflowSnapshot): number {
+  const attempts = snapshot.metadata?.attempts;
+  return typeof attempts === "number" ? attempts : 0;
+}
+
+/**
+ * Milliseconds to wait before the next attempt, or `undefined` when the
+ * policy is exhausted or declines to retry `error`.
+ */
+export function retryDelay(
+  retry: RetryOptions | undefined,
+  error: unknown,
+  attempt: number
+): number | undefined {
+  if (!retry || attempt >= retry.attempts) return undefined;
+  const shouldRetry = retry.shouldRetry ?? retry.retryIf ?? isRetryableResultFailure;
+  if (!shouldRetry(error, attempt)) return undefined;
+  return calculateRetryDelay(attempt, {
+    backoff: retry.backoff ?? "exponential",
+    initialDelay: retry.initialDelay ?? retry.delay ?? 100,
+    maxDelay: retry.maxDelay ?? 30_000,
+    jitter: retry.jitter ?? true,
+  });
+}
+
+/**
+ * Drop failed step results so the next attempt re-executes those steps;
+ * durable.run would otherwise replay the recorded failure.
+ */
+export function withoutFailedSteps(snapshot: WorkflowSnapshot): WorkflowSnapshot {
+  const steps = Object.fromEntries(Object.entries(snapshot.steps).filter(([, result]) => result.ok));
+  return { ...snapshot, steps };
+}
+
+export function serializeFailure(error: unknown): SerializedCause {
+  return error instanceof Error ? serializeError(error) : serializeThrown(error);
+}
+
+export function toDeadLetter(id: string, snapshot: WorkflowSnapshot | null): DeadLetter | null {
+  const metadata = snapshot?.metadata;
+  if (metadata?.engineState !== DEAD_LETTER_STATE || typeof metadata.workflowName !== "string") {
+    return null;
+  }
+  return {
+    id,
+    workflowName: metadata.workflowName,
+    attempts: attemptsMade(snapshot!),
+    error: (metadata.lastError ?? serializeThrown(undefined)) as SerializedCause,
+    ...(metadata.input !== undefined && metadata.input !== null ? { input: metadata.input } : {}),
+    ...(typeof metadata.enqueuedAt === "string" ? { enqueuedAt: metadata.enqueuedAt } : {}),
+    failedAt: typeof metadata.failedAt === "string" ? metadata.failedAt : snapshot!.execution.lastUpdated,
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Read-side views of engine runs for operators: what a stored run is doing,
+ * and paging over them.
+ */
+
+import {
+  hasSnapshotQuery,
+  querySnapshots,
+  type SerializedCause,
+  type SnapshotQueryOptions,
+  type SnapshotStore,
+  type WorkflowSnapshot,
+} from "../persistence";
+import { PARENT_KEY } from "./children";
+import type { RunInfo, RunState } from "./types";
+
+const RUN_STATES: ReadonlySet<string> = new Set<RunState>([
+  "queued",
+  "processing",
+  "suspended",
+  "done",
+  "failed",
+  "cancelled",
+]);
+
+const str = (value: unknown): string | undefined => (typeof value === "string" ? value : undefined);
+
+export function toRunInfo(id: string, snapshot: WorkflowSnapshot | null): RunInfo | null {
+  const metadata = snapshot?.metadata;
+  const workflowName = metadata?.workflowName;
+  const state = metadata?.engineState;
+  if (typeof workflowName !== "string" || typeof state !== "string" || !RUN_STATES.has(state)) {
+    return null;
+  }
+
+  const optional = {
+    currentStep: snapshot!.execution.currentStepId,
+    parentId: str(metadata![PARENT_KEY]),
+    enqueuedAt: str(metadata!.enqueuedAt),
+    runAt: str(metadata!.runAt),
+    failedAt: str(metadata!.failedAt),
+    cancelledAt: str(metadata!.cancelledAt),
+    error: metadata!.lastError as SerializedCause | undefined,
+    input: metadata!.input ?? undefined,
+  };
+  return {
+    id,
+    workflowName,
+    state: state as RunState,
+    attempts: typeof metadata!.attempts === "number" ? metadata!.attempts : 0,
+    priority: typeof metadata!.priority === "number" ? metadata!.priority : 0,
+    completedSteps: Object.values(snapshot!.steps).filter(step => step.ok).length,
+    updatedAt: snapshot!.execution.lastUpdated,
+    ...Object.fromEntries(Object.entries(optional).filter(([, value]) => value !== undefined)),
+  };
+}
+
+/** Page size used when {@link scanSnapshots} walks a store's query index. */
+const SCAN_PAGE_SIZE = 100;
+
+/**
+ * Every snapshot matching `options`, most recently updated first, continuing
+ * after `options.cursor` when given. A {@link SnapshotQuery} store is paged
+ * through its own index. Any other store cannot page, so like
+ * {@link querySnapshots} only its most recent 1000 ids are scanned: runs
+ * behind those are reached on stores that implement `query`.
+ */
+export async function* scanSnapshots(
+  store: SnapshotStore,
+  options: Omit<SnapshotQueryOptions, "limit">
+): AsyncGenerator<{ id: string; updatedAt: string }> {
+  if (!hasSnapshotQuery(store)) {
+    yield* (await querySnapshots(store, { ...options, limit: Number.POSITIVE_INFINITY })).entries;
+    return;
+  }
+
+  let cursor = options.cursor;
+  do {
+    const page = await store.query({ ...options, ...(cursor !== undefined ? { cursor } : {}), limit: SCAN_PAGE_SIZE });
+    yield* page.entries;
+    cursor = page.nextCursor;
+  } while (cursor !== undefined);
+}
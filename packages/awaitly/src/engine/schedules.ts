@@ -0,0 +1,143 @@
+/**
+ * Persisted engine schedules.
+ *
+ * A schedule is stored in the engine's SnapshotStore as an ordinary
+ * WorkflowSnapshot under its schedule id, with the definition and firing
+ * state in `metadata.schedule`. `metadata.engineState` is `"schedule"`, so
+ * `tick()` never mistakes one for a queued run.
+ */
+
+import type { JSONValue, WorkflowSnapshot } from "../persistence";
+import { cronTimesBetween, nextCronTime, parseCron, type CronSpec } from "./cron";
+import type { EnqueueOptions, MisfirePolicy, ScheduleInfo, ScheduleOptions } from "./types";
+
+/** Store id prefix for schedule records. */
+export const SCHEDULE_PREFIX = "schedule:";
+
+/** The definition and firing state kept in `metadata.schedule`. */
+export interface ScheduleRecord {
+  scheduleId: string;
+  workflowName: string;
+  intervalMs?: number;
+  cron?: string;
+  timezone?: string;
+  misfire?: MisfirePolicy;
+  misfireGraceMs?: number;
+  /** Enqueue options applied to every occurrence. */
+  enqueue: Pick<EnqueueOptions, "id" | "idempotencyKey" | "input" | "metadata" | "priority">;
+  paused: boolean;
+  /** ISO timestamp; interval occurrences are counted from here. */
+  createdAt: string;
+  /** ISO timestamp of the last time due occurrences were processed. */
+  lastFiredAt?: string;
+}
+
+export function createScheduleRecord(
+  scheduleId: string,
+  workflowName: string,
+  opts: ScheduleOptions & Omit<EnqueueOptions, "runAt" | "delay">,
+  now: number
+): ScheduleRecord {
+  return {
+    scheduleId,
+    workflowName,
+    ...(opts.intervalMs !== undefined ? { intervalMs: opts.intervalMs } : {}),
+    ...(opts.cron !== undefined ? { cron: opts.cron, timezone: opts.timezone ?? "UTC" } : {}),
+    ...(opts.misfire !== undefined ? { misfire: opts.misfire } : {}),
+    ...(opts.misfireGraceMs !== undefined ? { misfireGraceMs: opts.misfireGraceMs } : {}),
+    enqueue: {
+      ...(opts.id !== undefined ? { id: opts.id } : {}),
+      ...(opts.idempotencyKey !== undefined ? { idempotencyKey: opts.idempotencyKey } : {}),
+      ...(opts.input !== undefined ? { input: opts.input } : {}),
+      ...(opts.metadata !== undefined ? { metadata: opts.metadata } : {}),
+      ...(opts.priority !== undefined ? { priority: opts.priority } : {}),
+    },
+    paused: false,
+    createdAt: new Date(now).toISOString(),
+  };
+}
+
+export function toScheduleSnapshot(record: ScheduleRecord, now: number): WorkflowSnapshot {
+  return {
+    formatVersion: 1,
+    workflowName: record.workflowName,
+    steps: {},
+    execution: {
+      status: "running",
+      lastUpdated: new Date(now).toISOString(),
+    },
+    metadata: {
+      engineState: "schedule",
+      workflowName: record.workflowName,
+      schedule: record as unknown as JSONValue,
+    },
+  };
+}
+
+export function fromScheduleSnapshot(snapshot: WorkflowSnapshot | null): ScheduleRecord | null {
+  if (snapshot?.metadata?.engineState !== "schedule") return null;
+  const record = snapshot.metadata.schedule;
+  if (typeof record !== "object" || record === null || Array.isArray(record)) return null;
+  return record as unknown as ScheduleRecord;
+}
+
+const specs = new Map<string, CronSpec>();
+
+function cronSpec(record: ScheduleRecord): CronSpec {
+  const key = `${record.cron}\u0000${record.timezone}`;
+  let spec = specs.get(key);
+  if (!spec) {
+    spec = parseCron(record.cron!, record.timezone);
+    specs.set(key, spec);
+  }
+  return spec;
+}
+
+/** First occurrence strictly after `after`, or `null` if there is none. */
+export function nextOccurrence(record: ScheduleRecord, after: number): number | null {
+  if (record.cron !== undefined) return nextCronTime(cronSpec(record), after);
+  const interval = record.intervalMs!;
+  const anchor = Date.parse(record.createdAt);
+  if (after < anchor) return anchor + interval;
+  return anchor + (Math.floor((after - anchor) / interval) + 1) * interval;
+}
+
+/** Occurrences in `(after, until]`, oldest first, capped at `limit`. */
+export function occurrencesBetween(
+  record: ScheduleRecord,
+  after: number,
+  until: number,
+  limit: number
+): number[] {
+  if (record.cron !== undefined) return cronTimesBetween(cronSpec(record), after, until, limit);
+  const times: number[] = [];
+  let next = nextOccurrence(record, after);
+  while (next !== null && next <= until && times.length < limit) {
+    times.push(next);
+    next = nextOccurrence(record, next);
+  }
+  return times;
+}
+
+/** Store id of the run enqueued for one occurrence — the same on every replica. */
+export function occurrenceId(record: ScheduleRecord, at: number): string {
+  const base =
+    record.enqueue.id ??
+    `${record.workflowName}:${record.scheduleId.slice(SCHEDULE_PREFIX.length)}`;
+  return `${base}:${new Date(at).toISOString()}`;
+}
+
+export function toScheduleInfo(record: ScheduleRecord): ScheduleInfo {
+  const from = record.lastFiredAt ? Date.parse(record.lastFiredAt) : Date.parse(record.createdAt);
+  const next = record.paused ? null : nextOccurrence(record, from);
+  return {
+    scheduleId: record.scheduleId,
+    workflowName: record.workflowName,
+    ...(record.intervalMs !== undefined ? { intervalMs: record.intervalMs } : {}),
+    ...(record.cron !== undefined ? { cron: record.cron, timezone: record.timezone } : {}),
+    paused: record.paused,
+    createdAt: record.createdAt,
+    ...(record.lastFiredAt !== undefined ? { lastFiredAt: record.lastFiredAt } : {}),
+    ...(next !== null ? { nextRunAt: new Date(next).toISOString() } : {}),
+  };
+}
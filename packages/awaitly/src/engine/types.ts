@@ -1,7 +1,19 @@
-import type { SnapshotStore } from "../persistence";
-import type { AnyResultFn, WorkflowContext } from "../workflow/types";
-import type { RunStep } from "../core";
-import type { DurableOptions } from "../durable";
+import type { JSONValue, SerializedCause, SnapshotStore, WorkflowSnapshot } from "../persistence";
+import type { Migrations } from "../versioning";
+import type { AnyResultFn, ErrorsOfDeps, WorkflowCancelledError } from "../workflow/types";
+import type { UnexpectedError } from "../errors";
+import type { Result, RetryOptions } from "../core";
+import type {
+  DurableContext,
+  DurableStep,
+  DurableOptions,
+  PersistenceError,
+  QueryFailedError,
+  WorkflowSuspendedError,
+} from "../durable";
+import type { Clock } from "../clock";
+import type { DurationInput } from "../cache";
+import type { RateLimiterConfig } from "../rate-limiter";
 
 /** A registered workflow definition */
 export interface WorkflowRegistration<
@@ -11,9 +23,139 @@ export interface WorkflowRegistration<
   deps: Deps;
   /** Workflow function */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  fn: (context: { step: RunStep<any>; deps: Deps; ctx: WorkflowContext }) => any;
+  fn: (context: { step: EngineStep; deps: Deps; ctx: DurableContext }) => any;
   /** Default durable options (version, lockTtlMs, etc.) */
-  durableDefaults?: Partial<Pick<DurableOptions, 'version' | 'lockTtlMs' | 'heartbeatIntervalMs'>>;
+  durableDefaults?: Partial<Pick<DurableOptions, 'version' | 'lockTtlMs' | 'heartbeatIntervalMs' | 'durableSleepMs' | 'offload'>>;
+  /**
+   * Migrations for runs stored at an older `durableDefaults.version`, keyed by
+   * the version they upgrade from. A run that fails to migrate fails with
+   * `DurableMigrationError`. See `DurableOptions.migrations`.
+   */
+  migrations?: Migrations<WorkflowSnapshot>;
+  /**
+   * Re-queue failed runs with backoff before dead-lettering them. Each attempt
+   * resumes from the run's last completed step. Delays are measured on the
+   * engine's clock (`clock` here is ignored); `shouldRetry` defaults to
+   * retrying every error except `UnexpectedError`. Without a policy a failed
+   * run is dead-lettered straight away.
+   */
+  retry?: RetryOptions;
+  /**
+   * Most runs of this workflow an engine executes at once, or at once per
+   * `key(input)` (e.g. `{ maxConcurrent: 1, key: (input) => input.customerId }`).
+   * A claimed run over the limit goes back to the queue. Enforced per engine
+   * process, within the engine-wide `concurrency`.
+   */
+  concurrency?: number | { maxConcurrent: number; key?: (input: unknown) => string | undefined };
+  /**
+   * Token-bucket limit on how often runs of this workflow start, per engine
+   * process. A claimed run over the limit goes back to the queue until a
+   * token is due.
+   */
+  rateLimit?: Pick<RateLimiterConfig, "maxPerSecond" | "burstCapacity">;
+}
+
+/** Options for `step.child()`. */
+export type ChildOptions = Pick<EnqueueOptions, "delay" | "priority" | "metadata">;
+
+/** What runs of a registered workflow resolve with. */
+export type WorkflowValue<W> = W extends { fn: (...args: never[]) => infer R } ? Awaited<R> : unknown;
+
+/**
+ * What runs of a registered workflow can fail with: its deps' errors, an
+ * `UnexpectedError` when it throws, and `WORKFLOW_CANCELLED` when cancelled.
+ */
+export type WorkflowErrors<W> = W extends { deps: infer Deps extends Readonly<Record<string, AnyResultFn>> }
+  ? ErrorsOfDeps<Deps> | UnexpectedError | WorkflowCancelledError
+  : unknown;
+
+/** `step` as passed to a registered workflow's `fn`: {@link DurableStep} plus `child()`. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type EngineStep = DurableStep<any> & {
+  /**
+   * Start the registered workflow `workflowName` as a child run and wait for
+   * its result: `ok` with its value, or `err` with what it failed with.
+   *
+   * The child is enqueued under `<parentId>/<id>` and runs like any other run,
+   * with its own retry policy and limits. The child id is recorded in this
+   * run's snapshot, so a resumed parent waits on the same child instead of
+   * starting another one. While the child runs, this run goes back to the
+   * queue and frees its worker; the child's completion wakes it.
+   *
+   * A dead-lettered child resolves to `err` with the child's error, a
+   * cancelled one to `err` with `WORKFLOW_CANCELLED` (see
+   * {@link WorkflowErrors}). Cancelling this run cancels its children.
+   *
+   * @example
+   * ```typescript
+   * const charged = await step.child<typeof chargeCard>("charge", "chargeCard", { orderId });
+   * // Fail this run with the child's error, or go on with its value
+   * const receipt = await step("receipt", () => charged);
+   * ```
+   */
+  child<W extends WorkflowRegistration = WorkflowRegistration>(
+    id: string,
+    workflowName: string,
+    input?: unknown,
+    options?: ChildOptions
+  ): Promise<Result<WorkflowValue<W>, WorkflowErrors<W>>>;
+};
+
+/**
+ * Where a run is in the engine. A `"suspended"` run waits for a signal and is
+ * re-queued by `signal()`. Completed runs are normally gone: durable.run
+ * deletes their snapshot, so `"done"` is only seen for a child whose parent
+ * has not read its result yet, or when the store keeps it.
+ */
+export type RunState = "queued" | "processing" | "suspended" | "done" | "failed" | "cancelled";
+
+/** What a stored run is doing, from its snapshot. */
+export interface RunInfo {
+  id: string;
+  workflowName: string;
+  state: RunState;
+  /** Failed attempts so far */
+  attempts: number;
+  priority: number;
+  /** Steps with a recorded successful result */
+  completedSteps: number;
+  /** Key of the step the run last reached */
+  currentStep?: string;
+  /** The run that started this one with `step.child()` */
+  parentId?: string;
+  input?: JSONValue;
+  enqueuedAt?: string;
+  /** When the run becomes (or became) claimable */
+  runAt?: string;
+  /** ISO timestamp of the last write to the run's snapshot */
+  updatedAt: string;
+  failedAt?: string;
+  cancelledAt?: string;
+  /** The error from the last failed attempt */
+  error?: SerializedCause;
+}
+
+export interface ListRunsOptions {
+  workflowName?: string;
+  state?: RunState | RunState[];
+  /** Page size (default: 100) */
+  limit?: number;
+  /** `nextCursor` from the previous page */
+  cursor?: string;
+}
+
+/** A run parked after its last failed attempt. */
+export interface DeadLetter {
+  id: string;
+  workflowName: string;
+  /** Attempts made, including the last one */
+  attempts: number;
+  /** The error from the last attempt */
+  error: SerializedCause;
+  input?: JSONValue;
+  enqueuedAt?: string;
+  /** ISO timestamp of the last failure */
+  failedAt: string;
 }
 
 export interface EnqueueOptions {
@@ -25,15 +167,87 @@ export interface EnqueueOptions {
   input?: unknown;
   /** Custom metadata */
   metadata?: Record<string, unknown>;
+  /** Earliest time the run may start (default: now). Mutually exclusive with `delay`. */
+  runAt?: Date | number;
+  /**
+   * Wait this long before the run may start, e.g. `"15m"` or `minutes(15)`.
+   * Mutually exclusive with `runAt`.
+   */
+  delay?: DurationInput;
+  /**
+   * Runs with a higher priority are claimed first; equal priorities run in
+   * `runAt` order (default: 0). Negative values sink below the default.
+   */
+  priority?: number;
 }
 
-export interface ScheduleOptions {
-  /** Repeat interval in milliseconds */
+/**
+ * What a cron schedule does with occurrences it missed (engine stopped, process
+ * suspended, event loop blocked):
+ * - `"skip"`: drop them; only an occurrence within `misfireGraceMs` still runs.
+ * - `"run-once"`: enqueue a single run for the latest missed occurrence.
+ * - `"run-all"`: enqueue one run per missed occurrence, oldest first.
+ */
+export type MisfirePolicy = "skip" | "run-once" | "run-all";
+
+export interface IntervalScheduleOptions {
+  /** Repeat interval in milliseconds, counted from when the schedule was first created */
   intervalMs: number;
+  cron?: never;
+  timezone?: never;
+  /** Handling for occurrences missed while the schedule could not fire (default: `"run-once"`). */
+  misfire?: MisfirePolicy;
+  /** How late an occurrence may fire and still count as on time (default: 60000). */
+  misfireGraceMs?: number;
+  /** Run immediately on schedule creation */
+  immediate?: boolean;
+}
+
+export interface CronScheduleOptions {
+  /**
+   * Cron expression: 5 fields (`minute hour day-of-month month day-of-week`),
+   * or 6 with a leading seconds field. Macros such as `@daily` are accepted.
+   *
+   * @example '0 2 * * *' (nightly at 02:00), '0 9 * * MON-FRI' (weekdays at 09:00)
+   */
+  cron: string;
+  /** IANA timezone the expression is evaluated in (default: `"UTC"`). */
+  timezone?: string;
+  /** Handling for occurrences missed while the schedule could not fire (default: `"run-once"`). */
+  misfire?: MisfirePolicy;
+  /** How late an occurrence may fire and still count as on time (default: 60000). */
+  misfireGraceMs?: number;
+  intervalMs?: never;
   /** Run immediately on schedule creation */
   immediate?: boolean;
 }
 
+/**
+ * Options for `engine.schedule()`.
+ *
+ * Schedules are persisted in the engine's store, so they survive restarts and
+ * are picked up by `start()` on any replica. Pass `id` to get a stable
+ * schedule id: replicas registering the same `id` share one schedule, and when
+ * the store implements `WorkflowLock` each occurrence is enqueued exactly once.
+ */
+export type ScheduleOptions = IntervalScheduleOptions | CronScheduleOptions;
+
+/** A persisted schedule, as returned by `engine.listSchedules()`. */
+export interface ScheduleInfo {
+  scheduleId: string;
+  workflowName: string;
+  intervalMs?: number;
+  cron?: string;
+  timezone?: string;
+  paused: boolean;
+  /** ISO timestamp */
+  createdAt: string;
+  /** ISO timestamp of the last time due occurrences were processed */
+  lastFiredAt?: string;
+  /** ISO timestamp of the next occurrence (absent while paused) */
+  nextRunAt?: string;
+}
+
 export interface EngineOptions {
   /** Snapshot store for workflow persistence */
   store: SnapshotStore;
@@ -47,30 +261,132 @@ export interface EngineOptions {
   onError?: (error: unknown) => void;
   /** Disable automatic OpenTelemetry spans for this engine. */
   telemetry?: boolean | undefined;
+  /** Time source for schedules. Defaults to the system clock; pass `createTestClock()` in tests. */
+  clock?: Clock | undefined;
+  /**
+   * A `"processing"` run whose snapshot has not been written for this long is
+   * treated as abandoned by a crashed worker and re-queued (default: 5 minutes).
+   * On a store without WorkflowLock this is the only signal, so keep it above
+   * your longest step; with a lock, a run whose lease is still held is left alone.
+   * A store without SnapshotQuery is only checked through its most recent
+   * 1000 snapshots, so use one that implements `query` for recovery at scale.
+   */
+  staleAfterMs?: number | undefined;
+  /** How often a started engine looks for stale runs (default: 60000) */
+  recoveryIntervalMs?: number | undefined;
+}
+
+/** Options for `engine.stop()`. */
+export interface StopOptions {
+  /**
+   * How long to wait for in-flight runs to finish (default: until they do).
+   * Measured on the engine's clock.
+   */
+  drainTimeoutMs?: number;
+  /**
+   * Abort runs still in flight when `drainTimeoutMs` passes (default: true).
+   * durable.run stops at the next step boundary with its state saved up to
+   * the last completed step, and the run goes back to the queue so another
+   * engine resumes it. With `false`, `stop()` returns and leaves them running.
+   */
+  abortInFlight?: boolean;
 }
 
 export type EngineEvent =
   | { type: "engine_start"; ts: number }
+  /** @deprecated Use `engine_stopped`, which carries drain counts. */
   | { type: "engine_stop"; ts: number }
+  | { type: "engine_draining"; inFlight: number; ts: number }
+  | { type: "engine_stopped"; drained: number; aborted: number; remaining: number; ts: number }
   | { type: "engine_tick"; ts: number; processed: number }
-  | { type: "workflow_enqueued"; workflowName: string; id: string; ts: number }
+  | { type: "workflow_enqueued"; workflowName: string; id: string; runAt: string; priority: number; ts: number }
   | { type: "workflow_started"; workflowName: string; id: string; ts: number }
+  /** `runAt` is absent for a signal wait without a timeout. */
+  | { type: "workflow_suspended"; workflowName: string; id: string; reason: WorkflowSuspendedError["reason"]; runAt?: string; ts: number }
+  /** The run called `step.continueAsNew()`; it goes on under `successorId` and is due at once. */
+  | { type: "workflow_continued_as_new"; workflowName: string; id: string; successorId: string; ts: number }
+  | { type: "workflow_waiting"; workflowName: string; id: string; childId: string; runAt: string; ts: number }
+  | { type: "workflow_throttled"; workflowName: string; id: string; reason: "concurrency" | "rate_limit"; runAt: string; ts: number }
   | { type: "workflow_completed"; workflowName: string; id: string; ts: number }
-  | { type: "workflow_failed"; workflowName: string; id: string; error: unknown; ts: number }
-  | { type: "schedule_created"; workflowName: string; scheduleId: string; intervalMs: number; ts: number }
+  | { type: "workflow_failed"; workflowName: string; id: string; error: unknown; attempt: number; ts: number }
+  | { type: "workflow_retrying"; workflowName: string; id: string; attempt: number; delayMs: number; runAt: string; ts: number }
+  | { type: "workflow_dead_lettered"; workflowName: string; id: string; attempts: number; ts: number }
+  | { type: "workflow_requeued"; workflowName: string; id: string; ts: number }
+  | { type: "workflow_cancelled"; workflowName: string; id: string; ts: number }
+  | { type: "workflow_recovered"; workflowName: string; id: string; lastUpdated: string; ts: number }
+  | { type: "workflow_discarded"; workflowName: string; id: string; ts: number }
+  | { type: "schedule_created"; workflowName: string; scheduleId: string; intervalMs?: number; cron?: string; timezone?: string; ts: number }
+  | { type: "schedule_fired"; workflowName: string; scheduleId: string; id: string; scheduledAt: string; ts: number }
+  | { type: "schedule_misfired"; scheduleId: string; missed: number; policy: MisfirePolicy; ts: number }
+  | { type: "schedule_paused"; scheduleId: string; ts: number }
+  | { type: "schedule_resumed"; scheduleId: string; ts: number }
   | { type: "schedule_removed"; scheduleId: string; ts: number };
 
 export interface Engine {
   /** Enqueue a workflow for execution. Returns the workflow execution ID. */
   enqueue(name: string, options?: EnqueueOptions): Promise<string>;
-  /** Schedule recurring workflow execution. Returns the schedule ID. */
-  schedule(name: string, options: ScheduleOptions & EnqueueOptions): string;
-  /** Remove a schedule */
+  /**
+   * Schedule recurring workflow execution. Returns the schedule ID.
+   * The schedule is persisted in the store in the background; failures reach `onError`.
+   */
+  schedule(name: string, options: ScheduleOptions & Omit<EnqueueOptions, "runAt" | "delay">): string;
+  /** Remove a schedule from this engine and from the store */
   unschedule(scheduleId: string): boolean;
-  /** Start the polling loop */
+  /** List persisted schedules, including ones registered by other replicas */
+  listSchedules(): Promise<ScheduleInfo[]>;
+  /** Stop firing a schedule until resumed. Returns false if it does not exist. */
+  pauseSchedule(scheduleId: string): Promise<boolean>;
+  /** Resume a paused schedule. Occurrences that fell while paused are not caught up. */
+  resumeSchedule(scheduleId: string): Promise<boolean>;
+  /** List dead-lettered runs, most recently failed first */
+  listDeadLetters(options?: { workflowName?: string; limit?: number }): Promise<DeadLetter[]>;
+  /**
+   * Queue a dead-lettered or cancelled run again with a fresh attempt count.
+   * It resumes from its last completed step. Returns false for any other run.
+   */
+  requeue(id: string): Promise<boolean>;
+  /** Look up a run that is still in the store. Returns null for unknown or completed runs. */
+  getRun(id: string): Promise<RunInfo | null>;
+  /**
+   * List stored runs, most recently updated first. Pass `nextCursor` back as
+   * `cursor` for the next page.
+   */
+  listRuns(options?: ListRunsOptions): Promise<{ runs: RunInfo[]; nextCursor?: string }>;
+  /**
+   * Cancel a run. A queued run is marked `"cancelled"` and never claimed; a run
+   * this engine is executing is aborted through its AbortSignal and marked
+   * `"cancelled"` when durable.run returns. Returns false if the run is
+   * finished, unknown, or processing on another engine.
+   */
+  cancel(id: string): Promise<boolean>;
+  /**
+   * Send a signal for the run's `step.waitForSignal(name)` (see
+   * `durable.signal()`), and re-queue the run if it is suspended waiting for
+   * one. Returns false if the signal could not be stored.
+   */
+  signal(id: string, name: string, payload?: JSONValue): Promise<boolean>;
+  /**
+   * Ask a run a question its workflow answers with `ctx.onQuery(name, handler)`
+   * (see `durable.query()`). A run executing on this engine answers live; any
+   * other stored run is answered by replaying its snapshot through the
+   * registered workflow.
+   */
+  query<T = unknown>(id: string, name: string): Promise<Result<T, QueryFailedError | PersistenceError>>;
+  /** Delete a dead-lettered run. Returns false if `id` is not dead-lettered. */
+  discard(id: string): Promise<boolean>;
+  /**
+   * Re-queue `"processing"` runs abandoned by a crashed worker (see
+   * `staleAfterMs`). A started engine does this every `recoveryIntervalMs`.
+   * Returns the number recovered.
+   */
+  recoverStale(): Promise<number>;
+  /** Start the polling loop and drive every persisted schedule */
   start(pollIntervalMs?: number): void;
-  /** Stop the polling loop gracefully */
-  stop(): Promise<void>;
+  /**
+   * Stop claiming work and the polling loop, then wait for in-flight runs to
+   * finish (see {@link StopOptions}). Schedules stay in the store.
+   */
+  stop(options?: StopOptions): Promise<void>;
   /** Execute a single tick manually (process pending workflows). Returns number processed. */
   tick(): Promise<number>;
   /** Get engine status */
@@ -17,6 +17,13 @@ export {
   serializeResumeState,
   deserializeResumeState,
   toResumeState,
+
+  // Step caches
+  type StepCache,
+  type AsyncStepCache,
+  isAsyncStepCache,
+  serializeCachedResult,
+  deserializeCachedResult,
 } from "./workflow";
 
 // The lock is a store capability. It remains defined beside durable execution
@@ -36,6 +43,24 @@ export {
 
   // Store interface
   type SnapshotStore,
+  type QueueStore,
+  type SnapshotJournal,
+  hasSnapshotJournal,
+  type SnapshotRevisions,
+  type SnapshotSaveOptions,
+  hasSnapshotRevisions,
+  type SnapshotQuery,
+  type SnapshotQueryOptions,
+  type SnapshotQueryPage,
+  hasSnapshotQuery,
+  querySnapshots,
+  encodeSnapshotCursor,
+  decodeSnapshotCursor,
+
+  // Offloaded step values
+  type BlobStore,
+  type BlobRef,
+  isBlobRef,
 
   // Validation
   looksLikeWorkflowSnapshot,
@@ -48,6 +73,7 @@ export {
   SnapshotFormatError,
   SnapshotMismatchError,
   SnapshotDecodeError,
+  SnapshotConflictError,
 
   // Serialization helpers (for custom implementations)
   serializeError,
@@ -59,6 +85,26 @@ export {
   createMemoryCache,
 } from "./persistence";
 
+// =============================================================================
+// Encryption at rest (encode step values, inputs and causes; redact steps)
+// =============================================================================
+export {
+  type EncodedValue,
+  type SnapshotCodec,
+  type SnapshotCodecContext,
+  type SnapshotCodecOptions,
+  type AesGcmCodecOptions,
+  ENCODED_METADATA_KEYS,
+  isEncodedValue,
+  createAesGcmCodec,
+  encodeSnapshot,
+  decodeSnapshot,
+  encodeResumeState,
+  decodeResumeState,
+  withSnapshotCodec,
+  withBlobCodec,
+} from "./snapshot-codec";
+
 // =============================================================================
 // Resume-state versioning + migrations (evolve persisted state across
 // workflow versions)
@@ -88,4 +134,9 @@ export {
   createKeyRemoveMigration,
   createValueTransformMigration,
   composeMigrations,
+
+  // Durable snapshot migrations
+  migrateSnapshot,
+  createSnapshotKeyRenameMigration,
+  createSnapshotKeyRemoveMigration,
 } from "./versioning";
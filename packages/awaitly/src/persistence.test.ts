@@ -12,11 +12,16 @@ import {
   SnapshotFormatError,
   SnapshotMismatchError,
   SnapshotDecodeError,
+  querySnapshots,
+  encodeSnapshotCursor,
+  decodeSnapshotCursor,
+  type SnapshotStore,
   type WorkflowSnapshot,
   type StepResult,
   type SerializedCause,
 } from "./persistence";
 import { ok } from "./core";
+import { createMemorySnapshotStore } from "./durable";
 
 type SerializedError = Extract<SerializedCause, { type: "error" }>;
 type SerializedThrown = Extract<SerializedCause, { type: "thrown" }>;
@@ -703,6 +708,67 @@ describe("Persistence", () => {
     });
   });
 
+  describe("querySnapshots", () => {
+    const run = (status: WorkflowSnapshot["execution"]["status"], workflowName: string): WorkflowSnapshot => ({
+      formatVersion: 1,
+      steps: {},
+      execution: { status, lastUpdated: "2026-10-19T00:00:00.000Z" },
+      metadata: { workflowName },
+    });
+
+    /** The memory store without its query capability. */
+    const listOnly = () => {
+      const store = createMemorySnapshotStore();
+      const plain: SnapshotStore = {
+        save: (id, snapshot) => store.save(id, snapshot),
+        load: vi.fn((id: string) => store.load(id)),
+        delete: (id) => store.delete(id),
+        list: (options) => store.list(options),
+        close: () => store.close(),
+      };
+      return plain;
+    };
+
+    it("round-trips cursors and rejects malformed ones", () => {
+      const cursor = encodeSnapshotCursor("2026-10-19T00:00:00.000Z", "commande-été:1");
+      expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodeSnapshotCursor(cursor)).toEqual({ updatedAt: "2026-10-19T00:00:00.000Z", id: "commande-été:1" });
+      expect(() => decodeSnapshotCursor("not a cursor")).toThrow("Invalid snapshot cursor");
+      expect(() => decodeSnapshotCursor(btoa(JSON.stringify(["only-one"])))).toThrow("Invalid snapshot cursor");
+    });
+
+    it("filters a store without query by loading its listed snapshots", async () => {
+      const store = listOnly();
+      await store.save("a", run("failed", "checkout"));
+      await store.save("b", run("running", "checkout"));
+      await store.save("c", run("failed", "refund"));
+
+      const { entries } = await querySnapshots(store, { workflowName: "checkout", status: "failed" });
+      expect(entries.map((entry) => entry.id)).toEqual(["a"]);
+      expect(store.load).toHaveBeenCalledTimes(3);
+    });
+
+    it("only lists when no filter needs the snapshot, and pages with a cursor", async () => {
+      const store = listOnly();
+      for (const id of ["a", "b", "c"]) await store.save(id, run("running", "checkout"));
+
+      const first = await querySnapshots(store, { limit: 2 });
+      const second = await querySnapshots(store, { limit: 2, cursor: first.nextCursor! });
+      expect([...first.entries, ...second.entries].map((entry) => entry.id).sort()).toEqual(["a", "b", "c"]);
+      expect(second.nextCursor).toBeUndefined();
+      expect(store.load).not.toHaveBeenCalled();
+    });
+
+    it("uses the store's query when it has one", async () => {
+      const store = createMemorySnapshotStore();
+      const query = vi.spyOn(store, "query");
+      await store.save("a", run("failed", "checkout"));
+
+      expect((await querySnapshots(store, { status: "failed" })).entries.map((entry) => entry.id)).toEqual(["a"]);
+      expect(query).toHaveBeenCalledWith({ status: "failed" });
+    });
+  });
+
   describe("JSON round-trip", () => {
     it("WorkflowSnapshot should survive JSON.stringify/parse", () => {
       const snapshot: WorkflowSnapshot = {
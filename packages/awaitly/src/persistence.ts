@@ -68,9 +68,11 @@ export interface WorkflowSnapshot {
   steps: Record<string, StepResult>;
   /** Execution state metadata */
   execution: {
-    status: "running" | "completed" | "failed";
+    status: "running" | "completed" | "failed" | "suspended";
     /** ISO timestamp (UTC toISOString()) */
     lastUpdated: string;
+    /** For suspended workflows: ISO timestamp the run is due to resume at */
+    wakeAt?: string;
     /** ISO timestamp if finished */
     completedAt?: string;
     /**
@@ -155,6 +157,26 @@ export class SnapshotDecodeError extends Error {
   }
 }
 
+/**
+ * Error thrown by a conditional save when the stored snapshot has moved past
+ * the revision the writer loaded (see {@link SnapshotRevisions}).
+ */
+export class SnapshotConflictError extends Error {
+  constructor(
+    public readonly id: string,
+    /** Revision the writer expected (`null`: expected no snapshot) */
+    public readonly expectedRevision: number | null,
+    /** Revision found in the store (`null`: no snapshot), when the store can tell */
+    public readonly actualRevision?: number | null
+  ) {
+    super(
+      `Snapshot '${id}' was written by another writer: expected revision ${expectedRevision ?? "none"}` +
+        (actualRevision === undefined ? "" : `, found ${actualRevision ?? "none"}`)
+    );
+    this.name = "SnapshotConflictError";
+  }
+}
+
 /**
  * Light check to see if an object looks like a WorkflowSnapshot.
  * Cheap check for basic structure - use validateSnapshot() for full validation.
@@ -245,8 +267,11 @@ export function validateSnapshot(obj: unknown): { valid: true; snapshot: Workflo
     const execution = snapshot.execution as Record<string, unknown>;
     if (!("status" in execution)) {
       errors.push("execution missing required field: status");
-    } else if (!["running", "completed", "failed"].includes(execution.status as string)) {
-      errors.push(`execution.status must be one of: running, completed, failed`);
+    } else if (!["running", "completed", "failed", "suspended"].includes(execution.status as string)) {
+      errors.push(`execution.status must be one of: running, completed, failed, suspended`);
+    }
+    if (execution.wakeAt !== undefined && typeof execution.wakeAt !== "string") {
+      errors.push("execution.wakeAt must be a string (ISO timestamp)");
     }
     if (!("lastUpdated" in execution)) {
       errors.push("execution missing required field: lastUpdated");
@@ -479,6 +504,332 @@ export interface SnapshotStore {
   close(): Promise<void>;
 }
 
+/**
+ * Optional queue capability for stores that back `createEngine`.
+ *
+ * The engine keeps a run's queue state in `snapshot.metadata.engineState`
+ * (`"queued"`, `"processing"`, `"done"`, `"failed"`). Without this capability
+ * it finds queued runs by listing recent snapshots and loading each one, which
+ * never reaches queued runs once other snapshots fill the listed page. Adapters
+ * implement it with an index on that state and an atomic claim, so concurrent
+ * engines never claim the same run.
+ */
+export interface QueueStore {
+  /**
+   * Atomically move up to `limit` queued snapshots that are due to
+   * `"processing"` and return them (with the new state).
+   *
+   * A run is due once `metadata.runAt` (ISO, falling back to
+   * `metadata.enqueuedAt`) is at or before `options.now` (default: the current
+   * time). Due runs are claimed highest `metadata.priority` (default 0) first,
+   * then earliest `runAt`.
+   *
+   * With `options.workflowNames`, only runs whose `metadata.workflowName` is
+   * listed are claimed, so an engine sharing the store with engines that run
+   * other workflows never claims theirs.
+   */
+  claimNext(
+    limit: number,
+    options?: { now?: number; workflowNames?: readonly string[] }
+  ): Promise<Array<{ id: string; snapshot: WorkflowSnapshot }>>;
+  /** Mark a claimed run finished. No-op when its snapshot is gone (durable.run deletes it on success). */
+  markDone(id: string): Promise<void>;
+  /**
+   * Dead-letter a claimed run (`"failed"`) so it is not claimed again. No-op
+   * when its snapshot is gone. The engine records the error and attempt count
+   * itself; this is for workers that only need the state change.
+   */
+  markFailed(id: string): Promise<void>;
+}
+
+/**
+ * Optional journal capability for snapshot stores.
+ *
+ * `save` replaces the whole snapshot, so a run that checkpoints after every
+ * step rewrites every earlier step's value each time. A store with `append`
+ * records only what changed instead: `durable.run` saves a run's first
+ * checkpoint in full and appends the rest as deltas. Adapters keep the deltas
+ * beside the snapshot and fold them in when they compact.
+ *
+ * Contract:
+ * - `load(id)` returns `mergeSnapshots(stored, delta)` folded over every
+ *   delta appended since the last `save`, in append order.
+ * - `append` onto an id with no snapshot stores the delta as the snapshot.
+ * - `save` and `delete` discard the id's deltas.
+ */
+export interface SnapshotJournal {
+  /**
+   * Record `delta` on top of the stored snapshot. Stores with
+   * {@link SnapshotRevisions} honour `options.expectedRevision` as `save` does.
+   */
+  append(id: string, delta: WorkflowSnapshot, options?: SnapshotSaveOptions): Promise<void>;
+}
+
+export function hasSnapshotJournal(store: SnapshotStore): store is SnapshotStore & SnapshotJournal {
+  return typeof (store as SnapshotStore & Partial<SnapshotJournal>).append === "function";
+}
+
+/** Options for a conditional write to a store with {@link SnapshotRevisions}. */
+export interface SnapshotSaveOptions {
+  /**
+   * Only write while the stored revision is still this one; `null` means
+   * only while the id has no snapshot. Otherwise the write is rejected with
+   * {@link SnapshotConflictError}. Omit for an unconditional write.
+   */
+  expectedRevision?: number | null;
+}
+
+/**
+ * Optional optimistic concurrency capability for snapshot stores.
+ *
+ * `save` is a blind upsert, so two writers of one id (a resumed run and an
+ * approval handler, or two workers after a lease expired) silently overwrite
+ * each other's steps. A store with revisions numbers every write, and a
+ * writer that passes the revision it loaded to `save` fails instead of
+ * overwriting a newer snapshot. `durable.run` does this for its checkpoints.
+ *
+ * Contract:
+ * - Every write to an id (`save`, `append`, queue state changes) increments
+ *   its revision; the first write is revision 1, and `delete` resets it.
+ * - `loadRevision(id)` returns what `load(id)` would, with its revision.
+ * - `save` and `append` with `expectedRevision` check and write atomically,
+ *   and throw {@link SnapshotConflictError} without writing on a mismatch.
+ */
+export interface SnapshotRevisions {
+  /** Load a snapshot with its revision. Returns null if not found. */
+  loadRevision(id: string): Promise<{ snapshot: WorkflowSnapshot; revision: number } | null>;
+  /** Save a snapshot, conditionally when `options.expectedRevision` is set. */
+  save(id: string, snapshot: WorkflowSnapshot, options?: SnapshotSaveOptions): Promise<void>;
+}
+
+export function hasSnapshotRevisions(store: SnapshotStore): store is SnapshotStore & SnapshotRevisions {
+  return typeof (store as SnapshotStore & Partial<SnapshotRevisions>).loadRevision === "function";
+}
+
+/** Filters and paging for {@link SnapshotQuery.query}. Every filter set must match. */
+export interface SnapshotQueryOptions {
+  /** Only ids starting with this prefix. */
+  prefix?: string;
+  /** Only snapshots whose `metadata.workflowName` is this (the engine records it on every run it enqueues). */
+  workflowName?: string;
+  /** Only snapshots whose `execution.status` is this, or one of these. */
+  status?: WorkflowSnapshot["execution"]["status"] | Array<WorkflowSnapshot["execution"]["status"]>;
+  /** Only snapshots written after this time (exclusive). */
+  updatedAfter?: string | Date;
+  /** Only snapshots written before this time (exclusive). */
+  updatedBefore?: string | Date;
+  /** Only snapshots whose metadata has each of these keys set to the given value. */
+  metadata?: Record<string, string | number | boolean>;
+  /** `nextCursor` from the previous page. */
+  cursor?: string;
+  /** Page size (default: 100) */
+  limit?: number;
+}
+
+/** One page of {@link SnapshotQuery.query} results. */
+export interface SnapshotQueryPage {
+  /** Matching ids, most recently updated first, then by id. */
+  entries: Array<{ id: string; updatedAt: string }>;
+  /** Pass back as `cursor` for the next page; absent on the last page. */
+  nextCursor?: string;
+}
+
+/**
+ * Optional filtering capability for snapshot stores.
+ *
+ * `list` only pages through ids by prefix, so finding the failed runs of one
+ * workflow means loading every snapshot. A store with `query` filters on its
+ * own indexes instead. Use {@link querySnapshots} to query any store.
+ *
+ * Contract:
+ * - Filters match what `load(id)` returns, including journaled deltas.
+ * - Entries come most recently updated first, ties by id, and `nextCursor`
+ *   continues after the page's last entry without skipping or repeating ids
+ *   that were not written in between.
+ */
+export interface SnapshotQuery {
+  query(options?: SnapshotQueryOptions): Promise<SnapshotQueryPage>;
+}
+
+export function hasSnapshotQuery(store: SnapshotStore): store is SnapshotStore & SnapshotQuery {
+  return typeof (store as SnapshotStore & Partial<SnapshotQuery>).query === "function";
+}
+
+/**
+ * Storage for step values too large to keep inline in a snapshot (object
+ * storage, a blob table, ...). See `DurableOptions.offload`.
+ */
+export interface BlobStore {
+  put(key: string, value: JSONValue): Promise<void>;
+  /** Returns `undefined` when there is no blob under `key`. */
+  get(key: string): Promise<JSONValue | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+/** What an offloaded step value is replaced with in the snapshot. */
+export type BlobRef = {
+  /** Key of the value in the {@link BlobStore} */
+  __awaitlyBlob: string;
+  /** Size of the value's JSON */
+  bytes: number;
+};
+
+export function isBlobRef(value: unknown): value is BlobRef {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as BlobRef).__awaitlyBlob === "string" &&
+    typeof (value as BlobRef).bytes === "number"
+  );
+}
+
+function queuedRunAt(snapshot: WorkflowSnapshot): string {
+  return String(snapshot.metadata?.runAt ?? snapshot.metadata?.enqueuedAt ?? "");
+}
+
+function queuedPriority(snapshot: WorkflowSnapshot): number {
+  const priority = snapshot.metadata?.priority;
+  return typeof priority === "number" ? priority : 0;
+}
+
+/**
+ * Queued snapshots due at `now`, in {@link QueueStore.claimNext} order,
+ * limited to `workflowNames` when given.
+ * For in-process queues; database adapters express the same rule in their query.
+ */
+export function dueQueuedRuns<T extends { snapshot: WorkflowSnapshot }>(
+  entries: T[],
+  now: number,
+  workflowNames?: readonly string[]
+): T[] {
+  const cutoff = new Date(now).toISOString();
+  return entries
+    .filter(
+      ({ snapshot }) =>
+        snapshot.metadata?.engineState === "queued" &&
+        queuedRunAt(snapshot) <= cutoff &&
+        (!workflowNames || workflowNames.includes(snapshot.metadata.workflowName as string))
+    )
+    .sort(
+      (a, b) =>
+        queuedPriority(b.snapshot) - queuedPriority(a.snapshot) ||
+        queuedRunAt(a.snapshot).localeCompare(queuedRunAt(b.snapshot))
+    );
+}
+
+// =============================================================================
+// Snapshot Queries
+// =============================================================================
+
+/** How many of a store's most recent ids {@link querySnapshots} scans without `query`. */
+const QUERY_SCAN_LIMIT = 1000;
+
+/**
+ * Opaque cursor naming the last entry of a {@link SnapshotQueryPage}.
+ * `updatedAt` is the entry's write time at the store's own precision.
+ */
+export function encodeSnapshotCursor(updatedAt: string, id: string): string {
+  const bytes = new TextEncoder().encode(JSON.stringify([updatedAt, id]));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/** The entry named by a cursor from {@link encodeSnapshotCursor}. Throws on a malformed cursor. */
+export function decodeSnapshotCursor(cursor: string): { updatedAt: string; id: string } {
+  let parsed: unknown;
+  try {
+    const binary = atob(cursor.replace(/-/g, "+").replace(/_/g, "/"));
+    parsed = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0))));
+  } catch {
+    throw new Error(`Invalid snapshot cursor: '${cursor}'`);
+  }
+  if (!Array.isArray(parsed) || parsed.length !== 2 || !parsed.every((part) => typeof part === "string")) {
+    throw new Error(`Invalid snapshot cursor: '${cursor}'`);
+  }
+  const [updatedAt, id] = parsed as [string, string];
+  return { updatedAt, id };
+}
+
+/** `updatedAfter` / `updatedBefore` as an ISO timestamp. */
+function queryTime(time: string | Date): string {
+  return new Date(time).toISOString();
+}
+
+/** Whether `snapshot` passes the snapshot-level filters of `options` (not prefix, time or cursor). */
+function matchesSnapshotFilters(snapshot: WorkflowSnapshot | null, options: SnapshotQueryOptions): boolean {
+  const statuses: string[] | undefined = options.status === undefined ? undefined : [options.status].flat();
+  // Stores that also keep ResumeState return it from load: no execution or metadata.
+  const execution = snapshot?.execution as WorkflowSnapshot["execution"] | undefined;
+  const metadata = snapshot?.metadata;
+  return (
+    (options.workflowName === undefined || metadata?.workflowName === options.workflowName) &&
+    (statuses === undefined || (execution !== undefined && statuses.includes(execution.status))) &&
+    Object.entries(options.metadata ?? {}).every(([key, value]) => metadata?.[key] === value)
+  );
+}
+
+const needsSnapshot = (options: SnapshotQueryOptions) =>
+  options.workflowName !== undefined || options.status !== undefined || options.metadata !== undefined;
+
+/**
+ * Apply `options` to candidate entries in memory: filter, order and cut one
+ * page. `snapshot` is only read when a snapshot-level filter is set.
+ */
+export async function pageSnapshotQuery(
+  candidates: Array<{ id: string; updatedAt: string; snapshot: () => WorkflowSnapshot | null | Promise<WorkflowSnapshot | null> }>,
+  options: SnapshotQueryOptions = {}
+): Promise<SnapshotQueryPage> {
+  const limit = options.limit ?? 100;
+  const after = options.updatedAfter === undefined ? undefined : queryTime(options.updatedAfter);
+  const before = options.updatedBefore === undefined ? undefined : queryTime(options.updatedBefore);
+  const cursor = options.cursor === undefined ? undefined : decodeSnapshotCursor(options.cursor);
+
+  const matching: Array<{ id: string; updatedAt: string }> = [];
+  for (const { id, updatedAt, snapshot } of candidates) {
+    if (
+      (options.prefix && !id.startsWith(options.prefix)) ||
+      (after !== undefined && updatedAt <= after) ||
+      (before !== undefined && updatedAt >= before) ||
+      (cursor && (updatedAt > cursor.updatedAt || (updatedAt === cursor.updatedAt && id <= cursor.id))) ||
+      (needsSnapshot(options) && !matchesSnapshotFilters(await snapshot(), options))
+    ) {
+      continue;
+    }
+    matching.push({ id, updatedAt });
+  }
+
+  matching.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  const entries = matching.slice(0, limit);
+  return matching.length > limit
+    ? { entries, nextCursor: encodeSnapshotCursor(entries[entries.length - 1]!.updatedAt, entries[entries.length - 1]!.id) }
+    : { entries };
+}
+
+/**
+ * Query any snapshot store. Stores with {@link SnapshotQuery} answer from
+ * their indexes; for the rest this lists the most recent 1000 ids under
+ * `prefix` and loads each one a snapshot-level filter needs to check.
+ *
+ * @example
+ * ```typescript
+ * const { entries, nextCursor } = await querySnapshots(store, {
+ *   workflowName: 'checkout',
+ *   status: 'failed',
+ *   updatedAfter: new Date(Date.now() - 3_600_000),
+ * });
+ * ```
+ */
+export async function querySnapshots(store: SnapshotStore, options: SnapshotQueryOptions = {}): Promise<SnapshotQueryPage> {
+  if (hasSnapshotQuery(store)) return store.query(options);
+  const listed = await store.list({
+    ...(options.prefix !== undefined ? { prefix: options.prefix } : {}),
+    limit: QUERY_SCAN_LIMIT,
+  });
+  return pageSnapshotQuery(
+    listed.map(({ id, updatedAt }) => ({ id, updatedAt, snapshot: () => store.load(id) })),
+    options
+  );
+}
+
 // =============================================================================
 // In-Memory Cache Adapter
 // =============================================================================
@@ -34,6 +34,7 @@ export const AWAITLY_SLUGS = {
   "workflow-no-dynamic-import": "workflow-no-dynamic-import",
   "workflow-unreadable-condition": "workflow-unreadable-condition",
   "workflow-unreadable-iterable": "workflow-unreadable-iterable",
+  "workflow-retirable-patch": "workflow-retirable-patch",
 
   // --- result-* ---
   "result-no-floating": "result-no-floating",
@@ -0,0 +1,263 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  createAesGcmCodec,
+  decodeResumeState,
+  withBlobCodec,
+  encodeResumeState,
+  isEncodedValue,
+  withSnapshotCodec,
+} from "./snapshot-codec";
+import { SnapshotConflictError, SnapshotDecodeError, type BlobStore, type JSONValue, type WorkflowSnapshot } from "./persistence";
+import { deserializeResumeState, serializeResumeState, type SerializedResumeState } from "./workflow/serialize-resume-state";
+import type { ResumeState } from "./workflow/types";
+import { createMemorySnapshotStore, durable, isPersistenceError, isWorkflowSuspended } from "./durable";
+import { ok } from "./core";
+
+const key = (fill: number) => btoa(String.fromCharCode(...new Uint8Array(32).fill(fill)));
+const at = { workflowId: "wf-1", field: "steps.address" };
+
+const snapshot: WorkflowSnapshot = {
+  formatVersion: 1,
+  steps: {
+    address: { ok: true, value: { street: "1 Main St" } },
+    "card-token": { ok: true, value: "tok_secret" },
+    charge: {
+      ok: false,
+      error: "CARD_DECLINED",
+      cause: { type: "thrown", value: "card 4242 declined", stringRepresentation: "card 4242 declined" },
+      meta: { origin: "result" },
+    },
+  },
+  execution: { status: "running", lastUpdated: "2026-10-19T00:00:00.000Z" },
+  metadata: {
+    input: { email: "ada@example.com" },
+    lastError: { type: "thrown", value: "card 4242 declined", stringRepresentation: "card 4242 declined" },
+    engineState: "queued",
+    workflowName: "checkout",
+  },
+};
+
+describe("createAesGcmCodec", () => {
+  it("round-trips values under a fresh IV each time", async () => {
+    const codec = createAesGcmCodec({ keys: { k1: key(1) }, currentKeyId: "k1" });
+
+    const first = await codec.encode({ street: "1 Main St" }, at);
+    const second = await codec.encode({ street: "1 Main St" }, at);
+    expect(first).toMatchObject({ __awaitlyEncoded: true, kid: "k1" });
+    expect(first.data).not.toBe(second.data);
+    expect(first.data).not.toContain("Main");
+    expect(await codec.decode(first, at)).toEqual({ street: "1 Main St" });
+  });
+
+  it("refuses a value copied to another run or field", async () => {
+    const codec = createAesGcmCodec({ keys: { k1: key(1) }, currentKeyId: "k1" });
+    const encoded = await codec.encode("tok_secret", at);
+
+    await expect(codec.decode(encoded, { ...at, workflowId: "wf-2" })).rejects.toThrow();
+    await expect(codec.decode(encoded, { ...at, field: "metadata.input" })).rejects.toThrow();
+  });
+
+  it("decodes under retired keys and encodes under the current one", async () => {
+    const old = createAesGcmCodec({ keys: { k1: key(1) }, currentKeyId: "k1" });
+    const rotated = createAesGcmCodec({ keys: { k1: key(1), k2: key(2) }, currentKeyId: "k2" });
+
+    const encoded = await old.encode("secret", at);
+    expect(await rotated.decode(encoded, at)).toBe("secret");
+    expect((await rotated.encode("secret", at)).kid).toBe("k2");
+
+    const retired = createAesGcmCodec({ keys: { k2: key(2) }, currentKeyId: "k2" });
+    await expect(retired.decode(encoded, at)).rejects.toThrow("No key with id 'k1'");
+  });
+
+  it("rejects tampered data", async () => {
+    const codec = createAesGcmCodec({ keys: { k1: key(1) }, currentKeyId: "k1" });
+    const encoded = await codec.encode("secret", at);
+    const bytes = atob(encoded.data);
+    const flipped = bytes.slice(0, -1) + String.fromCharCode(bytes.charCodeAt(bytes.length - 1) ^ 1);
+    await expect(codec.decode({ ...encoded, data: btoa(flipped) }, at)).rejects.toThrow();
+  });
+});
+
+describe("withSnapshotCodec", () => {
+  const codec = createAesGcmCodec({ keys: { k1: key(1) }, currentKeyId: "k1" });
+
+  it("stores step values, causes, input and the last error encoded, and loads them decoded", async () => {
+    const inner = createMemorySnapshotStore();
+    const store = withSnapshotCodec(inner, { codec });
+
+    await store.save("wf-1", snapshot);
+    const stored = (await inner.load("wf-1"))!;
+    const json = JSON.stringify(stored);
+    for (const plaintext of ["Main St", "tok_secret", "4242", "ada@example.com"]) expect(json).not.toContain(plaintext);
+    expect(isEncodedValue(stored.steps.address!.ok && stored.steps.address!.value)).toBe(true);
+    expect(stored.steps.charge).toMatchObject({ ok: false, error: "CARD_DECLINED", cause: { type: "thrown" } });
+    expect(stored.metadata).toMatchObject({ engineState: "queued", workflowName: "checkout" });
+
+    expect(await store.load("wf-1")).toEqual(snapshot);
+  });
+
+  it("refuses a value copied from another run", async () => {
+    const inner = createMemorySnapshotStore();
+    const store = withSnapshotCodec(inner, { codec });
+    await store.save("wf-1", snapshot);
+    await inner.save("wf-2", (await inner.load("wf-1"))!);
+
+    await expect(store.load("wf-2")).rejects.toBeInstanceOf(SnapshotDecodeError);
+  });
+
+  it("keeps the steps of resume state, as a Map or serialized", async () => {
+    const inner = createMemorySnapshotStore();
+    const store = withSnapshotCodec(inner, { codec, redact: ["card-token"] });
+    const serialized: SerializedResumeState = { kind: "ResumeState", steps: Object.entries(snapshot.steps) };
+    const state = deserializeResumeState(serialized);
+    const kept: SerializedResumeState = { ...serialized, steps: serialized.steps.filter(([stepId]) => stepId !== "card-token") };
+
+    await store.save("wf-1", state as unknown as WorkflowSnapshot);
+    await store.save("wf-2", serialized as unknown as WorkflowSnapshot);
+    for (const id of ["wf-1", "wf-2"]) {
+      const stored = await inner.load(id);
+      const json = JSON.stringify(id === "wf-1" ? serializeResumeState(stored as unknown as ResumeState) : stored);
+      for (const plaintext of ["Main St", "tok_secret", "4242"]) expect(json).not.toContain(plaintext);
+    }
+
+    const loaded = (await store.load("wf-1")) as unknown as ResumeState;
+    expect(loaded.steps).toBeInstanceOf(Map);
+    expect(serializeResumeState(loaded)).toEqual(serializeResumeState(deserializeResumeState(kept)));
+    expect(await store.load("wf-2")).toEqual(kept);
+  });
+
+  it("drops redacted steps", async () => {
+    const inner = createMemorySnapshotStore();
+    const store = withSnapshotCodec(inner, { redact: ["card-token"] });
+
+    await store.save("wf-1", snapshot);
+    expect(Object.keys((await inner.load("wf-1"))!.steps)).toEqual(["address", "charge"]);
+    expect((await store.load("wf-1"))?.steps.address).toEqual({ ok: true, value: { street: "1 Main St" } });
+  });
+
+  it("loads state saved before the codec as it is, and refuses encoded state without it", async () => {
+    const inner = createMemorySnapshotStore();
+    await inner.save("legacy", snapshot);
+    expect(await withSnapshotCodec(inner, { codec }).load("legacy")).toEqual(snapshot);
+
+    await withSnapshotCodec(inner, { codec }).save("wf-1", snapshot);
+    await expect(withSnapshotCodec(inner, {}).load("wf-1")).rejects.toBeInstanceOf(SnapshotDecodeError);
+  });
+
+  it("keeps the store's queue capability and decodes claimed runs", async () => {
+    const store = withSnapshotCodec(createMemorySnapshotStore(), { codec });
+    await store.save("wf-1", snapshot);
+
+    expect(await store.claimNext!(10)).toEqual([
+      { id: "wf-1", snapshot: { ...snapshot, metadata: { ...snapshot.metadata, engineState: "processing" } } },
+    ]);
+  });
+
+  it("keeps the store's revisions and decodes revisioned loads", async () => {
+    const store = withSnapshotCodec(createMemorySnapshotStore(), { codec });
+    await store.save("wf-1", snapshot, { expectedRevision: null });
+
+    expect(await store.loadRevision!("wf-1")).toEqual({ snapshot, revision: 1 });
+    await expect(store.save("wf-1", snapshot, { expectedRevision: 0 })).rejects.toBeInstanceOf(SnapshotConflictError);
+  });
+
+  it("forwards the store's clear", async () => {
+    const inner = { ...createMemorySnapshotStore(), clear: async () => {} };
+    const clear = vi.spyOn(inner, "clear");
+
+    await withSnapshotCodec(inner, { codec }).clear!();
+    expect(clear).toHaveBeenCalledOnce();
+    expect(withSnapshotCodec(createMemorySnapshotStore(), { codec }).clear).toBeUndefined();
+  });
+
+  it("keeps the store's queries on plain metadata", async () => {
+    const store = withSnapshotCodec(createMemorySnapshotStore(), { codec });
+    await store.save("wf-1", snapshot);
+
+    expect((await store.query!({ workflowName: "checkout", status: "running" })).entries.map((entry) => entry.id)).toEqual(["wf-1"]);
+  });
+
+  it("encodes a durable run's checkpoints and resumes from them", async () => {
+    const inner = createMemorySnapshotStore();
+    const store = withSnapshotCodec(inner, { codec });
+    const run = () =>
+      durable.run(
+        { lookup: async () => ok({ street: "1 Main St" }) },
+        async ({ step, deps }) => {
+          const address = await step("address", () => deps.lookup());
+          const note = await step.waitForSignal<string>("note");
+          return `${address.street}: ${note}`;
+        },
+        { id: "order-1", store }
+      );
+
+    const first = await run();
+    expect(!first.ok && isWorkflowSuspended(first.error)).toBe(true);
+    expect(JSON.stringify(await inner.load("order-1"))).not.toContain("Main St");
+
+    await durable.signal(store, "order-1", "note", "leave at door");
+    expect(await run()).toEqual({ ok: true, value: "1 Main St: leave at door" });
+  });
+
+  it("fails a resume with a PersistenceError when a value cannot be decoded", async () => {
+    const inner = createMemorySnapshotStore();
+    await withSnapshotCodec(inner, { codec }).save("order-1", snapshot);
+    const other = createAesGcmCodec({ keys: { k2: key(2) }, currentKeyId: "k2" });
+
+    const result = await durable.run({}, async () => "done", { id: "order-1", store: withSnapshotCodec(inner, { codec: other }) });
+    expect(!result.ok && isPersistenceError(result.error) && result.error.operation).toBe("load");
+  });
+});
+
+describe("encodeResumeState", () => {
+  it("round-trips serialized resume state, dropping redacted steps", async () => {
+    const codec = createAesGcmCodec({ keys: { k1: key(1) }, currentKeyId: "k1" });
+    const state = { kind: "ResumeState" as const, steps: Object.entries(snapshot.steps) };
+
+    const encoded = await encodeResumeState("wf-1", state, { codec, redact: (stepId) => stepId.startsWith("card") });
+    expect(encoded.steps.map(([stepId]) => stepId)).toEqual(["address", "charge"]);
+    expect(JSON.stringify(encoded)).not.toContain("Main St");
+
+    expect(await decodeResumeState("wf-1", encoded, codec)).toEqual({
+      kind: "ResumeState",
+      steps: [
+        ["address", snapshot.steps.address],
+        ["charge", snapshot.steps.charge],
+      ],
+    });
+  });
+});
+
+describe("withBlobCodec", () => {
+  it("stores offloaded step values encoded and resumes from them", async () => {
+    const codec = createAesGcmCodec({ keys: { k1: key(1) }, currentKeyId: "k1" });
+    const blobs = new Map<string, JSONValue>();
+    const blobStore: BlobStore = {
+      put: async (blobKey, value) => void blobs.set(blobKey, value),
+      get: async (blobKey) => blobs.get(blobKey),
+      delete: async (blobKey) => void blobs.delete(blobKey),
+    };
+    const store = withSnapshotCodec(createMemorySnapshotStore(), { codec });
+    const offload = { store: withBlobCodec(blobStore, codec), thresholdBytes: 10 };
+    const run = () =>
+      durable.run(
+        { lookup: async () => ok({ street: "1 Main St, Springfield" }) },
+        async ({ step, deps }) => {
+          const address = await step("address", () => deps.lookup());
+          const note = await step.waitForSignal<string>("note");
+          return `${address.street}: ${note}`;
+        },
+        { id: "order-1", store, offload }
+      );
+
+    await run();
+    expect(isEncodedValue(blobs.get("order-1/address"))).toBe(true);
+    expect(JSON.stringify([...blobs.values()])).not.toContain("Main St");
+
+    blobs.set("order-2/address", blobs.get("order-1/address")!);
+    await expect(offload.store.get("order-2/address")).rejects.toBeInstanceOf(SnapshotDecodeError);
+
+    await durable.signal(store, "order-1", "note", "leave at door");
+    expect(await run()).toEqual({ ok: true, value: "1 Main St, Springfield: leave at door" });
+  });
+});
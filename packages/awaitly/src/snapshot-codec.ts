@@ -0,0 +1,439 @@
+/**
+ * Encryption at rest for persisted workflow state.
+ *
+ * Step values routinely carry personal data (addresses, tokens), and a
+ * snapshot store writes them to its database as plain JSON. A
+ * {@link SnapshotCodec} turns JSON values into opaque envelopes and back;
+ * {@link withSnapshotCodec} wraps any snapshot store so those values are
+ * encoded on the way in and decoded on the way out. Ids, execution state and
+ * the metadata the engine and adapters query stay readable.
+ *
+ * @example
+ * ```typescript
+ * import { createAesGcmCodec, withSnapshotCodec } from 'awaitly/durable';
+ *
+ * const store = withSnapshotCodec(postgres(process.env.DATABASE_URL), {
+ *   codec: createAesGcmCodec({ keys: { "2026-10": process.env.SNAPSHOT_KEY }, currentKeyId: "2026-10" }),
+ *   redact: ["card-token"],
+ * });
+ * ```
+ */
+
+import {
+  SnapshotDecodeError,
+  hasSnapshotJournal,
+  hasSnapshotQuery,
+  hasSnapshotRevisions,
+  type BlobStore,
+  type JSONValue,
+  type QueueStore,
+  type SerializedCause,
+  type SnapshotJournal,
+  type SnapshotQuery,
+  type SnapshotRevisions,
+  type SnapshotSaveOptions,
+  type SnapshotStore,
+  type StepResult,
+  type WorkflowSnapshot,
+} from "./persistence";
+import {
+  deserializeResumeState,
+  isSerializedResumeState,
+  serializeResumeState,
+  type SerializedResumeState,
+} from "./workflow/serialize-resume-state";
+import { isResumeState } from "./workflow/guards";
+import type { ResumeState } from "./workflow/types";
+import type { WorkflowLock } from "./durable";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** What a codec stores in place of a value. */
+export type EncodedValue = {
+  __awaitlyEncoded: true;
+  /** Id of the key the value was encoded with */
+  kid: string;
+  /** Codec-specific payload */
+  data: string;
+};
+
+export function isEncodedValue(value: unknown): value is EncodedValue {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as EncodedValue).__awaitlyEncoded === true &&
+    typeof (value as EncodedValue).kid === "string" &&
+    typeof (value as EncodedValue).data === "string"
+  );
+}
+
+/** Where an encoded value lives: its workflow and its step or metadata field. */
+export type SnapshotCodecContext = {
+  /** The run's id; for an offloaded value, its blob key, which names the run and step */
+  workflowId: string;
+  /** `steps.<stepId>`, `metadata.<key>`, or `blob` for an offloaded value */
+  field: string;
+};
+
+/**
+ * Turns JSON values into {@link EncodedValue}s and back. `encode` uses the
+ * current key; `decode` must accept every key still in use, which is what
+ * lets keys rotate without rewriting stored state first.
+ *
+ * Both receive the value's {@link SnapshotCodecContext}. A codec that binds
+ * its output to it refuses values copied to another run or field.
+ */
+export interface SnapshotCodec {
+  encode(value: JSONValue, context: SnapshotCodecContext): Promise<EncodedValue>;
+  decode(value: EncodedValue, context: SnapshotCodecContext): Promise<JSONValue>;
+}
+
+export interface SnapshotCodecOptions {
+  /** Codec for step values, error causes and the metadata listed in {@link ENCODED_METADATA_KEYS} */
+  codec?: SnapshotCodec;
+  /**
+   * Steps never to store, by step id (or a predicate over it). A redacted
+   * step has no checkpoint, so a resumed run executes it again.
+   */
+  redact?: readonly string[] | ((stepId: string) => boolean);
+}
+
+/**
+ * Metadata that holds workflow data rather than bookkeeping: a run's input,
+ * an idempotent run's result, a child's outcome, a signal's payload and the
+ * engine's record of a run's last failure.
+ */
+export const ENCODED_METADATA_KEYS = ["input", "finalResult", "outcome", "payload", "lastError"] as const;
+
+// =============================================================================
+// AES-GCM
+// =============================================================================
+
+export interface AesGcmCodecOptions {
+  /**
+   * Keys by id: `CryptoKey`s for AES-GCM, or raw 128/256-bit keys as bytes or
+   * base64. Keep retired keys here until no stored state uses them.
+   */
+  keys: Record<string, CryptoKey | Uint8Array | string>;
+  /** Id of the key new values are encrypted with */
+  currentKeyId: string;
+}
+
+const IV_BYTES = 12;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** The context as AES-GCM additional data: authenticated, not stored. */
+function additionalData({ workflowId, field }: SnapshotCodecContext): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(JSON.stringify([workflowId, field]));
+}
+
+/**
+ * A {@link SnapshotCodec} encrypting with AES-GCM through WebCrypto. Each
+ * value gets a random 96-bit IV, stored with the ciphertext, and is
+ * authenticated against its workflow id and field.
+ */
+export function createAesGcmCodec(options: AesGcmCodecOptions): SnapshotCodec {
+  const { keys, currentKeyId } = options;
+  if (!(currentKeyId in keys)) throw new Error(`createAesGcmCodec: no key with id '${currentKeyId}'`);
+
+  const imported = new Map<string, Promise<CryptoKey>>();
+  const keyFor = (kid: string): Promise<CryptoKey> => {
+    let key = imported.get(kid);
+    if (!key) {
+      const material = keys[kid];
+      if (material === undefined) throw new Error(`No key with id '${kid}'`);
+      key =
+        typeof material === "string" || material instanceof Uint8Array
+          ? crypto.subtle.importKey(
+              "raw",
+              typeof material === "string" ? fromBase64(material) : new Uint8Array(material),
+              "AES-GCM",
+              false,
+              ["encrypt", "decrypt"]
+            )
+          : Promise.resolve(material);
+      imported.set(kid, key);
+    }
+    return key;
+  };
+
+  return {
+    async encode(value, context) {
+      const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+      const plaintext = new TextEncoder().encode(JSON.stringify(value));
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv, additionalData: additionalData(context) },
+        await keyFor(currentKeyId),
+        plaintext
+      );
+      const data = new Uint8Array(IV_BYTES + ciphertext.byteLength);
+      data.set(iv);
+      data.set(new Uint8Array(ciphertext), IV_BYTES);
+      return { __awaitlyEncoded: true, kid: currentKeyId, data: toBase64(data) };
+    },
+
+    async decode({ kid, data }, context) {
+      const bytes = fromBase64(data);
+      const plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: bytes.subarray(0, IV_BYTES), additionalData: additionalData(context) },
+        await keyFor(kid),
+        bytes.subarray(IV_BYTES)
+      );
+      return JSON.parse(new TextDecoder().decode(plaintext)) as JSONValue;
+    },
+  };
+}
+
+// =============================================================================
+// Encoding snapshots and resume state
+// =============================================================================
+
+function isRedacted(redact: SnapshotCodecOptions["redact"], stepId: string): boolean {
+  if (!redact) return false;
+  return typeof redact === "function" ? redact(stepId) : redact.includes(stepId);
+}
+
+/** Where a step's checkpoint is encoded and decoded. */
+const stepContext = (workflowId: string, stepId: string): SnapshotCodecContext => ({
+  workflowId,
+  field: `steps.${stepId}`,
+});
+
+/**
+ * An encoded error cause, stored as a thrown value so it stays a valid
+ * `SerializedCause` and survives a resume-state round trip.
+ */
+function encodedCause(value: EncodedValue): SerializedCause {
+  return { type: "thrown", value, stringRepresentation: "[encoded]" };
+}
+
+async function encodeStep(step: StepResult, codec: SnapshotCodec | undefined, context: SnapshotCodecContext): Promise<StepResult> {
+  if (!codec) return step;
+  if (step.ok) return { ok: true, value: await codec.encode(step.value, context) };
+  return { ...step, cause: encodedCause(await codec.encode(step.cause as JSONValue, context)) };
+}
+
+async function decodeValue(value: unknown, codec: SnapshotCodec | undefined, context: SnapshotCodecContext): Promise<JSONValue> {
+  if (!isEncodedValue(value)) return value as JSONValue;
+  const { field } = context;
+  if (!codec) throw new SnapshotDecodeError(`'${field}' is encoded; pass the codec to read it`, field);
+  try {
+    return await codec.decode(value, context);
+  } catch (error) {
+    throw new SnapshotDecodeError(
+      `Failed to decode '${field}' (key '${value.kid}'): ${error instanceof Error ? error.message : String(error)}`,
+      field,
+      error
+    );
+  }
+}
+
+async function decodeStep(step: StepResult, codec: SnapshotCodec | undefined, context: SnapshotCodecContext): Promise<StepResult> {
+  if (step.ok) return isEncodedValue(step.value) ? { ok: true, value: await decodeValue(step.value, codec, context) } : step;
+  if (step.cause.type !== "thrown" || !isEncodedValue(step.cause.value)) return step;
+  return { ...step, cause: (await decodeValue(step.cause.value, codec, context)) as SerializedCause };
+}
+
+/**
+ * `snapshot` as {@link withSnapshotCodec} stores it under `id`: redacted
+ * steps dropped, the rest encoded.
+ */
+export async function encodeSnapshot(
+  id: string,
+  snapshot: WorkflowSnapshot,
+  options: SnapshotCodecOptions
+): Promise<WorkflowSnapshot> {
+  const { codec, redact } = options;
+  const steps: Record<string, StepResult> = {};
+  for (const [stepId, step] of Object.entries(snapshot.steps)) {
+    if (!isRedacted(redact, stepId)) steps[stepId] = await encodeStep(step, codec, stepContext(id, stepId));
+  }
+
+  let metadata = snapshot.metadata;
+  if (codec && metadata) {
+    metadata = { ...metadata };
+    for (const key of ENCODED_METADATA_KEYS) {
+      if (metadata[key] !== undefined && !isEncodedValue(metadata[key])) {
+        metadata[key] = await codec.encode(metadata[key], { workflowId: id, field: `metadata.${key}` });
+      }
+    }
+  }
+  return { ...snapshot, steps, ...(metadata ? { metadata } : {}) };
+}
+
+/**
+ * `snapshot`, stored under `id`, with its encoded values decoded. Values
+ * stored before the codec was introduced are returned as they are.
+ *
+ * @throws SnapshotDecodeError when a value cannot be decoded (no codec, unknown key, tampered data, another run's or field's value)
+ */
+export async function decodeSnapshot(
+  id: string,
+  snapshot: WorkflowSnapshot,
+  codec: SnapshotCodec | undefined
+): Promise<WorkflowSnapshot> {
+  const steps: Record<string, StepResult> = {};
+  for (const [stepId, step] of Object.entries(snapshot.steps)) steps[stepId] = await decodeStep(step, codec, stepContext(id, stepId));
+
+  let metadata = snapshot.metadata;
+  if (metadata) {
+    metadata = { ...metadata };
+    for (const key of ENCODED_METADATA_KEYS) {
+      if (isEncodedValue(metadata[key])) {
+        metadata[key] = await decodeValue(metadata[key], codec, { workflowId: id, field: `metadata.${key}` });
+      }
+    }
+  }
+  return { ...snapshot, steps, ...(metadata ? { metadata } : {}) };
+}
+
+/** {@link encodeSnapshot} for state persisted with `serializeResumeState()`. */
+export async function encodeResumeState(
+  id: string,
+  state: SerializedResumeState,
+  options: SnapshotCodecOptions
+): Promise<SerializedResumeState> {
+  const steps: SerializedResumeState["steps"] = [];
+  for (const [stepId, step] of state.steps) {
+    if (!isRedacted(options.redact, stepId)) steps.push([stepId, await encodeStep(step, options.codec, stepContext(id, stepId))]);
+  }
+  return { ...state, steps };
+}
+
+/** {@link decodeSnapshot} for state persisted with `serializeResumeState()`. */
+export async function decodeResumeState(
+  id: string,
+  state: SerializedResumeState,
+  codec: SnapshotCodec | undefined
+): Promise<SerializedResumeState> {
+  const steps: SerializedResumeState["steps"] = [];
+  for (const [stepId, step] of state.steps) steps.push([stepId, await decodeStep(step, codec, stepContext(id, stepId))]);
+  return { ...state, steps };
+}
+
+// =============================================================================
+// Store wrapper
+// =============================================================================
+
+/** A snapshot store with whichever optional capabilities it implements. */
+type StoreWithCapabilities = SnapshotStore &
+  Partial<WorkflowLock & QueueStore & SnapshotJournal & SnapshotRevisions & SnapshotQuery> & {
+    clear?(): Promise<void>;
+  };
+
+/** What adapters save and load: snapshots, and resume state as a `Map` or serialized. */
+type StoredState = WorkflowSnapshot | ResumeState | SerializedResumeState;
+
+/** Encode `state` in the shape it came in. */
+async function encodeState(id: string, state: StoredState, options: SnapshotCodecOptions): Promise<StoredState> {
+  if (isResumeState(state)) return deserializeResumeState(await encodeResumeState(id, serializeResumeState(state), options));
+  if (isSerializedResumeState(state)) return encodeResumeState(id, state, options);
+  return encodeSnapshot(id, state, options);
+}
+
+/** Decode `state` in the shape it came in. */
+async function decodeState(id: string, state: StoredState, codec: SnapshotCodec | undefined): Promise<StoredState> {
+  if (isResumeState(state)) return deserializeResumeState(await decodeResumeState(id, serializeResumeState(state), codec));
+  if (isSerializedResumeState(state)) return decodeResumeState(id, state, codec);
+  return decodeSnapshot(id, state, codec);
+}
+
+/**
+ * Wrap `store` so snapshots are saved through {@link encodeSnapshot} and
+ * loaded through {@link decodeSnapshot}. Resume state, which adapters also
+ * accept, goes through {@link encodeResumeState} and {@link decodeResumeState}
+ * and keeps its shape.
+ *
+ * The wrapper keeps the store's optional capabilities: locks, queue state
+ * changes, queries and `clear` go straight through, claimed runs and revisioned loads
+ * are decoded, and journal deltas are encoded like full saves. Queries can
+ * still filter on metadata the codec leaves plain, such as `workflowName`.
+ *
+ * Step values offloaded with `DurableOptions.offload` live in the blob store,
+ * not here: wrap that store with {@link withBlobCodec} to encode them too.
+ */
+export function withSnapshotCodec(
+  store: SnapshotStore,
+  options: SnapshotCodecOptions
+): StoreWithCapabilities {
+  const { codec } = options;
+  const inner = store as StoreWithCapabilities;
+  const wrapped: StoreWithCapabilities = {
+    save: async (id, snapshot, saveOptions?: SnapshotSaveOptions) =>
+      (store as StoreWithCapabilities).save(id, (await encodeState(id, snapshot, options)) as WorkflowSnapshot, saveOptions),
+    load: async (id) => {
+      const snapshot = await store.load(id);
+      return snapshot && ((await decodeState(id, snapshot, codec)) as WorkflowSnapshot);
+    },
+    delete: (id) => store.delete(id),
+    list: (listOptions) => store.list(listOptions),
+    close: () => store.close(),
+  };
+
+  if (inner.clear) wrapped.clear = inner.clear.bind(store);
+  if (inner.tryAcquire) wrapped.tryAcquire = inner.tryAcquire.bind(store);
+  if (inner.release) wrapped.release = inner.release.bind(store);
+  if (inner.renew) wrapped.renew = inner.renew.bind(store);
+  if (inner.markDone) wrapped.markDone = inner.markDone.bind(store);
+  if (inner.markFailed) wrapped.markFailed = inner.markFailed.bind(store);
+  if (hasSnapshotJournal(store)) {
+    wrapped.append = async (id, delta, saveOptions) => store.append(id, await encodeSnapshot(id, delta, options), saveOptions);
+  }
+  if (hasSnapshotQuery(store)) wrapped.query = store.query.bind(store);
+  if (hasSnapshotRevisions(store)) {
+    wrapped.loadRevision = async (id) => {
+      const loaded = await store.loadRevision(id);
+      return loaded && { snapshot: await decodeSnapshot(id, loaded.snapshot, codec), revision: loaded.revision };
+    };
+  }
+  if (inner.claimNext) {
+    const claimNext = inner.claimNext.bind(store);
+    wrapped.claimNext = async (limit, claimOptions) =>
+      Promise.all(
+        (await claimNext(limit, claimOptions)).map(async ({ id, snapshot }) => ({
+          id,
+          snapshot: await decodeSnapshot(id, snapshot, codec),
+        }))
+      );
+  }
+  return wrapped;
+}
+
+/**
+ * Wrap a blob store so offloaded step values (`DurableOptions.offload`) are
+ * stored encoded and read back decoded, each bound to its blob key.
+ *
+ * @example
+ * ```typescript
+ * await durable.run(deps, fn, {
+ *   id,
+ *   store: withSnapshotCodec(store, { codec }),
+ *   offload: { store: withBlobCodec(blobs, codec) },
+ * });
+ * ```
+ */
+export function withBlobCodec(blobs: BlobStore, codec: SnapshotCodec): BlobStore {
+  const blobContext = (key: string): SnapshotCodecContext => ({ workflowId: key, field: "blob" });
+  return {
+    put: async (key, value) => blobs.put(key, await codec.encode(value, blobContext(key))),
+    get: async (key) => {
+      const value = await blobs.get(key);
+      return value === undefined ? undefined : decodeValue(value, codec, blobContext(key));
+    },
+    delete: (key) => blobs.delete(key),
+  };
+}
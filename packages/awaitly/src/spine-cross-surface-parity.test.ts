@@ -48,16 +48,18 @@ describe('spine cross-surface parity', () => {
     for (const code of analyzerCodes) {
       expect(isAwaitlySlug(code)).toBe(true);
     }
-    // The analyzer's diagnostics map onto the core spine slugs plus two
+    // The analyzer's diagnostics map onto the core spine slugs plus
     // analyzer-only slugs for control flow whose condition/iterable cannot
-    // be read statically. These have no ESLint counterpart: deciding
-    // readability needs the analyzer's expression derivation.
+    // be read statically, and for patches in-flight runs no longer need.
+    // These have no ESLint counterpart: deciding readability needs the
+    // analyzer's expression derivation, and retiring a patch needs run state.
     const expectedAnalyzerCodes = new Set([
       'step-require-id',
       'result-require-handling',
       'workflow-options-position',
       'workflow-unreadable-condition',
       'workflow-unreadable-iterable',
+      'workflow-retirable-patch',
     ]);
     expectSetEqual(analyzerCodes, expectedAnalyzerCodes, 'analyzer strict codes');
   });
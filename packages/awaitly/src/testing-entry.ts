@@ -79,4 +79,20 @@ export {
   type TestWorkflowResult,
   type TestWorkflowOptions,
   type TestStepResult,
+
+  // Adapter Conformance Suites
+  runSnapshotStoreConformance,
+  runSnapshotRevisionsConformance,
+  runSnapshotQueryConformance,
+  runWorkflowLockConformance,
+  type ConformanceTestApi,
+  type ConformanceOptions,
+  type ConformanceFactory,
+  type ConformanceSnapshotStore,
+  type ConformanceRevisionsStore,
+  type ConformanceQueryStore,
+  type SnapshotStoreConformanceOptions,
+  type SnapshotRevisionsConformanceOptions,
+  type SnapshotQueryConformanceOptions,
+  type WorkflowLockConformanceOptions,
 } from "./testing";
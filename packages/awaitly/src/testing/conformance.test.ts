@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { randomUUID } from "node:crypto";
+import { createMemorySnapshotStore, type WorkflowLock } from "../durable";
+import { mergeSnapshots, type SnapshotJournal, type SnapshotQueryOptions, type SnapshotStore } from "../persistence";
+import {
+  runSnapshotStoreConformance,
+  runSnapshotRevisionsConformance,
+  runSnapshotQueryConformance,
+  runWorkflowLockConformance,
+  type ConformanceTestApi,
+} from "./conformance";
+
+// =============================================================================
+// Test Locks
+// =============================================================================
+
+function createMemoryLock(options: { checkOwner?: boolean } = {}): WorkflowLock {
+  const leases = new Map<string, { ownerToken: string; expiresAt: number }>();
+  const held = (id: string) => {
+    const lease = leases.get(id);
+    return lease && lease.expiresAt > Date.now() ? lease : undefined;
+  };
+
+  return {
+    async tryAcquire(id, opts) {
+      if (held(id)) return null;
+      const ownerToken = randomUUID();
+      leases.set(id, { ownerToken, expiresAt: Date.now() + (opts?.ttlMs ?? 60_000) });
+      return { ownerToken };
+    },
+    async release(id, ownerToken) {
+      if (options.checkOwner === false || leases.get(id)?.ownerToken === ownerToken) leases.delete(id);
+    },
+    async renew(id, ownerToken, opts) {
+      const lease = held(id);
+      if (lease?.ownerToken !== ownerToken) return false;
+      lease.expiresAt = Date.now() + (opts?.ttlMs ?? 60_000);
+      return true;
+    },
+  };
+}
+
+/** The memory store with a journal whose appends check revisions like its saves. */
+function createJournaledMemoryStore(): ReturnType<typeof createMemorySnapshotStore> & SnapshotJournal {
+  const store = createMemorySnapshotStore();
+  return {
+    ...store,
+    async append(id, delta, options) {
+      const stored = await store.load(id);
+      await store.save(id, stored ? mergeSnapshots(stored, delta) : delta, options);
+    },
+  };
+}
+
+/** Registers a suite's tests into a list instead of a test framework, to run them by hand. */
+function collectTests(register: (api: ConformanceTestApi) => void): Array<{ name: string; fn: () => Promise<void> }> {
+  const tests: Array<{ name: string; fn: () => Promise<void> }> = [];
+  register({ describe: (_name, fn) => fn(), it: (name, fn) => tests.push({ name, fn }) });
+  return tests;
+}
+
+async function failingTests(tests: Array<{ name: string; fn: () => Promise<void> }>): Promise<string[]> {
+  const failed: string[] = [];
+  for (const test of tests) {
+    await test.fn().catch(() => failed.push(test.name));
+  }
+  return failed;
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+runSnapshotStoreConformance(() => createMemorySnapshotStore(), { describe, it, name: "memory SnapshotStore conformance" });
+
+runSnapshotRevisionsConformance(() => createJournaledMemoryStore(), { describe, it, name: "memory SnapshotRevisions conformance" });
+
+runSnapshotQueryConformance(() => createJournaledMemoryStore(), { describe, it, name: "memory SnapshotQuery conformance" });
+
+runWorkflowLockConformance(() => createMemoryLock(), { describe, it, name: "memory WorkflowLock conformance", leaseMs: 50 });
+
+describe("conformance suites", () => {
+  it("fail a store that applies list limit before ordering", async () => {
+    const buggyStore = (): SnapshotStore => {
+      const store = createMemorySnapshotStore();
+      return {
+        ...store,
+        async list(options) {
+          const all = await store.list({ prefix: options?.prefix });
+          // Insertion order, truncated before sorting
+          return all
+            .sort((a, b) => a.id.localeCompare(b.id))
+            .slice(0, options?.limit)
+            .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+        },
+      };
+    };
+
+    const tests = collectTests((api) => runSnapshotStoreConformance(buggyStore, api));
+    expect(await failingTests(tests)).toEqual(["list returns the most recently updated first, then applies limit"]);
+  });
+
+  it("fail a store whose saves ignore the expected revision", async () => {
+    const blindStore = () => {
+      const store = createMemorySnapshotStore();
+      return { ...store, save: (id: string, snapshot: Parameters<typeof store.save>[1]) => store.save(id, snapshot) };
+    };
+
+    const tests = collectTests((api) => runSnapshotRevisionsConformance(blindStore, api));
+    expect(await failingTests(tests)).toEqual([
+      "writes a conditional save only at the expected revision",
+      "lets one of two concurrent writers of a revision win",
+    ]);
+  });
+
+  it("fail a store whose query ignores metadata filters", async () => {
+    const looseStore = () => {
+      const store = createMemorySnapshotStore();
+      return { ...store, query: (options?: SnapshotQueryOptions) => store.query({ ...options, metadata: undefined }) };
+    };
+
+    const tests = collectTests((api) => runSnapshotQueryConformance(looseStore, api));
+    expect(await failingTests(tests)).toEqual(["filters by prefix, workflowName, status and metadata"]);
+  });
+
+  it("fail a lock whose release ignores the owner token", async () => {
+    const tests = collectTests((api) =>
+      runWorkflowLockConformance(() => createMemoryLock({ checkOwner: false }), { ...api, leaseMs: 50 })
+    );
+    expect(await failingTests(tests)).toEqual([
+      "release only frees the lease for its owner token",
+      "an expired lease can be taken over, and the old owner cannot release it",
+    ]);
+  });
+});
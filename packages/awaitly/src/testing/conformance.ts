@@ -0,0 +1,734 @@
+/**
+ * Conformance suites for persistence adapters.
+ *
+ * Register a shared set of tests against any `SnapshotStore` or
+ * `WorkflowLock` implementation, so a new adapter is checked for the same
+ * contract the built-in ones follow: upsert semantics, ResumeState
+ * round-trips, prefix listing in update order, conditional saves, filtered
+ * queries, lease expiry, renew, and owner-checked release.
+ *
+ * The suites use `describe` / `it` from the options, or the test globals when
+ * none are passed, and fail by throwing, so they run under vitest or jest.
+ *
+ * @example
+ * ```typescript
+ * import { describe, it } from 'vitest';
+ * import { runSnapshotStoreConformance, runWorkflowLockConformance } from 'awaitly/testing';
+ *
+ * runSnapshotStoreConformance(() => dynamoStore({ table: 'snapshots' }), { describe, it });
+ * runWorkflowLockConformance(() => dynamoStore({ table: 'snapshots' }), { describe, it });
+ * ```
+ */
+
+import { ok, err } from "../core";
+import {
+  hasSnapshotJournal,
+  type SnapshotJournal,
+  type SnapshotQuery,
+  type SnapshotQueryOptions,
+  type SnapshotRevisions,
+  type SnapshotSaveOptions,
+  type SnapshotStore,
+  type WorkflowSnapshot as PersistedSnapshot,
+} from "../persistence";
+import type { WorkflowLock } from "../durable";
+import type { ResumeState } from "../workflow/types";
+import { toResumeState, type StoreSaveInput, type StoreLoadResult } from "../workflow/store-contract";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * The parts of a test framework the suites need. vitest and jest both fit.
+ */
+export interface ConformanceTestApi {
+  describe(name: string, fn: () => void): void;
+  it(name: string, fn: () => Promise<void>, timeout?: number): void;
+}
+
+/**
+ * Options shared by the conformance suites.
+ */
+export interface ConformanceOptions extends Partial<ConformanceTestApi> {
+  /** Name of the describe block the suite registers. */
+  name?: string;
+  /** Timeout in ms passed to each `it`. */
+  timeout?: number;
+}
+
+/**
+ * Options for `runSnapshotStoreConformance`.
+ */
+export interface SnapshotStoreConformanceOptions extends ConformanceOptions {
+  /**
+   * Check that a saved ResumeState loads back as one. Turn off for stores
+   * that only accept WorkflowSnapshot.
+   * @default true
+   */
+  resumeState?: boolean;
+}
+
+/**
+ * Options for `runWorkflowLockConformance`.
+ */
+export interface WorkflowLockConformanceOptions extends ConformanceOptions {
+  /**
+   * Lease length used by the expiry and renew tests. Keep it well above the
+   * store's clock resolution and the gap between its clock and this process.
+   * @default 200
+   */
+  leaseMs?: number;
+  /**
+   * Require `renew`. Turn off for locks without heartbeats.
+   * @default true
+   */
+  renew?: boolean;
+}
+
+/**
+ * Options for `runSnapshotRevisionsConformance`.
+ */
+export interface SnapshotRevisionsConformanceOptions extends ConformanceOptions {
+  /**
+   * Check that journal appends honour `expectedRevision`. Applies only when
+   * the store implements `append`.
+   * @default true
+   */
+  journal?: boolean;
+}
+
+/**
+ * Options for `runSnapshotQueryConformance`.
+ */
+export interface SnapshotQueryConformanceOptions extends ConformanceOptions {
+  /**
+   * Check that queries see the status and metadata of journaled deltas.
+   * Applies only when the store implements `append`.
+   * @default true
+   */
+  journal?: boolean;
+}
+
+/** Creates the implementation under test; called once per test. */
+export type ConformanceFactory<T> = () => T | Promise<T>;
+
+/**
+ * A store the snapshot suite accepts: a plain `SnapshotStore`, or an adapter
+ * store whose save and load also take ResumeState (the extended contract).
+ */
+export type ConformanceSnapshotStore =
+  | SnapshotStore
+  | (Omit<SnapshotStore, "save" | "load"> & {
+      save(id: string, state: StoreSaveInput): Promise<void>;
+      load(id: string): Promise<StoreLoadResult>;
+    });
+
+type WidenedStore = Exclude<ConformanceSnapshotStore, SnapshotStore>;
+
+/**
+ * A store the revisions suite accepts: a `SnapshotStore` with
+ * `SnapshotRevisions`, or an adapter store with the extended contract whose
+ * `loadRevision` may also return ResumeState.
+ */
+export type ConformanceRevisionsStore = ConformanceSnapshotStore & {
+  loadRevision(id: string): Promise<{ snapshot: NonNullable<StoreLoadResult>; revision: number } | null>;
+  save(id: string, state: StoreSaveInput, options?: SnapshotSaveOptions): Promise<void>;
+};
+
+type WidenedRevisionsStore = SnapshotStore & SnapshotRevisions & Partial<SnapshotJournal>;
+
+/** A store the query suite accepts: any store the snapshot suite accepts, with `SnapshotQuery`. */
+export type ConformanceQueryStore = ConformanceSnapshotStore & SnapshotQuery;
+
+type WidenedQueryStore = SnapshotStore & SnapshotQuery & Partial<SnapshotJournal>;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function resolveTestApi(suite: string, options: ConformanceOptions): ConformanceTestApi {
+  const globals = globalThis as Partial<ConformanceTestApi>;
+  const describe = options.describe ?? globals.describe;
+  const it = options.it ?? globals.it;
+  if (!describe || !it) {
+    throw new Error(`${suite}: no describe/it available. Pass them in options or enable test globals.`);
+  }
+  return { describe, it };
+}
+
+/** JSON with sorted keys, so stores that reorder object keys (e.g. JSONB) still compare equal. */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+}
+
+function check(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function checkEqual(actual: unknown, expected: unknown, message: string): void {
+  const a = canonical(actual);
+  const e = canonical(expected);
+  if (a !== e) {
+    throw new Error(`${message}\n  expected: ${e}\n  received: ${a}`);
+  }
+}
+
+/** Run `write` and check it fails with a SnapshotConflictError. */
+async function checkConflict(write: () => Promise<unknown>, message: string): Promise<void> {
+  let thrown: unknown;
+  try {
+    await write();
+  } catch (error) {
+    thrown = error;
+  }
+  // By name: the adapter's error class may come from another bundle of awaitly.
+  check(
+    thrown instanceof Error && thrown.name === "SnapshotConflictError",
+    `${message} should throw SnapshotConflictError, got ${thrown === undefined ? "no error" : String(thrown)}`
+  );
+}
+
+/** Ids unique to one test, so suites can share a table with earlier runs. */
+function uniquePrefix(): string {
+  return `conformance-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}:`;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function sampleSnapshot(status: PersistedSnapshot["execution"]["status"], value: string): PersistedSnapshot {
+  return {
+    formatVersion: 1,
+    workflowName: "conformance",
+    steps: {
+      first: { ok: true, value: { value, items: [1, 2, 3] } },
+      second: { ok: false, error: "DECLINED", cause: { type: "error", name: "Error", message: "over limit" } },
+    },
+    execution: { status, lastUpdated: "2026-01-01T00:00:00.000Z", currentStepId: "second" },
+    metadata: { workflowId: "conformance", input: { amount: 10 } },
+  };
+}
+
+// =============================================================================
+// SnapshotStore
+// =============================================================================
+
+/**
+ * Register a conformance suite for a `SnapshotStore`. `factory` is called for
+ * every test and the store is closed afterwards; ids are unique per test, so
+ * the store may point at a shared table.
+ */
+export function runSnapshotStoreConformance(
+  factory: ConformanceFactory<ConformanceSnapshotStore>,
+  options: SnapshotStoreConformanceOptions = {}
+): void {
+  const { describe, it } = resolveTestApi("runSnapshotStoreConformance", options);
+  const { timeout } = options;
+
+  const withStore = (fn: (store: WidenedStore, prefix: string) => Promise<void>) => async () => {
+    const store = (await factory()) as WidenedStore;
+    try {
+      await fn(store, uniquePrefix());
+    } finally {
+      await store.close();
+    }
+  };
+
+  describe(options.name ?? "SnapshotStore conformance", () => {
+    it(
+      "load returns null for an unknown id",
+      withStore(async (store, prefix) => {
+        checkEqual(await store.load(`${prefix}missing`), null, "load of an unknown id");
+      }),
+      timeout
+    );
+
+    it(
+      "round-trips a WorkflowSnapshot",
+      withStore(async (store, prefix) => {
+        const snapshot = sampleSnapshot("suspended", "one");
+        await store.save(`${prefix}run`, snapshot);
+        const loaded = await store.load(`${prefix}run`);
+        checkEqual(loaded, snapshot, "loaded snapshot");
+        check(toResumeState(loaded) === undefined, "toResumeState of a loaded WorkflowSnapshot should be undefined");
+      }),
+      timeout
+    );
+
+    it(
+      "save upserts an existing id",
+      withStore(async (store, prefix) => {
+        await store.save(`${prefix}run`, sampleSnapshot("running", "first"));
+        await store.save(`${prefix}run`, sampleSnapshot("completed", "second"));
+        checkEqual(await store.load(`${prefix}run`), sampleSnapshot("completed", "second"), "snapshot after second save");
+        const listed = await store.list({ prefix });
+        checkEqual(
+          listed.map((entry) => entry.id),
+          [`${prefix}run`],
+          "list after saving one id twice"
+        );
+      }),
+      timeout
+    );
+
+    if (options.resumeState !== false) {
+      it(
+        "round-trips ResumeState through toResumeState",
+        withStore(async (store, prefix) => {
+          const resumeState: ResumeState = {
+            steps: new Map([
+              ["charge", { result: ok({ chargeId: "ch_1", amount: 10 }) }],
+              ["notify", { result: err("EMAIL_DOWN") }],
+            ]),
+          };
+          await store.save(`${prefix}run`, resumeState);
+          const restored = toResumeState(await store.load(`${prefix}run`));
+          check(restored !== undefined, "toResumeState of a saved ResumeState should return it");
+          // Stores may wrap error causes when serializing; compare outcomes only.
+          const outcomes = (state: ResumeState) =>
+            [...state.steps.entries()].map(([key, { result }]) => [key, result.ok, result.ok ? result.value : result.error]);
+          checkEqual(outcomes(restored!), outcomes(resumeState), "restored ResumeState steps");
+
+          await store.save(`${prefix}run`, sampleSnapshot("running", "replaced"));
+          check(
+            toResumeState(await store.load(`${prefix}run`)) === undefined,
+            "saving a WorkflowSnapshot over a ResumeState should replace it"
+          );
+        }),
+        timeout
+      );
+    }
+
+    it(
+      "delete removes a snapshot and ignores unknown ids",
+      withStore(async (store, prefix) => {
+        await store.save(`${prefix}run`, sampleSnapshot("running", "one"));
+        await store.delete(`${prefix}run`);
+        checkEqual(await store.load(`${prefix}run`), null, "load after delete");
+        checkEqual(await store.list({ prefix }), [], "list after delete");
+        await store.delete(`${prefix}missing`);
+      }),
+      timeout
+    );
+
+    it(
+      "list filters by prefix",
+      withStore(async (store, prefix) => {
+        for (const id of ["order-1", "order-2", "invoice-1"]) {
+          await store.save(`${prefix}${id}`, sampleSnapshot("running", id));
+        }
+        const listed = await store.list({ prefix: `${prefix}order-` });
+        checkEqual(
+          listed.map((entry) => entry.id).sort(),
+          [`${prefix}order-1`, `${prefix}order-2`],
+          "ids listed for the prefix"
+        );
+        for (const entry of listed) {
+          check(!Number.isNaN(Date.parse(entry.updatedAt)), `updatedAt should be a timestamp, got ${entry.updatedAt}`);
+        }
+      }),
+      timeout
+    );
+
+    it(
+      "list returns the most recently updated first, then applies limit",
+      withStore(async (store, prefix) => {
+        for (const id of ["a", "b", "c"]) {
+          await store.save(`${prefix}${id}`, sampleSnapshot("running", id));
+          await sleep(15);
+        }
+        await store.save(`${prefix}a`, sampleSnapshot("running", "a-again"));
+        const listed = await store.list({ prefix, limit: 2 });
+        checkEqual(
+          listed.map((entry) => entry.id),
+          [`${prefix}a`, `${prefix}c`],
+          "list({ limit: 2 }) after re-saving the oldest id"
+        );
+      }),
+      timeout
+    );
+  });
+}
+
+// =============================================================================
+// SnapshotRevisions
+// =============================================================================
+
+/**
+ * Register a conformance suite for a store with `SnapshotRevisions`: revision
+ * numbering, conditional saves (and appends, for journaled stores), and one
+ * winner among concurrent writers of a revision.
+ */
+export function runSnapshotRevisionsConformance(
+  factory: ConformanceFactory<ConformanceRevisionsStore>,
+  options: SnapshotRevisionsConformanceOptions = {}
+): void {
+  const { describe, it } = resolveTestApi("runSnapshotRevisionsConformance", options);
+  const { timeout } = options;
+
+  const withStore =
+    (fn: (store: WidenedRevisionsStore, prefix: string) => Promise<void>) => async () => {
+      // Only WorkflowSnapshots are saved, so the narrower contract applies.
+      const store = (await factory()) as WidenedRevisionsStore;
+      try {
+        await fn(store, uniquePrefix());
+      } finally {
+        await store.close();
+      }
+    };
+
+  const revisionOf = async (store: SnapshotRevisions, id: string) => (await store.loadRevision(id))?.revision ?? null;
+
+  describe(options.name ?? "SnapshotRevisions conformance", () => {
+    it(
+      "numbers every save from 1, and delete resets the count",
+      withStore(async (store, prefix) => {
+        checkEqual(await store.loadRevision(`${prefix}run`), null, "loadRevision of an unknown id");
+        await store.save(`${prefix}run`, sampleSnapshot("running", "first"));
+        checkEqual(
+          await store.loadRevision(`${prefix}run`),
+          { snapshot: sampleSnapshot("running", "first"), revision: 1 },
+          "loadRevision after the first save"
+        );
+        await store.save(`${prefix}run`, sampleSnapshot("running", "second"));
+        checkEqual(await revisionOf(store, `${prefix}run`), 2, "revision after the second save");
+
+        await store.delete(`${prefix}run`);
+        checkEqual(await store.loadRevision(`${prefix}run`), null, "loadRevision after delete");
+        await store.save(`${prefix}run`, sampleSnapshot("running", "again"));
+        checkEqual(await revisionOf(store, `${prefix}run`), 1, "revision of a re-created id");
+      }),
+      timeout
+    );
+
+    it(
+      "writes a conditional save only at the expected revision",
+      withStore(async (store, prefix) => {
+        await store.save(`${prefix}run`, sampleSnapshot("running", "first"), { expectedRevision: null });
+        await store.save(`${prefix}run`, sampleSnapshot("running", "second"), { expectedRevision: 1 });
+        checkEqual(await revisionOf(store, `${prefix}run`), 2, "revision after conditional saves");
+
+        await checkConflict(
+          () => store.save(`${prefix}run`, sampleSnapshot("running", "stale"), { expectedRevision: 1 }),
+          "save at a stale revision"
+        );
+        await checkConflict(
+          () => store.save(`${prefix}run`, sampleSnapshot("running", "stale"), { expectedRevision: null }),
+          "save expecting no snapshot over an existing one"
+        );
+        await checkConflict(
+          () => store.save(`${prefix}missing`, sampleSnapshot("running", "stale"), { expectedRevision: 1 }),
+          "save at a revision of an unknown id"
+        );
+        checkEqual(
+          await store.loadRevision(`${prefix}run`),
+          { snapshot: sampleSnapshot("running", "second"), revision: 2 },
+          "snapshot after rejected saves"
+        );
+        checkEqual(await store.load(`${prefix}missing`), null, "load of an id whose conditional save was rejected");
+      }),
+      timeout
+    );
+
+    it(
+      "lets one of two concurrent writers of a revision win",
+      withStore(async (store, prefix) => {
+        await store.save(`${prefix}run`, sampleSnapshot("running", "base"));
+        const outcomes = await Promise.allSettled(
+          ["a", "b"].map((writer) => store.save(`${prefix}run`, sampleSnapshot("running", writer), { expectedRevision: 1 }))
+        );
+        checkEqual(
+          outcomes.map((outcome) => outcome.status).sort(),
+          ["fulfilled", "rejected"],
+          "outcomes of two saves at the same revision"
+        );
+        const winner = outcomes[0]!.status === "fulfilled" ? "a" : "b";
+        checkEqual(
+          await store.loadRevision(`${prefix}run`),
+          { snapshot: sampleSnapshot("running", winner), revision: 2 },
+          "snapshot after the race"
+        );
+      }),
+      timeout
+    );
+
+    if (options.journal !== false) {
+      it(
+        "applies a conditional append only at the expected revision",
+        withStore(async (store, prefix) => {
+          if (!hasSnapshotJournal(store)) return;
+          await store.save(`${prefix}run`, sampleSnapshot("running", "base"));
+          const delta: PersistedSnapshot = {
+            formatVersion: 1,
+            steps: { third: { ok: true, value: 3 } },
+            execution: { status: "running", lastUpdated: "2026-01-01T00:00:01.000Z", currentStepId: "third" },
+          };
+          await store.append(`${prefix}run`, delta, { expectedRevision: 1 });
+          checkEqual(await revisionOf(store, `${prefix}run`), 2, "revision after a conditional append");
+
+          await checkConflict(
+            () => store.append(`${prefix}run`, { ...delta, steps: { fourth: { ok: true, value: 4 } } }, { expectedRevision: 1 }),
+            "append at a stale revision"
+          );
+          const loaded = await store.loadRevision(`${prefix}run`);
+          checkEqual(
+            Object.keys(loaded?.snapshot.steps ?? {}).sort(),
+            ["first", "second", "third"],
+            "steps after a rejected append"
+          );
+          checkEqual(loaded?.revision, 2, "revision after a rejected append");
+        }),
+        timeout
+      );
+    }
+  });
+}
+
+// =============================================================================
+// SnapshotQuery
+// =============================================================================
+
+/**
+ * Register a conformance suite for a store with `SnapshotQuery`: each filter,
+ * write-time bounds, and cursor paging without gaps or repeats.
+ */
+export function runSnapshotQueryConformance(
+  factory: ConformanceFactory<ConformanceQueryStore>,
+  options: SnapshotQueryConformanceOptions = {}
+): void {
+  const { describe, it } = resolveTestApi("runSnapshotQueryConformance", options);
+  const { timeout } = options;
+
+  const withStore = (fn: (store: WidenedQueryStore, prefix: string) => Promise<void>) => async () => {
+    // Only WorkflowSnapshots are saved, so the narrower contract applies.
+    const store = (await factory()) as WidenedQueryStore;
+    try {
+      await fn(store, uniquePrefix());
+    } finally {
+      await store.close();
+    }
+  };
+
+  const run = (
+    status: PersistedSnapshot["execution"]["status"],
+    metadata: Record<string, string | number | boolean>
+  ): PersistedSnapshot => {
+    const snapshot = sampleSnapshot(status, "query");
+    return { ...snapshot, metadata: { ...snapshot.metadata, ...metadata } };
+  };
+
+  /** Ids matching `query`, sorted, after checking the page is complete. */
+  const queryIds = async (store: SnapshotQuery, query: SnapshotQueryOptions) => {
+    const page = await store.query(query);
+    check(page.nextCursor === undefined, `query ${JSON.stringify(query)} should fit one page`);
+    return page.entries.map((entry) => entry.id).sort();
+  };
+
+  describe(options.name ?? "SnapshotQuery conformance", () => {
+    it(
+      "filters by prefix, workflowName, status and metadata",
+      withStore(async (store, prefix) => {
+        await store.save(`${prefix}a`, run("failed", { workflowName: "checkout", tenant: "acme", attempts: 3 }));
+        await store.save(`${prefix}b`, run("running", { workflowName: "checkout", tenant: "globex", attempts: 1 }));
+        await store.save(`${prefix}c`, run("failed", { workflowName: "refund", tenant: "acme", urgent: true }));
+        await store.save(`${prefix}d`, run("suspended", { workflowName: "checkout", tenant: "acme" }));
+
+        checkEqual(await queryIds(store, { prefix }), [`${prefix}a`, `${prefix}b`, `${prefix}c`, `${prefix}d`], "ids for the prefix");
+        checkEqual(await queryIds(store, { prefix, workflowName: "checkout" }), [`${prefix}a`, `${prefix}b`, `${prefix}d`], "ids for workflowName");
+        checkEqual(await queryIds(store, { prefix, status: "failed" }), [`${prefix}a`, `${prefix}c`], "ids for one status");
+        checkEqual(await queryIds(store, { prefix, status: ["running", "suspended"] }), [`${prefix}b`, `${prefix}d`], "ids for two statuses");
+        checkEqual(
+          await queryIds(store, { prefix, workflowName: "checkout", status: "failed" }),
+          [`${prefix}a`],
+          "ids for workflowName and status"
+        );
+        checkEqual(await queryIds(store, { prefix, metadata: { tenant: "acme" } }), [`${prefix}a`, `${prefix}c`, `${prefix}d`], "ids for a string");
+        checkEqual(await queryIds(store, { prefix, metadata: { attempts: 3 } }), [`${prefix}a`], "ids for a number");
+        checkEqual(await queryIds(store, { prefix, metadata: { urgent: true } }), [`${prefix}c`], "ids for a boolean");
+        checkEqual(
+          await queryIds(store, { prefix, metadata: { tenant: "acme", attempts: 1 } }),
+          [],
+          "ids for two metadata keys no run has together"
+        );
+      }),
+      timeout
+    );
+
+    it(
+      "filters by write time",
+      withStore(async (store, prefix) => {
+        await store.save(`${prefix}old`, run("running", {}));
+        await sleep(40);
+        await store.save(`${prefix}new`, run("running", {}));
+        const { entries } = await store.query({ prefix });
+        const at = (id: string) => Date.parse(entries.find((entry) => entry.id === `${prefix}${id}`)!.updatedAt);
+        // Between the two writes, clear of sub-millisecond store clocks.
+        const between = new Date((at("old") + at("new")) / 2);
+
+        checkEqual(await queryIds(store, { prefix, updatedAfter: between }), [`${prefix}new`], "ids updated after");
+        checkEqual(await queryIds(store, { prefix, updatedBefore: between.toISOString() }), [`${prefix}old`], "ids updated before");
+        checkEqual(
+          await queryIds(store, { prefix, updatedAfter: new Date(at("new") + 60_000) }),
+          [],
+          "ids updated after the last write"
+        );
+      }),
+      timeout
+    );
+
+    it(
+      "pages with a cursor, most recently updated first",
+      withStore(async (store, prefix) => {
+        for (const id of ["a", "b", "c", "d", "e"]) await store.save(`${prefix}${id}`, run("running", {}));
+        await sleep(15);
+        await store.save(`${prefix}b`, run("running", { touched: true }));
+
+        const seen: Array<{ id: string; updatedAt: string }> = [];
+        let cursor: string | undefined;
+        let pages = 0;
+        do {
+          const page = await store.query({ prefix, limit: 2, ...(cursor !== undefined ? { cursor } : {}) });
+          check(page.entries.length <= 2, `a page should hold at most limit entries, got ${page.entries.length}`);
+          seen.push(...page.entries);
+          cursor = page.nextCursor;
+          check(++pages <= 5, "paging should end");
+        } while (cursor !== undefined);
+
+        checkEqual(seen.map((entry) => entry.id).sort(), ["a", "b", "c", "d", "e"].map((id) => `${prefix}${id}`), "ids across pages");
+        checkEqual(seen[0]?.id, `${prefix}b`, "first id across pages");
+        for (let i = 1; i < seen.length; i++) {
+          check(
+            Date.parse(seen[i]!.updatedAt) <= Date.parse(seen[i - 1]!.updatedAt),
+            `entries should come most recently updated first, got ${seen[i - 1]!.updatedAt} then ${seen[i]!.updatedAt}`
+          );
+        }
+        checkEqual(
+          seen.map((entry) => entry.id),
+          (await store.query({ prefix })).entries.map((entry) => entry.id),
+          "paged ids against one page"
+        );
+      }),
+      timeout
+    );
+
+    if (options.journal !== false) {
+      it(
+        "sees the status and metadata of journaled deltas",
+        withStore(async (store, prefix) => {
+          if (!hasSnapshotJournal(store)) return;
+          await store.save(`${prefix}run`, run("running", { workflowName: "checkout", stage: "payment" }));
+          await store.append(`${prefix}run`, {
+            formatVersion: 1,
+            steps: { third: { ok: true, value: 3 } },
+            execution: { status: "suspended", lastUpdated: "2026-01-01T00:00:01.000Z", currentStepId: "third" },
+            metadata: { stage: "review" },
+          });
+
+          checkEqual(await queryIds(store, { prefix, status: "suspended" }), [`${prefix}run`], "ids for the appended status");
+          checkEqual(await queryIds(store, { prefix, status: "running" }), [], "ids for the replaced status");
+          checkEqual(await queryIds(store, { prefix, metadata: { stage: "review" } }), [`${prefix}run`], "ids for appended metadata");
+          checkEqual(await queryIds(store, { prefix, workflowName: "checkout" }), [`${prefix}run`], "ids for kept metadata");
+        }),
+        timeout
+      );
+    }
+  });
+}
+
+// =============================================================================
+// WorkflowLock
+// =============================================================================
+
+/**
+ * Register a conformance suite for a `WorkflowLock`. `factory` is called for
+ * every test; the lock is closed afterwards when it has a `close` method.
+ */
+export function runWorkflowLockConformance(
+  factory: ConformanceFactory<WorkflowLock & { close?(): Promise<void> }>,
+  options: WorkflowLockConformanceOptions = {}
+): void {
+  const { describe, it } = resolveTestApi("runWorkflowLockConformance", options);
+  const leaseMs = options.leaseMs ?? 200;
+  // The expiry tests sleep past a lease, so give them room beyond it.
+  const timeout = options.timeout ?? Math.max(5000, leaseMs * 10);
+
+  const withLock =
+    (fn: (lock: WorkflowLock, prefix: string) => Promise<void>) => async () => {
+      const lock = await factory();
+      try {
+        await fn(lock, uniquePrefix());
+      } finally {
+        await lock.close?.();
+      }
+    };
+
+  describe(options.name ?? "WorkflowLock conformance", () => {
+    it(
+      "grants one lease per id",
+      withLock(async (lock, prefix) => {
+        const first = await lock.tryAcquire(`${prefix}run`);
+        check(first !== null && typeof first.ownerToken === "string", "first tryAcquire should return an owner token");
+        checkEqual(await lock.tryAcquire(`${prefix}run`), null, "tryAcquire while the lease is held");
+        check((await lock.tryAcquire(`${prefix}other`)) !== null, "tryAcquire of another id should succeed");
+      }),
+      timeout
+    );
+
+    it(
+      "release only frees the lease for its owner token",
+      withLock(async (lock, prefix) => {
+        const lease = await lock.tryAcquire(`${prefix}run`);
+        check(lease !== null, "tryAcquire should succeed");
+        await lock.release(`${prefix}run`, "not-the-owner");
+        checkEqual(await lock.tryAcquire(`${prefix}run`), null, "tryAcquire after release with a wrong token");
+        await lock.release(`${prefix}run`, lease!.ownerToken);
+        check((await lock.tryAcquire(`${prefix}run`)) !== null, "tryAcquire after release by the owner should succeed");
+      }),
+      timeout
+    );
+
+    it(
+      "an expired lease can be taken over, and the old owner cannot release it",
+      withLock(async (lock, prefix) => {
+        const stale = await lock.tryAcquire(`${prefix}run`, { ttlMs: leaseMs });
+        check(stale !== null, "tryAcquire should succeed");
+        await sleep(leaseMs * 2);
+        const current = await lock.tryAcquire(`${prefix}run`, { ttlMs: leaseMs * 20 });
+        check(current !== null, "tryAcquire after the lease expired should succeed");
+        check(current!.ownerToken !== stale!.ownerToken, "a new lease should get a new owner token");
+
+        await lock.release(`${prefix}run`, stale!.ownerToken);
+        checkEqual(await lock.tryAcquire(`${prefix}run`), null, "tryAcquire after release by the expired owner");
+        if (lock.renew) {
+          check(!(await lock.renew(`${prefix}run`, stale!.ownerToken)), "renew by the expired owner should return false");
+        }
+      }),
+      timeout
+    );
+
+    if (options.renew !== false) {
+      it(
+        "renew extends a held lease and rejects other tokens",
+        withLock(async (lock, prefix) => {
+          check(typeof lock.renew === "function", "lock should implement renew (pass renew: false if it does not)");
+          const lease = await lock.tryAcquire(`${prefix}run`, { ttlMs: leaseMs });
+          check(lease !== null, "tryAcquire should succeed");
+          check(
+            await lock.renew!(`${prefix}run`, lease!.ownerToken, { ttlMs: leaseMs * 20 }),
+            "renew by the owner should return true"
+          );
+          await sleep(leaseMs * 2);
+          checkEqual(await lock.tryAcquire(`${prefix}run`), null, "tryAcquire after the original lease would have expired");
+          check(!(await lock.renew!(`${prefix}run`, "not-the-owner")), "renew with a wrong token should return false");
+        }),
+        timeout
+      );
+    }
+  });
+}
@@ -1421,3 +1421,19 @@ export function formatEvents(events: WorkflowEvent<unknown>[]): string {
 // =============================================================================
 
 export { testWorkflow, type TestWorkflowResult, type TestWorkflowOptions, type TestStepResult } from "./test-runner";
+export {
+  runSnapshotStoreConformance,
+  runSnapshotRevisionsConformance,
+  runSnapshotQueryConformance,
+  runWorkflowLockConformance,
+  type ConformanceTestApi,
+  type ConformanceOptions,
+  type ConformanceFactory,
+  type ConformanceSnapshotStore,
+  type ConformanceRevisionsStore,
+  type ConformanceQueryStore,
+  type SnapshotStoreConformanceOptions,
+  type SnapshotRevisionsConformanceOptions,
+  type SnapshotQueryConformanceOptions,
+  type WorkflowLockConformanceOptions,
+} from "./conformance";
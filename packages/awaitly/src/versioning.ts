@@ -23,6 +23,7 @@
 
 import type { ResumeState, ResumeStateEntry } from "./workflow/types";
 import { ok, err, type Result } from "./core";
+import { validateSnapshot, type WorkflowSnapshot } from "./persistence";
 
 // =============================================================================
 // Types
@@ -35,14 +36,16 @@ export type Version = number;
 
 /**
  * Migration function that transforms state from one version to the next.
+ * `S` is `ResumeState` for versioned resume state, `WorkflowSnapshot` for
+ * durable runs.
  */
-export type MigrationFn = (state: ResumeState) => ResumeState | Promise<ResumeState>;
+export type MigrationFn<S = ResumeState> = (state: S) => S | Promise<S>;
 
 /**
  * Map of migrations keyed by the source version.
  * Migration at key N transforms state from version N to version N+1.
  */
-export type Migrations = Record<Version, MigrationFn>;
+export type Migrations<S = ResumeState> = Record<Version, MigrationFn<S>>;
 
 /**
  * Versioned state includes the version number.
@@ -479,8 +482,8 @@ export function createValueTransformMigration(
  * };
  * ```
  */
-export function composeMigrations(migrations: MigrationFn[]): MigrationFn {
-  return async (state: ResumeState): Promise<ResumeState> => {
+export function composeMigrations<S = ResumeState>(migrations: MigrationFn<S>[]): MigrationFn<S> {
+  return async (state: S): Promise<S> => {
     let currentState = state;
     for (const migration of migrations) {
       currentState = await migration(currentState);
@@ -488,3 +491,143 @@ export function composeMigrations(migrations: MigrationFn[]): MigrationFn {
     return currentState;
   };
 }
+
+// =============================================================================
+// Snapshot Migrations
+// =============================================================================
+
+/** Version a snapshot was saved at; snapshots without one are version 1. */
+function snapshotVersion(snapshot: WorkflowSnapshot): Version {
+  return typeof snapshot.metadata?.version === "number" ? snapshot.metadata.version : 1;
+}
+
+/**
+ * Migrate a durable run's snapshot to `targetVersion`, one version at a time.
+ *
+ * Each migration's result is checked with `validateSnapshot` and stamped
+ * with the version it reached. This is what `durable.run` does with its
+ * `migrations` option when stored state is older than the run's `version`.
+ *
+ * @param snapshot - The stored snapshot (its version is `metadata.version`, default 1)
+ * @param targetVersion - The target version
+ * @param migrations - Migration functions keyed by source version
+ * @returns The migrated snapshot or an error
+ *
+ * @example
+ * ```typescript
+ * const migrated = await migrateSnapshot(await store.load(id), 3, {
+ *   1: createSnapshotKeyRenameMigration({ 'user:fetch': 'user:load' }),
+ *   2: (snapshot) => ({ ...snapshot, metadata: { ...snapshot.metadata, region: 'eu' } }),
+ * });
+ * ```
+ */
+export async function migrateSnapshot(
+  snapshot: WorkflowSnapshot,
+  targetVersion: Version,
+  migrations: Migrations<WorkflowSnapshot>
+): Promise<Result<WorkflowSnapshot, MigrationError | VersionIncompatibleError>> {
+  const stateVersion = snapshotVersion(snapshot);
+  if (stateVersion > targetVersion) {
+    return err({
+      type: "VERSION_INCOMPATIBLE",
+      stateVersion,
+      currentVersion: targetVersion,
+      reason: "State version is higher than current workflow version. Cannot downgrade.",
+    });
+  }
+
+  let current = snapshot;
+  for (let version = stateVersion; version < targetVersion; version++) {
+    const migration = migrations[version];
+    if (!migration) {
+      return err({
+        type: "VERSION_INCOMPATIBLE",
+        stateVersion,
+        currentVersion: targetVersion,
+        reason: `No migration found for version ${version} to ${version + 1}`,
+      });
+    }
+
+    let migrated: WorkflowSnapshot;
+    try {
+      migrated = await migration(current);
+    } catch (cause) {
+      return err({ type: "MIGRATION_ERROR", fromVersion: version, toVersion: version + 1, cause });
+    }
+    const validation = validateSnapshot(migrated);
+    if (!validation.valid) {
+      return err({
+        type: "MIGRATION_ERROR",
+        fromVersion: version,
+        toVersion: version + 1,
+        cause: new Error(`Migration produced an invalid snapshot: ${validation.errors.join("; ")}`),
+      });
+    }
+    current = { ...migrated, metadata: { ...migrated.metadata, version: version + 1 } };
+  }
+
+  return ok(current);
+}
+
+/**
+ * Rename the recorded order's keys alongside the steps, so a resumed run's
+ * shape check sees the new names. Keys mapped to `undefined` are removed,
+ * with their argument fingerprints.
+ */
+function mapSnapshotKeys(snapshot: WorkflowSnapshot, rename: (key: string) => string | undefined): WorkflowSnapshot {
+  const steps: WorkflowSnapshot["steps"] = {};
+  for (const [key, step] of Object.entries(snapshot.steps)) {
+    const newKey = rename(key);
+    if (newKey !== undefined) steps[newKey] = step;
+  }
+  if (!snapshot.metadata) return { ...snapshot, steps };
+
+  const metadata = { ...snapshot.metadata };
+  if (Array.isArray(metadata.stepOrder)) {
+    const order = metadata.stepOrder as string[];
+    const args = Array.isArray(metadata.stepArgs) ? (metadata.stepArgs as Array<string | null>) : undefined;
+    const kept = order.flatMap((key, i) => {
+      const newKey = rename(key);
+      return newKey === undefined ? [] : [{ key: newKey, args: args?.[i] ?? null }];
+    });
+    metadata.stepOrder = kept.map(({ key }) => key);
+    if (args) metadata.stepArgs = kept.map(({ args: fingerprint }) => fingerprint);
+  }
+  if (typeof metadata.lastStepKey === "string") {
+    const lastStepKey = rename(metadata.lastStepKey);
+    if (lastStepKey === undefined) delete metadata.lastStepKey;
+    else metadata.lastStepKey = lastStepKey;
+  }
+  return { ...snapshot, steps, metadata };
+}
+
+/**
+ * {@link createKeyRenameMigration} for durable snapshots.
+ *
+ * @param renames - Map of old key to new key
+ * @returns A snapshot migration function
+ *
+ * @example
+ * ```typescript
+ * await durable.run(deps, fn, {
+ *   id, store, version: 2,
+ *   migrations: { 1: createSnapshotKeyRenameMigration({ 'user:fetch': 'user:load' }) },
+ * });
+ * ```
+ */
+export function createSnapshotKeyRenameMigration(renames: Record<string, string>): MigrationFn<WorkflowSnapshot> {
+  return (snapshot) => mapSnapshotKeys(snapshot, (key) => renames[key] ?? key);
+}
+
+/**
+ * {@link createKeyRemoveMigration} for durable snapshots: use it when the
+ * steps were removed from the workflow, so the recorded order matches the
+ * code again.
+ *
+ * @param keysToRemove - Array of keys to remove
+ * @returns A snapshot migration function
+ */
+export function createSnapshotKeyRemoveMigration(keysToRemove: string[]): MigrationFn<WorkflowSnapshot> {
+  const keysSet = new Set(keysToRemove);
+  return (snapshot) => mapSnapshotKeys(snapshot, (key) => (keysSet.has(key) ? undefined : key));
+}
@@ -68,6 +68,7 @@ export {
   type RunConfig,
   type WorkflowContext,
   type StepCache,
+  type AsyncStepCache,
   type WorkflowCancelledError,
   type RunWithStateResult,
 
@@ -77,6 +78,7 @@ export {
   isStepComplete,
   isWorkflowCancelled,
   isResumeState,
+  isAsyncStepCache,
 
   // Hook primitive (suspend until HTTP callback; app calls injectHook to resume)
   type PendingHook,
@@ -104,6 +106,8 @@ export {
   serializeResumeState,
   deserializeResumeState,
   isSerializedResumeState,
+  serializeCachedResult,
+  deserializeCachedResult,
   type StoreSaveInput,
   type StoreLoadResult,
   type PersistedWorkflowState,
@@ -142,6 +146,7 @@ export {
   SnapshotFormatError,
   SnapshotMismatchError,
   SnapshotDecodeError,
+  SnapshotConflictError,
 } from "./persistence";
 
 // =============================================================================
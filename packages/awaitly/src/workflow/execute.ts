@@ -61,6 +61,7 @@ import { type Clock, systemClock } from "../clock";
 
 import type {
   StepCache,
+  AsyncStepCache,
   ResumeState,
   AnyResultFn,
   ErrorsOfDeps,
@@ -80,7 +81,7 @@ import {
   decodeCachedMeta,
 } from "./cache-encoding";
 
-import { isWorkflowCancelled } from "./guards";
+import { isAsyncStepCache, isWorkflowCancelled } from "./guards";
 import { validateInput } from "./validation";
 import { withDeps as withDepsWorkflow } from "../di";
 import type { SagaCompensationError } from "../saga";
@@ -654,7 +655,12 @@ export function createWorkflow<
 
     // Get cache from config (overrides creation-time options)
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let cache = (config?.cache ?? (optionsActual as any)?.cache) as StepCache | undefined;
+    const configuredCache = (config?.cache ?? (optionsActual as any)?.cache) as StepCache | AsyncStepCache | undefined;
+    // An async cache is usually shared across runs and processes, so restored
+    // state (resumeState / snapshot) is never written to it: it goes into a
+    // run-local map that is read first.
+    const asyncCache = configuredCache && isAsyncStepCache(configuredCache) ? configuredCache : undefined;
+    let cache = asyncCache ? undefined : (configuredCache as StepCache | undefined);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const streamStore = (config?.streamStore ?? (optionsActual as any)?.streamStore) as StreamStore | undefined;
 
@@ -746,6 +752,63 @@ export function createWorkflow<
     }
 
 
+    // Lookups in the async cache from steps started together (Promise.all,
+    // step.parallel) are queued for two microtask turns and sent as one
+    // getMany; a lone lookup still goes through get.
+    type PendingRead = {
+      key: string;
+      resolve: (result: Result<unknown, unknown> | undefined) => void;
+      reject: (error: unknown) => void;
+    };
+    let pendingReads: PendingRead[] | undefined;
+    const readShared = (shared: AsyncStepCache, key: string) =>
+      new Promise<Result<unknown, unknown> | undefined>((resolve, reject) => {
+        if (!pendingReads) {
+          const batch: PendingRead[] = [];
+          pendingReads = batch;
+          queueMicrotask(() => queueMicrotask(() => {
+            pendingReads = undefined;
+            const lookup = batch.length === 1
+              ? shared.get(batch[0].key).then(result => [result])
+              : shared.getMany(batch.map(read => read.key));
+            lookup.then(
+              results => batch.forEach((read, i) => read.resolve(results[i])),
+              error => batch.forEach(read => read.reject(error))
+            );
+          }));
+        }
+        pendingReads.push({ key, resolve, reject });
+      });
+
+    // A cache is taken as async only when it implements getMany; one whose
+    // get returns a promise without it would otherwise count every lookup
+    // as a hit.
+    const readLocal = (local: StepCache, key: string) => {
+      const result: unknown = local.get(key);
+      if (typeof (result as PromiseLike<unknown> | undefined)?.then === "function") {
+        throw new TypeError(
+          "awaitly: cache.get() returned a promise. A promise-returning cache must implement getMany() (see AsyncStepCache)."
+        );
+      }
+      return result as Result<unknown, unknown> | undefined;
+    };
+
+    // Cache access for one step. Only steps with an explicit `key` use an
+    // async cache: it is shared across runs, and step ids repeat there.
+    const cacheFor = (explicitKey: boolean) => {
+      const shared = explicitKey ? asyncCache : undefined;
+      if (!cache && !shared) return undefined;
+      return {
+        read: async (key: string): Promise<Result<unknown, unknown> | undefined> =>
+          cache?.has(key) ? readLocal(cache, key) : shared ? readShared(shared, key) : undefined,
+        write: async (key: string, result: Result<unknown, unknown>, ttl?: number): Promise<void> => {
+          const options = ttl ? { ttl } : undefined;
+          if (asyncCache) await shared?.set(key, result, options);
+          else cache?.set(key, result, options);
+        },
+      };
+    };
+
     // Track abort state and last step key for mid-execution cancellation
     let abortedDuringExecution = false;
     let abortReason: string | undefined;
@@ -872,7 +935,9 @@ export function createWorkflow<
         const stepMetadata = extractStepMetadata(opts);
 
         // Only use cache if key is provided and cache exists
-        if (key && cache && cache.has(key)) {
+        const stepCache = key ? cacheFor(Object.prototype.hasOwnProperty.call(opts, "key")) : undefined;
+        const cached = key && stepCache ? await stepCache.read(key) : undefined;
+        if (key && cached) {
           emitEvent({
             type: "step_cache_hit",
             workflowId,
@@ -882,7 +947,6 @@ export function createWorkflow<
             ...(stepMetadata && { metadata: stepMetadata }),
           });
 
-          const cached = cache.get(key)!;
           if (cached.ok) {
             // Update lastStepKey for cache hits too (step effectively completed)
             lastStepKey = key;
@@ -899,7 +963,7 @@ export function createWorkflow<
         }
 
         // Cache miss - emit event only if caching is enabled
-        if (key && cache) {
+        if (key && stepCache) {
           emitEvent({
             type: "step_cache_miss",
             workflowId,
@@ -933,9 +997,7 @@ export function createWorkflow<
           if (key) {
             // Update lastStepKey on successful completion (for cancellation reporting)
             lastStepKey = key;
-            if (cache) {
-              cache.set(key, ok(value), ttl ? { ttl } : undefined);
-            }
+            await stepCache?.write(key, ok(value), ttl);
             // Call onAfterStep hook for checkpointing (even without cache)
             await callOnAfterStepHook(key, ok(value));
           }
@@ -952,9 +1014,7 @@ export function createWorkflow<
                   ? exit.meta.thrown
                   : undefined;
             const errorResult = encodeCachedError(exit.error, exit.meta, originalCause);
-            if (cache) {
-              cache.set(key, errorResult, ttl ? { ttl } : undefined);
-            }
+            await stepCache?.write(key, errorResult, ttl);
             // Call onAfterStep hook for checkpointing (even on error, even without cache)
             await callOnAfterStepHook(key, errorResult, exit.meta);
           }
@@ -972,11 +1032,13 @@ export function createWorkflow<
       ): Promise<StepT> => {
         const { ttl } = opts;
         const key = opts.key ?? id; // step.try caches by id when key omitted (for resume)
+        const stepCache = cacheFor(opts.key !== undefined);
         const name = id;
 
         await runBeforeStep(key);
 
-        if (cache && cache.has(key)) {
+        const cached = await stepCache?.read(key);
+        if (cached) {
           emitEvent({
             type: "step_cache_hit",
             workflowId,
@@ -985,7 +1047,6 @@ export function createWorkflow<
             ts: Date.now(),
           });
 
-          const cached = cache.get(key)!;
           if (cached.ok) {
             return cached.value as StepT;
           }
@@ -993,7 +1054,7 @@ export function createWorkflow<
           throw createEarlyExit(cached.error as Err, meta);
         }
 
-        if (cache) {
+        if (stepCache) {
           emitEvent({
             type: "step_cache_miss",
             workflowId,
@@ -1012,9 +1073,7 @@ export function createWorkflow<
               compensate: opts.compensate as (v: unknown) => unknown,
             });
           }
-          if (cache) {
-            cache.set(key, ok(value), ttl ? { ttl } : undefined);
-          }
+          await stepCache?.write(key, ok(value), ttl);
           await callOnAfterStepHook(key, ok(value));
           return value;
         } catch (thrown) {
@@ -1027,9 +1086,7 @@ export function createWorkflow<
                   ? exit.meta.thrown
                   : undefined;
             const errorResult = encodeCachedError(exit.error, exit.meta, originalCause);
-            if (cache) {
-              cache.set(key, errorResult, ttl ? { ttl } : undefined);
-            }
+            await stepCache?.write(key, errorResult, ttl);
             await callOnAfterStepHook(key, errorResult, exit.meta);
           }
           throw thrown;
@@ -1046,11 +1103,13 @@ export function createWorkflow<
       ): Promise<StepT> => {
         const { ttl } = opts;
         const key = opts.key ?? id; // step.fromResult caches by id when key omitted (for resume)
+        const stepCache = cacheFor(opts.key !== undefined);
         const name = id;
 
         await runBeforeStep(key);
 
-        if (cache && cache.has(key)) {
+        const cached = await stepCache?.read(key);
+        if (cached) {
           emitEvent({
             type: "step_cache_hit",
             workflowId,
@@ -1059,7 +1118,6 @@ export function createWorkflow<
             ts: Date.now(),
           });
 
-          const cached = cache.get(key)!;
           if (cached.ok) {
             return cached.value as StepT;
           }
@@ -1067,7 +1125,7 @@ export function createWorkflow<
           throw createEarlyExit(cached.error as Err, meta);
         }
 
-        if (cache) {
+        if (stepCache) {
           emitEvent({
             type: "step_cache_miss",
             workflowId,
@@ -1079,9 +1137,7 @@ export function createWorkflow<
 
         try {
           const value = await realStep.fromResult(id, operation, { ...opts, key });
-          if (cache) {
-            cache.set(key, ok(value), ttl ? { ttl } : undefined);
-          }
+          await stepCache?.write(key, ok(value), ttl);
           await callOnAfterStepHook(key, ok(value));
           return value;
         } catch (thrown) {
@@ -1094,9 +1150,7 @@ export function createWorkflow<
                   ? exit.meta.thrown
                   : undefined;
             const errorResult = encodeCachedError(exit.error, exit.meta, originalCause);
-            if (cache) {
-              cache.set(key, errorResult, ttl ? { ttl } : undefined);
-            }
+            await stepCache?.write(key, errorResult, ttl);
             await callOnAfterStepHook(key, errorResult, exit.meta);
           }
           throw thrown;
@@ -1114,11 +1168,13 @@ export function createWorkflow<
         options: { on?: E1 & string; fallback: () => AsyncResult<StepT, E2>; key?: string }
       ): Promise<StepT> => {
         const key = options.key ?? id; // matches core withFallback cache key behavior
+        const stepCache = cacheFor(options.key !== undefined);
         const name = id;
 
         await runBeforeStep(key);
 
-        if (cache && cache.has(key)) {
+        const cached = await stepCache?.read(key);
+        if (cached) {
           emitEvent({
             type: "step_cache_hit",
             workflowId,
@@ -1127,7 +1183,6 @@ export function createWorkflow<
             ts: Date.now(),
           });
 
-          const cached = cache.get(key)!;
           if (cached.ok) {
             return cached.value as StepT;
           }
@@ -1135,7 +1190,7 @@ export function createWorkflow<
           throw createEarlyExit(cached.error as E, meta);
         }
 
-        if (cache) {
+        if (stepCache) {
           emitEvent({
             type: "step_cache_miss",
             workflowId,
@@ -1151,9 +1206,7 @@ export function createWorkflow<
             operation as () => AsyncResult<StepT, E>,
             options as { on?: E & string; fallback: () => AsyncResult<StepT, E>; key?: string }
           );
-          if (cache) {
-            cache.set(key, ok(value));
-          }
+          await stepCache?.write(key, ok(value));
           await callOnAfterStepHook(key, ok(value));
           return value;
         } catch (thrown) {
@@ -1166,9 +1219,7 @@ export function createWorkflow<
                   ? exit.meta.thrown
                   : undefined;
             const errorResult = encodeCachedError(exit.error, exit.meta, originalCause);
-            if (cache) {
-              cache.set(key, errorResult);
-            }
+            await stepCache?.write(key, errorResult);
             await callOnAfterStepHook(key, errorResult, exit.meta);
           }
           throw thrown;
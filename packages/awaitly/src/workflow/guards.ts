@@ -3,7 +3,15 @@
  */
 
 import type { WorkflowEvent } from "../core";
-import type { WorkflowCancelledError, PendingApproval, ApprovalRejected, PendingHook, ResumeState } from "./types";
+import type {
+  WorkflowCancelledError,
+  PendingApproval,
+  ApprovalRejected,
+  PendingHook,
+  ResumeState,
+  StepCache,
+  AsyncStepCache,
+} from "./types";
 
 /**
  * Type guard to check if an event is a step_complete event.
@@ -37,6 +45,16 @@ export function isResumeState(x: unknown): x is ResumeState {
   );
 }
 
+/**
+ * Type guard for {@link AsyncStepCache}: a cache implementing `getMany`.
+ * A cache whose methods return promises but which lacks `getMany` is taken as
+ * a synchronous {@link StepCache}; a workflow using it fails on the first
+ * lookup rather than treating the returned promise as a cached result.
+ */
+export function isAsyncStepCache(cache: StepCache | AsyncStepCache): cache is AsyncStepCache {
+  return typeof (cache as Partial<AsyncStepCache>).getMany === "function";
+}
+
 export function isStepComplete(
   event: WorkflowEvent<unknown>
 ): event is Extract<WorkflowEvent<unknown>, { type: "step_complete" }> {
@@ -35,8 +35,13 @@ import {
   serializeResumeState,
   deserializeResumeState,
   isSerializedResumeState,
+  isAsyncStepCache,
+  serializeCachedResult,
+  deserializeCachedResult,
+  type AsyncStepCache,
+  type StepCache,
 } from "../workflow";
-import { createMemoryCache } from "../persistence";
+import { createMemoryCache, type StepResult } from "../persistence";
 import { millis } from "../duration";
 
 describe("run() - do-notation style", () => {
@@ -2597,6 +2602,101 @@ describe("createWorkflow()", () => {
     });
   });
 
+  describe("async step cache", () => {
+    // Stores JSON like a network cache would
+    const createJsonCache = () => {
+      const entries = new Map<string, StepResult>();
+      const read = (key: string) => {
+        const entry = entries.get(key);
+        return entry && deserializeCachedResult(entry);
+      };
+      const cache: AsyncStepCache = {
+        get: async (key) => read(key),
+        getMany: async (keys) => keys.map(read),
+        set: async (key, result) => {
+          entries.set(key, JSON.parse(JSON.stringify(serializeCachedResult(result))) as StepResult);
+        },
+        has: async (key) => entries.has(key),
+        delete: async (key) => entries.delete(key),
+      };
+      return { cache, entries };
+    };
+
+    it("serves cached values and errors across runs", async () => {
+      let calls = 0;
+      const charge = async (amount: number): AsyncResult<number, "DECLINED"> => {
+        calls++;
+        return amount > 100 ? err("DECLINED", { cause: new Error("limit") }) : ok(amount);
+      };
+      const { cache } = createJsonCache();
+      const workflow = createWorkflow("workflow", { charge }, { cache });
+      const fn = (amount: number) =>
+        workflow.run(async ({ step, deps }) => step("charge", () => deps.charge(amount), { key: `charge:${amount}` }));
+
+      expect(await fn(10)).toEqual({ ok: true, value: 10 });
+      expect(await fn(10)).toEqual({ ok: true, value: 10 });
+      const declined = await fn(500);
+      const replayed = await fn(500);
+      expect(!declined.ok && declined.error).toBe("DECLINED");
+      expect(!replayed.ok && replayed.error).toBe("DECLINED");
+      expect(!replayed.ok && replayed.cause).toBeInstanceOf(Error);
+      expect(calls).toBe(2);
+      expect(isAsyncStepCache(cache)).toBe(true);
+      expect(isAsyncStepCache(new Map())).toBe(false);
+    });
+
+    it("keeps resumed and id-keyed steps out of the shared cache", async () => {
+      const fetchUser = async (id: string): AsyncResult<string, "NOT_FOUND"> => ok(`user-${id}`);
+      const { cache, entries } = createJsonCache();
+      const workflow = createWorkflow("workflow", { fetchUser }, { cache });
+
+      const resumeState: ResumeState = { steps: new Map([["user:1", { result: ok("restored") }]]) };
+      const result = await workflow.run(
+        async ({ step, deps }) => {
+          const restored = await step("first", () => deps.fetchUser("1"), { key: "user:1" });
+          const fresh = await step("second", () => deps.fetchUser("2"), { key: "user:2" });
+          const uncached = await step("third", () => deps.fetchUser("3"));
+          return [restored, fresh, uncached];
+        },
+        { resumeState }
+      );
+
+      expect(result).toEqual({ ok: true, value: ["restored", "user-2", "user-3"] });
+      expect([...entries.keys()]).toEqual(["user:2"]);
+    });
+
+    it("looks up keyed steps started together in one getMany", async () => {
+      const fetchUser = async (id: string): AsyncResult<string, "NOT_FOUND"> => ok(`user-${id}`);
+      const { cache } = createJsonCache();
+      const get = vi.spyOn(cache, "get");
+      const getMany = vi.spyOn(cache, "getMany");
+      const workflow = createWorkflow("workflow", { fetchUser }, { cache });
+      const fn = () =>
+        workflow.run(async ({ step, deps }) =>
+          Promise.all(["1", "2", "3"].map(id => step(`user-${id}`, () => deps.fetchUser(id), { key: `user:${id}` })))
+        );
+
+      expect(await fn()).toEqual({ ok: true, value: ["user-1", "user-2", "user-3"] });
+      expect(await fn()).toEqual({ ok: true, value: ["user-1", "user-2", "user-3"] });
+      expect(getMany.mock.calls).toEqual([[["user:1", "user:2", "user:3"]], [["user:1", "user:2", "user:3"]]]);
+      expect(get).not.toHaveBeenCalled();
+    });
+
+    it("rejects a promise-returning cache without getMany", async () => {
+      const fetchUser = async (id: string): AsyncResult<string, "NOT_FOUND"> => ok(`user-${id}`);
+      const { cache } = createJsonCache();
+      const { getMany: _getMany, ...withoutGetMany } = cache;
+      const workflow = createWorkflow("workflow", { fetchUser }, { cache: withoutGetMany as unknown as StepCache });
+
+      expect(isAsyncStepCache(withoutGetMany as unknown as StepCache)).toBe(false);
+      const result = await workflow.run(async ({ step, deps }) =>
+        step("user", () => deps.fetchUser("1"), { key: "user:1" })
+      );
+      expect(result.ok).toBe(false);
+      expect(!result.ok && String(result.cause)).toContain("must implement getMany()");
+    });
+  });
+
   describe("custom catchUnexpected event type soundness", () => {
     it("step_error events use catchUnexpected for uncaught exceptions", async () => {
       // step_error events should contain the mapped error from catchUnexpected, not UnexpectedError
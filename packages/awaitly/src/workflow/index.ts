@@ -21,6 +21,7 @@ export type { StreamStore } from "../streaming/types";
 // Re-export workflow types from types.ts
 export type {
   StepCache,
+  AsyncStepCache,
   ResumeStateEntry,
   ResumeState,
   RunWithStateResult,
@@ -42,12 +43,14 @@ export type {
   GatedStepOptions,
 } from "./types";
 
-export { isStepComplete, isWorkflowCancelled, isPendingApproval, isApprovalRejected, isPendingHook, isResumeState } from "./guards";
+export { isAsyncStepCache, isStepComplete, isWorkflowCancelled, isPendingApproval, isApprovalRejected, isPendingHook, isResumeState } from "./guards";
 export type { SerializedResumeState } from "./serialize-resume-state";
 export {
   serializeResumeState,
   deserializeResumeState,
   isSerializedResumeState,
+  serializeCachedResult,
+  deserializeCachedResult,
 } from "./serialize-resume-state";
 export type { StoreSaveInput, StoreLoadResult, PersistedWorkflowState } from "./store-contract";
 export { toResumeState } from "./store-contract";
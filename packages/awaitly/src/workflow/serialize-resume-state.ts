@@ -6,7 +6,7 @@
 import type { ResumeState, ResumeStateEntry } from "./types";
 import type { StepResult, SerializedCause, JSONValue } from "../persistence";
 import { serializeError, serializeThrown, deserializeCauseNew } from "../persistence";
-import { ok } from "../core";
+import { ok, type Result } from "../core";
 import { isCachedErrorCause } from "./cache-encoding";
 import { encodeCachedError } from "./cache-encoding";
 
@@ -100,3 +100,20 @@ function stepResultToEntry(sr: StepResult): ResumeStateEntry {
   const errorResult = encodeCachedError(sr.error, meta, deserializedCause);
   return { result: errorResult, meta };
 }
+
+/**
+ * A cached step result as JSON, for `AsyncStepCache` implementations
+ * that store results outside the process. Error causes are serialized the
+ * way snapshots serialize them.
+ */
+export function serializeCachedResult(result: Result<unknown, unknown>): StepResult {
+  return entryToStepResult({
+    result,
+    ...(!result.ok && isCachedErrorCause(result.cause) ? { meta: result.cause.meta } : {}),
+  });
+}
+
+/** Inverse of {@link serializeCachedResult}. */
+export function deserializeCachedResult(stepResult: StepResult): Result<unknown, unknown> {
+  return stepResultToEntry(stepResult).result;
+}
@@ -68,6 +68,44 @@ export interface StepCache {
   clear(): void;
 }
 
+/**
+ * Promise-returning {@link StepCache} for caches behind a network hop (Redis,
+ * a database table). Accepted wherever `cache` is; a cache is treated as async
+ * when it implements `getMany`, so it is required even where batching is not.
+ *
+ * An async cache is shared across runs, where step ids repeat, so only steps
+ * with an explicit `key` read and write it.
+ *
+ * Restored state (`resumeState` / `snapshot`) is kept in a run-local map in
+ * front of an async cache rather than written to it, so one run's replayed
+ * steps never reach other runs sharing the cache. Values must survive the
+ * trip through storage: use `serializeCachedResult` / `deserializeCachedResult`
+ * to store results as JSON.
+ *
+ * @example
+ * ```typescript
+ * const cache: AsyncStepCache = {
+ *   get: async (key) => decode(await redis.get(key)),
+ *   getMany: async (keys) => (await redis.mGet(keys)).map(decode),
+ *   set: async (key, result, opts) => { await redis.set(key, encode(result), { PX: opts?.ttl }); },
+ *   has: async (key) => (await redis.exists(key)) === 1,
+ *   delete: async (key) => (await redis.del(key)) === 1,
+ * };
+ * ```
+ */
+export interface AsyncStepCache {
+  get(key: string): Promise<Result<unknown, unknown> | undefined>;
+  /**
+   * Look up several keys in one round trip; results are in `keys` order.
+   * Used for the lookups of keyed steps started together, e.g. under
+   * `Promise.all` or `step.parallel`.
+   */
+  getMany(keys: readonly string[]): Promise<Array<Result<unknown, unknown> | undefined>>;
+  set(key: string, result: Result<unknown, unknown>, options?: { ttl?: number }): Promise<void>;
+  has(key: string): Promise<boolean>;
+  delete(key: string): Promise<boolean>;
+}
+
 /**
  * Entry for a saved step result with optional metadata.
  * The meta field preserves origin information for proper replay.
@@ -255,7 +293,7 @@ export type RunConfig<E, U = UnexpectedError, C = void, Deps = unknown> = Execut
   /** Override creation-time deps (partial merge). */
   deps?: Partial<Deps> | undefined;
   /** Step result cache for this run. */
-  cache?: StepCache | undefined;
+  cache?: StepCache | AsyncStepCache | undefined;
   /** Restore workflow from a previously saved snapshot. */
   snapshot?: WorkflowSnapshot | null | undefined;
   /** Stream store for this run. */
@@ -324,7 +362,7 @@ export type WorkflowOptions<E, U = UnexpectedError, C = void, Errs extends reado
   /** Create per-run context for event correlation */
   createContext?: (() => C) | undefined;
   /** Step result cache - only steps with a `key` option are cached */
-  cache?: StepCache | undefined;
+  cache?: StepCache | AsyncStepCache | undefined;
   /** Pre-populate cache from saved state for workflow resume. Prefer `snapshot` option. */
   resumeState?: ResumeState | (() => ResumeState | Promise<ResumeState>) | undefined;
   /**